@@ -1,9 +1,10 @@
 import React from "react";
-import { Alert, Image, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { Alert, Image, Platform, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
 
 import Theme from "../../constants/Theme";
+import { authApi } from "../../services/api";
 import { useAuth } from "../providers/auth-provider";
 
 const EARN_ITEMS = [
@@ -37,7 +38,7 @@ function ActionCard({ icon, label, point }: { icon: keyof typeof Ionicons.glyphM
 
 export default function ProfileScreen() {
   const router = useRouter();
-  const { logout } = useAuth();
+  const { logout, deleteAccount } = useAuth();
 
   const point = 1850;
   const nextTierPoint = 2000;
@@ -57,6 +58,43 @@ export default function ProfileScreen() {
     ]);
   };
 
+  const handleExport = async () => {
+    try {
+      const archive = await authApi.exportData();
+      await Share.share({
+        title: "TripMate 내 데이터",
+        message: JSON.stringify(archive, null, 2)
+      });
+    } catch {
+      Alert.alert("내 데이터 내려받기", "데이터를 불러오지 못했어요. 잠시 후 다시 시도해주세요.");
+    }
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      "회원 탈퇴",
+      "모든 여행 일정과 프로필이 삭제되고, 카카오로 로그인했다면 카카오 연결도 해제돼요. 삭제된 데이터는 복구할 수 없어요.",
+      [
+        { text: "취소", style: "cancel" },
+        {
+          text: "탈퇴하기",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              const warnings = await deleteAccount();
+              if (warnings.length > 0) {
+                Alert.alert("회원 탈퇴", "탈퇴가 완료됐어요. 카카오 계정 설정에서 TripMate 연결을 직접 해제해주세요.");
+              }
+              router.replace("/auth/login");
+            } catch {
+              Alert.alert("회원 탈퇴", "탈퇴 처리에 실패했어요. 잠시 후 다시 시도해주세요.");
+            }
+          }
+        }
+      ]
+    );
+  };
+
   return (
     <View style={styles.container}>
       <ScrollView style={styles.container} contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
@@ -116,6 +154,15 @@ export default function ProfileScreen() {
         <TouchableOpacity style={styles.logoutButton} onPress={handleLogout} activeOpacity={0.75}>
           <Text style={styles.logoutText}>로그아웃</Text>
         </TouchableOpacity>
+
+        <View style={styles.accountRow}>
+          <TouchableOpacity onPress={handleExport} activeOpacity={0.7}>
+            <Text style={styles.accountLink}>내 데이터 내려받기</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDeleteAccount} activeOpacity={0.7}>
+            <Text style={styles.accountLink}>회원 탈퇴</Text>
+          </TouchableOpacity>
+        </View>
       </ScrollView>
     </View>
   );
@@ -295,5 +342,16 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: Theme.colors.error,
     fontWeight: "800"
+  },
+  accountRow: {
+    marginTop: 14,
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 20
+  },
+  accountLink: {
+    fontSize: 12,
+    color: Theme.colors.textSecondary,
+    textDecorationLine: "underline"
   }
 });
@@ -3,6 +3,7 @@ import {
   View, Text, StyleSheet, ScrollView, KeyboardAvoidingView,
   Platform, TouchableOpacity, Alert,
 } from "react-native";
+import { isAxiosError } from "axios";
 import { useRouter } from "expo-router";
 
 import Colors from "../../constants/Colors";
@@ -10,6 +11,7 @@ import Spacing from "../../constants/Spacing";
 import Button from "../../components/common/Button";
 import Input from "../../components/common/Input";
 import { requestKakaoAccessToken } from "../../lib/kakao-login";
+import { toUserErrorMessage } from "../../services/apiErrors";
 import { useAuth } from "../providers/auth-provider";
 
 export default function LoginScreen() {
@@ -59,7 +61,12 @@ export default function LoginScreen() {
       await loginWithKakao(kakaoAccessToken);
       router.replace("/(tabs)");
     } catch (error) {
-      const message = error instanceof Error ? error.message : "카카오 로그인에 실패했어요.";
+      // Kakao SDK errors already read well; API errors are mapped from their code.
+      const message = isAxiosError(error)
+        ? toUserErrorMessage(error)
+        : error instanceof Error
+          ? error.message
+          : "카카오 로그인에 실패했어요.";
       Alert.alert("카카오 로그인", message);
     } finally {
       setKakaoLoading(false);
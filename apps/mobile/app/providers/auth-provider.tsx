@@ -22,7 +22,7 @@ import {
   setUserProfile
 } from "../../lib/secure-storage";
 
-import type { UserSignupProfile } from "../../types";
+import type { UserSignupProfile, UserTravelProfile } from "../../types";
 
 export type AuthStatus = "loading" | "authenticated" | "unauthenticated";
 
@@ -46,6 +46,8 @@ interface AuthContextValue {
   loginWithKakao: (kakaoAccessToken: string) => Promise<void>;
   setSession: (session: AuthSession) => Promise<void>;
   logout: () => Promise<void>;
+  // Deletes the account on the server and forgets it on this device. Resolves with server warnings.
+  deleteAccount: () => Promise<string[]>;
 }
 
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
@@ -72,6 +74,40 @@ function mergeUserProfile(
   };
 }
 
+// The server only accepts child age groups for family trips with kids.
+function pickTravelProfile(source: UserTravelProfile): UserTravelProfile {
+  return {
+    companion: source.companion,
+    purpose: source.purpose,
+    travelStyle: source.travelStyle,
+    transport: source.transport,
+    foods: source.foods,
+    childAgeGroups: source.companion === "family_kids" ? source.childAgeGroups : []
+  };
+}
+
+// The server copy wins so every device shows the same preferences. A profile that so far only
+// lives on this device is uploaded once. Offline, the device copy is kept as is.
+async function syncTravelProfile(
+  profile: UserSignupProfile,
+  hasLocalProfile: boolean
+): Promise<UserSignupProfile> {
+  try {
+    const { profile: remoteProfile } = await authApi.getProfile();
+    if (remoteProfile) {
+      return { ...profile, ...pickTravelProfile(remoteProfile) };
+    }
+
+    if (hasLocalProfile) {
+      await authApi.updateProfile(pickTravelProfile(profile));
+    }
+  } catch {
+    // Keep the device copy; the next launch retries.
+  }
+
+  return profile;
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [status, setStatus] = useState<AuthStatus>("loading");
   const [user, setUser] = useState<UserSignupProfile | null>(null);
@@ -89,28 +125,50 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   const logout = useCallback(async () => {
+    try {
+      await authApi.logout();
+    } catch {
+      // Offline or already signed out; the session still expires on the server.
+    }
     await Promise.all([clearAuthToken(), clearSessionTokens(), clearUserProfile()]);
     setUser(null);
     setStatus("unauthenticated");
   }, []);
 
+  const deleteAccount = useCallback(async () => {
+    const { confirmationToken } = await authApi.requestDeletionToken();
+    const { warnings } = await authApi.deleteAccount(confirmationToken, true);
+
+    await Promise.all([clearAuthToken(), clearSessionTokens(), clearUserProfile()]);
+    setUser(null);
+    setStatus("unauthenticated");
+    return warnings;
+  }, []);
+
   const loginWithKakao = useCallback(
     async (kakaoAccessToken: string) => {
       const existingProfile = await getUserProfile<UserSignupProfile>();
-      const response = await authApi.kakaoLogin(kakaoAccessToken);
-      const accessToken = response.data?.accessToken as string;
-      const refreshToken = response.data?.refreshToken as string;
-      const backendUser = response.data?.user as BackendAuthUser;
+      const {
+        accessToken,
+        refreshToken,
+        user: backendUser
+      } = await authApi.kakaoLogin(kakaoAccessToken);
 
       if (!accessToken || !refreshToken || !backendUser) {
         throw new Error("로그인 응답이 올바르지 않습니다.");
       }
 
+      await Promise.all([setAccessToken(accessToken), setRefreshToken(refreshToken)]);
+      const syncedProfile = await syncTravelProfile(
+        mergeUserProfile(backendUser, existingProfile),
+        existingProfile !== null
+      );
+
       await setSession({
         authToken: accessToken,
         accessToken,
         refreshToken,
-        user: mergeUserProfile(backendUser, existingProfile)
+        user: syncedProfile
       });
     },
     [setSession]
@@ -140,10 +198,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         }
 
         try {
-          const meResponse = await authApi.getMe();
-          const backendUser = meResponse.data?.user as BackendAuthUser | undefined;
+          const { user: backendUser } = await authApi.getMe();
           const mergedProfile = backendUser
-            ? mergeUserProfile(backendUser, storedUser)
+            ? await syncTravelProfile(mergeUserProfile(backendUser, storedUser), storedUser !== null)
             : storedUser;
 
           if (!isActive) {
@@ -190,9 +247,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       user,
       loginWithKakao,
       setSession,
-      logout
+      logout,
+      deleteAccount
     }),
-    [loginWithKakao, logout, setSession, status, user]
+    [deleteAccount, loginWithKakao, logout, setSession, status, user]
   );
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
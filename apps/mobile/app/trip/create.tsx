@@ -17,9 +17,12 @@ import StepAttractions from '../../components/trip/StepAttractions';
 import StepRestaurants from '../../components/trip/StepRestaurants';
 import { clearPersistedOptimizedRoute } from '../../services/routeApi';
 import { plannerApi } from '../../services/api';
+import { useAuth } from '../providers/auth-provider';
 
-import type { CompanionType, TransportType, TripRouteMapPoint } from '../../types';
-import type { AccommodationType } from '../../components/trip/StepAccommodation';
+import type { CompanionType, PlannerPreferences, TransportType, TripRouteMapPoint } from '../../types';
+import type { AccommodationType, StayItem } from '../../components/trip/StepAccommodation';
+import type { AttractionPick } from '../../components/trip/StepAttractions';
+import type { RestaurantPick } from '../../components/trip/StepRestaurants';
 
 const TOTAL_STEPS = 7;
 const STEP_LABELS = ['목적지', '날짜', '동행자', '이동수단', '숙소', '관광지', '맛집'] as const;
@@ -35,13 +38,14 @@ interface StepState {
   companion: CompanionType | null;
   transport: TransportType | null;
   accommodationType: AccommodationType | null;
-  attractions: string[];
-  restaurants: string[];
+  stay: StayItem | null;
+  attractions: AttractionPick[];
+  restaurants: RestaurantPick[];
 }
 
 const INITIAL: StepState = {
   destination: '', startDate: '', endDate: '',
-  companion: null, transport: null, accommodationType: null,
+  companion: null, transport: null, accommodationType: null, stay: null,
   attractions: [], restaurants: [],
 };
 
@@ -55,6 +59,7 @@ export default function TripCreateScreen() {
   const router = useRouter();
   const params = useLocalSearchParams<{ destination?: string }>();
   const scrollRef = useRef<ScrollView>(null);
+  const { user } = useAuth();
   const [step, setStep] = useState(1);
   const [draft, setDraft] = useState<StepState>(() => ({
     ...INITIAL,
@@ -105,6 +110,13 @@ export default function TripCreateScreen() {
   const handleBack = () => { if (step === 1) router.back(); else { setStep((s) => s - 1); scrollTop(); } };
   const handleNext = () => { if (!validate()) return; setStep((s) => Math.min(s + 1, TOTAL_STEPS)); scrollTop(); };
 
+  // The companion picked for this trip wins over the signup profile's default.
+  const buildPreferences = (): PlannerPreferences => ({
+    ...(draft.companion ? { companion: draft.companion } : {}),
+    ...(user ? { purpose: user.purpose, travelStyle: user.travelStyle, foods: user.foods } : {}),
+    ...(user && draft.companion === 'family_kids' ? { childAgeGroups: user.childAgeGroups } : {}),
+  });
+
   const handleComplete = async () => {
     if (!draft.companion || !draft.transport || !draft.accommodationType) {
       Alert.alert('', '누락된 항목이 있어요'); return;
@@ -112,19 +124,28 @@ export default function TripCreateScreen() {
     if (isSaving) return;
     setIsSaving(true);
     try {
-      const res = await plannerApi.generate({
+      const { trip } = await plannerApi.generate({
         destination: draft.destination.trim(),
         startDate: draft.startDate,
         endDate: draft.endDate,
         transport: draft.transport,
         companions: draft.companion,
+        attractions: draft.attractions,
+        restaurants: draft.restaurants,
+        lodging: {
+          type: draft.accommodationType,
+          ...(draft.stay ? { contentId: draft.stay.contentid, name: draft.stay.title } : {}),
+        },
+        preferences: buildPreferences(),
       });
-      const trip = res.data.trip;
       const routePoints: TripRouteMapPoint[] = [];
       for (const day of (trip.days ?? [])) {
         for (const place of (day.places ?? [])) {
           if (place.lat && place.lng) {
-            routePoints.push({ id: place.id, name: place.name, latitude: place.lat, longitude: place.lng });
+            routePoints.push({
+              id: place.id, name: place.name, latitude: place.lat, longitude: place.lng,
+              openingHours: place.openingHours,
+            });
           }
         }
       }
@@ -155,7 +176,7 @@ export default function TripCreateScreen() {
       case 2: return <StepDates startDate={draft.startDate} endDate={draft.endDate} onChangeStartDate={handleChangeStartDate} onChangeEndDate={handleChangeEndDate} />;
       case 3: return <StepCompanion companion={draft.companion} onSelectCompanion={(v) => update('companion', v)} />;
       case 4: return <StepTransport transport={draft.transport} onSelectTransport={(v) => update('transport', v)} />;
-      case 5: return <StepAccommodation destination={draft.destination} accommodationType={draft.accommodationType} onSelectAccommodation={(v) => update('accommodationType', v)} />;
+      case 5: return <StepAccommodation destination={draft.destination} accommodationType={draft.accommodationType} onSelectAccommodation={(v) => update('accommodationType', v)} selectedStay={draft.stay} onSelectStay={(v) => update('stay', v)} />;
       case 6: return <StepAttractions destination={draft.destination} selectedAttractions={draft.attractions} onChangeAttractions={(v) => update('attractions', v)} />;
       case 7: return <StepRestaurants destination={draft.destination} selectedRestaurants={draft.restaurants} onChangeRestaurants={(v) => update('restaurants', v)} onComplete={() => void handleComplete()} loading={isSaving} />;
       default: return null;
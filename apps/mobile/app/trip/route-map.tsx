@@ -19,6 +19,7 @@ import Colors from "../../constants/Colors";
 import Spacing from "../../constants/Spacing";
 import Theme from "../../constants/Theme";
 import Typography from "../../constants/Typography";
+import { toAppError, type ErrorMessageOverrides } from "../../services/apiErrors";
 import {
   clearPersistedOptimizedRoute,
   loadPersistedOptimizedRoute,
@@ -507,30 +508,21 @@ function sourceLabel(source: OptimizedRoute["source"]): string {
   return "예상 경로(미리보기)";
 }
 
-function toUserFriendlyRouteMessage(rawMessage: string): string {
-  const message = rawMessage.toLowerCase();
-
-  if (message.includes("at least two points")) {
-    return "출발지와 도착지를 포함해 2개 이상의 장소가 필요해요.";
-  }
-
-  if (message.includes("network") || message.includes("failed to fetch") || message.includes("connection")) {
-    return "네트워크 연결이 불안정해 실시간 경로를 불러오지 못했어요.";
-  }
-
-  if (message.includes("timeout")) {
-    return "응답이 지연되어 실시간 경로 대신 예상 경로를 먼저 보여드려요.";
-  }
-
-  if (message.includes("status") || message.includes("request failed") || message.includes("route optimization")) {
-    return "실시간 경로 서버 응답이 불안정해 예상 경로로 안내하고 있어요.";
-  }
-
-  if (message.includes("invalid")) {
-    return "경로 데이터 확인 중 문제가 있어 예상 경로를 먼저 보여드려요.";
-  }
+const FALLBACK_ROUTE_MESSAGE = "실시간 경로를 불러오지 못해 예상 경로를 먼저 보여드리고 있어요.";
+
+// Keyed by API error code. Every failure ends in the estimated route, so codes without an entry
+// share the generic notice instead of the catalog message.
+const ROUTE_ERROR_MESSAGES: ErrorMessageOverrides = {
+  VALIDATION_FAILED: "출발지와 도착지를 포함해 2개 이상의 장소가 필요해요.",
+  INVALID_REQUEST_BODY: "경로 데이터 확인 중 문제가 있어 예상 경로를 먼저 보여드려요.",
+  NETWORK_ERROR: "네트워크 연결이 불안정해 실시간 경로를 불러오지 못했어요.",
+  RATE_LIMITED: "요청이 많아 잠시 후 다시 시도할 수 있어요. 지금은 예상 경로를 보여드려요.",
+  UPSTREAM_UNAVAILABLE: "실시간 경로 서버 응답이 불안정해 예상 경로로 안내하고 있어요.",
+  INTERNAL_ERROR: "실시간 경로 서버 응답이 불안정해 예상 경로로 안내하고 있어요."
+};
 
-  return "실시간 경로를 불러오지 못해 예상 경로를 먼저 보여드리고 있어요.";
+function toUserFriendlyRouteMessage(error: unknown): string {
+  return ROUTE_ERROR_MESSAGES[toAppError(error).code] ?? FALLBACK_ROUTE_MESSAGE;
 }
 
 function formatWarning(warning: string): string {
@@ -746,8 +738,7 @@ export default function RouteMapScreen() {
       setOptimizedMode(routeRequest.mode ?? mode);
       await persistOptimizedRoute(result);
     } catch (error) {
-      const technicalMessage = error instanceof Error ? error.message : "";
-      const userMessage = toUserFriendlyRouteMessage(technicalMessage);
+      const userMessage = toUserFriendlyRouteMessage(error);
       const isSilent = options?.silent ?? false;
       const fallbackMessage = "실시간 경로 연결이 지연되어 예상 경로를 먼저 표시하고 있어요.";
       setErrorMessage(isSilent ? fallbackMessage : userMessage);
@@ -2,6 +2,18 @@ import React, { useEffect, useMemo, useState } from "react";
 import { Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from "react-native";
 import { useRouter } from "expo-router";
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import {
+  estimateTravelMinutes,
+  formatClockTime,
+  formatTimeWindows,
+  parseClockTime,
+  parseTimeWindows,
+  scheduleDay,
+  type ScheduleStop,
+  type TimeWindow,
+  type TspLocation,
+  type UnscheduledReason
+} from "@tripmate/planner";
 
 import Button from "../../components/common/Button";
 import Header from "../../components/common/Header";
@@ -27,7 +39,7 @@ interface DayTab {
 
 type DayRow = {
   id: string;
-  type: "stop" | "move";
+  type: "stop" | "move" | "skipped";
   timeText: string;
   title: string;
   detail: string;
@@ -35,6 +47,15 @@ type DayRow = {
 
 const CURRENT_TRIP_STORAGE_KEY = "currentTrip";
 const STOP_DWELL_MINUTES = 60;
+const DAY_START_TIME = "09:00";
+const DAY_END_TIME = "22:00";
+
+const UNSCHEDULED_REASON_TEXT: Record<UnscheduledReason, string> = {
+  closed: "영업시간 안에 방문할 수 없어 제외했어요.",
+  insufficient_time: "하루 일정 시간이 부족해 제외했어요.",
+  outside_day: "하루 일정 시간 밖이라 제외했어요.",
+  fixed_time_conflict: "다른 고정 일정과 시간이 겹쳐 제외했어요."
+};
 
 const DESTINATION_CENTERS: Record<string, { lat: number; lng: number }> = {
   제주: { lat: 33.4996, lng: 126.5312 },
@@ -140,6 +161,25 @@ function parseCurrentTripPoints(rawTrip: unknown): RoutePoint[] {
   return buildFallbackTripPoints(destination);
 }
 
+// Opening hours saved with the trip's places, by route point id.
+function parseOpeningHoursById(rawTrip: unknown): Map<string, TimeWindow[]> {
+  const hoursById = new Map<string, TimeWindow[]>();
+  const routePoints = rawTrip && typeof rawTrip === "object" ? (rawTrip as Record<string, unknown>).routePoints : null;
+  if (!Array.isArray(routePoints)) {
+    return hoursById;
+  }
+
+  for (const item of routePoints) {
+    const value = item && typeof item === "object" ? (item as Record<string, unknown>) : {};
+    const windows = typeof value.openingHours === "string" ? parseTimeWindows(value.openingHours) : null;
+    if (typeof value.id === "string" && windows) {
+      hoursById.set(value.id, windows);
+    }
+  }
+
+  return hoursById;
+}
+
 function parseTripMeta(rawTrip: unknown): TripMeta {
   if (!rawTrip || typeof rawTrip !== "object") {
     return { destination: "여행", startDate: "", endDate: "" };
@@ -243,13 +283,6 @@ function buildFallbackRoute(points: RoutePoint[]): OptimizedRoute | null {
   };
 }
 
-function formatClock(totalMinutes: number): string {
-  const normalized = Math.max(0, Math.round(totalMinutes));
-  const hours = Math.floor(normalized / 60);
-  const minutes = normalized % 60;
-  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
-}
-
 function formatDuration(durationMin: number): string {
   if (durationMin >= 60) {
     const hours = Math.floor(durationMin / 60);
@@ -295,7 +328,7 @@ function buildDayTabs(route: OptimizedRoute, tripMeta: TripMeta): DayTab[] {
   });
 }
 
-function buildDayRows(route: OptimizedRoute, dayTab: DayTab): DayRow[] {
+function buildDayRows(route: OptimizedRoute, dayTab: DayTab, openingHoursById: Map<string, TimeWindow[]>): DayRow[] {
   const rows: DayRow[] = [];
   const hasSegment = dayTab.segmentStart < dayTab.segmentEndExclusive;
 
@@ -305,7 +338,7 @@ function buildDayRows(route: OptimizedRoute, dayTab: DayTab): DayRow[] {
       rows.push({
         id: `${dayTab.key}-stop-alone`,
         type: "stop",
-        timeText: "09:00",
+        timeText: DAY_START_TIME,
         title: firstPoint.name ?? "방문 지점",
         detail: `위도 ${firstPoint.lat.toFixed(4)} · 경도 ${firstPoint.lng.toFixed(4)}`
       });
@@ -313,44 +346,87 @@ function buildDayRows(route: OptimizedRoute, dayTab: DayTab): DayRow[] {
     return rows;
   }
 
-  const firstSegment = route.segments[dayTab.segmentStart];
-  let cursor = 9 * 60;
+  // Route points may repeat (a round trip ends where it starts), so stops get ids of their own.
+  const segments = route.segments.slice(dayTab.segmentStart, dayTab.segmentEndExclusive);
+  const firstSegment = segments[0];
+  const start: TspLocation = { id: `${dayTab.key}-start`, lat: firstSegment.from.lat, lng: firstSegment.from.lng };
+  const stops: ScheduleStop[] = segments.map((segment, index) => {
+    const openingHours = segment.to.id ? openingHoursById.get(segment.to.id) : undefined;
+    return {
+      id: `${dayTab.key}-stop-${index}`,
+      name: segment.to.name ?? "도착 지점",
+      lat: segment.to.lat,
+      lng: segment.to.lng,
+      duration: index < segments.length - 1 ? STOP_DWELL_MINUTES : 0,
+      ...(openingHours ? { openingHours } : {})
+    };
+  });
+  const segmentByLeg = new Map(
+    segments.map((segment, index) => [`${index === 0 ? start.id : stops[index - 1].id}>${stops[index].id}`, segment])
+  );
+  const schedule = scheduleDay(stops, {
+    dayStartTime: DAY_START_TIME,
+    dayEndTime: DAY_END_TIME,
+    startLocation: start,
+    defaultDwellMinutes: STOP_DWELL_MINUTES,
+    keepOrder: true,
+    travelMinutes: (from, to) => {
+      const segment = segmentByLeg.get(`${from.id}>${to.id}`);
+      return segment ? Math.max(1, Math.round(segment.durationMin)) : estimateTravelMinutes(from, to);
+    }
+  });
 
   rows.push({
     id: `${dayTab.key}-stop-start`,
     type: "stop",
-    timeText: formatClock(cursor),
+    timeText: DAY_START_TIME,
     title: firstSegment.from.name ?? "출발 지점",
     detail: `위도 ${firstSegment.from.lat.toFixed(4)} · 경도 ${firstSegment.from.lng.toFixed(4)}`
   });
 
-  for (let index = dayTab.segmentStart; index < dayTab.segmentEndExclusive; index += 1) {
-    const segment = route.segments[index];
-    const moveStart = cursor;
-    const moveDuration = Math.max(1, Math.round(segment.durationMin));
-    const moveEnd = moveStart + moveDuration;
+  let previousId = start.id;
+  let previousName = firstSegment.from.name;
+  for (const visit of schedule.timeline) {
+    const stop = stops.find((item) => item.id === visit.id);
+    const segment = segmentByLeg.get(`${previousId}>${visit.id}`);
+    const moveStart = formatClockTime(parseClockTime(visit.arrivalTime) - visit.travelMinutes);
 
     rows.push({
-      id: `${dayTab.key}-move-${index}`,
+      id: `${visit.id}-move`,
       type: "move",
-      timeText: `${formatClock(moveStart)} - ${formatClock(moveEnd)}`,
-      title: `${segment.from.name} → ${segment.to.name}`,
-      detail: `${segment.distanceKm.toFixed(1)}km · ${formatDuration(segment.durationMin)} · ${segment.provider}`
+      timeText: `${moveStart} - ${visit.arrivalTime}`,
+      title: `${previousName} → ${visit.name}`,
+      detail: segment
+        ? `${segment.distanceKm.toFixed(1)}km · ${formatDuration(segment.durationMin)} · ${segment.provider}`
+        : `${formatDuration(visit.travelMinutes)} · 예상`
     });
-
-    cursor = moveEnd;
-
     rows.push({
-      id: `${dayTab.key}-stop-${index}`,
+      id: visit.id,
       type: "stop",
-      timeText: formatClock(cursor),
-      title: segment.to.name ?? "도착 지점",
-      detail: `위도 ${segment.to.lat.toFixed(4)} · 경도 ${segment.to.lng.toFixed(4)}`
+      timeText: visit.startTime,
+      title: visit.name ?? "도착 지점",
+      detail: stop
+        ? [
+            stop.openingHours ? `영업 ${formatTimeWindows(stop.openingHours)}` : null,
+            `위도 ${stop.lat.toFixed(4)} · 경도 ${stop.lng.toFixed(4)}`
+          ]
+            .filter(Boolean)
+            .join(" · ")
+        : ""
     });
 
-    if (index < dayTab.segmentEndExclusive - 1) {
-      cursor += STOP_DWELL_MINUTES;
-    }
+    previousId = visit.id;
+    previousName = visit.name;
+  }
+
+  for (const skipped of schedule.unscheduled) {
+    rows.push({
+      id: skipped.id,
+      type: "skipped",
+      timeText: "-",
+      title: skipped.name ?? "방문 지점",
+      detail: UNSCHEDULED_REASON_TEXT[skipped.reason]
+    });
   }
 
   return rows;
@@ -360,6 +436,7 @@ export default function ScheduleScreen() {
   const router = useRouter();
   const [route, setRoute] = useState<OptimizedRoute | null>(null);
   const [currentTripPoints, setCurrentTripPoints] = useState<RoutePoint[]>([]);
+  const [openingHoursById, setOpeningHoursById] = useState<Map<string, TimeWindow[]>>(() => new Map());
   const [tripMeta, setTripMeta] = useState<TripMeta>({ destination: "여행", startDate: "", endDate: "" });
   const [loading, setLoading] = useState(true);
   const [activeDayIndex, setActiveDayIndex] = useState(0);
@@ -383,9 +460,11 @@ export default function ScheduleScreen() {
           const parsedCurrentTrip = JSON.parse(rawCurrentTrip) as unknown;
           parsedPoints = parseCurrentTripPoints(parsedCurrentTrip);
           setCurrentTripPoints(parsedPoints);
+          setOpeningHoursById(parseOpeningHoursById(parsedCurrentTrip));
           setTripMeta(parseTripMeta(parsedCurrentTrip));
         } else {
           setCurrentTripPoints([]);
+          setOpeningHoursById(new Map());
           setTripMeta({ destination: "여행", startDate: "", endDate: "" });
         }
 
@@ -425,8 +504,8 @@ export default function ScheduleScreen() {
       return [];
     }
 
-    return buildDayRows(displayedRoute, activeDay);
-  }, [displayedRoute, activeDay]);
+    return buildDayRows(displayedRoute, activeDay, openingHoursById);
+  }, [displayedRoute, activeDay, openingHoursById]);
 
   const isFallbackTimeline = !route && !!fallbackRoute;
 
@@ -518,7 +597,7 @@ export default function ScheduleScreen() {
                       <Text style={[styles.tableTime, styles.timeCol]}>{row.timeText}</Text>
                       <View style={[styles.typeBadge, row.type === "move" ? styles.moveBadge : styles.stopBadge, styles.typeCol]}>
                         <Text style={[styles.typeBadgeText, row.type === "move" ? styles.moveBadgeText : styles.stopBadgeText]}>
-                          {row.type === "move" ? "이동" : "방문"}
+                          {row.type === "move" ? "이동" : row.type === "skipped" ? "제외" : "방문"}
                         </Text>
                       </View>
                       <View style={styles.contentCol}>
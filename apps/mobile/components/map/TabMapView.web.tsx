@@ -10,7 +10,7 @@ import {
 import { Ionicons } from "@expo/vector-icons";
 
 import Theme from "../../constants/Theme";
-import { tripsApi } from "../../services/api";
+import { contractApi } from "../../services/api";
 
 interface PlaceMarker {
   id: string;
@@ -142,23 +142,20 @@ export default function TabMapViewWeb() {
   const loadMarkers = useCallback(async () => {
     setLoadingMarkers(true);
     try {
-      const res = await tripsApi.list();
-      const trips = res.data.trips ?? [];
+      const { trips } = await contractApi.listTrips();
       const allMarkers: PlaceMarker[] = [];
 
       for (const trip of trips) {
-        const days = (trip as { days?: Array<{ places?: Array<Record<string, unknown>> }> }).days ?? [];
-        for (const day of days) {
-          const places = day.places ?? [];
-          for (const place of places) {
-            if (typeof place.lat === "number" && typeof place.lng === "number") {
+        for (const day of trip.days) {
+          for (const place of day.places) {
+            if (place.lat !== null && place.lng !== null) {
               allMarkers.push({
-                id: String(place.id ?? `${trip.id}-${place.name}`),
-                name: String(place.name ?? "장소"),
+                id: place.id,
+                name: place.name,
                 lat: place.lat,
                 lng: place.lng,
-                category: String(place.category ?? "attraction"),
-                tripTitle: String((trip as { title?: string }).title ?? "여행")
+                category: place.category,
+                tripTitle: trip.title
               });
             }
           }
@@ -10,15 +10,17 @@ import { tourismApi } from '../../services/api';
 
 export type AccommodationType = 'hotel' | 'resort' | 'pension' | 'guesthouse' | 'pool_villa';
 
+export interface StayItem {
+  contentid: string; title: string; addr1: string;
+  firstimage?: string; tel?: string;
+}
+
 interface Props {
   destination: string;
   accommodationType: AccommodationType | null;
   onSelectAccommodation: (t: AccommodationType) => void;
-}
-
-interface StayItem {
-  contentid: string; title: string; addr1: string;
-  firstimage?: string; tel?: string;
+  selectedStay: StayItem | null;
+  onSelectStay: (s: StayItem | null) => void;
 }
 
 const OPTIONS: { key: AccommodationType; emoji: string; title: string; desc: string }[] = [
@@ -29,7 +31,7 @@ const OPTIONS: { key: AccommodationType; emoji: string; title: string; desc: str
   { key: 'pool_villa', emoji: '🏖️', title: '풀빌라', desc: '프리미엄' },
 ];
 
-export default function StepAccommodation({ destination, accommodationType, onSelectAccommodation }: Props) {
+export default function StepAccommodation({ destination, accommodationType, onSelectAccommodation, selectedStay, onSelectStay }: Props) {
   const [sheetOpen, setSheetOpen] = useState(false);
   const [stays, setStays] = useState<StayItem[]>([]);
   const [loading, setLoading] = useState(false);
@@ -101,6 +103,16 @@ export default function StepAccommodation({ destination, accommodationType, onSe
         <Text style={styles.sheetBtnText}>추천 숙소 보기 ({filtered.length}곳)</Text>
       </TouchableOpacity>
 
+      {selectedStay ? (
+        <View style={styles.selectedStay}>
+          <Ionicons name="bed-outline" size={16} color={Theme.colors.primary} />
+          <Text style={styles.selectedStayText} numberOfLines={1}>{selectedStay.title}</Text>
+          <TouchableOpacity onPress={() => onSelectStay(null)} hitSlop={8}>
+            <Ionicons name="close-circle" size={18} color={Theme.colors.textTertiary} />
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
       <BottomSheet visible={sheetOpen} onClose={() => setSheetOpen(false)} title={`${destination} 숙소`}>
         {error ? <Text style={styles.errText}>{error}</Text> : null}
         {loading ? (
@@ -111,7 +123,11 @@ export default function StepAccommodation({ destination, accommodationType, onSe
             keyExtractor={(i) => i.contentid}
             style={{ maxHeight: 400 }}
             renderItem={({ item }) => (
-              <View style={styles.stayRow}>
+              <TouchableOpacity
+                style={[styles.stayRow, selectedStay?.contentid === item.contentid && styles.stayRowSel]}
+                onPress={() => { onSelectStay(item); setSheetOpen(false); }}
+                activeOpacity={0.7}
+              >
                 {item.firstimage ? (
                   <Image source={{ uri: item.firstimage }} style={styles.stayImg} />
                 ) : (
@@ -124,7 +140,7 @@ export default function StepAccommodation({ destination, accommodationType, onSe
                   <Text style={styles.stayAddr} numberOfLines={1}>{item.addr1}</Text>
                   {item.tel && <Text style={styles.stayTel}>{item.tel}</Text>}
                 </View>
-              </View>
+              </TouchableOpacity>
             )}
             ListEmptyComponent={<Text style={styles.emptyText}>숙소 정보가 없습니다</Text>}
           />
@@ -176,6 +192,13 @@ const styles = StyleSheet.create({
     padding: Theme.spacing.md, marginBottom: Theme.spacing.sm,
     borderWidth: 1, borderColor: Theme.colors.borderLight,
   },
+  stayRowSel: { borderColor: Theme.colors.primary, backgroundColor: Theme.colors.primaryLight },
+  selectedStay: {
+    flexDirection: 'row', alignItems: 'center', gap: 6,
+    backgroundColor: Theme.colors.primaryLight, borderRadius: Theme.radius.full,
+    paddingHorizontal: 14, paddingVertical: 10, marginTop: Theme.spacing.md,
+  },
+  selectedStayText: { ...Theme.typography.body2, fontWeight: '700', color: Theme.colors.primary, flex: 1 },
   stayImg: { width: 60, height: 60, borderRadius: Theme.radius.sm, marginRight: Theme.spacing.md },
   stayImgPh: { backgroundColor: Theme.colors.background, alignItems: 'center', justifyContent: 'center' },
   stayName: { ...Theme.typography.body2, fontWeight: '700', color: Theme.colors.textPrimary },
@@ -7,15 +7,19 @@ import { Ionicons } from '@expo/vector-icons';
 import { Theme } from '../../constants/Theme';
 import { tourismApi } from '../../services/api';
 
+// TourAPI item as returned by the search; sent back as-is so the planner can skip a detail lookup.
+export interface AttractionPick {
+  contentid: string; title: string; addr1: string; firstimage?: string;
+  mapx?: string; mapy?: string;
+}
+
 interface Props {
   destination: string;
-  selectedAttractions: string[];
-  onChangeAttractions: (v: string[]) => void;
+  selectedAttractions: AttractionPick[];
+  onChangeAttractions: (v: AttractionPick[]) => void;
 }
 
-interface Item {
-  contentid: string; title: string; addr1: string; firstimage?: string;
-}
+type Item = AttractionPick;
 
 const CATS = [
   { key: 'all', label: '전체', icon: 'apps-outline' },
@@ -56,11 +60,13 @@ export default function StepAttractions({ destination, selectedAttractions, onCh
     const np = page + 1; setPage(np); fetchData(np, cat);
   };
 
-  const toggle = (id: string) => {
+  const isSelected = (id: string) => selectedAttractions.some((v) => v.contentid === id);
+
+  const toggle = (item: Item) => {
     onChangeAttractions(
-      selectedAttractions.includes(id)
-        ? selectedAttractions.filter((v) => v !== id)
-        : [...selectedAttractions, id]
+      isSelected(item.contentid)
+        ? selectedAttractions.filter((v) => v.contentid !== item.contentid)
+        : [...selectedAttractions, item]
     );
   };
 
@@ -109,9 +115,9 @@ export default function StepAttractions({ destination, selectedAttractions, onCh
         ListFooterComponent={loading ? <ActivityIndicator color={Theme.colors.primary} style={{ margin: 12 }} /> : null}
         ListEmptyComponent={!loading ? <Text style={styles.emptyText}>검색 결과가 없어요</Text> : null}
         renderItem={({ item }) => {
-          const sel = selectedAttractions.includes(item.contentid);
+          const sel = isSelected(item.contentid);
           return (
-            <TouchableOpacity style={[styles.card, sel && styles.cardSel]} onPress={() => toggle(item.contentid)} activeOpacity={0.7}>
+            <TouchableOpacity style={[styles.card, sel && styles.cardSel]} onPress={() => toggle(item)} activeOpacity={0.7}>
               {item.firstimage ? (
                 <Image source={{ uri: item.firstimage }} style={styles.cardImg} />
               ) : (
@@ -7,18 +7,24 @@ import { Ionicons } from '@expo/vector-icons';
 import { Theme } from '../../constants/Theme';
 import { restaurantApi } from '../../services/api';
 
+// Naver local search item; the planner needs mapx/mapy to place it on the route.
+export interface RestaurantPick {
+  title: string; category: string;
+  address: string; roadAddress: string; telephone: string;
+  mapx?: string; mapy?: string;
+}
+
 interface Props {
   destination: string;
-  selectedRestaurants: string[];
-  onChangeRestaurants: (v: string[]) => void;
+  selectedRestaurants: RestaurantPick[];
+  onChangeRestaurants: (v: RestaurantPick[]) => void;
   onComplete: () => void;
   loading?: boolean;
 }
 
-interface Item {
-  title: string; category: string;
-  address: string; roadAddress: string; telephone: string;
-}
+type Item = RestaurantPick;
+
+const pickKey = (item: Item) => `${item.title}|${item.roadAddress || item.address}`;
 
 const CATS = [
   { key: '맛집', label: '전체', icon: 'restaurant-outline' },
@@ -49,11 +55,13 @@ export default function StepRestaurants({ destination, selectedRestaurants, onCh
 
   useEffect(() => { fetch_(cat); }, [destination, cat, fetch_]);
 
-  const toggle = (title: string) => {
+  const isSelected = (item: Item) => selectedRestaurants.some((v) => pickKey(v) === pickKey(item));
+
+  const toggle = (item: Item) => {
     onChangeRestaurants(
-      selectedRestaurants.includes(title)
-        ? selectedRestaurants.filter((v) => v !== title)
-        : [...selectedRestaurants, title]
+      isSelected(item)
+        ? selectedRestaurants.filter((v) => pickKey(v) !== pickKey(item))
+        : [...selectedRestaurants, item]
     );
   };
 
@@ -97,9 +105,9 @@ export default function StepRestaurants({ destination, selectedRestaurants, onCh
         ListFooterComponent={fetching ? <ActivityIndicator color={Theme.colors.primary} style={{ margin: 12 }} /> : null}
         ListEmptyComponent={!fetching ? <Text style={styles.emptyText}>검색 결과가 없어요</Text> : null}
         renderItem={({ item }) => {
-          const sel = selectedRestaurants.includes(item.title);
+          const sel = isSelected(item);
           return (
-            <TouchableOpacity style={[styles.card, sel && styles.cardSel]} onPress={() => toggle(item.title)} activeOpacity={0.7}>
+            <TouchableOpacity style={[styles.card, sel && styles.cardSel]} onPress={() => toggle(item)} activeOpacity={0.7}>
               <View style={[styles.cardIcon, sel && styles.cardIconSel]}>
                 <Text style={{ fontSize: 22 }}>🍽️</Text>
               </View>
@@ -1,10 +1,32 @@
 import axios, { type AxiosRequestConfig } from "axios";
+import { Platform } from "react-native";
 import {
   clearSessionTokens,
   getAccessToken,
   getRefreshToken,
   setAccessToken,
+  setRefreshToken,
 } from "../lib/secure-storage";
+import type { UserTravelProfile } from "../types";
+import {
+  createApiClient,
+  type CreateFlightRequest,
+  type CreateInviteRequest,
+  type CreateRentcarRequest,
+  type CreateStayRequest,
+  type CreateTripRequest,
+  type DayInput,
+  type GenerateItineraryRequest,
+  type LinkIdentityRequest,
+  type PlaceInput,
+  type ReplanTripRequest,
+  type RouteTransportMode,
+  type UpdateFlightRequest,
+  type UpdatePlaceRequest,
+  type UpdateRentcarRequest,
+  type UpdateStayRequest,
+  type UpdateTripRequest,
+} from "./generated/api-client";
 
 const API_BASE = process.env.EXPO_PUBLIC_API_BASE_URL ?? "http://localhost:4000";
 const API_PREFIX = "/api/v1";
@@ -31,6 +53,20 @@ function applyAuthorizationHeader(
   };
 }
 
+// The server rotates the refresh token on every use and treats a second use of the old one as
+// theft, so concurrent 401s must share a single refresh call.
+let refreshInFlight: Promise<string> | null = null;
+
+async function refreshSessionTokens(refreshToken: string): Promise<string> {
+  const res = await axios.post(`${API_BASE}${API_PREFIX}/auth/refresh`, { refreshToken });
+  const accessToken = res.data.accessToken as string;
+  await Promise.all([
+    setAccessToken(accessToken),
+    setRefreshToken(res.data.refreshToken as string),
+  ]);
+  return accessToken;
+}
+
 const apiClient = axios.create({
   baseURL: `${API_BASE}${API_PREFIX}`,
   timeout: 15000,
@@ -47,7 +83,15 @@ apiClient.interceptors.response.use(
   (response) => response,
   async (error) => {
     const originalRequest = error.config as RetriableRequestConfig | undefined;
-    const isUnauthorized = error.response?.status === 401;
+    // Only an expired or missing access token is worth a refresh; other 401s (a rejected social
+    // login token, a signed-out session) would fail again.
+    const code = error.response?.data?.code;
+    if (code === "SESSION_REVOKED") {
+      // Signed out from another device; the refresh token died with the session.
+      await clearSessionTokens();
+      return Promise.reject(error);
+    }
+    const isUnauthorized = code === "AUTH_TOKEN_INVALID" || code === "AUTH_REQUIRED";
     if (!isUnauthorized || !originalRequest || originalRequest._retry) {
       return Promise.reject(error);
     }
@@ -61,9 +105,10 @@ apiClient.interceptors.response.use(
     }
     originalRequest._retry = true;
     try {
-      const res = await axios.post(`${API_BASE}${API_PREFIX}/auth/refresh`, { refreshToken });
-      const newToken = res.data.accessToken as string;
-      await setAccessToken(newToken);
+      refreshInFlight ??= refreshSessionTokens(refreshToken).finally(() => {
+        refreshInFlight = null;
+      });
+      const newToken = await refreshInFlight;
       applyAuthorizationHeader(originalRequest, newToken);
       return apiClient(originalRequest as AxiosRequestConfig);
     } catch {
@@ -75,6 +120,19 @@ apiClient.interceptors.response.use(
 
 export default apiClient;
 
+// Typed calls generated from the server's API contract (services/api/src/contract). They share
+// apiClient, so auth headers and the refresh-on-401 flow apply unchanged. authApi, plannerApi and
+// tripsApi below delegate to them wherever the contract covers the route.
+export const contractApi = createApiClient(async (request) => {
+  const res = await apiClient.request({
+    method: request.method,
+    url: request.path,
+    params: request.query,
+    data: request.body,
+  });
+  return res.data;
+});
+
 export const tourismApi = {
   getAttractions: (area: string, page?: number, contentType?: string) =>
     apiClient.get("/tourism/attractions", { params: { area, page, contentType } }),
@@ -108,44 +166,89 @@ export const addressApi = {
     apiClient.get("/address/search", { params: { keyword, page } }),
 };
 
+const deviceName = () => `${Platform.OS} ${Platform.Version}`;
+
+export type LoginProvider = "kakao" | "naver" | "apple";
+
 export const authApi = {
   kakaoLogin: (kakaoAccessToken: string) =>
-    apiClient.post("/auth/login/kakao", { kakaoAccessToken }),
-  getMe: () => apiClient.get("/auth/me"),
-  logout: () => apiClient.post("/auth/logout"),
+    contractApi.login("kakao", { kakaoAccessToken, deviceName: deviceName() }),
+  naverLogin: (naverAccessToken: string) =>
+    contractApi.login("naver", { naverAccessToken, deviceName: deviceName() }),
+  // Apple hands the app the user's name only on the first sign-in.
+  appleLogin: (identityToken: string, nickname?: string) =>
+    contractApi.login("apple", { identityToken, nickname, deviceName: deviceName() }),
+  exportData: () => contractApi.exportAccount(),
+  requestDeletionToken: () => contractApi.createDeletionToken(),
+  deleteAccount: (confirmationToken: string, unlinkKakao: boolean) =>
+    contractApi.deleteAccount({ confirmationToken, unlinkKakao }),
+  getIdentities: () => contractApi.listIdentities(),
+  linkIdentity: (provider: LoginProvider, credential: LinkIdentityRequest) =>
+    contractApi.linkIdentity(provider, credential),
+  unlinkIdentity: (provider: LoginProvider) => contractApi.unlinkIdentity(provider),
+  getMe: () => contractApi.getMe(),
+  getProfile: () => contractApi.getProfile(),
+  updateProfile: (profile: UserTravelProfile) => contractApi.saveProfile(profile),
+  logout: () => contractApi.logout(),
+  getSessions: () => contractApi.listSessions(),
+  revokeSession: (sessionId: string) => contractApi.revokeSession(sessionId),
 };
 
 export const plannerApi = {
-  generate: (params: {
-    destination: string;
-    startDate: string;
-    endDate: string;
-    transport?: string;
-    companions?: string;
-    attractionKeywords?: string[];
-    restaurantKeywords?: string[];
-  }) => apiClient.post("/planner/generate", params),
-  replan: (tripId: string) => apiClient.post(`/planner/trips/${tripId}/replan`),
-  summary: (tripId: string) => apiClient.get(`/planner/trips/${tripId}/summary`),
+  // Attractions and restaurants are scheduled before any recommendation; preferences rank the
+  // recommendations and add a `scoring` breakdown to the response.
+  generate: (body: GenerateItineraryRequest) => contractApi.generateItinerary(body),
+  replan: (tripId: string, body: ReplanTripRequest = {}) => contractApi.replanTrip(tripId, body),
+  // Returns proposed indoor swaps for rainy days; nothing is changed until they are applied.
+  weatherCheck: (tripId: string, dayNumber?: number) =>
+    contractApi.checkTripWeather(tripId, dayNumber ? { dayNumber } : {}),
+  summary: (tripId: string) => contractApi.getTripSummary(tripId),
+  optimizeDayRoute: (tripId: string, dayNumber: number, mode?: RouteTransportMode) =>
+    contractApi.optimizeTripDayRoute(tripId, String(dayNumber), mode ? { mode } : {}),
   suggestions: () => apiClient.get("/planner/suggestions/destinations"),
 };
 
 export const tripsApi = {
-  list: () => apiClient.get("/trips"),
-  create: (data: Record<string, unknown>) => apiClient.post("/trips", data),
-  get: (tripId: string) => apiClient.get(`/trips/${tripId}`),
-  update: (tripId: string, data: Record<string, unknown>) =>
-    apiClient.patch(`/trips/${tripId}`, data),
-  delete: (tripId: string) => apiClient.delete(`/trips/${tripId}`),
-  getDays: (tripId: string) => apiClient.get(`/trips/${tripId}/days`),
-  createDay: (tripId: string, data: Record<string, unknown>) =>
-    apiClient.post(`/trips/${tripId}/days`, data),
-  getPlaces: (tripId: string, dayId: string) =>
-    apiClient.get(`/trips/${tripId}/days/${dayId}/places`),
-  createPlace: (tripId: string, dayId: string, data: Record<string, unknown>) =>
-    apiClient.post(`/trips/${tripId}/days/${dayId}/places`, data),
-  updatePlace: (tripId: string, dayId: string, placeId: string, data: Record<string, unknown>) =>
-    apiClient.patch(`/trips/${tripId}/days/${dayId}/places/${placeId}`, data),
+  list: () => contractApi.listTrips(),
+  create: (data: CreateTripRequest) => contractApi.createTrip(data),
+  get: (tripId: string) => contractApi.getTrip(tripId),
+  update: (tripId: string, data: UpdateTripRequest) => contractApi.updateTrip(tripId, data),
+  delete: (tripId: string) => contractApi.deleteTrip(tripId),
+  getDays: (tripId: string) => contractApi.listDays(tripId),
+  createDay: (tripId: string, data: DayInput) => contractApi.createDay(tripId, data),
+  getPlaces: (tripId: string, dayId: string) => contractApi.listPlaces(tripId, dayId),
+  createPlace: (tripId: string, dayId: string, data: PlaceInput) =>
+    contractApi.createPlace(tripId, dayId, data),
+  updatePlace: (tripId: string, dayId: string, placeId: string, data: UpdatePlaceRequest) =>
+    contractApi.updatePlace(tripId, dayId, placeId, data),
   deletePlace: (tripId: string, dayId: string, placeId: string) =>
-    apiClient.delete(`/trips/${tripId}/days/${dayId}/places/${placeId}`),
+    contractApi.deletePlace(tripId, dayId, placeId),
+  getFlights: (tripId: string) => contractApi.listFlights(tripId),
+  createFlight: (tripId: string, data: CreateFlightRequest) => contractApi.createFlight(tripId, data),
+  updateFlight: (tripId: string, flightId: string, data: UpdateFlightRequest) =>
+    contractApi.updateFlight(tripId, flightId, data),
+  deleteFlight: (tripId: string, flightId: string) => contractApi.deleteFlight(tripId, flightId),
+  getRentcars: (tripId: string) => contractApi.listRentcars(tripId),
+  createRentcar: (tripId: string, data: CreateRentcarRequest) => contractApi.createRentcar(tripId, data),
+  updateRentcar: (tripId: string, rentcarId: string, data: UpdateRentcarRequest) =>
+    contractApi.updateRentcar(tripId, rentcarId, data),
+  deleteRentcar: (tripId: string, rentcarId: string) => contractApi.deleteRentcar(tripId, rentcarId),
+  getWeather: (tripId: string) => contractApi.getTripWeather(tripId),
+  // Festivals during the trip, offered per day with conflicts; accepting one is a regular place create.
+  getEvents: (tripId: string) => contractApi.getTripEvents(tripId),
+  getStays: (tripId: string) => contractApi.listStays(tripId),
+  createStay: (tripId: string, data: CreateStayRequest) => contractApi.createStay(tripId, data),
+  updateStay: (tripId: string, stayId: string, data: UpdateStayRequest) =>
+    contractApi.updateStay(tripId, stayId, data),
+  deleteStay: (tripId: string, stayId: string) => contractApi.deleteStay(tripId, stayId),
+  getMembers: (tripId: string) => contractApi.listTripMembers(tripId),
+  removeMember: (tripId: string, memberId: string) => contractApi.removeTripMember(tripId, memberId),
+  getInvites: (tripId: string) => contractApi.listTripInvites(tripId),
+  createInvite: (tripId: string, params: CreateInviteRequest = {}) =>
+    contractApi.createTripInvite(tripId, params),
+  revokeInvite: (tripId: string, inviteId: string) => contractApi.revokeTripInvite(tripId, inviteId),
+  acceptInvite: (token: string) => contractApi.acceptTripInvite({ token }),
+  getHistory: (tripId: string, params?: { limit?: number; cursor?: string }) =>
+    contractApi.listTripHistory(tripId, params),
+  revertHistory: (tripId: string, entryId: string) => contractApi.revertTripHistory(tripId, entryId),
 };
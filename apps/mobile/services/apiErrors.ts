@@ -0,0 +1,82 @@
+import { isAxiosError } from "axios";
+
+import { ERROR_MESSAGES, type ErrorCode, type ErrorLocale, type FieldError } from "./generated/api-client";
+
+// Server codes come from the API's error catalog; the two client codes cover failures where no
+// error body arrived at all.
+export type AppErrorCode = ErrorCode | "NETWORK_ERROR" | "UNKNOWN_ERROR";
+
+export interface AppError {
+  code: AppErrorCode;
+  status?: number;
+  details: FieldError[];
+}
+
+export type ErrorMessageOverrides = Partial<Record<AppErrorCode, string>>;
+
+const CLIENT_ERROR_MESSAGES: Record<"NETWORK_ERROR" | "UNKNOWN_ERROR", Record<ErrorLocale, string>> = {
+  NETWORK_ERROR: {
+    ko: "네트워크 연결을 확인한 뒤 다시 시도해주세요.",
+    en: "Check your network connection and try again."
+  },
+  UNKNOWN_ERROR: {
+    ko: "알 수 없는 오류가 발생했어요. 잠시 후 다시 시도해주세요.",
+    en: "Something went wrong. Please try again."
+  }
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ERROR_MESSAGES, value);
+}
+
+function readDetails(value: unknown): FieldError[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is FieldError => isRecord(item) && typeof item.message === "string")
+    : [];
+}
+
+// Accepts an axios error, or any error carrying `code`/`status`/`details` (e.g. RouteApiError).
+export function toAppError(error: unknown): AppError {
+  if (isAxiosError(error)) {
+    const body: unknown = error.response?.data;
+    if (!error.response) {
+      return { code: "NETWORK_ERROR", details: [] };
+    }
+    return {
+      code: isRecord(body) && isErrorCode(body.code) ? body.code : "UNKNOWN_ERROR",
+      status: error.response.status,
+      details: isRecord(body) ? readDetails(body.details) : []
+    };
+  }
+
+  if (isRecord(error)) {
+    const code = error.code;
+    return {
+      code: isErrorCode(code) || code === "NETWORK_ERROR" ? code : "UNKNOWN_ERROR",
+      status: typeof error.status === "number" ? error.status : undefined,
+      details: readDetails(error.details)
+    };
+  }
+
+  return { code: "UNKNOWN_ERROR", details: [] };
+}
+
+export function errorMessageFor(code: AppErrorCode, locale: ErrorLocale = "ko"): string {
+  return code === "NETWORK_ERROR" || code === "UNKNOWN_ERROR"
+    ? CLIENT_ERROR_MESSAGES[code][locale]
+    : ERROR_MESSAGES[code][locale];
+}
+
+// What to show the user for a failed call. Screens pass overrides for codes where they can say
+// something more specific, e.g. the route screen falling back to an estimated route.
+export function toUserErrorMessage(
+  error: unknown,
+  options: { overrides?: ErrorMessageOverrides; locale?: ErrorLocale } = {}
+): string {
+  const { code } = toAppError(error);
+  return options.overrides?.[code] ?? errorMessageFor(code, options.locale);
+}
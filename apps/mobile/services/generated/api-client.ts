@@ -0,0 +1,1214 @@
+// Generated from the API contract in services/api/src/contract. Do not edit by hand;
+// run `npm run contract:generate` in services/api instead.
+
+export interface AcceptInviteRequest {
+  token: string;
+}
+
+/** Accepting never downgrades; `member` is null for the owner. */
+export interface AcceptInviteResponse {
+  trip: {
+    id: string;
+    title: string;
+    destination: string;
+    startDate: string;
+    endDate: string;
+  };
+  role: TripRole;
+  member: TripMember | null;
+}
+
+export interface AccountDeletionResult {
+  /** Trips the user owned */
+  deletedTrips: number;
+  kakaoUnlinked: boolean;
+  warnings: string[];
+}
+
+export interface AccountExport {
+  version: number;
+  exportedAt: string;
+  user: {
+    id: string;
+    nickname: string;
+    email: string | null;
+    profileImage: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+  profile: UserProfile | null;
+  identities: LinkedIdentity[];
+  sessions: ({
+    id: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+  })[];
+  /** Trips the user owns */
+  trips: Trip[];
+  /** Trips of other owners the user is a member of; only the membership is included. */
+  sharedTrips: {
+    id: string;
+    title: string;
+    destination: string;
+    startDate: string;
+    endDate: string;
+    role: TripRole;
+    joinedAt: string;
+  }[];
+}
+
+export interface ApiError {
+  code: ErrorCode;
+  /** Localized from Accept-Language (ko or en); defaults to ko. */
+  message: string;
+  details?: FieldError[];
+}
+
+export interface AuthUser {
+  id: string;
+  nickname: string;
+  email: string | null;
+  profileImage: string | null;
+}
+
+export interface CreateFlightRequest {
+  carrier: string;
+  /** IATA flight number, e.g. 7C101 */
+  flightNumber: string;
+  /** IATA airport code, e.g. GMP */
+  departureAirport: string;
+  /** IATA airport code, e.g. CJU */
+  arrivalAirport: string;
+  departureTime: string;
+  arrivalTime: string;
+  bookingReference?: string | null;
+  seat?: string | null;
+  memo?: string | null;
+}
+
+export interface CreateInviteRequest {
+  role?: TripInviteRole;
+  /** Defaults to a week */
+  expiresInHours?: number;
+}
+
+export interface CreateInviteResponse {
+  invite: {
+    id: string;
+    role: TripInviteRole;
+    expiresAt: string;
+    createdAt: string;
+    /** Only returned here; the server keeps a hash. */
+    token: string;
+    inviteUrl: string;
+  };
+}
+
+export interface CreateRentcarRequest {
+  company: string;
+  pickupLocation: string;
+  pickupLat: number;
+  pickupLng: number;
+  pickupTime: string;
+  returnLocation: string;
+  returnLat: number;
+  returnLng: number;
+  returnTime: string;
+  vehicleClass?: string | null;
+  insurance?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export interface CreateStayRequest {
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  checkIn: string;
+  checkOut: string;
+  contentId?: string | null;
+  bookingReference?: string | null;
+  phone?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export interface CreateTripRequest {
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  transport?: string | null;
+  companions?: string | null;
+  status?: string;
+  days?: DayInput[];
+}
+
+export interface DailyForecast {
+  /** KST */
+  date: string;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  sky: "clear" | "partly_cloudy" | "cloudy" | null;
+  precipitationType: "rain" | "rain_snow" | "snow" | "shower" | null;
+  maxPrecipitationProbability: number | null;
+  maxWindSpeed: number | null;
+  hourly: HourlyForecast[];
+}
+
+export interface DayEventOffers {
+  dayNumber: number;
+  date: string;
+  offers: EventOffer[];
+}
+
+export interface DayInput {
+  dayNumber: number;
+  date: string;
+  places?: PlaceInput[];
+}
+
+export interface DayListResponse {
+  days: TripDay[];
+}
+
+export interface DayResponse {
+  day: TripDay;
+}
+
+/** The mode defaults to the trip's transport. */
+export interface DayRouteRequest {
+  mode?: RouteTransportMode;
+}
+
+export interface DayRouteResponse {
+  success: boolean;
+  data: OptimizedRoute;
+  warnings: string[];
+}
+
+export interface DayWeatherCheck {
+  dayNumber: number;
+  date: string;
+  weather: {
+    maxPop: number;
+    precipitation: "rain" | "rain_snow" | "snow" | "shower" | null;
+    wet: boolean;
+  } | null;
+  swaps: ({
+    placeId: string;
+    placeName: string;
+    replacement: IndoorReplacement | null;
+  })[];
+}
+
+export interface DeleteAccountRequest {
+  /** From POST /auth/me/deletion-token */
+  confirmationToken: string;
+  /** Also disconnect TripMate from the Kakao account */
+  unlinkKakao?: boolean;
+}
+
+export interface DeletionTokenResponse {
+  confirmationToken: string;
+  expiresAt: string;
+}
+
+export interface DeviceSession {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  /** The session of the calling access token */
+  current: boolean;
+}
+
+export type ErrorCode =
+  | "VALIDATION_FAILED"
+  | "INVALID_REQUEST_BODY"
+  | "AUTH_REQUIRED"
+  | "AUTH_TOKEN_INVALID"
+  | "REFRESH_TOKEN_INVALID"
+  | "SESSION_REVOKED"
+  | "LOGIN_PROVIDER_UNSUPPORTED"
+  | "IDENTITY_TOKEN_INVALID"
+  | "IDENTITY_LINKED_TO_OTHER_USER"
+  | "IDENTITY_PROVIDER_ALREADY_LINKED"
+  | "IDENTITY_NOT_LINKED"
+  | "LAST_IDENTITY_REQUIRED"
+  | "ACCOUNT_DELETION_UNCONFIRMED"
+  | "USER_NOT_FOUND"
+  | "SESSION_NOT_FOUND"
+  | "TRIP_NOT_FOUND"
+  | "TRIP_DAY_NOT_FOUND"
+  | "PLACE_NOT_FOUND"
+  | "FLIGHT_NOT_FOUND"
+  | "RENTCAR_NOT_FOUND"
+  | "STAY_NOT_FOUND"
+  | "TRIP_MEMBER_NOT_FOUND"
+  | "INVITE_NOT_FOUND"
+  | "TRIP_PERMISSION_DENIED"
+  | "TRIP_OWNER_NOT_REMOVABLE"
+  | "HISTORY_ENTRY_NOT_FOUND"
+  | "HISTORY_NOT_REVERTIBLE"
+  | "HISTORY_DAY_MISSING"
+  | "HISTORY_DAY_NUMBER_TAKEN"
+  | "RATE_LIMITED"
+  | "UPSTREAM_UNAVAILABLE"
+  | "NOT_IMPLEMENTED"
+  | "ENDPOINT_NOT_FOUND"
+  | "INTERNAL_ERROR";
+
+export interface EventOffer {
+  event: TripEvent;
+  suggestedSlot: {
+    startTime: string;
+    endTime: string;
+  } | null;
+  distanceKm: number | null;
+  conflicts: ({
+    type: "already_scheduled" | "no_free_time" | "far_from_day";
+    message: string;
+    placeIds: string[];
+  })[];
+}
+
+export interface FieldError {
+  field?: string;
+  message: string;
+}
+
+export interface FlightListResponse {
+  flights: TripFlight[];
+}
+
+export interface FlightResponse {
+  flight: TripFlight;
+}
+
+export interface GenerateItineraryRequest {
+  destination: string;
+  startDate: string;
+  endDate: string;
+  title?: string;
+  transport?: string | null;
+  companions?: string | null;
+  area?: string;
+  keyword?: string;
+  mealSlots?: MealSlotKind[];
+  flights?: CreateFlightRequest[];
+  rentcars?: CreateRentcarRequest[];
+  stays?: CreateStayRequest[];
+  /** TourAPI content IDs, or TourAPI search items (contentid, title, mapx, mapy, ...) */
+  attractions?: unknown[];
+  /** Naver local search items; title is required */
+  restaurants?: unknown[];
+  lodging?: LodgingSelection | null;
+  preferences?: PlannerPreferences | null;
+}
+
+export interface GenerateItineraryResponse {
+  trip: Trip;
+  recommendations: {
+    attractions: number;
+    restaurants: number;
+  };
+  selections: {
+    attractions: number;
+    restaurants: number;
+    lodging: string | null;
+  };
+  scoring: PlannerScoring | null;
+  festivals: {
+    events: TripEvent[];
+    days: DayEventOffers[];
+  };
+  warnings: string[];
+}
+
+export interface HourlyForecast {
+  /** KST */
+  time: string;
+  temperature: number | null;
+  sky: "clear" | "partly_cloudy" | "cloudy" | null;
+  precipitationType: "rain" | "rain_snow" | "snow" | "shower" | null;
+  precipitationProbability: number | null;
+  humidity: number | null;
+  windSpeed: number | null;
+  windDirection: number | null;
+}
+
+export interface IdentityListResponse {
+  identities: LinkedIdentity[];
+}
+
+export type IdentityProvider = "kakao" | "naver" | "apple" | "fake";
+
+export interface IndoorReplacement {
+  contentId: string;
+  name: string;
+  category: "attraction";
+  address: string | null;
+  lat: number;
+  lng: number;
+  imageUrl: string | null;
+  distanceKm: number;
+}
+
+export interface LinkedIdentity {
+  provider: IdentityProvider;
+  email: string | null;
+  linkedAt: string;
+}
+
+/** Send the credential field of the provider in the path, as for login. */
+export interface LinkIdentityRequest {
+  /** Kakao SDK access token (kakao) */
+  kakaoAccessToken?: string;
+  /** Naver SDK access token (naver) */
+  naverAccessToken?: string;
+  /** Sign in with Apple identity token (apple) */
+  identityToken?: string;
+  /** fake: `fake:<subject>`, outside production only */
+  credential?: string;
+}
+
+/** lat and lng go together. Without them the stay is looked up by contentId. */
+export interface LodgingSelection {
+  type?: LodgingType;
+  contentId?: string;
+  name?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export type LodgingType =
+  | "hotel"
+  | "resort"
+  | "pension"
+  | "guesthouse"
+  | "pool_villa";
+
+/** Send the credential field of the provider in the path. */
+export interface LoginRequest {
+  /** Kakao SDK access token (kakao) */
+  kakaoAccessToken?: string;
+  /** Naver SDK access token (naver) */
+  naverAccessToken?: string;
+  /** Sign in with Apple identity token (apple) */
+  identityToken?: string;
+  /** fake: `fake:<subject>`, outside production only */
+  credential?: string;
+  /** Apple only tells the app the user's name on the first sign-in */
+  nickname?: string;
+  deviceName?: string;
+}
+
+export interface LoginResponse {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+  user: AuthUser;
+}
+
+export interface LogoutResponse {
+  message: string;
+}
+
+export type MealSlotKind = "breakfast" | "lunch" | "cafe" | "dinner";
+
+export interface MeResponse {
+  user: {
+    id: string;
+    nickname: string;
+    email: string | null;
+    profileImage: string | null;
+    createdAt: string;
+  };
+}
+
+export interface OptimizedRoute {
+  orderedPoints: RoutePoint[];
+  segments: RouteSegmentEstimate[];
+  totalDistanceKm: number;
+  totalDurationMin: number;
+  source: "kakao" | "odsay" | "fallback" | "mixed";
+  improvement: RouteImprovementSummary;
+  warnings: string[];
+}
+
+export interface OptimizeRouteRequest {
+  start?: RoutePoint;
+  waypoints?: RoutePoint[];
+  end?: RoutePoint;
+  roundTrip?: boolean;
+  mode?: RouteTransportMode;
+}
+
+export interface OptimizeRouteResponse {
+  success: boolean;
+  data: OptimizedRoute;
+}
+
+export interface PlaceInput {
+  orderIndex: number;
+  name: string;
+  category: string;
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  imageUrl?: string | null;
+  phone?: string | null;
+  memo?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  openingHours?: string | null;
+}
+
+export interface PlaceListResponse {
+  places: TripPlace[];
+}
+
+export interface PlaceResponse {
+  place: TripPlace;
+}
+
+export interface PlannerPreferences {
+  companion?: "solo" | "friends" | "couple" | "family_kids" | "family_no_kids" | "parents" | null;
+  purpose?: "sightseeing" | "relaxation" | "activity" | "food_tour" | "filial" | null;
+  travelStyle?: "J" | "P" | null;
+  targetGroup?: "young" | "family" | "senior" | null;
+  budgetRange?: "under_50" | "50_100" | "100_200" | "unlimited" | null;
+  foods?: ("korean" | "chinese" | "japanese" | "western" | "seafood" | "meat" | "noodle" | "salad" | "cafe" | "dessert" | "pub" | "other")[] | null;
+  childAgeGroups?: ("0_2" | "3_5" | "6_7" | "8_10" | "11_13")[] | null;
+}
+
+export interface PlannerScoring {
+  pace: {
+    attractionsPerDay: number;
+    reasons: string[];
+  };
+  attractions: ScoredCandidate[];
+  restaurants: ScoredCandidate[];
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface RefreshResponse {
+  accessToken: string;
+  /** Replaces the one sent; the old one is now unusable. */
+  refreshToken: string;
+}
+
+export interface RentcarListResponse {
+  rentcars: TripRentcar[];
+  warnings: string[];
+}
+
+export interface RentcarResponse {
+  rentcar: TripRentcar;
+  /** Driving days before the pickup; sent on create and update. */
+  warnings?: string[];
+}
+
+export interface ReplanTripRequest {
+  /** Replans every day when omitted */
+  dayNumber?: number;
+  keyword?: string;
+  mealSlots?: MealSlotKind[];
+  area?: string;
+}
+
+export interface ReplanTripResponse {
+  trip: Trip | null;
+  replannedDays: number;
+  recommendations: {
+    attractions: number;
+    restaurants: number;
+  };
+  warnings: string[];
+}
+
+export interface RevertHistoryResponse {
+  revertedEntryId: string;
+  entityType: "place" | "day";
+  entityId: string;
+  trip: TripWithDays | null;
+}
+
+/** Greedy nearest-neighbour baseline versus the optimized order, on the same travel matrix. */
+export interface RouteImprovementSummary {
+  greedyDistanceKm: number;
+  distanceSavedKm: number;
+  greedyDurationMin: number;
+  durationSavedMin: number;
+}
+
+export interface RoutePoint {
+  id?: string;
+  name?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface RouteSegmentEstimate {
+  from: RoutePoint;
+  to: RoutePoint;
+  distanceKm: number;
+  durationMin: number;
+  provider: "kakao" | "odsay" | "fallback";
+}
+
+export type RouteTransportMode = "driving" | "transit" | "walking";
+
+export interface ScoreComponent {
+  factor: "popularity" | "companion" | "children" | "purpose" | "target_group" | "food" | "budget";
+  points: number;
+  reason: string;
+}
+
+export interface ScoredCandidate {
+  id: string;
+  score: number;
+  breakdown: ScoreComponent[];
+  name: string;
+  scheduled: boolean;
+}
+
+export interface SessionListResponse {
+  sessions: DeviceSession[];
+}
+
+export interface StayListResponse {
+  stays: TripStay[];
+}
+
+export interface StayResponse {
+  stay: TripStay;
+}
+
+export interface Trip {
+  id: string;
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  transport: string | null;
+  companions: string | null;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Owner of record */
+  userId: string;
+  days: TripDay[];
+  flights: TripFlight[];
+  rentcars: TripRentcar[];
+  stays: TripStay[];
+}
+
+/** AirKorea grades: 1 good, 2 moderate, 3 bad, 4 very bad. */
+export interface TripAirQuality {
+  sido: string;
+  days: ({
+    dayNumber: number;
+    date: string;
+    pm10Grade: number | null;
+    pm25Grade: number | null;
+    pm10GradeText: string;
+    pm25GradeText: string;
+    source: "measured" | "forecast";
+  })[];
+  advisories: ({
+    dayNumber: number;
+    date: string;
+    pollutant: "pm10" | "pm25";
+    grade: number;
+    message: string;
+    placeIds: string[];
+  })[];
+}
+
+export interface TripDay {
+  id: string;
+  dayNumber: number;
+  date: string;
+  tripId: string;
+  places: TripPlace[];
+}
+
+export interface TripEvent {
+  contentId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+  imageUrl: string | null;
+  phone: string | null;
+}
+
+export interface TripEventsResponse {
+  tripId: string;
+  areaCode: string | null;
+  events: TripEvent[];
+  days: DayEventOffers[];
+  warnings: string[];
+}
+
+export interface TripFlight {
+  id: string;
+  carrier: string;
+  flightNumber: string;
+  departureAirport: string;
+  arrivalAirport: string;
+  departureTime: string;
+  arrivalTime: string;
+  bookingReference: string | null;
+  seat: string | null;
+  memo: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tripId: string;
+}
+
+export interface TripHistoryEntry {
+  id: string;
+  /** e.g. place.update, day.replan */
+  action: string;
+  entityType: "place" | "day";
+  entityId: string;
+  /** Snapshot before the change, or null */
+  before: unknown;
+  /** Snapshot after the change, or null */
+  after: unknown;
+  revertOfId: string | null;
+  createdAt: string;
+  user: TripHistoryUser;
+}
+
+export interface TripHistoryPage {
+  entries: TripHistoryEntry[];
+  nextCursor: string | null;
+}
+
+/** Entries by a deleted account keep a placeholder nickname with a null id. */
+export interface TripHistoryUser {
+  id: string | null;
+  nickname: string;
+  deleted: boolean;
+}
+
+export interface TripInvite {
+  id: string;
+  role: TripInviteRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface TripInviteListResponse {
+  invites: TripInvite[];
+}
+
+export type TripInviteRole = "editor" | "viewer";
+
+export interface TripListResponse {
+  trips: Trip[];
+}
+
+export interface TripMember {
+  id: string;
+  userId: string;
+  nickname: string;
+  profileImage: string | null;
+  role: TripRole;
+  joinedAt: string;
+}
+
+/** `role` is the caller's own role. */
+export interface TripMemberListResponse {
+  role?: TripRole;
+  members: TripMember[];
+}
+
+export interface TripPlace {
+  id: string;
+  orderIndex: number;
+  name: string;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+  category: string;
+  imageUrl: string | null;
+  phone: string | null;
+  memo: string | null;
+  startTime: string | null;
+  endTime: string | null;
+  openingHours: string | null;
+  tripDayId: string;
+}
+
+export interface TripRentcar {
+  id: string;
+  company: string;
+  pickupLocation: string;
+  pickupLat: number;
+  pickupLng: number;
+  pickupTime: string;
+  returnLocation: string;
+  returnLat: number;
+  returnLng: number;
+  returnTime: string;
+  vehicleClass: string | null;
+  insurance: string | null;
+  cost: number | null;
+  memo: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tripId: string;
+}
+
+export interface TripResponse {
+  trip: Trip;
+}
+
+export type TripRole = "owner" | "editor" | "viewer";
+
+export interface TripStay {
+  id: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+  checkIn: string;
+  checkOut: string;
+  contentId: string | null;
+  bookingReference: string | null;
+  phone: string | null;
+  cost: number | null;
+  memo: string | null;
+  createdAt: string;
+  updatedAt: string;
+  tripId: string;
+}
+
+export interface TripSummaryResponse {
+  summary: {
+    tripId: string;
+    title: string;
+    destination: string;
+    status: string;
+    startDate: string;
+    endDate: string;
+    totalDays: number;
+    plannedDays: number;
+    totalPlaces: number;
+    placesByCategory: Record<string, number>;
+    airQuality: TripAirQuality | null;
+    advisories: string[];
+  };
+}
+
+/** Days beyond the short-term forecast range have a null forecast. */
+export interface TripWeatherResponse {
+  tripId: string;
+  forecastBase: {
+    baseDate: string;
+    baseTime: string;
+  };
+  days: ({
+    dayNumber: number;
+    date: string;
+    grid: {
+      nx: number;
+      ny: number;
+    } | null;
+    forecast: DailyForecast | null;
+  })[];
+  warnings: string[];
+}
+
+export interface TripWithDays {
+  id: string;
+  title: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  transport: string | null;
+  companions: string | null;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Owner of record */
+  userId: string;
+  days: TripDay[];
+}
+
+export interface UpdateDayRequest {
+  dayNumber?: number;
+  date?: string;
+}
+
+export interface UpdateFlightRequest {
+  carrier?: string;
+  flightNumber?: string;
+  departureAirport?: string;
+  arrivalAirport?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  bookingReference?: string | null;
+  seat?: string | null;
+  memo?: string | null;
+}
+
+export interface UpdatePlaceRequest {
+  orderIndex?: number;
+  name?: string;
+  category?: string;
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  imageUrl?: string | null;
+  phone?: string | null;
+  memo?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  openingHours?: string | null;
+}
+
+export interface UpdateRentcarRequest {
+  company?: string;
+  pickupLocation?: string;
+  pickupLat?: number;
+  pickupLng?: number;
+  pickupTime?: string;
+  returnLocation?: string;
+  returnLat?: number;
+  returnLng?: number;
+  returnTime?: string;
+  vehicleClass?: string | null;
+  insurance?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export interface UpdateStayRequest {
+  name?: string;
+  address?: string | null;
+  lat?: number;
+  lng?: number;
+  checkIn?: string;
+  checkOut?: string;
+  contentId?: string | null;
+  bookingReference?: string | null;
+  phone?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export interface UpdateTripRequest {
+  title?: string;
+  destination?: string;
+  startDate?: string;
+  endDate?: string;
+  transport?: string | null;
+  companions?: string | null;
+  status?: string;
+}
+
+/** Replaces the whole profile. */
+export interface UpdateUserProfileRequest {
+  companion: "solo" | "friends" | "couple" | "family_kids" | "family_no_kids" | "parents";
+  purpose: "sightseeing" | "relaxation" | "activity" | "food_tour" | "filial";
+  travelStyle: "J" | "P";
+  transport: "car" | "transit" | "walk";
+  foods?: ("korean" | "chinese" | "japanese" | "western" | "seafood" | "meat" | "noodle" | "salad" | "cafe" | "dessert" | "pub" | "other")[];
+  /** Required when companion is family_kids, otherwise not allowed */
+  childAgeGroups?: ("0_2" | "3_5" | "6_7" | "8_10" | "11_13")[];
+}
+
+export interface UserProfile {
+  companion: "solo" | "friends" | "couple" | "family_kids" | "family_no_kids" | "parents";
+  purpose: "sightseeing" | "relaxation" | "activity" | "food_tour" | "filial";
+  travelStyle: "J" | "P";
+  transport: "car" | "transit" | "walk";
+  foods: ("korean" | "chinese" | "japanese" | "western" | "seafood" | "meat" | "noodle" | "salad" | "cafe" | "dessert" | "pub" | "other")[];
+  childAgeGroups: ("0_2" | "3_5" | "6_7" | "8_10" | "11_13")[];
+  updatedAt: string;
+}
+
+/** `profile` is null until the user saves one. */
+export interface UserProfileResponse {
+  profile: UserProfile | null;
+}
+
+export interface WeatherCheckRequest {
+  /** Checks every day when omitted */
+  dayNumber?: number;
+  /** Chance of rain (%) that makes a day wet; defaults to 60 */
+  popThreshold?: number;
+}
+
+/** Proposed swaps only; nothing changes until the client applies them through the places API. */
+export interface WeatherCheckResponse {
+  tripId: string;
+  forecastBase: {
+    baseDate: string;
+    baseTime: string;
+  };
+  days: DayWeatherCheck[];
+  warnings: string[];
+}
+
+export type ErrorLocale = "ko" | "en";
+
+export const ERROR_MESSAGES: Record<ErrorCode, Record<ErrorLocale, string>> = {
+  VALIDATION_FAILED: { ko: "입력한 내용을 다시 확인해주세요.", en: "Some of the submitted values are invalid." },
+  INVALID_REQUEST_BODY: { ko: "요청 형식이 올바르지 않습니다.", en: "The request body must be a JSON object." },
+  AUTH_REQUIRED: { ko: "로그인이 필요합니다.", en: "Please sign in to continue." },
+  AUTH_TOKEN_INVALID: { ko: "로그인 정보가 만료되었습니다. 다시 로그인해주세요.", en: "Your sign-in has expired. Please sign in again." },
+  REFRESH_TOKEN_INVALID: { ko: "유효하지 않은 리프레시 토큰입니다.", en: "The refresh token is invalid." },
+  SESSION_REVOKED: { ko: "로그아웃된 세션입니다. 다시 로그인해주세요.", en: "This session was signed out. Please sign in again." },
+  LOGIN_PROVIDER_UNSUPPORTED: { ko: "지원하지 않는 로그인 방식입니다.", en: "This sign-in method is not supported." },
+  IDENTITY_TOKEN_INVALID: { ko: "로그인 토큰이 유효하지 않습니다.", en: "The sign-in token could not be verified." },
+  IDENTITY_LINKED_TO_OTHER_USER: { ko: "이미 다른 계정에 연결된 로그인 수단입니다.", en: "This sign-in account is already linked to another user." },
+  IDENTITY_PROVIDER_ALREADY_LINKED: { ko: "같은 로그인 방식의 다른 계정이 이미 연결되어 있습니다.", en: "Another account of this sign-in method is already linked." },
+  IDENTITY_NOT_LINKED: { ko: "연결되지 않은 로그인 수단입니다.", en: "This sign-in method is not linked." },
+  LAST_IDENTITY_REQUIRED: { ko: "마지막 로그인 수단은 해제할 수 없습니다.", en: "The last sign-in method cannot be removed." },
+  ACCOUNT_DELETION_UNCONFIRMED: { ko: "탈퇴 확인이 만료되었습니다. 다시 시도해주세요.", en: "The account deletion confirmation has expired. Please try again." },
+  USER_NOT_FOUND: { ko: "사용자를 찾을 수 없습니다.", en: "User not found." },
+  SESSION_NOT_FOUND: { ko: "세션을 찾을 수 없습니다.", en: "Session not found." },
+  TRIP_NOT_FOUND: { ko: "여행을 찾을 수 없습니다.", en: "Trip not found." },
+  TRIP_DAY_NOT_FOUND: { ko: "여행 일차를 찾을 수 없습니다.", en: "Trip day not found." },
+  PLACE_NOT_FOUND: { ko: "장소를 찾을 수 없습니다.", en: "Place not found." },
+  FLIGHT_NOT_FOUND: { ko: "항공편을 찾을 수 없습니다.", en: "Flight not found." },
+  RENTCAR_NOT_FOUND: { ko: "렌터카 예약을 찾을 수 없습니다.", en: "Rental car not found." },
+  STAY_NOT_FOUND: { ko: "숙소를 찾을 수 없습니다.", en: "Stay not found." },
+  TRIP_MEMBER_NOT_FOUND: { ko: "여행 멤버를 찾을 수 없습니다.", en: "Trip member not found." },
+  INVITE_NOT_FOUND: { ko: "초대가 없거나 만료되었습니다.", en: "The invite does not exist or has expired." },
+  TRIP_PERMISSION_DENIED: { ko: "이 여행을 변경할 권한이 없습니다.", en: "You do not have permission to change this trip." },
+  TRIP_OWNER_NOT_REMOVABLE: { ko: "여행 소유자는 멤버에서 제외할 수 없습니다.", en: "The trip owner cannot be removed." },
+  HISTORY_ENTRY_NOT_FOUND: { ko: "변경 기록을 찾을 수 없습니다.", en: "History entry not found." },
+  HISTORY_NOT_REVERTIBLE: { ko: "되돌릴 이전 상태가 없는 변경입니다.", en: "This change has no earlier state to restore." },
+  HISTORY_DAY_MISSING: { ko: "장소가 속해 있던 일차가 삭제되어 되돌릴 수 없습니다.", en: "The day this place belonged to no longer exists." },
+  HISTORY_DAY_NUMBER_TAKEN: { ko: "같은 일차 번호를 다른 일차가 쓰고 있어 되돌릴 수 없습니다.", en: "Another day now has this day number, so the change cannot be reverted." },
+  RATE_LIMITED: { ko: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.", en: "Too many requests. Please retry shortly." },
+  UPSTREAM_UNAVAILABLE: { ko: "외부 서비스 응답이 원활하지 않습니다. 잠시 후 다시 시도해주세요.", en: "An external service is not responding. Please try again later." },
+  NOT_IMPLEMENTED: { ko: "아직 준비 중인 기능입니다.", en: "This feature is not available yet." },
+  ENDPOINT_NOT_FOUND: { ko: "요청한 API를 찾을 수 없습니다.", en: "No endpoint matches this request." },
+  INTERNAL_ERROR: { ko: "일시적인 오류가 발생했습니다. 잠시 후 다시 시도해주세요.", en: "Unexpected error. Please try again." },
+};
+
+export interface ApiRequest {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  // Relative to the API prefix.
+  path: string;
+  query?: Record<string, string | number | undefined>;
+  body?: unknown;
+}
+
+export type ApiTransport = <T>(request: ApiRequest) => Promise<T>;
+
+export function createApiClient(transport: ApiTransport) {
+  return {
+    /** Order waypoints for the shortest trip */
+    optimizeRoute: (body: OptimizeRouteRequest) =>
+      transport<OptimizeRouteResponse>({ method: "POST", path: "/route/optimize", body }),
+    /** Same as optimizeRoute, under the planner prefix */
+    optimizePlannerRoute: (body: OptimizeRouteRequest) =>
+      transport<OptimizeRouteResponse>({ method: "POST", path: "/planner/route/optimize", body }),
+    /** Trips the user owns or is a member of */
+    listTrips: () =>
+      transport<TripListResponse>({ method: "GET", path: "/trips" }),
+    /** Create a trip, optionally with days and places */
+    createTrip: (body: CreateTripRequest) =>
+      transport<TripResponse>({ method: "POST", path: "/trips", body }),
+    /** Trip with days, places, flights, rental cars and stays */
+    getTrip: (tripId: string) =>
+      transport<TripResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}` }),
+    /** Update trip fields (editor or owner) */
+    updateTrip: (tripId: string, body: UpdateTripRequest) =>
+      transport<TripResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}`, body }),
+    /** Delete a trip (owner only) */
+    deleteTrip: (tripId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}` }),
+    /** Days of a trip with their places, by day number */
+    listDays: (tripId: string) =>
+      transport<DayListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/days` }),
+    /** Add a day, optionally with places */
+    createDay: (tripId: string, body: DayInput) =>
+      transport<DayResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/days`, body }),
+    /** One day of a trip with its places */
+    getDay: (tripId: string, dayId: string) =>
+      transport<DayResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}` }),
+    /** Change a day's number or date */
+    updateDay: (tripId: string, dayId: string, body: UpdateDayRequest) =>
+      transport<DayResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}`, body }),
+    /** Remove a day and its places */
+    deleteDay: (tripId: string, dayId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}` }),
+    /** Places of a day, by order */
+    listPlaces: (tripId: string, dayId: string) =>
+      transport<PlaceListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}/places` }),
+    /** Add a place to a day */
+    createPlace: (tripId: string, dayId: string, body: PlaceInput) =>
+      transport<PlaceResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}/places`, body }),
+    /** One place of a day */
+    getPlace: (tripId: string, dayId: string, placeId: string) =>
+      transport<PlaceResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}/places/${encodeURIComponent(placeId)}` }),
+    /** Update place fields */
+    updatePlace: (tripId: string, dayId: string, placeId: string, body: UpdatePlaceRequest) =>
+      transport<PlaceResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}/places/${encodeURIComponent(placeId)}`, body }),
+    /** Remove a place */
+    deletePlace: (tripId: string, dayId: string, placeId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayId)}/places/${encodeURIComponent(placeId)}` }),
+    /** Short-term forecast for each day of a trip */
+    getTripWeather: (tripId: string) =>
+      transport<TripWeatherResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/weather` }),
+    /** Festivals at the destination during the trip, offered per day */
+    getTripEvents: (tripId: string) =>
+      transport<TripEventsResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/events` }),
+    /** Flights of a trip, by departure */
+    listFlights: (tripId: string) =>
+      transport<FlightListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/flights` }),
+    /** Add a flight; days on both ends start or end at the airport */
+    createFlight: (tripId: string, body: CreateFlightRequest) =>
+      transport<FlightResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/flights`, body }),
+    /** One flight of a trip */
+    getFlight: (tripId: string, flightId: string) =>
+      transport<FlightResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/flights/${encodeURIComponent(flightId)}` }),
+    /** Update flight fields */
+    updateFlight: (tripId: string, flightId: string, body: UpdateFlightRequest) =>
+      transport<FlightResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}/flights/${encodeURIComponent(flightId)}`, body }),
+    /** Remove a flight */
+    deleteFlight: (tripId: string, flightId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/flights/${encodeURIComponent(flightId)}` }),
+    /** Rental cars of a trip, by pickup */
+    listRentcars: (tripId: string) =>
+      transport<RentcarListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/rentcars` }),
+    /** Add a rental car booking */
+    createRentcar: (tripId: string, body: CreateRentcarRequest) =>
+      transport<RentcarResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/rentcars`, body }),
+    /** One rental car booking of a trip */
+    getRentcar: (tripId: string, rentcarId: string) =>
+      transport<RentcarResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/rentcars/${encodeURIComponent(rentcarId)}` }),
+    /** Update rental car fields */
+    updateRentcar: (tripId: string, rentcarId: string, body: UpdateRentcarRequest) =>
+      transport<RentcarResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}/rentcars/${encodeURIComponent(rentcarId)}`, body }),
+    /** Remove a rental car booking */
+    deleteRentcar: (tripId: string, rentcarId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/rentcars/${encodeURIComponent(rentcarId)}` }),
+    /** Stays of a trip, by check-in */
+    listStays: (tripId: string) =>
+      transport<StayListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/stays` }),
+    /** Add a stay; the nights it covers start and end at it */
+    createStay: (tripId: string, body: CreateStayRequest) =>
+      transport<StayResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/stays`, body }),
+    /** One stay of a trip */
+    getStay: (tripId: string, stayId: string) =>
+      transport<StayResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/stays/${encodeURIComponent(stayId)}` }),
+    /** Update stay fields */
+    updateStay: (tripId: string, stayId: string, body: UpdateStayRequest) =>
+      transport<StayResponse>({ method: "PATCH", path: `/trips/${encodeURIComponent(tripId)}/stays/${encodeURIComponent(stayId)}`, body }),
+    /** Remove a stay */
+    deleteStay: (tripId: string, stayId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/stays/${encodeURIComponent(stayId)}` }),
+    /** Members of a trip, oldest first, with the caller's role */
+    listTripMembers: (tripId: string) =>
+      transport<TripMemberListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/members` }),
+    /** Leave a trip, or remove a member (owner only) */
+    removeTripMember: (tripId: string, memberId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/members/${encodeURIComponent(memberId)}` }),
+    /** Open invites of a trip (owner only) */
+    listTripInvites: (tripId: string) =>
+      transport<TripInviteListResponse>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/invites` }),
+    /** Create an invite link (owner only) */
+    createTripInvite: (tripId: string, body: CreateInviteRequest) =>
+      transport<CreateInviteResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/invites`, body }),
+    /** Revoke an open invite (owner only) */
+    revokeTripInvite: (tripId: string, inviteId: string) =>
+      transport<void>({ method: "DELETE", path: `/trips/${encodeURIComponent(tripId)}/invites/${encodeURIComponent(inviteId)}` }),
+    /** Join a trip with an invite token */
+    acceptTripInvite: (body: AcceptInviteRequest) =>
+      transport<AcceptInviteResponse>({ method: "POST", path: "/trips/invites/accept", body }),
+    /** Changes to a trip's days and places, newest first */
+    listTripHistory: (tripId: string, query: {
+      /** Defaults to 50 */
+      limit?: number;
+      /** nextCursor of the previous page */
+      cursor?: string;
+    } = {}) =>
+      transport<TripHistoryPage>({ method: "GET", path: `/trips/${encodeURIComponent(tripId)}/history`, query }),
+    /** Undo one change, recorded as a new history entry */
+    revertTripHistory: (tripId: string, entryId: string) =>
+      transport<RevertHistoryResponse>({ method: "POST", path: `/trips/${encodeURIComponent(tripId)}/history/${encodeURIComponent(entryId)}/revert` }),
+    /** Create a trip with a generated day-by-day itinerary */
+    generateItinerary: (body: GenerateItineraryRequest) =>
+      transport<GenerateItineraryResponse>({ method: "POST", path: "/planner/generate", body }),
+    /** Regenerate the stops of one day or of every day */
+    replanTrip: (tripId: string, body: ReplanTripRequest) =>
+      transport<ReplanTripResponse>({ method: "POST", path: `/planner/trips/${encodeURIComponent(tripId)}/replan`, body }),
+    /** Propose indoor swaps for outdoor stops on rainy days */
+    checkTripWeather: (tripId: string, body: WeatherCheckRequest) =>
+      transport<WeatherCheckResponse>({ method: "POST", path: `/planner/trips/${encodeURIComponent(tripId)}/weather-check`, body }),
+    /** Order a saved day's stops between its anchors (airport, rental car, stay) */
+    optimizeTripDayRoute: (tripId: string, dayNumber: string, body: DayRouteRequest) =>
+      transport<DayRouteResponse>({ method: "POST", path: `/planner/trips/${encodeURIComponent(tripId)}/days/${encodeURIComponent(dayNumber)}/route`, body }),
+    /** Counts per trip and per category, with air quality advice */
+    getTripSummary: (tripId: string) =>
+      transport<TripSummaryResponse>({ method: "GET", path: `/planner/trips/${encodeURIComponent(tripId)}/summary` }),
+    /** Sign in (or sign up) with a provider token and start a device session */
+    login: (provider: string, body: LoginRequest) =>
+      transport<LoginResponse>({ method: "POST", path: `/auth/login/${encodeURIComponent(provider)}`, body }),
+    /** Rotate the refresh token and issue a new access token */
+    refreshTokens: (body: RefreshRequest) =>
+      transport<RefreshResponse>({ method: "POST", path: "/auth/refresh", body }),
+    /** The signed-in user */
+    getMe: () =>
+      transport<MeResponse>({ method: "GET", path: "/auth/me" }),
+    /** Everything stored about the user, as a JSON download */
+    exportAccount: () =>
+      transport<AccountExport>({ method: "GET", path: "/auth/me/export" }),
+    /** Confirmation token for deleting the account, valid for five minutes */
+    createDeletionToken: () =>
+      transport<DeletionTokenResponse>({ method: "POST", path: "/auth/me/deletion-token" }),
+    /** Delete the account with its trips, memberships, sessions and sign-in providers */
+    deleteAccount: (body: DeleteAccountRequest) =>
+      transport<AccountDeletionResult>({ method: "DELETE", path: "/auth/me", body }),
+    /** Sign-in providers linked to the account */
+    listIdentities: () =>
+      transport<IdentityListResponse>({ method: "GET", path: "/auth/me/identities" }),
+    /** Link another sign-in provider */
+    linkIdentity: (provider: string, body: LinkIdentityRequest) =>
+      transport<IdentityListResponse>({ method: "POST", path: `/auth/me/identities/${encodeURIComponent(provider)}`, body }),
+    /** Unlink a sign-in provider; the last one cannot be removed */
+    unlinkIdentity: (provider: string) =>
+      transport<void>({ method: "DELETE", path: `/auth/me/identities/${encodeURIComponent(provider)}` }),
+    /** Saved travel preferences */
+    getProfile: () =>
+      transport<UserProfileResponse>({ method: "GET", path: "/auth/me/profile" }),
+    /** Save travel preferences, replacing the previous ones */
+    saveProfile: (body: UpdateUserProfileRequest) =>
+      transport<UserProfileResponse>({ method: "PUT", path: "/auth/me/profile", body }),
+    /** Devices signed in to the account */
+    listSessions: () =>
+      transport<SessionListResponse>({ method: "GET", path: "/auth/sessions" }),
+    /** Sign another device out */
+    revokeSession: (sessionId: string) =>
+      transport<void>({ method: "DELETE", path: `/auth/sessions/${encodeURIComponent(sessionId)}` }),
+    /** Sign the current device out */
+    logout: () =>
+      transport<LogoutResponse>({ method: "POST", path: "/auth/logout" }),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -1,55 +1,45 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-export type RouteTransportMode = "driving" | "transit" | "walking";
-export type RouteEstimateProvider = "kakao" | "odsay" | "fallback" | "mixed";
-
-export interface RoutePoint {
-  id?: string;
-  name?: string;
-  lat: number;
-  lng: number;
-}
-
-export interface RouteSegmentEstimate {
-  from: RoutePoint;
-  to: RoutePoint;
-  distanceKm: number;
-  durationMin: number;
-  provider: "kakao" | "odsay" | "fallback";
-}
-
-export interface OptimizedRoute {
-  orderedPoints: RoutePoint[];
-  segments: RouteSegmentEstimate[];
-  totalDistanceKm: number;
-  totalDurationMin: number;
-  source: RouteEstimateProvider;
-  warnings: string[];
-}
-
-export interface OptimizeRouteRequest {
-  start: RoutePoint;
-  waypoints?: RoutePoint[];
-  end?: RoutePoint;
-  roundTrip?: boolean;
-  mode?: RouteTransportMode;
-}
-
+import { isErrorCode, type AppErrorCode } from "./apiErrors";
+import type {
+  FieldError,
+  OptimizeRouteRequest as ContractOptimizeRouteRequest,
+  OptimizedRoute as ContractOptimizedRoute,
+  RouteImprovementSummary,
+  RoutePoint,
+  RouteSegmentEstimate,
+  RouteTransportMode
+} from "./generated/api-client";
+
+export type { RouteImprovementSummary, RoutePoint, RouteSegmentEstimate, RouteTransportMode };
+
+// Preview routes built on the device, and routes persisted by older app versions, carry no
+// improvement summary.
+export type OptimizedRoute = Omit<ContractOptimizedRoute, "improvement"> & {
+  improvement?: RouteImprovementSummary;
+};
+
+// The server can take the start from the first waypoint; this client always sends one.
+export type OptimizeRouteRequest = ContractOptimizeRouteRequest & { start: RoutePoint };
+
+// Either the route on success or the API's error body.
 interface OptimizeRouteApiResponse {
   success?: boolean;
   data?: unknown;
-  error?: string;
+  code?: unknown;
   message?: string;
-  details?: string[];
+  details?: FieldError[];
 }
 
 class RouteApiError extends Error {
+  code?: AppErrorCode;
   status?: number;
-  details?: string[];
+  details?: FieldError[];
 
-  constructor(message: string, options?: { status?: number; details?: string[] }) {
+  constructor(message: string, options?: { code?: AppErrorCode; status?: number; details?: FieldError[] }) {
     super(message);
     this.name = "RouteApiError";
+    this.code = options?.code;
     this.status = options?.status;
     this.details = options?.details;
   }
@@ -190,7 +180,7 @@ async function requestOptimizeRoute(
   } catch (error) {
     const networkMessage =
       error instanceof Error ? error.message : "Network error while requesting route optimization.";
-    throw new RouteApiError(networkMessage, { status: 0 });
+    throw new RouteApiError(networkMessage, { code: "NETWORK_ERROR", status: 0 });
   }
 
   let payload: OptimizeRouteApiResponse | null = null;
@@ -202,11 +192,10 @@ async function requestOptimizeRoute(
   }
 
   if (!response.ok) {
-    const message =
-      payload?.message ||
-      payload?.error ||
-      `Route optimization request failed with status ${response.status}.`;
+    const message = payload?.message || `Route optimization request failed with status ${response.status}.`;
+    const code = payload?.code;
     throw new RouteApiError(message, {
+      code: isErrorCode(code) ? code : undefined,
       status: response.status,
       details: payload?.details
     });
@@ -235,7 +224,9 @@ export async function optimizeRoute(
   const totalPoints = 1 + waypoints.length + (request.end ? 1 : 0);
 
   if (!request.start || totalPoints < 2) {
-    throw new RouteApiError("At least two points are required to optimize a route.");
+    throw new RouteApiError("At least two points are required to optimize a route.", {
+      code: "VALIDATION_FAILED"
+    });
   }
 
   let lastError: unknown;
@@ -48,6 +48,9 @@ export interface UserSignupProfile {
   childAgeGroups: ChildAgeGroup[];
 }
 
+// The part of the signup profile that is stored on the server (/auth/me/profile).
+export type UserTravelProfile = Omit<UserSignupProfile, "email" | "nickname">;
+
 export interface TripCreateDraft {
   title?: string;
   destination?: string;
@@ -61,11 +64,24 @@ export interface TripCreateDraft {
   targetGroup?: TargetGroup;
 }
 
+// Sent with /planner/generate to rank recommendations; every field is optional.
+export interface PlannerPreferences {
+  companion?: CompanionType;
+  purpose?: TripPurpose;
+  travelStyle?: TravelStyle;
+  targetGroup?: TargetGroup;
+  budgetRange?: BudgetRange;
+  foods?: FoodPreference[];
+  childAgeGroups?: ChildAgeGroup[];
+}
+
 export interface TripRouteMapPoint {
   id: string;
   name: string;
   latitude: number;
   longitude: number;
+  // The place's opening hours, e.g. "09:00-18:00"; the schedule screen only visits it inside them.
+  openingHours?: string | null;
 }
 
 export interface TripScheduleItem {
@@ -76,3 +92,7 @@ export interface TripScheduleItem {
   endTime?: string;
   locationName?: string;
 }
+
+// Trip history comes from the API contract; entries by a deleted account keep `deleted: true`
+// with a null id and a placeholder nickname.
+export type { TripHistoryEntry, TripHistoryPage, TripHistoryUser } from "../services/generated/api-client";
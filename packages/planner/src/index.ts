@@ -4,5 +4,73 @@ export type { RegionCluster, RegionClusterOptions, RegionPoint } from "./cluster
 export { haversine, haversineDistanceKm, isValidCoordinate } from "./geo";
 export type { Coordinate } from "./geo";
 
-export { improveRouteTwoOpt, nearestNeighborTsp, optimizeOrder } from "./nearest-neighbor";
-export type { TspLocation, TspResult } from "./nearest-neighbor";
+export { partitionItinerary } from "./itinerary";
+export type {
+  DayAnchorOverride,
+  ItineraryDay,
+  ItineraryPartitionOptions,
+  ItineraryPartitionResult
+} from "./itinerary";
+
+export { improveRouteLocalSearch } from "./local-search";
+export type {
+  LocalSearchOptions,
+  LocalSearchResult,
+  LocalSearchStats,
+  LocalSearchStopReason
+} from "./local-search";
+
+export { rankCandidates, resolveDailyPace, scoreCandidate } from "./scoring";
+export type {
+  BudgetRange,
+  CandidateKind,
+  CandidateScore,
+  ChildAgeGroup,
+  CompanionType,
+  DailyPace,
+  FoodPreference,
+  RankedCandidate,
+  ScoreComponent,
+  ScoreFactor,
+  ScoringCandidate,
+  TargetGroup,
+  TravelPreferences,
+  TravelStyle,
+  TripPurpose
+} from "./scoring";
+
+export {
+  improveRouteTwoOpt,
+  nearestNeighborRoute,
+  nearestNeighborTsp,
+  optimizeOrder,
+  solveRouteOrder
+} from "./nearest-neighbor";
+export type {
+  MatrixRouteResult,
+  OptimizeOrderOptions,
+  RouteEndpoints,
+  RouteSearchOptions,
+  TspLocation,
+  TspResult,
+  TwoOptOptions
+} from "./nearest-neighbor";
+
+export {
+  estimateTravelMinutes,
+  formatClockTime,
+  formatTimeWindows,
+  parseClockTime,
+  parseTimeWindows,
+  scheduleDay
+} from "./scheduler";
+export type {
+  DayScheduleOptions,
+  DayScheduleResult,
+  ScheduleStop,
+  ScheduledVisit,
+  TimeWindow,
+  TravelTimeEstimator,
+  UnscheduledReason,
+  UnscheduledStop
+} from "./scheduler";
@@ -0,0 +1,289 @@
+import { clusterRegionsByCoordinates } from "./clustering";
+import { Coordinate, haversineDistanceKm, isValidCoordinate } from "./geo";
+import { optimizeOrder, type TspLocation } from "./nearest-neighbor";
+
+export interface ItineraryPartitionOptions {
+  dayCount: number;
+  // lodgings[i] is where the traveller sleeps after day i + 1; it ends day i and starts day i + 1.
+  lodgings?: Array<TspLocation | null | undefined>;
+  // Where the trip begins and ends (e.g. the arrival and departure airports); they anchor the
+  // start of the first day and the end of the last day.
+  arrival?: TspLocation | null;
+  departure?: TspLocation | null;
+  // Per-day start/end points (e.g. a rental car pickup); they take precedence over the above.
+  dayAnchors?: Array<DayAnchorOverride | null | undefined>;
+  regionRadiusKm?: number;
+  maxIterations?: number;
+}
+
+export interface DayAnchorOverride {
+  start?: TspLocation | null;
+  end?: TspLocation | null;
+}
+
+export interface ItineraryDay {
+  dayIndex: number;
+  orderedIds: string[];
+  totalDistanceKm: number;
+  startLocationId?: string;
+  endLocationId?: string;
+}
+
+export interface ItineraryPartitionResult {
+  days: ItineraryDay[];
+}
+
+interface DayAnchors {
+  start?: TspLocation;
+  end?: TspLocation;
+}
+
+const DEFAULT_REGION_RADIUS_KM = 3;
+const DEFAULT_MAX_ITERATIONS = 12;
+const DEFAULT_CATEGORY = "default";
+
+const toCoordinate = (location: TspLocation): Coordinate => ({ lat: location.lat, lng: location.lng });
+
+const categoryOf = (location: TspLocation): string => location.category?.trim() || DEFAULT_CATEGORY;
+
+function centroidOf(locations: TspLocation[]): Coordinate | null {
+  if (locations.length === 0) {
+    return null;
+  }
+
+  const sum = locations.reduce(
+    (acc, location) => ({ lat: acc.lat + location.lat, lng: acc.lng + location.lng }),
+    { lat: 0, lng: 0 }
+  );
+
+  return { lat: sum.lat / locations.length, lng: sum.lng / locations.length };
+}
+
+// Seeds come from the heaviest coordinate regions so dense areas get their own day, then
+// farthest-point picks fill any remaining seeds.
+function pickSeeds(places: TspLocation[], seedCount: number, regionRadiusKm: number): Coordinate[] {
+  const regions = clusterRegionsByCoordinates(
+    places.map((place) => ({ id: place.id, coordinate: toCoordinate(place) })),
+    { maxClusterRadiusKm: regionRadiusKm }
+  ).sort((a, b) => b.totalWeight - a.totalWeight);
+
+  const seeds = regions.slice(0, seedCount).map((region) => region.centroid);
+
+  while (seeds.length < seedCount) {
+    let farthest: Coordinate | null = null;
+    let farthestDistance = -1;
+
+    for (const place of places) {
+      const coordinate = toCoordinate(place);
+      const nearestSeed = seeds.reduce(
+        (best, seed) => Math.min(best, haversineDistanceKm(coordinate, seed)),
+        Number.POSITIVE_INFINITY
+      );
+      if (nearestSeed > farthestDistance) {
+        farthestDistance = nearestSeed;
+        farthest = coordinate;
+      }
+    }
+
+    if (!farthest) break;
+    seeds.push(farthest);
+  }
+
+  return seeds;
+}
+
+// Capacity-constrained assignment: closest (place, group) pairs are taken first, and each group
+// may hold at most ceil(count / groups) places of every category so days stay balanced.
+function assignToGroups(places: TspLocation[], centroids: Coordinate[]): number[] {
+  const groupCount = centroids.length;
+  const categoryTotals = new Map<string, number>();
+  for (const place of places) {
+    const category = categoryOf(place);
+    categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + 1);
+  }
+
+  const pairs: Array<{ placeIndex: number; groupIndex: number; distance: number }> = [];
+  places.forEach((place, placeIndex) => {
+    centroids.forEach((centroid, groupIndex) => {
+      pairs.push({ placeIndex, groupIndex, distance: haversineDistanceKm(toCoordinate(place), centroid) });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance || a.placeIndex - b.placeIndex || a.groupIndex - b.groupIndex);
+
+  const assignment = Array<number>(places.length).fill(-1);
+  const usage = new Map<string, number>();
+
+  for (const pair of pairs) {
+    if (assignment[pair.placeIndex] !== -1) continue;
+
+    const place = places[pair.placeIndex];
+    if (!place) continue;
+
+    const category = categoryOf(place);
+    const capacity = Math.ceil((categoryTotals.get(category) ?? 0) / groupCount);
+    const usageKey = `${pair.groupIndex}:${category}`;
+    const used = usage.get(usageKey) ?? 0;
+    if (used >= capacity) continue;
+
+    assignment[pair.placeIndex] = pair.groupIndex;
+    usage.set(usageKey, used + 1);
+  }
+
+  return assignment;
+}
+
+function partitionIntoGroups(
+  places: TspLocation[],
+  groupCount: number,
+  regionRadiusKm: number,
+  maxIterations: number
+): TspLocation[][] {
+  let centroids = pickSeeds(places, groupCount, regionRadiusKm);
+  let assignment = assignToGroups(places, centroids);
+
+  for (let iteration = 1; iteration < maxIterations; iteration += 1) {
+    const nextCentroids = centroids.map(
+      (centroid, groupIndex) =>
+        centroidOf(places.filter((_, placeIndex) => assignment[placeIndex] === groupIndex)) ?? centroid
+    );
+    const nextAssignment = assignToGroups(places, nextCentroids);
+    const stable = nextAssignment.every((groupIndex, placeIndex) => groupIndex === assignment[placeIndex]);
+
+    centroids = nextCentroids;
+    assignment = nextAssignment;
+    if (stable) break;
+  }
+
+  return centroids.map((_, groupIndex) =>
+    places.filter((_, placeIndex) => assignment[placeIndex] === groupIndex)
+  );
+}
+
+function resolveDayAnchors(dayCount: number, options: ItineraryPartitionOptions): DayAnchors[] {
+  const { lodgings } = options;
+  return Array.from({ length: dayCount }, (_, dayIndex) => {
+    const override = options.dayAnchors?.[dayIndex];
+    const start =
+      override?.start ??
+      (dayIndex > 0 ? lodgings?.[dayIndex - 1] ?? undefined : options.arrival ?? undefined);
+    const end =
+      override?.end ??
+      (dayIndex < dayCount - 1 ? lodgings?.[dayIndex] ?? undefined : options.departure ?? undefined);
+    return {
+      ...(start ? { start } : {}),
+      ...(end ? { end } : {})
+    };
+  });
+}
+
+function anchorCost(group: TspLocation[], anchors: DayAnchors): number {
+  const centroid = centroidOf(group);
+  if (!centroid) return 0;
+
+  return [anchors.start, anchors.end]
+    .filter((anchor): anchor is TspLocation => Boolean(anchor))
+    .reduce((sum, anchor) => sum + haversineDistanceKm(centroid, toCoordinate(anchor)), 0);
+}
+
+// Days with lodging anchors take the closest group first; the rest are chained so that
+// consecutive days stay geographically adjacent.
+function matchGroupsToDays(groups: TspLocation[][], anchors: DayAnchors[]): TspLocation[][] {
+  const dayGroups: Array<TspLocation[] | undefined> = Array(anchors.length).fill(undefined);
+  const unusedGroups = new Set(groups.map((_, index) => index));
+
+  const anchoredPairs: Array<{ dayIndex: number; groupIndex: number; cost: number }> = [];
+  anchors.forEach((dayAnchors, dayIndex) => {
+    if (!dayAnchors.start && !dayAnchors.end) return;
+    groups.forEach((group, groupIndex) => {
+      anchoredPairs.push({ dayIndex, groupIndex, cost: anchorCost(group, dayAnchors) });
+    });
+  });
+  anchoredPairs.sort((a, b) => a.cost - b.cost);
+
+  for (const pair of anchoredPairs) {
+    if (dayGroups[pair.dayIndex] || !unusedGroups.has(pair.groupIndex)) continue;
+    dayGroups[pair.dayIndex] = groups[pair.groupIndex];
+    unusedGroups.delete(pair.groupIndex);
+  }
+
+  let previous: Coordinate | null = null;
+  for (let dayIndex = 0; dayIndex < anchors.length; dayIndex += 1) {
+    const assigned = dayGroups[dayIndex];
+    if (assigned) {
+      previous = centroidOf(assigned) ?? previous;
+      continue;
+    }
+
+    let bestGroupIndex = -1;
+    let bestDistance = Number.POSITIVE_INFINITY;
+    for (const groupIndex of unusedGroups) {
+      const centroid = centroidOf(groups[groupIndex] ?? []);
+      const distance = previous && centroid ? haversineDistanceKm(previous, centroid) : 0;
+      if (bestGroupIndex === -1 || distance < bestDistance) {
+        bestGroupIndex = groupIndex;
+        bestDistance = distance;
+      }
+    }
+
+    const group = bestGroupIndex >= 0 ? groups[bestGroupIndex] : undefined;
+    unusedGroups.delete(bestGroupIndex);
+    dayGroups[dayIndex] = group ?? [];
+    previous = (group && centroidOf(group)) ?? previous;
+  }
+
+  return dayGroups.map((group) => group ?? []);
+}
+
+function routeDay(dayIndex: number, places: TspLocation[], anchors: DayAnchors): ItineraryDay {
+  const anchorIds = new Set([anchors.start?.id, anchors.end?.id].filter(Boolean));
+  const route = optimizeOrder(places, anchors.start ?? null, { endLocation: anchors.end ?? null });
+
+  return {
+    dayIndex,
+    orderedIds: route.orderedIds.filter((id) => !anchorIds.has(id)),
+    totalDistanceKm: route.totalDistanceKm,
+    ...(anchors.start ? { startLocationId: anchors.start.id } : {}),
+    ...(anchors.end ? { endLocationId: anchors.end.id } : {})
+  };
+}
+
+export function partitionItinerary(
+  places: TspLocation[],
+  options: ItineraryPartitionOptions
+): ItineraryPartitionResult {
+  const { dayCount } = options;
+  const regionRadiusKm = options.regionRadiusKm ?? DEFAULT_REGION_RADIUS_KM;
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+
+  if (!Number.isInteger(dayCount) || dayCount <= 0) {
+    throw new Error("dayCount must be a positive integer.");
+  }
+
+  if (!Number.isInteger(maxIterations) || maxIterations <= 0) {
+    throw new Error("maxIterations must be a positive integer.");
+  }
+
+  const seenIds = new Set<string>();
+  for (const place of places) {
+    if (!place.id) {
+      throw new Error("Every place must have a non-empty id.");
+    }
+    if (seenIds.has(place.id)) {
+      throw new Error(`Duplicate place id: ${place.id}`);
+    }
+    if (!isValidCoordinate(toCoordinate(place))) {
+      throw new Error(`Invalid coordinate for place id ${place.id}`);
+    }
+    seenIds.add(place.id);
+  }
+
+  const anchors = resolveDayAnchors(dayCount, options);
+  const groupCount = Math.min(dayCount, places.length);
+  const groups =
+    groupCount > 0 ? partitionIntoGroups(places, groupCount, regionRadiusKm, maxIterations) : [];
+  const dayGroups = matchGroupsToDays(groups, anchors);
+
+  return {
+    days: dayGroups.map((group, dayIndex) => routeDay(dayIndex, group, anchors[dayIndex] ?? {}))
+  };
+}
@@ -0,0 +1,284 @@
+export interface LocalSearchOptions {
+  // Keeps the last route node in place (fixed end point or the return leg of a round trip).
+  fixedEnd?: boolean;
+  // Upper bound on full improvement passes over the route.
+  maxIterations?: number;
+  timeBudgetMs?: number;
+  orOpt?: boolean;
+  // Longest run of consecutive stops an Or-opt move relocates.
+  orOptMaxSegmentLength?: number;
+}
+
+export type LocalSearchStopReason = "converged" | "iteration_limit" | "time_limit";
+
+export interface LocalSearchStats {
+  iterations: number;
+  twoOptMoves: number;
+  orOptMoves: number;
+  initialDistance: number;
+  finalDistance: number;
+  elapsedMs: number;
+  stopReason: LocalSearchStopReason;
+}
+
+export interface LocalSearchResult {
+  route: number[];
+  distance: number;
+  stats: LocalSearchStats;
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+const DEFAULT_TIME_BUDGET_MS = 500;
+const DEFAULT_OR_OPT_SEGMENT_LENGTH = 3;
+// Ignores floating-point noise so equal-cost moves cannot cycle forever.
+const IMPROVEMENT_EPSILON = 1e-9;
+
+class RouteState {
+  route: number[];
+  // forward[k]: cost of route[0..k] as travelled; backward[k]: the same edges walked in reverse.
+  // Unreachable (non-finite) edges are counted apart so one of them cannot turn every span into NaN.
+  private forward: number[] = [];
+  private backward: number[] = [];
+  private forwardUnreachable: number[] = [];
+  private backwardUnreachable: number[] = [];
+
+  constructor(route: number[], private readonly matrix: number[][]) {
+    this.route = [...route];
+    this.refresh();
+  }
+
+  cost(from: number, to: number): number {
+    return this.matrix[from]?.[to] ?? 0;
+  }
+
+  node(position: number): number {
+    return this.route[position] ?? 0;
+  }
+
+  // Cost of the edges inside route[from..to], forwards or reversed (matters for asymmetric matrices).
+  span(from: number, to: number, reversed: boolean): number {
+    const prefix = reversed ? this.backward : this.forward;
+    const unreachable = reversed ? this.backwardUnreachable : this.forwardUnreachable;
+    if ((unreachable[to] ?? 0) > (unreachable[from] ?? 0)) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return (prefix[to] ?? 0) - (prefix[from] ?? 0);
+  }
+
+  get distance(): number {
+    return this.span(0, this.route.length - 1, false);
+  }
+
+  refresh(): void {
+    this.forward = [0];
+    this.backward = [0];
+    this.forwardUnreachable = [0];
+    this.backwardUnreachable = [0];
+    for (let k = 1; k < this.route.length; k += 1) {
+      const previous = this.node(k - 1);
+      const current = this.node(k);
+      this.extend(this.forward, this.forwardUnreachable, this.cost(previous, current));
+      this.extend(this.backward, this.backwardUnreachable, this.cost(current, previous));
+    }
+  }
+
+  private extend(prefix: number[], unreachable: number[], edge: number): void {
+    const finite = Number.isFinite(edge);
+    prefix.push((prefix[prefix.length - 1] ?? 0) + (finite ? edge : 0));
+    unreachable.push((unreachable[unreachable.length - 1] ?? 0) + (finite ? 0 : 1));
+  }
+}
+
+function validateOptions(options: LocalSearchOptions): void {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  if (!Number.isInteger(maxIterations) || maxIterations <= 0) {
+    throw new Error("maxIterations must be a positive integer.");
+  }
+
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  if (!Number.isFinite(timeBudgetMs) || timeBudgetMs <= 0) {
+    throw new Error("timeBudgetMs must be a positive number.");
+  }
+
+  const segmentLength = options.orOptMaxSegmentLength ?? DEFAULT_OR_OPT_SEGMENT_LENGTH;
+  if (!Number.isInteger(segmentLength) || segmentLength <= 0) {
+    throw new Error("orOptMaxSegmentLength must be a positive integer.");
+  }
+}
+
+// Reverses route[i..j]; a move is only taken when the O(1) delta says it shortens the route.
+function runTwoOptPass(state: RouteState, lastMovable: number, outOfTime: () => boolean): number {
+  let moves = 0;
+
+  for (let i = 1; i < lastMovable; i += 1) {
+    if (outOfTime()) break;
+
+    for (let j = i + 1; j <= lastMovable; j += 1) {
+      const before = state.node(i - 1);
+      const first = state.node(i);
+      const last = state.node(j);
+      const hasAfter = j + 1 < state.route.length;
+      const after = state.node(j + 1);
+
+      const delta =
+        state.cost(before, last) -
+        state.cost(before, first) +
+        (hasAfter ? state.cost(first, after) - state.cost(last, after) : 0) +
+        state.span(i, j, true) -
+        state.span(i, j, false);
+
+      if (delta < -IMPROVEMENT_EPSILON) {
+        state.route = [
+          ...state.route.slice(0, i),
+          ...state.route.slice(i, j + 1).reverse(),
+          ...state.route.slice(j + 1)
+        ];
+        state.refresh();
+        moves += 1;
+      }
+    }
+  }
+
+  return moves;
+}
+
+// Relocates a run of up to `maxLength` stops between two other neighbours, optionally reversed.
+function runOrOptPass(
+  state: RouteState,
+  lastMovable: number,
+  maxLength: number,
+  outOfTime: () => boolean
+): number {
+  let moves = 0;
+
+  for (let length = 1; length <= maxLength; length += 1) {
+    for (let i = 1; i + length - 1 <= lastMovable; i += 1) {
+      if (outOfTime()) return moves;
+
+      const j = i + length - 1;
+      const before = state.node(i - 1);
+      const first = state.node(i);
+      const last = state.node(j);
+      const hasAfter = j + 1 < state.route.length;
+      const after = state.node(j + 1);
+      const removalGain =
+        state.cost(before, first) +
+        (hasAfter ? state.cost(last, after) - state.cost(before, after) : 0);
+      const reversalCost = state.span(i, j, true) - state.span(i, j, false);
+
+      let bestDelta = -IMPROVEMENT_EPSILON;
+      let bestPosition = -1;
+      let bestReversed = false;
+
+      // The segment goes between route[p] and route[p + 1]; p + 1 may be past the end of an open route.
+      for (let p = 0; p < state.route.length; p += 1) {
+        if (p >= i - 1 && p <= j) continue;
+        const hasNext = p + 1 < state.route.length;
+        if (!hasNext && lastMovable < state.route.length - 1) continue;
+
+        const left = state.node(p);
+        const right = state.node(p + 1);
+        const openedEdge = hasNext ? state.cost(left, right) : 0;
+
+        const forwardDelta =
+          state.cost(left, first) + (hasNext ? state.cost(last, right) : 0) - openedEdge - removalGain;
+        const reversedDelta =
+          state.cost(left, last) +
+          (hasNext ? state.cost(first, right) : 0) -
+          openedEdge -
+          removalGain +
+          reversalCost;
+
+        if (forwardDelta < bestDelta) {
+          bestDelta = forwardDelta;
+          bestPosition = p;
+          bestReversed = false;
+        }
+        if (length > 1 && reversedDelta < bestDelta) {
+          bestDelta = reversedDelta;
+          bestPosition = p;
+          bestReversed = true;
+        }
+      }
+
+      if (bestPosition === -1) continue;
+
+      const segment = state.route.slice(i, j + 1);
+      if (bestReversed) segment.reverse();
+      const rest = [...state.route.slice(0, i), ...state.route.slice(j + 1)];
+      const insertAt = bestPosition < i ? bestPosition + 1 : bestPosition - length + 1;
+      state.route = [...rest.slice(0, insertAt), ...segment, ...rest.slice(insertAt)];
+      state.refresh();
+      moves += 1;
+    }
+  }
+
+  return moves;
+}
+
+// First-improvement local search combining 2-opt and Or-opt with delta evaluation. The first node
+// always stays put; every pass is O(n²) move checks plus O(n) per applied move.
+export function improveRouteLocalSearch(
+  route: number[],
+  matrix: number[][],
+  options: LocalSearchOptions = {}
+): LocalSearchResult {
+  validateOptions(options);
+
+  const startedAt = Date.now();
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const timeBudgetMs = options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS;
+  const orOptMaxSegmentLength = options.orOptMaxSegmentLength ?? DEFAULT_OR_OPT_SEGMENT_LENGTH;
+  const state = new RouteState(route, matrix);
+  const initialDistance = state.distance;
+  const lastMovable = options.fixedEnd ? route.length - 2 : route.length - 1;
+
+  let timedOut = false;
+  const outOfTime = () => {
+    timedOut = timedOut || Date.now() - startedAt >= timeBudgetMs;
+    return timedOut;
+  };
+
+  let iterations = 0;
+  let twoOptMoves = 0;
+  let orOptMoves = 0;
+  let stopReason: LocalSearchStopReason = "converged";
+
+  while (lastMovable >= 1) {
+    if (iterations >= maxIterations) {
+      stopReason = "iteration_limit";
+      break;
+    }
+
+    iterations += 1;
+    const twoOpt = runTwoOptPass(state, lastMovable, outOfTime);
+    const orOpt =
+      options.orOpt === false || timedOut
+        ? 0
+        : runOrOptPass(state, lastMovable, orOptMaxSegmentLength, outOfTime);
+    twoOptMoves += twoOpt;
+    orOptMoves += orOpt;
+
+    if (timedOut) {
+      stopReason = "time_limit";
+      break;
+    }
+    if (twoOpt + orOpt === 0) {
+      break;
+    }
+  }
+
+  return {
+    route: state.route,
+    distance: state.distance,
+    stats: {
+      iterations,
+      twoOptMoves,
+      orOptMoves,
+      initialDistance,
+      finalDistance: state.distance,
+      elapsedMs: Date.now() - startedAt,
+      stopReason
+    }
+  };
+}
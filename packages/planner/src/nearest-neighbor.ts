@@ -1,4 +1,5 @@
 import { haversineDistanceKm } from "./geo";
+import { improveRouteLocalSearch, type LocalSearchOptions, type LocalSearchStats } from "./local-search";
 
 export interface TspLocation {
   id: string;
@@ -12,6 +13,34 @@ export interface TspLocation {
 export interface TspResult {
   orderedIds: string[];
   totalDistanceKm: number;
+  greedyDistanceKm: number;
+  savedDistanceKm: number;
+}
+
+export interface RouteEndpoints {
+  startIndex?: number;
+  // The route must finish here; cannot be combined with roundTrip.
+  endIndex?: number;
+  // The route returns to startIndex after the last stop.
+  roundTrip?: boolean;
+}
+
+export type TwoOptOptions = Omit<LocalSearchOptions, "orOpt" | "orOptMaxSegmentLength">;
+
+export type RouteSearchOptions = Omit<LocalSearchOptions, "fixedEnd">;
+
+export interface MatrixRouteResult {
+  route: number[];
+  distance: number;
+  greedyRoute: number[];
+  greedyDistance: number;
+  savedDistance: number;
+  stats: LocalSearchStats;
+}
+
+export interface OptimizeOrderOptions {
+  endLocation?: TspLocation | null;
+  roundTrip?: boolean;
 }
 
 function buildDistanceMatrix(locations: TspLocation[]): number[][] {
@@ -44,24 +73,51 @@ function buildDistanceMatrix(locations: TspLocation[]): number[][] {
   return matrix;
 }
 
-export function nearestNeighborTsp(locations: TspLocation[], startIdx = 0): number[] {
-  if (locations.length <= 1) {
-    return locations.map((_, index) => index);
+function resolveEndpoints(size: number, endpoints: RouteEndpoints): { startIndex: number; endIndex?: number } {
+  const startIndex = endpoints.startIndex ?? 0;
+  const isIndex = (index: number) => Number.isInteger(index) && index >= 0 && index < size;
+
+  if (!isIndex(startIndex)) {
+    throw new Error("startIndex must point at a matrix row.");
+  }
+
+  if (endpoints.endIndex !== undefined) {
+    if (endpoints.roundTrip) {
+      throw new Error("endIndex and roundTrip cannot be combined.");
+    }
+    if (!isIndex(endpoints.endIndex) || endpoints.endIndex === startIndex) {
+      throw new Error("endIndex must point at a matrix row other than startIndex.");
+    }
+    return { startIndex, endIndex: endpoints.endIndex };
   }
 
-  const matrix = buildDistanceMatrix(locations);
-  const visited = new Set<number>([startIdx]);
-  const route: number[] = [startIdx];
-  let current = startIdx;
+  return endpoints.roundTrip ? { startIndex, endIndex: startIndex } : { startIndex };
+}
+
+// Greedy construction over a (possibly asymmetric) cost matrix. A fixed end, or the start again
+// for a round trip, is appended after every other node has been visited.
+export function nearestNeighborRoute(matrix: number[][], endpoints: RouteEndpoints = {}): number[] {
+  if (matrix.length === 0) {
+    return [];
+  }
+
+  const { startIndex, endIndex } = resolveEndpoints(matrix.length, endpoints);
+  const visited = new Set<number>([startIndex]);
+  if (endIndex !== undefined) {
+    visited.add(endIndex);
+  }
 
-  while (visited.size < locations.length) {
+  const route: number[] = [startIndex];
+  let current = startIndex;
+
+  while (visited.size < matrix.length) {
     let nextIndex = -1;
     let bestDistance = Number.POSITIVE_INFINITY;
 
-    for (let candidate = 0; candidate < locations.length; candidate += 1) {
+    for (let candidate = 0; candidate < matrix.length; candidate += 1) {
       if (visited.has(candidate)) continue;
       const distance = matrix[current]?.[candidate] ?? Number.POSITIVE_INFINITY;
-      if (distance < bestDistance) {
+      if (nextIndex === -1 || distance < bestDistance) {
         bestDistance = distance;
         nextIndex = candidate;
       }
@@ -76,75 +132,90 @@ export function nearestNeighborTsp(locations: TspLocation[], startIdx = 0): numb
     current = nextIndex;
   }
 
+  if (endIndex !== undefined) {
+    route.push(endIndex);
+  }
+
   return route;
 }
 
-function routeDistance(route: number[], matrix: number[][]): number {
-  if (route.length <= 1) return 0;
-
-  let total = 0;
-  for (let i = 0; i < route.length - 1; i += 1) {
-    const fromIndex = route[i];
-    const toIndex = route[i + 1];
-    if (fromIndex === undefined || toIndex === undefined) {
-      continue;
-    }
-
-    const segment = matrix[fromIndex]?.[toIndex] ?? 0;
-    total += segment;
+export function nearestNeighborTsp(locations: TspLocation[], startIdx = 0): number[] {
+  if (locations.length <= 1) {
+    return locations.map((_, index) => index);
   }
-  return total;
+
+  return nearestNeighborRoute(buildDistanceMatrix(locations), { startIndex: startIdx });
 }
 
 // 2-opt local improvement: reverse subsections when total distance decreases.
-export function improveRouteTwoOpt(route: number[], matrix: number[][]): number[] {
+export function improveRouteTwoOpt(
+  route: number[],
+  matrix: number[][],
+  options: TwoOptOptions = {}
+): number[] {
   if (route.length <= 3) {
     return [...route];
   }
 
-  let best = [...route];
-  let improved = true;
-
-  while (improved) {
-    improved = false;
-
-    for (let i = 1; i < best.length - 1; i += 1) {
-      for (let j = i + 1; j < best.length; j += 1) {
-        const candidate = [
-          ...best.slice(0, i),
-          ...best.slice(i, j + 1).reverse(),
-          ...best.slice(j + 1)
-        ];
+  return improveRouteLocalSearch(route, matrix, { ...options, orOpt: false }).route;
+}
 
-        if (routeDistance(candidate, matrix) < routeDistance(best, matrix)) {
-          best = candidate;
-          improved = true;
-        }
-      }
-    }
+export function solveRouteOrder(
+  matrix: number[][],
+  endpoints: RouteEndpoints = {},
+  search: RouteSearchOptions = {}
+): MatrixRouteResult {
+  if (matrix.some((row) => row.length !== matrix.length)) {
+    throw new Error("Route matrix must be square.");
   }
 
-  return best;
+  const { endIndex } = resolveEndpoints(Math.max(matrix.length, 1), endpoints);
+  const greedyRoute = nearestNeighborRoute(matrix, endpoints);
+  const improved = improveRouteLocalSearch(greedyRoute, matrix, {
+    ...search,
+    fixedEnd: endIndex !== undefined
+  });
+  const greedyDistance = improved.stats.initialDistance;
+
+  return {
+    route: improved.route,
+    distance: improved.distance,
+    greedyRoute,
+    greedyDistance,
+    savedDistance: greedyDistance - improved.distance,
+    stats: improved.stats
+  };
 }
 
+const roundDistanceKm = (value: number): number => Math.round(value * 10) / 10;
+
 export function optimizeOrder(
   locations: TspLocation[],
-  startLocation?: TspLocation | null
+  startLocation?: TspLocation | null,
+  options: OptimizeOrderOptions = {}
 ): TspResult {
   if (locations.length === 0) {
-    return { orderedIds: [], totalDistanceKm: 0 };
+    return { orderedIds: [], totalDistanceKm: 0, greedyDistanceKm: 0, savedDistanceKm: 0 };
   }
 
-  const all = startLocation ? [startLocation, ...locations] : [...locations];
-  const startIndex = 0;
+  const endLocation = options.endLocation ?? null;
+  const all = [
+    ...(startLocation ? [startLocation] : []),
+    ...locations,
+    ...(endLocation ? [endLocation] : [])
+  ];
   const matrix = buildDistanceMatrix(all);
-  const initial = nearestNeighborTsp(all, startIndex);
-  const improved = improveRouteTwoOpt(initial, matrix);
-
-  const totalDistanceKm = Math.round(routeDistance(improved, matrix) * 10) / 10;
+  // Without a start location the first place starts the route, so a round trip closes on it.
+  const solved = solveRouteOrder(
+    matrix,
+    endLocation ? { startIndex: 0, endIndex: all.length - 1 } : { startIndex: 0, roundTrip: Boolean(options.roundTrip) }
+  );
+  const orderedIndexes = endLocation || !options.roundTrip ? solved.route : solved.route.slice(0, -1);
 
   return {
-    orderedIds: improved.map((index) => all[index]?.id).filter((id): id is string => Boolean(id)),
-    totalDistanceKm
+    orderedIds: orderedIndexes.map((index) => all[index]?.id).filter((id): id is string => Boolean(id)),
+    totalDistanceKm: roundDistanceKm(solved.distance),
+    greedyDistanceKm: roundDistanceKm(solved.greedyDistance),
+    savedDistanceKm: roundDistanceKm(solved.savedDistance)
   };
 }
@@ -0,0 +1,378 @@
+import { haversineDistanceKm, isValidCoordinate } from "./geo";
+import type { TspLocation } from "./nearest-neighbor";
+
+export interface TimeWindow {
+  open: string;
+  close: string;
+}
+
+export interface ScheduleStop extends TspLocation {
+  openingHours?: TimeWindow[];
+  fixedStartTime?: string;
+}
+
+export type TravelTimeEstimator = (from: TspLocation, to: TspLocation) => number;
+
+export interface DayScheduleOptions {
+  dayStartTime: string;
+  dayEndTime: string;
+  startLocation?: TspLocation | null;
+  endLocation?: TspLocation | null;
+  defaultDwellMinutes?: number;
+  travelMinutes?: TravelTimeEstimator;
+  // Visits flexible stops in the given order (e.g. an already optimised route) instead of picking
+  // whichever can start earliest; a stop is only passed over while it does not fit yet, or moved up
+  // when its opening hours would otherwise be over.
+  keepOrder?: boolean;
+}
+
+export interface ScheduledVisit {
+  id: string;
+  name?: string;
+  arrivalTime: string;
+  startTime: string;
+  departureTime: string;
+  travelMinutes: number;
+  waitMinutes: number;
+  dwellMinutes: number;
+  fixed: boolean;
+}
+
+export type UnscheduledReason =
+  | "closed"
+  | "outside_day"
+  | "fixed_time_conflict"
+  | "insufficient_time";
+
+export interface UnscheduledStop {
+  id: string;
+  name?: string;
+  reason: UnscheduledReason;
+}
+
+export interface DayScheduleResult {
+  timeline: ScheduledVisit[];
+  unscheduled: UnscheduledStop[];
+  endTime: string;
+  // Minutes endTime runs past dayEndTime. Flexible stops never cause it; a fixed-time stop late in the
+  // day can, when the ride to the end location no longer fits.
+  overrunMinutes: number;
+  totalTravelMinutes: number;
+  totalWaitMinutes: number;
+}
+
+interface MinuteWindow {
+  open: number;
+  close: number;
+}
+
+interface PreparedStop {
+  stop: ScheduleStop;
+  dwellMinutes: number;
+  windows: MinuteWindow[];
+  fixedStart?: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_DWELL_MINUTES = 60;
+const FALLBACK_SPEED_KMH = 35;
+const ROAD_DETOUR_FACTOR = 1.25;
+
+export function parseClockTime(value: string): number {
+  const matched = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  const hours = matched ? Number(matched[1]) : Number.NaN;
+  const minutes = matched ? Number(matched[2]) : Number.NaN;
+  const total = hours * 60 + minutes;
+
+  if (!Number.isInteger(total) || minutes > 59 || total > MINUTES_PER_DAY) {
+    throw new Error(`Invalid clock time: ${value}`);
+  }
+
+  return total;
+}
+
+export function formatClockTime(totalMinutes: number): string {
+  const normalized = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// Opening hours as stored on a place: "HH:MM-HH:MM" windows joined by commas, e.g.
+// "09:00-12:00,13:00-18:00". Resolves null when the text is not in that form.
+export function parseTimeWindows(value: string): TimeWindow[] | null {
+  const windows: TimeWindow[] = [];
+  for (const part of value.split(",")) {
+    const matched = /^\s*(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s*$/.exec(part);
+    if (!matched?.[1] || !matched[2]) return null;
+
+    let open: number;
+    let close: number;
+    try {
+      open = parseClockTime(matched[1]);
+      close = parseClockTime(matched[2]);
+    } catch {
+      return null;
+    }
+    if (close <= open) return null;
+
+    windows.push({ open: formatClockTime(open), close: formatClockTime(close) });
+  }
+
+  return windows;
+}
+
+export function formatTimeWindows(windows: TimeWindow[]): string {
+  return windows.map((window) => `${window.open}-${window.close}`).join(",");
+}
+
+// Straight-line fallback matching the API's offline route estimate (35 km/h, 25% detour).
+export const estimateTravelMinutes: TravelTimeEstimator = (from, to) => {
+  const distanceKm =
+    haversineDistanceKm({ lat: from.lat, lng: from.lng }, { lat: to.lat, lng: to.lng }) *
+    ROAD_DETOUR_FACTOR;
+  return Math.ceil((distanceKm / FALLBACK_SPEED_KMH) * 60);
+};
+
+function prepareStop(stop: ScheduleStop, defaultDwellMinutes: number): PreparedStop {
+  const dwellMinutes = stop.duration ?? defaultDwellMinutes;
+  if (!Number.isFinite(dwellMinutes) || dwellMinutes < 0) {
+    throw new Error(`Dwell time for stop ${stop.id} must be a finite non-negative number.`);
+  }
+
+  const windows = (stop.openingHours ?? [])
+    .map((window) => ({ open: parseClockTime(window.open), close: parseClockTime(window.close) }))
+    .sort((a, b) => a.open - b.open);
+
+  for (const window of windows) {
+    if (window.close <= window.open) {
+      throw new Error(`Opening hours for stop ${stop.id} must close after they open.`);
+    }
+  }
+
+  return {
+    stop,
+    dwellMinutes,
+    windows,
+    ...(stop.fixedStartTime !== undefined ? { fixedStart: parseClockTime(stop.fixedStartTime) } : {})
+  };
+}
+
+// Earliest start at or after `arrival` such that the whole visit fits an opening window and the day.
+function earliestStart(prepared: PreparedStop, arrival: number, dayEnd: number): number | null {
+  if (prepared.windows.length === 0) {
+    return arrival + prepared.dwellMinutes <= dayEnd ? arrival : null;
+  }
+
+  for (const window of prepared.windows) {
+    const start = Math.max(arrival, window.open);
+    const close = Math.min(window.close, dayEnd);
+    if (start + prepared.dwellMinutes <= close) {
+      return start;
+    }
+  }
+
+  return null;
+}
+
+function toVisit(
+  prepared: PreparedStop,
+  arrival: number,
+  start: number,
+  travelMinutes: number,
+  fixed: boolean
+): ScheduledVisit {
+  return {
+    id: prepared.stop.id,
+    ...(prepared.stop.name !== undefined ? { name: prepared.stop.name } : {}),
+    arrivalTime: formatClockTime(arrival),
+    startTime: formatClockTime(start),
+    departureTime: formatClockTime(start + prepared.dwellMinutes),
+    travelMinutes,
+    waitMinutes: start - arrival,
+    dwellMinutes: prepared.dwellMinutes,
+    fixed
+  };
+}
+
+function toUnscheduled(prepared: PreparedStop, reason: UnscheduledReason): UnscheduledStop {
+  return {
+    id: prepared.stop.id,
+    ...(prepared.stop.name !== undefined ? { name: prepared.stop.name } : {}),
+    reason
+  };
+}
+
+// Close of the opening window a visit starting at `start` falls in; the day end for stops without hours.
+function closingTime(prepared: PreparedStop, start: number, dayEnd: number): number {
+  const window = prepared.windows.find((item) => start >= item.open && start < item.close);
+  return Math.min(window?.close ?? dayEnd, dayEnd);
+}
+
+// Greedy time-aware construction: repeatedly visit the stop that can start earliest (or, with
+// keepOrder, the first one in order that fits) while the next fixed-time stop (or the day end /
+// end location) stays reachable. A stop whose opening hours would be over after that visit goes
+// first instead, as long as the visit still fits after it.
+export function scheduleDay(stops: ScheduleStop[], options: DayScheduleOptions): DayScheduleResult {
+  const dayStart = parseClockTime(options.dayStartTime);
+  const dayEnd = parseClockTime(options.dayEndTime);
+  const defaultDwellMinutes = options.defaultDwellMinutes ?? DEFAULT_DWELL_MINUTES;
+  const travel = options.travelMinutes ?? estimateTravelMinutes;
+  const endLocation = options.endLocation ?? null;
+
+  if (dayEnd <= dayStart) {
+    throw new Error("dayEndTime must be after dayStartTime.");
+  }
+
+  const seenIds = new Set<string>();
+  for (const stop of stops) {
+    if (!stop.id) {
+      throw new Error("Every stop must have a non-empty id.");
+    }
+    if (seenIds.has(stop.id)) {
+      throw new Error(`Duplicate stop id: ${stop.id}`);
+    }
+    if (!isValidCoordinate({ lat: stop.lat, lng: stop.lng })) {
+      throw new Error(`Invalid coordinate for stop id ${stop.id}`);
+    }
+    seenIds.add(stop.id);
+  }
+
+  const prepared = stops.map((stop) => prepareStop(stop, defaultDwellMinutes));
+  const unscheduled: UnscheduledStop[] = [];
+  const anchors: PreparedStop[] = [];
+  let lastAnchorEnd = dayStart;
+
+  const fixedStops = prepared
+    .filter((item) => item.fixedStart !== undefined)
+    .sort((a, b) => (a.fixedStart ?? 0) - (b.fixedStart ?? 0));
+
+  for (const item of fixedStops) {
+    const start = item.fixedStart ?? dayStart;
+    if (start < dayStart || start + item.dwellMinutes > dayEnd) {
+      unscheduled.push(toUnscheduled(item, "outside_day"));
+      continue;
+    }
+    if (start < lastAnchorEnd) {
+      unscheduled.push(toUnscheduled(item, "fixed_time_conflict"));
+      continue;
+    }
+    anchors.push(item);
+    lastAnchorEnd = start + item.dwellMinutes;
+  }
+
+  const remaining = prepared.filter((item) => item.fixedStart === undefined);
+  const timeline: ScheduledVisit[] = [];
+  let current: TspLocation | null = options.startLocation ?? null;
+  let clock = dayStart;
+  let anchorIndex = 0;
+  let totalTravelMinutes = 0;
+  let totalWaitMinutes = 0;
+
+  while (remaining.length > 0 || anchorIndex < anchors.length) {
+    const anchor = anchors[anchorIndex];
+    const target = anchor ? anchor.stop : endLocation;
+    const deadline = anchor ? (anchor.fixedStart ?? dayEnd) : dayEnd;
+    // Start of a visit when leaving `from` at `leaveAt`, or null when it no longer fits before the deadline.
+    const fit = (item: PreparedStop, from: TspLocation | null, leaveAt: number) => {
+      const travelIn = from ? travel(from, item.stop) : 0;
+      const start = earliestStart(item, leaveAt + travelIn, dayEnd);
+      if (start === null) return null;
+
+      const travelOut = target ? travel(item.stop, target) : 0;
+      return start + item.dwellMinutes + travelOut <= deadline ? { start, travelIn } : null;
+    };
+
+    let bestIndex = -1;
+    let bestStart = Number.POSITIVE_INFINITY;
+    let bestTravel = 0;
+
+    for (let i = 0; i < remaining.length; i += 1) {
+      const candidate = remaining[i];
+      const next = candidate ? fit(candidate, current, clock) : null;
+      if (!next) continue;
+
+      if (next.start < bestStart || (next.start === bestStart && next.travelIn < bestTravel)) {
+        bestIndex = i;
+        bestStart = next.start;
+        bestTravel = next.travelIn;
+        if (options.keepOrder) break;
+      }
+    }
+
+    const chosen = bestIndex >= 0 ? remaining[bestIndex] : undefined;
+    if (chosen) {
+      const chosenEnd = bestStart + chosen.dwellMinutes;
+      let urgentClose = Number.POSITIVE_INFINITY;
+      for (let i = 0; i < remaining.length; i += 1) {
+        const candidate = remaining[i];
+        if (!candidate || i === bestIndex || candidate.windows.length === 0) continue;
+
+        const next = fit(candidate, current, clock);
+        if (!next || fit(candidate, chosen.stop, chosenEnd)) continue;
+        if (!fit(chosen, candidate.stop, next.start + candidate.dwellMinutes)) continue;
+
+        const close = closingTime(candidate, next.start, dayEnd);
+        if (close < urgentClose) {
+          urgentClose = close;
+          bestIndex = i;
+          bestStart = next.start;
+          bestTravel = next.travelIn;
+        }
+      }
+    }
+
+    const best = bestIndex >= 0 ? remaining[bestIndex] : undefined;
+    if (best) {
+      const arrival = clock + bestTravel;
+      timeline.push(toVisit(best, arrival, bestStart, bestTravel, false));
+      totalTravelMinutes += bestTravel;
+      totalWaitMinutes += bestStart - arrival;
+      clock = bestStart + best.dwellMinutes;
+      current = best.stop;
+      remaining.splice(bestIndex, 1);
+      continue;
+    }
+
+    if (!anchor) {
+      break;
+    }
+
+    anchorIndex += 1;
+    const travelIn = current ? travel(current, anchor.stop) : 0;
+    const arrival = clock + travelIn;
+    const start = anchor.fixedStart ?? arrival;
+
+    if (arrival > start) {
+      unscheduled.push(toUnscheduled(anchor, "fixed_time_conflict"));
+      continue;
+    }
+
+    timeline.push(toVisit(anchor, arrival, start, travelIn, true));
+    totalTravelMinutes += travelIn;
+    totalWaitMinutes += start - arrival;
+    clock = start + anchor.dwellMinutes;
+    current = anchor.stop;
+  }
+
+  for (const item of remaining) {
+    const fitsSomeWindow = earliestStart(item, dayStart, dayEnd) !== null;
+    unscheduled.push(toUnscheduled(item, fitsSomeWindow ? "insufficient_time" : "closed"));
+  }
+
+  let endClock = clock;
+  if (endLocation && current) {
+    const travelHome = travel(current, endLocation);
+    totalTravelMinutes += travelHome;
+    endClock += travelHome;
+  }
+
+  return {
+    timeline,
+    unscheduled,
+    endTime: formatClockTime(endClock),
+    overrunMinutes: Math.max(0, endClock - dayEnd),
+    totalTravelMinutes,
+    totalWaitMinutes
+  };
+}
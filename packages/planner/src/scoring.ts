@@ -0,0 +1,394 @@
+// Preference vocabulary shared with the mobile app's signup profile and trip draft.
+export type CompanionType = "solo" | "friends" | "couple" | "family_kids" | "family_no_kids" | "parents";
+export type TripPurpose = "sightseeing" | "relaxation" | "activity" | "food_tour" | "filial";
+export type TravelStyle = "J" | "P";
+export type TargetGroup = "young" | "family" | "senior";
+export type BudgetRange = "under_50" | "50_100" | "100_200" | "unlimited";
+export type ChildAgeGroup = "0_2" | "3_5" | "6_7" | "8_10" | "11_13";
+export type FoodPreference =
+  | "korean"
+  | "chinese"
+  | "japanese"
+  | "western"
+  | "seafood"
+  | "meat"
+  | "noodle"
+  | "salad"
+  | "cafe"
+  | "dessert"
+  | "pub"
+  | "other";
+
+export interface TravelPreferences {
+  companion?: CompanionType;
+  purpose?: TripPurpose;
+  travelStyle?: TravelStyle;
+  targetGroup?: TargetGroup;
+  budgetRange?: BudgetRange;
+  foods?: FoodPreference[];
+  childAgeGroups?: ChildAgeGroup[];
+}
+
+export type CandidateKind = "attraction" | "restaurant";
+
+export interface ScoringCandidate {
+  id: string;
+  kind: CandidateKind;
+  name: string;
+  // Free-text category (e.g. Naver's "한식>국밥"); matched together with the name.
+  category?: string;
+  // TourAPI content type (12 sights, 14 culture, 28 leisure sports, ...).
+  contentTypeId?: string;
+}
+
+export type ScoreFactor =
+  | "popularity"
+  | "companion"
+  | "children"
+  | "purpose"
+  | "target_group"
+  | "food"
+  | "budget";
+
+export interface ScoreComponent {
+  factor: ScoreFactor;
+  points: number;
+  reason: string;
+}
+
+export interface CandidateScore {
+  id: string;
+  score: number;
+  breakdown: ScoreComponent[];
+}
+
+export interface RankedCandidate<T extends ScoringCandidate> {
+  candidate: T;
+  score: CandidateScore;
+}
+
+export interface DailyPace {
+  attractionsPerDay: number;
+  reasons: string[];
+}
+
+interface KeywordRule {
+  factor: ScoreFactor;
+  kinds: CandidateKind[];
+  applies: (preferences: TravelPreferences) => boolean;
+  pattern?: RegExp;
+  contentTypeIds?: string[];
+  points: number;
+  reason: string;
+}
+
+const DEFAULT_ATTRACTIONS_PER_DAY = 2;
+const MIN_ATTRACTIONS_PER_DAY = 1;
+const MAX_ATTRACTIONS_PER_DAY = 4;
+// The most popular source result gets this much; later results get proportionally less.
+const POPULARITY_MAX_POINTS = 10;
+
+const KID_FRIENDLY = /키즈|어린이|아쿠아리움|수족관|동물원|테마파크|놀이|체험|과학관|박물관|공원|목장/;
+// Short, flat visits that work with a stroller and nap times.
+const TODDLER_FRIENDLY = /키즈|아쿠아리움|수족관|동물원|공원|목장|놀이/;
+const STRENUOUS = /등산|트레킹|오름|레포츠|서핑|짚라인|패러글라이딩|래프팅|카약|암벽/;
+const SENIOR_FRIENDLY = /온천|스파|사찰|정원|수목원|한옥|전통|박물관|미술관|유람선|케이블카|전망대/;
+const ROMANTIC = /야경|전망|해변|해수욕장|카페|산책|정원|미술관/;
+const RELAXING = /온천|스파|해변|해수욕장|수목원|휴양림|정원/;
+const ACTIVE = /레포츠|체험|서핑|카약|짚라인|패러글라이딩|래프팅|자전거|승마/;
+const FOOD_SPOT = /시장|먹자골목|야시장/;
+const BAR = /술집|주점|호프|포차|와인바|칵테일|pub|bar/i;
+const PREMIUM_DINING = /오마카세|파인다이닝|코스요리|한우|스테이크/;
+const BUDGET_DINING = /분식|국밥|국수|백반|칼국수|김밥|떡볶이/;
+
+const FOOD_PATTERNS: Record<FoodPreference, RegExp | null> = {
+  korean: /한식|백반|국밥|찌개|한정식/,
+  chinese: /중식|중국|짜장|마라/,
+  japanese: /일식|초밥|스시|라멘|돈가스|이자카야/,
+  western: /양식|이탈리안|파스타|피자|스테이크|브런치|버거/,
+  seafood: /해산물|해물|횟집|회센터|생선|조개|전복|대게/,
+  meat: /고기|육류|갈비|삼겹|흑돼지|한우|곱창|돼지/,
+  noodle: /국수|냉면|칼국수|라멘|우동|면요리/,
+  salad: /샐러드|비건|채식/,
+  cafe: /카페|커피/,
+  dessert: /디저트|베이커리|제과|빙수/,
+  pub: BAR,
+  other: null
+};
+
+const SIGHTSEEING_CONTENT_TYPES = ["12", "14"];
+const LEISURE_CONTENT_TYPES = ["28"];
+
+const hasSmallChildren = (preferences: TravelPreferences) =>
+  Boolean(preferences.childAgeGroups?.some((group) => group === "0_2" || group === "3_5"));
+const hasOlderChildren = (preferences: TravelPreferences) =>
+  Boolean(preferences.childAgeGroups?.some((group) => group === "8_10" || group === "11_13"));
+const travelsWithKids = (preferences: TravelPreferences) =>
+  preferences.companion === "family_kids" || Boolean(preferences.childAgeGroups?.length);
+const travelsWithParents = (preferences: TravelPreferences) =>
+  preferences.companion === "parents" || preferences.purpose === "filial";
+
+const KEYWORD_RULES: KeywordRule[] = [
+  {
+    factor: "companion",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.companion === "family_kids",
+    pattern: KID_FRIENDLY,
+    points: 10,
+    reason: "kid-friendly for family_kids"
+  },
+  {
+    factor: "children",
+    kinds: ["attraction"],
+    applies: hasSmallChildren,
+    pattern: TODDLER_FRIENDLY,
+    points: 10,
+    reason: "easy visit with children under 6"
+  },
+  {
+    factor: "children",
+    kinds: ["attraction"],
+    applies: hasSmallChildren,
+    pattern: STRENUOUS,
+    points: -15,
+    reason: "too strenuous for children under 6"
+  },
+  {
+    factor: "children",
+    kinds: ["attraction"],
+    applies: hasOlderChildren,
+    pattern: ACTIVE,
+    points: 6,
+    reason: "hands-on activity for older children"
+  },
+  {
+    factor: "children",
+    kinds: ["restaurant"],
+    applies: travelsWithKids,
+    pattern: BAR,
+    points: -20,
+    reason: "bar with children"
+  },
+  {
+    factor: "companion",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.companion === "parents",
+    pattern: SENIOR_FRIENDLY,
+    points: 10,
+    reason: "comfortable for parents"
+  },
+  {
+    factor: "companion",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.companion === "parents",
+    pattern: STRENUOUS,
+    points: -10,
+    reason: "too strenuous for parents"
+  },
+  {
+    factor: "companion",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.companion === "couple",
+    pattern: ROMANTIC,
+    points: 8,
+    reason: "popular with couples"
+  },
+  {
+    factor: "companion",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.companion === "friends",
+    pattern: ACTIVE,
+    points: 6,
+    reason: "group activity for friends"
+  },
+  {
+    factor: "purpose",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.purpose === "sightseeing",
+    contentTypeIds: SIGHTSEEING_CONTENT_TYPES,
+    points: 5,
+    reason: "sightseeing spot"
+  },
+  {
+    factor: "purpose",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.purpose === "relaxation",
+    pattern: RELAXING,
+    points: 8,
+    reason: "relaxing spot"
+  },
+  {
+    factor: "purpose",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.purpose === "activity",
+    pattern: ACTIVE,
+    contentTypeIds: LEISURE_CONTENT_TYPES,
+    points: 10,
+    reason: "activity"
+  },
+  {
+    factor: "purpose",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.purpose === "food_tour",
+    pattern: FOOD_SPOT,
+    points: 8,
+    reason: "food market for a food tour"
+  },
+  {
+    factor: "purpose",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.purpose === "filial",
+    pattern: SENIOR_FRIENDLY,
+    points: 8,
+    reason: "good for a trip with parents"
+  },
+  {
+    factor: "target_group",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.targetGroup === "young",
+    pattern: ACTIVE,
+    points: 6,
+    reason: "activity for a young group"
+  },
+  {
+    factor: "target_group",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.targetGroup === "family",
+    pattern: KID_FRIENDLY,
+    points: 6,
+    reason: "family-friendly"
+  },
+  {
+    factor: "target_group",
+    kinds: ["attraction"],
+    applies: (preferences) => preferences.targetGroup === "senior",
+    pattern: SENIOR_FRIENDLY,
+    points: 6,
+    reason: "comfortable for seniors"
+  },
+  {
+    factor: "budget",
+    kinds: ["restaurant"],
+    applies: (preferences) => preferences.budgetRange === "under_50",
+    pattern: PREMIUM_DINING,
+    points: -8,
+    reason: "premium dining over an under_50 budget"
+  },
+  {
+    factor: "budget",
+    kinds: ["restaurant"],
+    applies: (preferences) => preferences.budgetRange === "under_50",
+    pattern: BUDGET_DINING,
+    points: 6,
+    reason: "fits an under_50 budget"
+  },
+  {
+    factor: "budget",
+    kinds: ["restaurant"],
+    applies: (preferences) => preferences.budgetRange === "50_100",
+    pattern: PREMIUM_DINING,
+    points: -4,
+    reason: "premium dining over a 50_100 budget"
+  },
+  {
+    factor: "budget",
+    kinds: ["restaurant"],
+    applies: (preferences) => preferences.budgetRange === "100_200" || preferences.budgetRange === "unlimited",
+    pattern: PREMIUM_DINING,
+    points: 4,
+    reason: "premium dining within budget"
+  }
+];
+
+const FOOD_MATCH_POINTS = 12;
+
+function matchesRule(rule: KeywordRule, candidate: ScoringCandidate, text: string): boolean {
+  const byContentType = Boolean(
+    rule.contentTypeIds && candidate.contentTypeId && rule.contentTypeIds.includes(candidate.contentTypeId)
+  );
+  return byContentType || Boolean(rule.pattern?.test(text));
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 10) / 10;
+}
+
+// Preference points only; rankCandidates adds the popularity share on top.
+export function scoreCandidate(candidate: ScoringCandidate, preferences: TravelPreferences): CandidateScore {
+  const text = `${candidate.name} ${candidate.category ?? ""}`;
+  const breakdown: ScoreComponent[] = KEYWORD_RULES.filter(
+    (rule) =>
+      rule.kinds.includes(candidate.kind) && rule.applies(preferences) && matchesRule(rule, candidate, text)
+  ).map((rule) => ({ factor: rule.factor, points: rule.points, reason: rule.reason }));
+
+  if (candidate.kind === "restaurant") {
+    // One food match is enough; several matching preferences don't stack.
+    const food = preferences.foods?.find((preference) => FOOD_PATTERNS[preference]?.test(text));
+    if (food) {
+      breakdown.push({ factor: "food", points: FOOD_MATCH_POINTS, reason: `matches food preference ${food}` });
+    }
+  }
+
+  return {
+    id: candidate.id,
+    score: roundPoints(breakdown.reduce((sum, component) => sum + component.points, 0)),
+    breakdown
+  };
+}
+
+// Candidates are expected in source order (e.g. TourAPI's popularity sort), which becomes the
+// popularity share of the score. Ties keep the source order.
+export function rankCandidates<T extends ScoringCandidate>(
+  candidates: T[],
+  preferences: TravelPreferences
+): RankedCandidate<T>[] {
+  return candidates
+    .map((candidate, index) => {
+      const preference = scoreCandidate(candidate, preferences);
+      const popularity = roundPoints(POPULARITY_MAX_POINTS * (1 - index / candidates.length));
+      const breakdown: ScoreComponent[] = [
+        { factor: "popularity", points: popularity, reason: `#${index + 1} of ${candidates.length} in search results` },
+        ...preference.breakdown
+      ];
+
+      return {
+        candidate,
+        index,
+        score: { id: candidate.id, score: roundPoints(preference.score + popularity), breakdown }
+      };
+    })
+    .sort((a, b) => b.score.score - a.score.score || a.index - b.index)
+    .map(({ candidate, score }) => ({ candidate, score }));
+}
+
+// How many attractions a day should hold. Planners (J) get a fuller day, relaxation trips a
+// lighter one; travelling with parents or small children caps it.
+export function resolveDailyPace(preferences: TravelPreferences): DailyPace {
+  const reasons: string[] = [];
+  let attractionsPerDay = DEFAULT_ATTRACTIONS_PER_DAY;
+
+  if (preferences.travelStyle === "J") {
+    attractionsPerDay += 1;
+    reasons.push("J travel style: one more stop per day");
+  }
+
+  if (preferences.purpose === "relaxation") {
+    attractionsPerDay -= 1;
+    reasons.push("relaxation trip: one fewer stop per day");
+  }
+
+  if (travelsWithParents(preferences) || preferences.targetGroup === "senior") {
+    if (attractionsPerDay > 2) reasons.push("travelling with parents: at most 2 stops per day");
+    attractionsPerDay = Math.min(attractionsPerDay, 2);
+  }
+
+  if (preferences.childAgeGroups?.includes("0_2")) {
+    if (attractionsPerDay > 2) reasons.push("children under 3: at most 2 stops per day");
+    attractionsPerDay = Math.min(attractionsPerDay, 2);
+  }
+
+  return {
+    attractionsPerDay: Math.min(Math.max(attractionsPerDay, MIN_ATTRACTIONS_PER_DAY), MAX_ATTRACTIONS_PER_DAY),
+    reasons
+  };
+}
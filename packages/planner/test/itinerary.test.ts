@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+
+import { partitionItinerary } from "../src/itinerary";
+import type { TspLocation } from "../src/nearest-neighbor";
+
+const jejuAirport: TspLocation = { id: "airport", name: "제주국제공항", lat: 33.5104, lng: 126.4914 };
+
+// Two clusters: around Jeju city (north) and around Seogwipo (south).
+const places: TspLocation[] = [
+  { id: "north-1", name: "용두암", lat: 33.5162, lng: 126.5119 },
+  { id: "north-2", name: "동문시장", lat: 33.5121, lng: 126.5282 },
+  { id: "south-1", name: "천지연폭포", lat: 33.2468, lng: 126.5545 },
+  { id: "south-2", name: "정방폭포", lat: 33.2448, lng: 126.5719 }
+];
+
+describe("partitionItinerary", () => {
+  it("anchors the first day at the arrival point and the last day at the departure point", () => {
+    const result = partitionItinerary(places, {
+      dayCount: 2,
+      arrival: jejuAirport,
+      departure: jejuAirport
+    });
+
+    const [first, last] = result.days;
+    expect(first?.startLocationId).toBe("airport");
+    expect(first?.endLocationId).toBeUndefined();
+    expect(last?.endLocationId).toBe("airport");
+    expect(last?.startLocationId).toBeUndefined();
+    expect(result.days.flatMap((day) => day.orderedIds)).not.toContain("airport");
+  });
+
+  it("gives a single-day trip both the arrival and the departure anchor", () => {
+    const result = partitionItinerary(places.slice(0, 2), {
+      dayCount: 1,
+      arrival: jejuAirport,
+      departure: { ...jejuAirport, id: "airport-departure" }
+    });
+
+    expect(result.days[0]?.startLocationId).toBe("airport");
+    expect(result.days[0]?.endLocationId).toBe("airport-departure");
+    expect(result.days[0]?.orderedIds).toHaveLength(2);
+  });
+
+  it("lets per-day anchors override the arrival point and lodgings", () => {
+    const pickup: TspLocation = { id: "pickup", name: "렌터카 하우스", lat: 33.4996, lng: 126.4817 };
+    const result = partitionItinerary(places, {
+      dayCount: 2,
+      arrival: jejuAirport,
+      lodgings: [{ id: "hotel", name: "숙소", lat: 33.25, lng: 126.56 }],
+      dayAnchors: [{ start: pickup }, { end: pickup }]
+    });
+
+    expect(result.days[0]?.startLocationId).toBe("pickup");
+    expect(result.days[0]?.endLocationId).toBe("hotel");
+    expect(result.days[1]?.startLocationId).toBe("hotel");
+    expect(result.days[1]?.endLocationId).toBe("pickup");
+  });
+});
+
+// Four stops each around Jeju city, Seogwipo and Hallim, listed out of geographic order.
+const threeRegions: TspLocation[] = [
+  { id: "south-a", lat: 33.2468, lng: 126.5545 },
+  { id: "north-a", lat: 33.5162, lng: 126.5119 },
+  { id: "west-a", lat: 33.3940, lng: 126.2397 },
+  { id: "south-b", lat: 33.2448, lng: 126.5719 },
+  { id: "north-b", lat: 33.5121, lng: 126.5282 },
+  { id: "west-b", lat: 33.4100, lng: 126.2650 },
+  { id: "south-c", lat: 33.2530, lng: 126.5600 },
+  { id: "north-c", lat: 33.5000, lng: 126.5300 },
+  { id: "west-c", lat: 33.3900, lng: 126.2500 },
+  { id: "south-d", lat: 33.2500, lng: 126.5100 },
+  { id: "north-d", lat: 33.5200, lng: 126.5500 },
+  { id: "west-d", lat: 33.4000, lng: 126.2300 }
+];
+
+const regionOf = (id: string) => id.split("-")[0];
+
+describe("partitionItinerary balancing", () => {
+  it("gives each region its own day and places every stop exactly once", () => {
+    const result = partitionItinerary(threeRegions, { dayCount: 3 });
+
+    expect(result.days.map((day) => day.orderedIds.length)).toEqual([4, 4, 4]);
+    for (const day of result.days) {
+      expect(new Set(day.orderedIds.map(regionOf)).size).toBe(1);
+    }
+    expect(result.days.flatMap((day) => day.orderedIds).sort()).toEqual(
+      threeRegions.map((place) => place.id).sort()
+    );
+  });
+
+  it("spreads a crowded category over the days instead of stacking it on one", () => {
+    const withCafes = threeRegions.map((place) => ({
+      ...place,
+      category: regionOf(place.id) === "north" || place.id === "south-a" ? "cafe" : "sight"
+    }));
+    const result = partitionItinerary(withCafes, { dayCount: 3 });
+    const cafeCounts = result.days.map(
+      (day) => day.orderedIds.filter((id) => withCafes.find((place) => place.id === id)?.category === "cafe").length
+    );
+
+    // Five cafes over three days: no day may hold more than ceil(5 / 3).
+    expect(Math.max(...cafeCounts)).toBeLessThanOrEqual(2);
+    expect(cafeCounts.reduce((sum, count) => sum + count, 0)).toBe(5);
+  });
+
+  it("leaves the extra days empty when there are fewer stops than days", () => {
+    const result = partitionItinerary(places.slice(0, 2), { dayCount: 3 });
+
+    expect(result.days).toHaveLength(3);
+    expect(result.days.flatMap((day) => day.orderedIds).sort()).toEqual(["north-1", "north-2"]);
+    expect(result.days.filter((day) => day.orderedIds.length === 0)).toHaveLength(1);
+  });
+});
+
+describe("partitionItinerary routing", () => {
+  it("orders each day's stops along the road from its start anchor", () => {
+    // Evenly spaced along the north coast, heading east from the airport.
+    const coast: TspLocation[] = [
+      { id: "coast-3", lat: 33.52, lng: 126.62 },
+      { id: "coast-1", lat: 33.52, lng: 126.54 },
+      { id: "coast-4", lat: 33.52, lng: 126.66 },
+      { id: "coast-2", lat: 33.52, lng: 126.58 }
+    ];
+    const result = partitionItinerary(coast, { dayCount: 1, arrival: jejuAirport });
+
+    expect(result.days[0]?.orderedIds).toEqual(["coast-1", "coast-2", "coast-3", "coast-4"]);
+    expect(result.days[0]?.totalDistanceKm).toBeGreaterThan(0);
+  });
+});
+
+describe("partitionItinerary lodgings", () => {
+  const northHotel: TspLocation = { id: "north-hotel", lat: 33.51, lng: 126.53 };
+  const southHotel: TspLocation = { id: "south-hotel", lat: 33.25, lng: 126.56 };
+
+  it("ends each day at that night's lodging and starts the next day there", () => {
+    const result = partitionItinerary(threeRegions, {
+      dayCount: 3,
+      arrival: jejuAirport,
+      departure: jejuAirport,
+      lodgings: [northHotel, southHotel]
+    });
+
+    expect(result.days.map((day) => [day.startLocationId, day.endLocationId])).toEqual([
+      ["airport", "north-hotel"],
+      ["north-hotel", "south-hotel"],
+      ["south-hotel", "airport"]
+    ]);
+    expect(result.days.flatMap((day) => day.orderedIds)).not.toContain("north-hotel");
+  });
+
+  it("matches each anchored day to the region nearest its anchors", () => {
+    const westHotel: TspLocation = { id: "west-hotel", lat: 33.4, lng: 126.25 };
+    const result = partitionItinerary(threeRegions, {
+      dayCount: 3,
+      arrival: jejuAirport,
+      departure: jejuAirport,
+      lodgings: [westHotel, westHotel]
+    });
+
+    // Day two both starts and ends at the Hallim hotel, so it takes the Hallim stops.
+    expect(new Set(result.days[1]?.orderedIds.map(regionOf))).toEqual(new Set(["west"]));
+  });
+
+  it("leaves a night without lodging unanchored", () => {
+    const result = partitionItinerary(threeRegions, {
+      dayCount: 3,
+      lodgings: [northHotel, null]
+    });
+
+    expect(result.days[1]?.startLocationId).toBe("north-hotel");
+    expect(result.days[1]?.endLocationId).toBeUndefined();
+    expect(result.days[2]?.startLocationId).toBeUndefined();
+  });
+});
+
+describe("partitionItinerary validation", () => {
+  it("rejects a non-positive day count and duplicate or invalid places", () => {
+    expect(() => partitionItinerary(places, { dayCount: 0 })).toThrow("dayCount must be a positive integer.");
+    expect(() => partitionItinerary([places[0]!, places[0]!], { dayCount: 1 })).toThrow(
+      "Duplicate place id: north-1"
+    );
+    expect(() => partitionItinerary([{ id: "bad", lat: 120, lng: 0 }], { dayCount: 1 })).toThrow(
+      "Invalid coordinate for place id bad"
+    );
+  });
+});
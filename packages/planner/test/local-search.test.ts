@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+
+import { haversineDistanceKm } from "../src/geo";
+import { improveRouteLocalSearch } from "../src/local-search";
+import { nearestNeighborRoute, solveRouteOrder } from "../src/nearest-neighbor";
+
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function randomPoints(count: number, seed: number): Array<{ lat: number; lng: number }> {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () => ({
+    lat: 33.2 + random() * 0.4,
+    lng: 126.2 + random() * 0.7
+  }));
+}
+
+function distanceMatrix(points: Array<{ lat: number; lng: number }>): number[][] {
+  return points.map((from) => points.map((to) => haversineDistanceKm(from, to)));
+}
+
+function asymmetricMatrix(size: number, seed: number): number[][] {
+  const random = seededRandom(seed);
+  return Array.from({ length: size }, (_, from) =>
+    Array.from({ length: size }, (_, to) => (from === to ? 0 : 1 + random() * 20))
+  );
+}
+
+function routeCost(route: number[], matrix: number[][]): number {
+  return route
+    .slice(1)
+    .reduce((sum, to, index) => sum + (matrix[route[index] ?? 0]?.[to] ?? 0), 0);
+}
+
+function bruteForceOpenRoute(matrix: number[][]): number {
+  const rest = matrix.map((_, index) => index).slice(1);
+  let best = Number.POSITIVE_INFINITY;
+
+  const permute = (prefix: number[], remaining: number[]) => {
+    if (remaining.length === 0) {
+      best = Math.min(best, routeCost([0, ...prefix], matrix));
+      return;
+    }
+    remaining.forEach((node, index) => {
+      permute([...prefix, node], [...remaining.slice(0, index), ...remaining.slice(index + 1)]);
+    });
+  };
+
+  permute([], rest);
+  return best;
+}
+
+describe("improveRouteLocalSearch", () => {
+  it("keeps every node exactly once and never worsens the greedy route", () => {
+    const matrix = distanceMatrix(randomPoints(40, 7));
+    const greedy = nearestNeighborRoute(matrix);
+    const result = improveRouteLocalSearch(greedy, matrix);
+
+    expect([...result.route].sort((a, b) => a - b)).toEqual(matrix.map((_, index) => index));
+    expect(result.route[0]).toBe(0);
+    expect(result.distance).toBeLessThanOrEqual(routeCost(greedy, matrix) + 1e-9);
+    expect(result.distance).toBeCloseTo(routeCost(result.route, matrix), 9);
+    expect(result.stats.initialDistance).toBeCloseTo(routeCost(greedy, matrix), 9);
+    expect(result.stats.finalDistance).toBe(result.distance);
+    expect(result.stats.stopReason).toBe("converged");
+  });
+
+  it("reaches the brute-force optimum on small instances", () => {
+    for (const seed of [1, 2, 3]) {
+      const matrix = distanceMatrix(randomPoints(8, seed));
+      const result = improveRouteLocalSearch(nearestNeighborRoute(matrix), matrix);
+
+      expect(result.distance).toBeLessThanOrEqual(bruteForceOpenRoute(matrix) * 1.05);
+    }
+  });
+
+  it("tracks asymmetric costs through reversals and relocations", () => {
+    const matrix = asymmetricMatrix(30, 11);
+    const result = improveRouteLocalSearch(nearestNeighborRoute(matrix), matrix);
+
+    expect(result.distance).toBeCloseTo(routeCost(result.route, matrix), 9);
+    expect(result.stats.twoOptMoves + result.stats.orOptMoves).toBeGreaterThan(0);
+  });
+
+  it("keeps a fixed end node last", () => {
+    const matrix = distanceMatrix(randomPoints(25, 5));
+    const greedy = nearestNeighborRoute(matrix, { startIndex: 0, endIndex: 24 });
+    const result = improveRouteLocalSearch(greedy, matrix, { fixedEnd: true });
+
+    expect(result.route[0]).toBe(0);
+    expect(result.route[result.route.length - 1]).toBe(24);
+    expect(result.route).toHaveLength(25);
+  });
+
+  it("keeps improving when edges into the start and out of a fixed end are unreachable", () => {
+    const size = 25;
+    const end = size - 1;
+    const matrix = distanceMatrix(randomPoints(size, 5)).map((row, from) =>
+      row.map((cost, to) => (from !== to && (to === 0 || from === end) ? Number.POSITIVE_INFINITY : cost))
+    );
+    const greedy = nearestNeighborRoute(matrix, { startIndex: 0, endIndex: end });
+    const result = improveRouteLocalSearch(greedy, matrix, { fixedEnd: true });
+
+    expect(result.route[result.route.length - 1]).toBe(end);
+    expect(result.stats.twoOptMoves).toBeGreaterThan(0);
+    expect(Number.isFinite(result.distance)).toBe(true);
+    expect(result.distance).toBeLessThan(routeCost(greedy, matrix));
+    expect(result.distance).toBeCloseTo(routeCost(result.route, matrix), 9);
+  });
+
+  it("never moves an unreachable edge into the route", () => {
+    const matrix = asymmetricMatrix(12, 17).map((row, from) =>
+      row.map((cost, to) => (from !== to && to === 0 ? Number.POSITIVE_INFINITY : cost))
+    );
+    const result = improveRouteLocalSearch(nearestNeighborRoute(matrix), matrix);
+
+    expect(result.route[0]).toBe(0);
+    expect(Number.isFinite(result.distance)).toBe(true);
+    expect(result.distance).toBeCloseTo(routeCost(result.route, matrix), 9);
+  });
+
+  it("stops at the iteration budget", () => {
+    const matrix = distanceMatrix(randomPoints(60, 9));
+    const result = improveRouteLocalSearch(nearestNeighborRoute(matrix), matrix, { maxIterations: 1 });
+
+    expect(result.stats.iterations).toBe(1);
+    expect(["iteration_limit", "converged"]).toContain(result.stats.stopReason);
+  });
+
+  it("rejects invalid budgets", () => {
+    expect(() => improveRouteLocalSearch([0, 1, 2], distanceMatrix(randomPoints(3, 1)), { maxIterations: 0 })).toThrow(
+      "maxIterations must be a positive integer."
+    );
+    expect(() => improveRouteLocalSearch([0, 1, 2], distanceMatrix(randomPoints(3, 1)), { timeBudgetMs: 0 })).toThrow(
+      "timeBudgetMs must be a positive number."
+    );
+  });
+});
+
+describe("solveRouteOrder", () => {
+  it("closes a round trip on the start and reports the saving over the greedy route", () => {
+    const matrix = distanceMatrix(randomPoints(30, 21));
+    const result = solveRouteOrder(matrix, { startIndex: 0, roundTrip: true });
+
+    expect(result.route[0]).toBe(0);
+    expect(result.route[result.route.length - 1]).toBe(0);
+    expect(result.route).toHaveLength(31);
+    expect(result.savedDistance).toBeCloseTo(result.greedyDistance - result.distance, 9);
+    expect(result.savedDistance).toBeGreaterThanOrEqual(0);
+  });
+
+  it("rejects combining a fixed end with a round trip", () => {
+    expect(() => solveRouteOrder(distanceMatrix(randomPoints(4, 3)), { endIndex: 3, roundTrip: true })).toThrow(
+      "endIndex and roundTrip cannot be combined."
+    );
+  });
+});
+
+describe("local search benchmark", () => {
+  it("improves a 200-stop route well under a second", () => {
+    const matrix = distanceMatrix(randomPoints(200, 42));
+    const greedy = nearestNeighborRoute(matrix);
+
+    const startedAt = Date.now();
+    const result = improveRouteLocalSearch(greedy, matrix, { timeBudgetMs: 5000 });
+    const elapsedMs = Date.now() - startedAt;
+
+    expect(result.stats.stopReason).toBe("converged");
+    expect(result.distance).toBeLessThan(routeCost(greedy, matrix));
+    expect(elapsedMs).toBeLessThan(1000);
+  });
+});
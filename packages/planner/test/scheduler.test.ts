@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatClockTime,
+  formatTimeWindows,
+  parseClockTime,
+  parseTimeWindows,
+  scheduleDay,
+  type ScheduleStop
+} from "../src/scheduler";
+
+// A flat 15 minutes between any two distinct stops keeps the expected clock times readable.
+const fifteenMinutes = () => 15;
+
+const stop = (id: string, overrides: Partial<ScheduleStop> = {}): ScheduleStop => ({
+  id,
+  lat: 33.5,
+  lng: 126.5,
+  duration: 60,
+  ...overrides
+});
+
+describe("parseClockTime / formatClockTime", () => {
+  it("round-trips clock strings and rejects malformed ones", () => {
+    expect(parseClockTime("09:05")).toBe(545);
+    expect(formatClockTime(545)).toBe("09:05");
+    expect(parseClockTime("24:00")).toBe(1440);
+    expect(() => parseClockTime("9:75")).toThrow("Invalid clock time: 9:75");
+    expect(() => parseClockTime("25:00")).toThrow("Invalid clock time: 25:00");
+  });
+});
+
+describe("parseTimeWindows / formatTimeWindows", () => {
+  it("round-trips stored opening hours and rejects anything else", () => {
+    expect(parseTimeWindows("9:00-12:00, 13:00 - 18:00")).toEqual([
+      { open: "09:00", close: "12:00" },
+      { open: "13:00", close: "18:00" }
+    ]);
+    expect(formatTimeWindows([{ open: "09:00", close: "24:00" }])).toBe("09:00-24:00");
+    expect(parseTimeWindows("09:00-24:00")).toEqual([{ open: "09:00", close: "24:00" }]);
+
+    expect(parseTimeWindows("")).toBeNull();
+    expect(parseTimeWindows("09:00~18:00")).toBeNull();
+    expect(parseTimeWindows("18:00-09:00")).toBeNull();
+    expect(parseTimeWindows("09:00-25:00")).toBeNull();
+  });
+});
+
+describe("scheduleDay", () => {
+  it("waits for a stop to open and keeps the visit inside its opening hours", () => {
+    const result = scheduleDay([stop("museum", { openingHours: [{ open: "10:00", close: "18:00" }] })], {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      travelMinutes: fifteenMinutes
+    });
+
+    expect(result.timeline).toEqual([
+      expect.objectContaining({ id: "museum", startTime: "10:00", departureTime: "11:00", waitMinutes: 60 })
+    ]);
+    expect(result.totalWaitMinutes).toBe(60);
+  });
+
+  it("visits whichever stop can start earliest when the order is free", () => {
+    const result = scheduleDay(
+      [stop("late", { openingHours: [{ open: "13:00", close: "18:00" }] }), stop("anytime")],
+      { dayStartTime: "09:00", dayEndTime: "20:00", travelMinutes: fifteenMinutes }
+    );
+
+    expect(result.timeline.map((visit) => visit.id)).toEqual(["anytime", "late"]);
+  });
+
+  it("keeps the given order with keepOrder and only defers a stop that does not fit yet", () => {
+    const stops = [stop("c"), stop("a"), stop("b")];
+    const ordered = scheduleDay(stops, {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      travelMinutes: fifteenMinutes,
+      keepOrder: true
+    });
+    expect(ordered.timeline.map((visit) => visit.id)).toEqual(["c", "a", "b"]);
+
+    const deferred = scheduleDay(
+      [stop("long", { duration: 150 }), stop("short"), stop("lunch", { fixedStartTime: "11:00" })],
+      { dayStartTime: "09:00", dayEndTime: "20:00", travelMinutes: fifteenMinutes, keepOrder: true }
+    );
+    expect(deferred.timeline.map((visit) => visit.id)).toEqual(["short", "lunch", "long"]);
+  });
+
+  it("pins fixed-time stops and fits flexible stops around them", () => {
+    const result = scheduleDay([stop("a"), stop("b"), stop("show", { fixedStartTime: "11:00", duration: 90 })], {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      travelMinutes: fifteenMinutes,
+      keepOrder: true
+    });
+
+    const show = result.timeline.find((visit) => visit.id === "show");
+    expect(show).toMatchObject({ startTime: "11:00", departureTime: "12:30", fixed: true });
+    // "a" runs 09:00-10:00; "b" would end at 11:15 and miss the show, so it follows it.
+    expect(result.timeline.map((visit) => visit.id)).toEqual(["a", "show", "b"]);
+    expect(result.timeline[2]?.startTime).toBe("12:45");
+  });
+
+  it("reports fixed-time stops that fall outside the day or overlap another", () => {
+    const result = scheduleDay(
+      [
+        stop("early", { fixedStartTime: "07:00" }),
+        stop("show", { fixedStartTime: "11:00" }),
+        stop("clash", { fixedStartTime: "11:30" })
+      ],
+      { dayStartTime: "09:00", dayEndTime: "20:00", travelMinutes: fifteenMinutes }
+    );
+
+    expect(result.timeline.map((visit) => visit.id)).toEqual(["show"]);
+    expect(result.unscheduled).toEqual([
+      { id: "early", reason: "outside_day" },
+      { id: "clash", reason: "fixed_time_conflict" }
+    ]);
+  });
+
+  it("lists stops that did not fit the day, separating closed ones from a full day", () => {
+    const result = scheduleDay(
+      [
+        stop("a", { duration: 120 }),
+        stop("b", { duration: 120 }),
+        stop("night-market", { openingHours: [{ open: "21:00", close: "23:00" }] })
+      ],
+      { dayStartTime: "09:00", dayEndTime: "12:00", travelMinutes: fifteenMinutes }
+    );
+
+    expect(result.timeline.map((visit) => visit.id)).toEqual(["a"]);
+    expect(result.unscheduled).toEqual([
+      { id: "b", reason: "insufficient_time" },
+      { id: "night-market", reason: "closed" }
+    ]);
+  });
+
+  it("keeps the ride to the end location inside the day", () => {
+    const hotel = { id: "hotel", lat: 33.5, lng: 126.5 };
+    const result = scheduleDay([stop("a", { duration: 170 })], {
+      dayStartTime: "09:00",
+      dayEndTime: "12:00",
+      endLocation: hotel,
+      travelMinutes: fifteenMinutes
+    });
+
+    expect(result.timeline).toHaveLength(0);
+    expect(result.unscheduled).toEqual([{ id: "a", reason: "insufficient_time" }]);
+  });
+
+  it("moves a stop that is about to close ahead of nearer ones", () => {
+    const travelMinutes = (from: { id: string }, to: { id: string }) =>
+      from.id === to.id ? 0 : to.id === "market" || from.id === "market" ? 30 : 10;
+    const stops = [
+      stop("cafe"),
+      stop("park"),
+      stop("market", { openingHours: [{ open: "06:00", close: "11:00" }] })
+    ];
+
+    for (const keepOrder of [false, true]) {
+      const result = scheduleDay(stops, { dayStartTime: "09:00", dayEndTime: "20:00", travelMinutes, keepOrder });
+
+      // After "cafe" (09:00-10:00) the market would only start at 10:30 and close mid-visit.
+      expect(result.timeline.map((visit) => visit.id)).toEqual(["market", "cafe", "park"]);
+      expect(result.unscheduled).toEqual([]);
+    }
+
+    // Without the closing market the nearer stops keep their order.
+    const open = scheduleDay([stop("cafe"), stop("park"), stop("market")], {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      travelMinutes,
+      keepOrder: true
+    });
+    expect(open.timeline.map((visit) => visit.id)).toEqual(["cafe", "park", "market"]);
+  });
+
+  it("reports an overrun when the ride home after a late fixed-time stop passes the day end", () => {
+    const hotel = { id: "hotel", lat: 33.5, lng: 126.5 };
+    const result = scheduleDay([stop("show", { fixedStartTime: "18:30", duration: 90 })], {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      endLocation: hotel,
+      travelMinutes: fifteenMinutes
+    });
+
+    expect(result.timeline.map((visit) => visit.id)).toEqual(["show"]);
+    expect(result).toMatchObject({ endTime: "20:15", overrunMinutes: 15 });
+
+    const inTime = scheduleDay([stop("show", { fixedStartTime: "18:00", duration: 90 })], {
+      dayStartTime: "09:00",
+      dayEndTime: "20:00",
+      endLocation: hotel,
+      travelMinutes: fifteenMinutes
+    });
+    expect(inTime).toMatchObject({ endTime: "19:45", overrunMinutes: 0 });
+  });
+
+  it("rejects duplicate ids and a day that ends before it starts", () => {
+    expect(() => scheduleDay([stop("a"), stop("a")], { dayStartTime: "09:00", dayEndTime: "18:00" })).toThrow(
+      "Duplicate stop id: a"
+    );
+    expect(() => scheduleDay([], { dayStartTime: "18:00", dayEndTime: "09:00" })).toThrow(
+      "dayEndTime must be after dayStartTime."
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { rankCandidates, resolveDailyPace, scoreCandidate, type ScoringCandidate } from "../src/scoring";
+
+const attractions: ScoringCandidate[] = [
+  { id: "hike", kind: "attraction", name: "한라산 등산로", contentTypeId: "12" },
+  { id: "aquarium", kind: "attraction", name: "아쿠아플라넷 제주 수족관", contentTypeId: "14" },
+  { id: "spa", kind: "attraction", name: "산방산 탄산온천", contentTypeId: "12" }
+];
+
+describe("scoreCandidate", () => {
+  it("boosts toddler-friendly places and penalizes strenuous ones for family_kids with 0_2 children", () => {
+    const preferences = { companion: "family_kids" as const, childAgeGroups: ["0_2" as const] };
+
+    const aquarium = scoreCandidate(attractions[1]!, preferences);
+    const hike = scoreCandidate(attractions[0]!, preferences);
+
+    expect(aquarium.breakdown.map((component) => component.factor)).toEqual(["companion", "children"]);
+    expect(aquarium.score).toBe(20);
+    expect(hike.score).toBe(-15);
+  });
+
+  it("counts one matching food preference per restaurant", () => {
+    const score = scoreCandidate(
+      { id: "r1", kind: "restaurant", name: "흑돼지 명가", category: "한식>육류,고기요리" },
+      { foods: ["korean", "meat"] }
+    );
+
+    expect(score.breakdown).toEqual([
+      { factor: "food", points: 12, reason: "matches food preference korean" }
+    ]);
+  });
+});
+
+describe("rankCandidates", () => {
+  it("keeps the source order without preferences", () => {
+    const ranked = rankCandidates(attractions, {});
+
+    expect(ranked.map((entry) => entry.candidate.id)).toEqual(["hike", "aquarium", "spa"]);
+    expect(ranked[0]?.score.breakdown).toEqual([
+      { factor: "popularity", points: 10, reason: "#1 of 3 in search results" }
+    ]);
+  });
+
+  it("lets preferences outrank popularity", () => {
+    const ranked = rankCandidates(attractions, { companion: "parents" });
+
+    expect(ranked.map((entry) => entry.candidate.id)).toEqual(["spa", "aquarium", "hike"]);
+  });
+});
+
+describe("resolveDailyPace", () => {
+  it("gives J travellers an extra stop but caps days with parents", () => {
+    expect(resolveDailyPace({ travelStyle: "J" }).attractionsPerDay).toBe(3);
+
+    const withParents = resolveDailyPace({ travelStyle: "J", companion: "parents" });
+    expect(withParents.attractionsPerDay).toBe(2);
+    expect(withParents.reasons).toContain("travelling with parents: at most 2 stops per day");
+  });
+});
@@ -0,0 +1,29 @@
+// One-off backfill for trips created before memberships existed: gives every trip without an owner
+// row a TripMember for Trip.userId. Trip creation adds that row itself, so running it again is a no-op.
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const trips = await prisma.trip.findMany({
+    where: { members: { none: { role: "owner" } } },
+    select: { id: true, userId: true }
+  });
+
+  for (const trip of trips) {
+    await prisma.tripMember.upsert({
+      where: { tripId_userId: { tripId: trip.id, userId: trip.userId } },
+      create: { tripId: trip.id, userId: trip.userId, role: "owner" },
+      update: { role: "owner" }
+    });
+  }
+
+  console.log(`Backfilled owner memberships for ${trips.length} trip(s).`);
+}
+
+main()
+  .catch((error: unknown) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,37 @@
+// Writes openapi.json and the mobile client from the contract. With --check, writes nothing and
+// exits 1 when a committed file is out of date, so contract drift fails the build.
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { buildContractArtifacts } from "../src/contract/artifacts";
+
+const checkOnly = process.argv.includes("--check");
+const stale: string[] = [];
+
+for (const artifact of buildContractArtifacts()) {
+  let current: string | null = null;
+  try {
+    current = readFileSync(artifact.path, "utf8");
+  } catch {
+    current = null;
+  }
+
+  if (current === artifact.content) {
+    continue;
+  }
+
+  const relative = path.relative(process.cwd(), artifact.path);
+  if (checkOnly) {
+    stale.push(relative);
+    continue;
+  }
+
+  mkdirSync(path.dirname(artifact.path), { recursive: true });
+  writeFileSync(artifact.path, artifact.content);
+  console.log(`[contract] wrote ${relative}`);
+}
+
+if (stale.length > 0) {
+  console.error(`[contract] out of date: ${stale.join(", ")}. Run \`npm run contract:generate\` in services/api.`);
+  process.exit(1);
+}
@@ -3,9 +3,11 @@ import express from "express";
 import helmet from "helmet";
 
 import { env } from "./config/env";
+import { contractResponseCheck } from "./middleware/contract-check";
 import { errorHandler } from "./middleware/error-handler";
 import { notFoundHandler } from "./middleware/not-found";
 import { healthRouter } from "./routes/health";
+import { openApiRouter } from "./routes/openapi";
 import { apiRouter } from "./routes";
 
 const app = express();
@@ -13,8 +15,12 @@ const app = express();
 app.use(helmet());
 app.use(cors());
 app.use(express.json({ limit: "32kb" }));
+if (env.nodeEnv !== "production") {
+  app.use(contractResponseCheck(env.apiPrefix));
+}
 
 app.use(healthRouter);
+app.use(openApiRouter);
 app.use(env.apiPrefix, apiRouter);
 
 app.use(notFoundHandler);
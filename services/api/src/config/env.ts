@@ -1,6 +1,8 @@
 import "dotenv/config";
 
 export type NodeEnv = "development" | "test" | "production";
+// memory: in-process LRU only; sqlite: LRU backed by the ResponseCacheEntry table; off: no caching.
+export type ResponseCacheStore = "memory" | "sqlite" | "off";
 
 export interface EnvConfig {
   nodeEnv: NodeEnv;
@@ -13,6 +15,7 @@ export interface EnvConfig {
   // 외부 API 키
   kakaoRestApiKey: string;
   kakaoNativeAppKey: string;
+  kakaoAdminKey: string;
   naverClientId: string;
   naverClientSecret: string;
   dataGoKrApiKey: string;
@@ -20,6 +23,11 @@ export interface EnvConfig {
   odsayApiKey: string;
   jusoSearchApiKey: string;
   jusoMobileApiKey: string;
+  responseCacheStore: ResponseCacheStore;
+  // Sign in with Apple: bundle/service ids accepted as the identity token audience
+  appleClientIds: string[];
+  // Local fake OAuth provider for testing login flows (`fake:<subject>` credentials)
+  fakeAuthProvider: boolean;
 }
 
 function getRequired(name: string, fallback?: string): string {
@@ -53,6 +61,33 @@ function getNodeEnv(): NodeEnv {
   throw new Error(`Invalid NODE_ENV: ${raw}`);
 }
 
+function getResponseCacheStore(): ResponseCacheStore {
+  const raw = getOptional("RESPONSE_CACHE_STORE", "sqlite").toLowerCase();
+
+  if (raw === "memory" || raw === "sqlite" || raw === "off") {
+    return raw;
+  }
+
+  throw new Error(`Invalid RESPONSE_CACHE_STORE: ${raw}`);
+}
+
+function getList(name: string): string[] {
+  return getOptional(name)
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function getFakeAuthProvider(nodeEnv: NodeEnv): boolean {
+  const enabled = getOptional("AUTH_FAKE_PROVIDER", "false").toLowerCase() === "true";
+
+  if (enabled && nodeEnv === "production") {
+    throw new Error("AUTH_FAKE_PROVIDER must not be enabled in production");
+  }
+
+  return enabled;
+}
+
 function getPort(): number {
   const raw = process.env.PORT ?? "4000";
   const parsed = Number.parseInt(raw, 10);
@@ -74,8 +109,10 @@ function normalizeApiPrefix(rawPrefix: string): string {
   return trimmed;
 }
 
+const nodeEnv = getNodeEnv();
+
 export const env: EnvConfig = {
-  nodeEnv: getNodeEnv(),
+  nodeEnv,
   host: getRequired("HOST", "0.0.0.0"),
   port: getPort(),
   apiPrefix: normalizeApiPrefix(getRequired("API_PREFIX", "/api/v1")),
@@ -84,11 +121,15 @@ export const env: EnvConfig = {
   jwtRefreshSecret: getRequired("JWT_REFRESH_SECRET"),
   kakaoRestApiKey: getOptional("KAKAO_REST_API_KEY"),
   kakaoNativeAppKey: getOptional("KAKAO_NATIVE_APP_KEY"),
+  kakaoAdminKey: getOptional("KAKAO_ADMIN_KEY"),
   naverClientId: getOptional("NAVER_CLIENT_ID"),
   naverClientSecret: getOptional("NAVER_CLIENT_SECRET"),
   dataGoKrApiKey: getRequired("DATA_GO_KR_API_KEY"),
   kmaApiKey: getOptional("KMA_API_KEY"),
   odsayApiKey: getOptional("ODSAY_API_KEY"),
   jusoSearchApiKey: getOptional("JUSO_SEARCH_API_KEY"),
-  jusoMobileApiKey: getOptional("JUSO_MOBILE_API_KEY")
+  jusoMobileApiKey: getOptional("JUSO_MOBILE_API_KEY"),
+  responseCacheStore: getResponseCacheStore(),
+  appleClientIds: getList("APPLE_CLIENT_IDS"),
+  fakeAuthProvider: getFakeAuthProvider(nodeEnv)
 };
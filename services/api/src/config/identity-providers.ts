@@ -0,0 +1,13 @@
+import { getAppleSigningKeys } from "../services/apple-auth.service";
+import { createIdentityVerifier } from "../services/identity-providers";
+import { getKakaoUserByToken } from "../services/kakao-auth.service";
+import { getNaverUserByToken } from "../services/naver-auth.service";
+import { env } from "./env";
+
+export const identityVerifier = createIdentityVerifier({
+  fetchKakaoUser: getKakaoUserByToken,
+  fetchNaverUser: getNaverUserByToken,
+  fetchAppleKeys: getAppleSigningKeys,
+  appleClientIds: env.appleClientIds,
+  fakeEnabled: env.fakeAuthProvider
+});
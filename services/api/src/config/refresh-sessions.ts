@@ -0,0 +1,14 @@
+import { createPrismaRefreshSessionStore, createRefreshSessions } from "../services/refresh-sessions";
+import {
+  REFRESH_TOKEN_TTL_MS,
+  generateAccessToken,
+  generateRefreshToken,
+  verifyRefreshToken
+} from "../utils/jwt";
+import { prisma } from "./database";
+
+export const refreshSessions = createRefreshSessions({
+  store: createPrismaRefreshSessionStore(prisma),
+  signer: { generateAccessToken, generateRefreshToken, verifyRefreshToken },
+  ttlMs: REFRESH_TOKEN_TTL_MS
+});
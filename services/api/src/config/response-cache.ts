@@ -0,0 +1,23 @@
+import {
+  createMemoryCacheStore,
+  createPrismaCacheStore,
+  createResponseCache,
+  type CacheStore
+} from "../services/response-cache";
+import { prisma } from "./database";
+import { env } from "./env";
+
+const MEMORY_MAX_ENTRIES = 500;
+
+function buildStores(): CacheStore[] {
+  switch (env.responseCacheStore) {
+    case "off":
+      return [];
+    case "memory":
+      return [createMemoryCacheStore(MEMORY_MAX_ENTRIES)];
+    case "sqlite":
+      return [createMemoryCacheStore(MEMORY_MAX_ENTRIES), createPrismaCacheStore(prisma)];
+  }
+}
+
+export const responseCache = createResponseCache({ stores: buildStores() });
@@ -0,0 +1,26 @@
+import path from "node:path";
+
+import { generateClientSource } from "./client-generator";
+import { buildOpenApiDocument } from "./openapi";
+
+export interface ContractArtifact {
+  path: string;
+  content: string;
+}
+
+const API_ROOT = path.resolve(__dirname, "../..");
+
+// Files derived from the contract and committed to the repo. The default API prefix is used so the
+// output does not depend on the local environment.
+export function buildContractArtifacts(): ContractArtifact[] {
+  return [
+    {
+      path: path.join(API_ROOT, "openapi.json"),
+      content: `${JSON.stringify(buildOpenApiDocument("/api/v1"), null, 2)}\n`
+    },
+    {
+      path: path.resolve(API_ROOT, "../../apps/mobile/services/generated/api-client.ts"),
+      content: generateClientSource()
+    }
+  ];
+}
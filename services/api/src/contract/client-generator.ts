@@ -0,0 +1,164 @@
+import { ERROR_CATALOG, ERROR_LOCALES } from "../errors/catalog";
+import { CONTRACT_OPERATIONS, pathParameters, type ContractOperation } from "./operations";
+import type { AnySchema } from "./schema";
+
+export const GENERATED_CLIENT_HEADER =
+  "// Generated from the API contract in services/api/src/contract. Do not edit by hand;\n" +
+  "// run `npm run contract:generate` in services/api instead.";
+
+function isValidIdentifier(key: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(key);
+}
+
+function indent(text: string, depth: number): string {
+  const pad = "  ".repeat(depth);
+  return text
+    .split("\n")
+    .map((line) => (line ? pad + line : line))
+    .join("\n");
+}
+
+function renderType(schema: AnySchema, named: Map<string, AnySchema>, root = false): string {
+  if (schema.name && !root) {
+    if (!named.has(schema.name)) {
+      named.set(schema.name, schema);
+    }
+    return schema.name;
+  }
+
+  switch (schema.kind) {
+    case "string":
+      return schema.enum ? schema.enum.map((value) => JSON.stringify(value)).join(" | ") : "string";
+    case "number":
+    case "integer":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "unknown":
+      return "unknown";
+    case "array": {
+      const item = renderType(schema.items, named);
+      return /[|&]/.test(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case "record":
+      return `Record<string, ${renderType(schema.values, named)}>`;
+    case "nullable":
+      return `${renderType(schema.inner, named)} | null`;
+    case "object": {
+      const fields = Object.entries(schema.properties).map(([key, property]) => {
+        const name = isValidIdentifier(key) ? key : JSON.stringify(key);
+        const comment = property.description && !property.name ? `/** ${property.description} */\n` : "";
+        return `${comment}${name}${property.optional ? "?" : ""}: ${renderType(property, named)};`;
+      });
+      return fields.length > 0 ? `{\n${indent(fields.join("\n"), 1)}\n}` : "Record<string, never>";
+    }
+  }
+}
+
+function renderDeclaration(schema: AnySchema & { name: string }, named: Map<string, AnySchema>): string {
+  const body = renderType(schema, named, true);
+  const comment = schema.description ? `/** ${schema.description} */\n` : "";
+  if (schema.kind === "object") {
+    return `${comment}export interface ${schema.name} ${body}`;
+  }
+
+  // Long unions such as ErrorCode read better one member per line.
+  const members = body.split(" | ");
+  return members.length > 4
+    ? `${comment}export type ${schema.name} =\n${members.map((member) => `  | ${member}`).join("\n")};`
+    : `${comment}export type ${schema.name} = ${body};`;
+}
+
+function successResponse(operation: ContractOperation, named: Map<string, AnySchema>): string {
+  const [, schema] =
+    Object.entries(operation.responses).find(([status]) => Number(status) >= 200 && Number(status) < 300) ?? [];
+  return schema ? renderType(schema, named) : "void";
+}
+
+function renderOperation(operation: ContractOperation, named: Map<string, AnySchema>): string {
+  const params = pathParameters(operation.path);
+  const args = [
+    ...params.map((param) => `${param}: string`),
+    ...(operation.query ? [`query: ${renderType(operation.query, named)} = {}`] : []),
+    ...(operation.requestBody ? [`body: ${renderType(operation.requestBody, named)}`] : [])
+  ];
+  const path = params.length
+    ? `\`${operation.path.replace(/\{(\w+)\}/g, (_matched, param: string) => `\${encodeURIComponent(${param})}`)}\``
+    : JSON.stringify(operation.path);
+  const request = `{ method: "${operation.method}", path: ${path}${operation.query ? ", query" : ""}${operation.requestBody ? ", body" : ""} }`;
+
+  return [
+    `/** ${operation.summary} */`,
+    `${operation.operationId}: (${args.join(", ")}) =>`,
+    `  transport<${successResponse(operation, named)}>(${request}),`
+  ].join("\n");
+}
+
+// The catalog's user messages, so the app can show a message for a code without a server round trip.
+function renderErrorMessages(): string[] {
+  const entries = Object.entries(ERROR_CATALOG).map(([code, { messages }]) => {
+    const localized = ERROR_LOCALES.map((locale) => `${locale}: ${JSON.stringify(messages[locale])}`);
+    return `  ${code}: { ${localized.join(", ")} },`;
+  });
+
+  return [
+    `export type ErrorLocale = ${ERROR_LOCALES.map((locale) => JSON.stringify(locale)).join(" | ")};`,
+    "",
+    "export const ERROR_MESSAGES: Record<ErrorCode, Record<ErrorLocale, string>> = {",
+    ...entries,
+    "};",
+    ""
+  ];
+}
+
+// TypeScript source of the typed client: every named schema as an exported type, and a factory
+// that maps each operation onto whatever HTTP transport the app already uses.
+export function generateClientSource(): string {
+  const named = new Map<string, AnySchema>();
+  const operations = CONTRACT_OPERATIONS.map((operation) => renderOperation(operation, named));
+  // Error bodies are not part of the method signatures but the app still needs their types.
+  for (const operation of CONTRACT_OPERATIONS) {
+    for (const schema of Object.values(operation.responses)) {
+      if (schema) {
+        renderType(schema, named);
+      }
+    }
+  }
+
+  // Rendering a declaration can reach further named schemas, so keep going until none are new.
+  const declarations = new Map<string, string>();
+  while (declarations.size < named.size) {
+    for (const [name, schema] of [...named.entries()]) {
+      if (!declarations.has(name)) {
+        declarations.set(name, renderDeclaration(schema as AnySchema & { name: string }, named));
+      }
+    }
+  }
+
+  const types = [...declarations.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, source]) => source);
+
+  return [
+    GENERATED_CLIENT_HEADER,
+    "",
+    ...types.flatMap((source) => [source, ""]),
+    ...renderErrorMessages(),
+    "export interface ApiRequest {",
+    '  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";',
+    "  // Relative to the API prefix.",
+    "  path: string;",
+    "  query?: Record<string, string | number | undefined>;",
+    "  body?: unknown;",
+    "}",
+    "",
+    "export type ApiTransport = <T>(request: ApiRequest) => Promise<T>;",
+    "",
+    "export function createApiClient(transport: ApiTransport) {",
+    "  return {",
+    indent(operations.join("\n"), 2),
+    "  };",
+    "}",
+    "",
+    "export type ApiClient = ReturnType<typeof createApiClient>;",
+    ""
+  ].join("\n");
+}
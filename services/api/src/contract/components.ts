@@ -0,0 +1,1077 @@
+import { ERROR_CODES } from "../errors/catalog";
+import { IDENTITY_PROVIDERS } from "../services/identity-providers";
+import { MEAL_SLOT_KINDS } from "../services/meal-slots";
+import {
+  BUDGET_RANGES,
+  CHILD_AGE_GROUPS,
+  COMPANION_TYPES,
+  FOOD_PREFERENCES,
+  TARGET_GROUPS,
+  TRAVEL_STYLES,
+  TRIP_PURPOSES
+} from "../services/planner-preferences";
+import { LODGING_TYPES } from "../services/planner-selections";
+import { PROFILE_TRANSPORTS } from "../services/user-profile";
+import { s, type Infer } from "./schema";
+
+// Errors (see src/errors/catalog.ts for statuses and messages)
+
+export const ErrorCode = s.named("ErrorCode", s.enum(ERROR_CODES));
+
+export const FieldError = s.named(
+  "FieldError",
+  s.object({ field: s.optional(s.string()), message: s.string() })
+);
+
+export const ApiError = s.named(
+  "ApiError",
+  s.object({
+    code: ErrorCode,
+    message: s.string({ description: "Localized from Accept-Language (ko or en); defaults to ko." }),
+    details: s.optional(s.array(FieldError))
+  })
+);
+
+// Route optimization
+
+export const RouteTransportMode = s.named("RouteTransportMode", s.enum(["driving", "transit", "walking"]));
+
+export const RoutePoint = s.named(
+  "RoutePoint",
+  s.object({
+    id: s.optional(s.string()),
+    name: s.optional(s.string()),
+    lat: s.number({ minimum: -90, maximum: 90 }),
+    lng: s.number({ minimum: -180, maximum: 180 })
+  })
+);
+
+export const RouteSegmentEstimate = s.named(
+  "RouteSegmentEstimate",
+  s.object({
+    from: RoutePoint,
+    to: RoutePoint,
+    distanceKm: s.number(),
+    durationMin: s.number(),
+    provider: s.enum(["kakao", "odsay", "fallback"])
+  })
+);
+
+export const RouteImprovementSummary = s.named(
+  "RouteImprovementSummary",
+  s.object({
+    greedyDistanceKm: s.number(),
+    distanceSavedKm: s.number(),
+    greedyDurationMin: s.number(),
+    durationSavedMin: s.number()
+  }, { description: "Greedy nearest-neighbour baseline versus the optimized order, on the same travel matrix." })
+);
+
+export const OptimizedRoute = s.named(
+  "OptimizedRoute",
+  s.object({
+    orderedPoints: s.array(RoutePoint),
+    segments: s.array(RouteSegmentEstimate),
+    totalDistanceKm: s.number(),
+    totalDurationMin: s.number(),
+    source: s.enum(["kakao", "odsay", "fallback", "mixed"]),
+    improvement: RouteImprovementSummary,
+    warnings: s.array(s.string())
+  })
+);
+
+// The handler also accepts legacy aliases (origin/destination, points/stops, transportMode) and
+// numeric strings; those are normalized before this shape is checked.
+export const OptimizeRouteRequest = s.named(
+  "OptimizeRouteRequest",
+  s.object({
+    start: s.optional(RoutePoint),
+    waypoints: s.optional(s.array(RoutePoint, { maxItems: 25 })),
+    end: s.optional(RoutePoint),
+    roundTrip: s.optional(s.boolean()),
+    mode: s.optional(RouteTransportMode)
+  })
+);
+
+export const OptimizeRouteResponse = s.named(
+  "OptimizeRouteResponse",
+  s.object({ success: s.boolean(), data: OptimizedRoute })
+);
+
+// Trips
+
+export const TripPlace = s.named(
+  "TripPlace",
+  s.object({
+    id: s.string(),
+    orderIndex: s.integer(),
+    name: s.string(),
+    address: s.nullable(s.string()),
+    lat: s.nullable(s.number()),
+    lng: s.nullable(s.number()),
+    category: s.string(),
+    imageUrl: s.nullable(s.string()),
+    phone: s.nullable(s.string()),
+    memo: s.nullable(s.string()),
+    startTime: s.nullable(s.string()),
+    endTime: s.nullable(s.string()),
+    openingHours: s.nullable(s.string({ format: "time-windows" })),
+    tripDayId: s.string()
+  })
+);
+
+export const TripDay = s.named(
+  "TripDay",
+  s.object({
+    id: s.string(),
+    dayNumber: s.integer(),
+    date: s.string({ format: "date-time" }),
+    tripId: s.string(),
+    places: s.array(TripPlace)
+  })
+);
+
+export const TripFlight = s.named(
+  "TripFlight",
+  s.object({
+    id: s.string(),
+    carrier: s.string(),
+    flightNumber: s.string(),
+    departureAirport: s.string(),
+    arrivalAirport: s.string(),
+    departureTime: s.string({ format: "date-time" }),
+    arrivalTime: s.string({ format: "date-time" }),
+    bookingReference: s.nullable(s.string()),
+    seat: s.nullable(s.string()),
+    memo: s.nullable(s.string()),
+    createdAt: s.string({ format: "date-time" }),
+    updatedAt: s.string({ format: "date-time" }),
+    tripId: s.string()
+  })
+);
+
+export const TripRentcar = s.named(
+  "TripRentcar",
+  s.object({
+    id: s.string(),
+    company: s.string(),
+    pickupLocation: s.string(),
+    pickupLat: s.number(),
+    pickupLng: s.number(),
+    pickupTime: s.string({ format: "date-time" }),
+    returnLocation: s.string(),
+    returnLat: s.number(),
+    returnLng: s.number(),
+    returnTime: s.string({ format: "date-time" }),
+    vehicleClass: s.nullable(s.string()),
+    insurance: s.nullable(s.string()),
+    cost: s.nullable(s.integer()),
+    memo: s.nullable(s.string()),
+    createdAt: s.string({ format: "date-time" }),
+    updatedAt: s.string({ format: "date-time" }),
+    tripId: s.string()
+  })
+);
+
+export const TripStay = s.named(
+  "TripStay",
+  s.object({
+    id: s.string(),
+    name: s.string(),
+    address: s.nullable(s.string()),
+    lat: s.number(),
+    lng: s.number(),
+    checkIn: s.string({ format: "date-time" }),
+    checkOut: s.string({ format: "date-time" }),
+    contentId: s.nullable(s.string()),
+    bookingReference: s.nullable(s.string()),
+    phone: s.nullable(s.string()),
+    cost: s.nullable(s.integer()),
+    memo: s.nullable(s.string()),
+    createdAt: s.string({ format: "date-time" }),
+    updatedAt: s.string({ format: "date-time" }),
+    tripId: s.string()
+  })
+);
+
+const tripFields = {
+  id: s.string(),
+  title: s.string(),
+  destination: s.string(),
+  startDate: s.string({ format: "date-time" }),
+  endDate: s.string({ format: "date-time" }),
+  transport: s.nullable(s.string()),
+  companions: s.nullable(s.string()),
+  status: s.string(),
+  createdAt: s.string({ format: "date-time" }),
+  updatedAt: s.string({ format: "date-time" }),
+  userId: s.string({ description: "Owner of record" })
+};
+
+export const Trip = s.named(
+  "Trip",
+  s.object({
+    ...tripFields,
+    days: s.array(TripDay),
+    flights: s.array(TripFlight),
+    rentcars: s.array(TripRentcar),
+    stays: s.array(TripStay)
+  })
+);
+
+export const TripWithDays = s.named("TripWithDays", s.object({ ...tripFields, days: s.array(TripDay) }));
+
+const optionalText = () => s.optional(s.nullable(s.string({ minLength: 1 })));
+
+export const PlaceInput = s.named(
+  "PlaceInput",
+  s.object({
+    orderIndex: s.integer({ minimum: 0 }),
+    name: s.string({ minLength: 1 }),
+    category: s.string({ minLength: 1 }),
+    address: optionalText(),
+    lat: s.optional(s.nullable(s.number())),
+    lng: s.optional(s.nullable(s.number())),
+    imageUrl: optionalText(),
+    phone: optionalText(),
+    memo: optionalText(),
+    startTime: optionalText(),
+    endTime: optionalText(),
+    openingHours: s.optional(s.nullable(s.string({ format: "time-windows" })))
+  })
+);
+
+export const DayInput = s.named(
+  "DayInput",
+  s.object({
+    dayNumber: s.integer({ minimum: 1 }),
+    date: s.string({ format: "date-time" }),
+    places: s.optional(s.array(PlaceInput))
+  })
+);
+
+export const CreateTripRequest = s.named(
+  "CreateTripRequest",
+  s.object({
+    title: s.string({ minLength: 1 }),
+    destination: s.string({ minLength: 1 }),
+    startDate: s.string({ format: "date-time" }),
+    endDate: s.string({ format: "date-time" }),
+    transport: optionalText(),
+    companions: optionalText(),
+    status: s.optional(s.string({ minLength: 1 })),
+    days: s.optional(s.array(DayInput))
+  })
+);
+
+export const UpdateTripRequest = s.named(
+  "UpdateTripRequest",
+  s.object({
+    title: s.optional(s.string({ minLength: 1 })),
+    destination: s.optional(s.string({ minLength: 1 })),
+    startDate: s.optional(s.string({ format: "date-time" })),
+    endDate: s.optional(s.string({ format: "date-time" })),
+    transport: optionalText(),
+    companions: optionalText(),
+    status: s.optional(s.string({ minLength: 1 }))
+  })
+);
+
+export const TripResponse = s.named("TripResponse", s.object({ trip: Trip }));
+export const TripListResponse = s.named("TripListResponse", s.object({ trips: s.array(Trip) }));
+
+// Days and places
+
+export const UpdateDayRequest = s.named(
+  "UpdateDayRequest",
+  s.object({
+    dayNumber: s.optional(s.integer({ minimum: 1 })),
+    date: s.optional(s.string({ format: "date-time" }))
+  })
+);
+
+export const UpdatePlaceRequest = s.named(
+  "UpdatePlaceRequest",
+  s.object({
+    orderIndex: s.optional(s.integer({ minimum: 0 })),
+    name: s.optional(s.string({ minLength: 1 })),
+    category: s.optional(s.string({ minLength: 1 })),
+    address: optionalText(),
+    lat: s.optional(s.nullable(s.number())),
+    lng: s.optional(s.nullable(s.number())),
+    imageUrl: optionalText(),
+    phone: optionalText(),
+    memo: optionalText(),
+    startTime: optionalText(),
+    endTime: optionalText(),
+    openingHours: s.optional(s.nullable(s.string({ format: "time-windows" })))
+  })
+);
+
+export const DayResponse = s.named("DayResponse", s.object({ day: TripDay }));
+export const DayListResponse = s.named("DayListResponse", s.object({ days: s.array(TripDay) }));
+export const PlaceResponse = s.named("PlaceResponse", s.object({ place: TripPlace }));
+export const PlaceListResponse = s.named("PlaceListResponse", s.object({ places: s.array(TripPlace) }));
+
+// Flights, rental cars and stays. The handlers also normalize flight numbers and airport codes,
+// require a time of day on flight and rental car times, and check that the schedule is in order.
+
+export const CreateFlightRequest = s.named(
+  "CreateFlightRequest",
+  s.object({
+    carrier: s.string({ minLength: 1 }),
+    flightNumber: s.string({ minLength: 1, description: "IATA flight number, e.g. 7C101" }),
+    departureAirport: s.string({ minLength: 1, description: "IATA airport code, e.g. GMP" }),
+    arrivalAirport: s.string({ minLength: 1, description: "IATA airport code, e.g. CJU" }),
+    departureTime: s.string({ format: "date-time" }),
+    arrivalTime: s.string({ format: "date-time" }),
+    bookingReference: optionalText(),
+    seat: optionalText(),
+    memo: optionalText()
+  })
+);
+
+export const UpdateFlightRequest = s.named(
+  "UpdateFlightRequest",
+  s.object({
+    carrier: s.optional(s.string({ minLength: 1 })),
+    flightNumber: s.optional(s.string({ minLength: 1 })),
+    departureAirport: s.optional(s.string({ minLength: 1 })),
+    arrivalAirport: s.optional(s.string({ minLength: 1 })),
+    departureTime: s.optional(s.string({ format: "date-time" })),
+    arrivalTime: s.optional(s.string({ format: "date-time" })),
+    bookingReference: optionalText(),
+    seat: optionalText(),
+    memo: optionalText()
+  })
+);
+
+const latitude = () => s.number({ minimum: -90, maximum: 90 });
+const longitude = () => s.number({ minimum: -180, maximum: 180 });
+const optionalCost = () => s.optional(s.nullable(s.integer({ minimum: 0, description: "KRW" })));
+
+export const CreateRentcarRequest = s.named(
+  "CreateRentcarRequest",
+  s.object({
+    company: s.string({ minLength: 1 }),
+    pickupLocation: s.string({ minLength: 1 }),
+    pickupLat: latitude(),
+    pickupLng: longitude(),
+    pickupTime: s.string({ format: "date-time" }),
+    returnLocation: s.string({ minLength: 1 }),
+    returnLat: latitude(),
+    returnLng: longitude(),
+    returnTime: s.string({ format: "date-time" }),
+    vehicleClass: optionalText(),
+    insurance: optionalText(),
+    cost: optionalCost(),
+    memo: optionalText()
+  })
+);
+
+export const UpdateRentcarRequest = s.named(
+  "UpdateRentcarRequest",
+  s.object({
+    company: s.optional(s.string({ minLength: 1 })),
+    pickupLocation: s.optional(s.string({ minLength: 1 })),
+    pickupLat: s.optional(latitude()),
+    pickupLng: s.optional(longitude()),
+    pickupTime: s.optional(s.string({ format: "date-time" })),
+    returnLocation: s.optional(s.string({ minLength: 1 })),
+    returnLat: s.optional(latitude()),
+    returnLng: s.optional(longitude()),
+    returnTime: s.optional(s.string({ format: "date-time" })),
+    vehicleClass: optionalText(),
+    insurance: optionalText(),
+    cost: optionalCost(),
+    memo: optionalText()
+  })
+);
+
+export const CreateStayRequest = s.named(
+  "CreateStayRequest",
+  s.object({
+    name: s.string({ minLength: 1 }),
+    address: optionalText(),
+    lat: latitude(),
+    lng: longitude(),
+    checkIn: s.string({ format: "date" }),
+    checkOut: s.string({ format: "date" }),
+    contentId: optionalText(),
+    bookingReference: optionalText(),
+    phone: optionalText(),
+    cost: optionalCost(),
+    memo: optionalText()
+  })
+);
+
+export const UpdateStayRequest = s.named(
+  "UpdateStayRequest",
+  s.object({
+    name: s.optional(s.string({ minLength: 1 })),
+    address: optionalText(),
+    lat: s.optional(latitude()),
+    lng: s.optional(longitude()),
+    checkIn: s.optional(s.string({ format: "date" })),
+    checkOut: s.optional(s.string({ format: "date" })),
+    contentId: optionalText(),
+    bookingReference: optionalText(),
+    phone: optionalText(),
+    cost: optionalCost(),
+    memo: optionalText()
+  })
+);
+
+const warnings = () => s.array(s.string());
+
+export const FlightResponse = s.named("FlightResponse", s.object({ flight: TripFlight }));
+export const FlightListResponse = s.named("FlightListResponse", s.object({ flights: s.array(TripFlight) }));
+export const RentcarResponse = s.named(
+  "RentcarResponse",
+  s.object({
+    rentcar: TripRentcar,
+    warnings: s.optional(s.array(s.string(), { description: "Driving days before the pickup; sent on create and update." }))
+  })
+);
+export const RentcarListResponse = s.named(
+  "RentcarListResponse",
+  s.object({ rentcars: s.array(TripRentcar), warnings: warnings() })
+);
+export const StayResponse = s.named("StayResponse", s.object({ stay: TripStay }));
+export const StayListResponse = s.named("StayListResponse", s.object({ stays: s.array(TripStay) }));
+
+// Members and invites
+
+export const TripRole = s.named("TripRole", s.enum(["owner", "editor", "viewer"]));
+export const TripInviteRole = s.named("TripInviteRole", s.enum(["editor", "viewer"]));
+
+export const TripMember = s.named(
+  "TripMember",
+  s.object({
+    id: s.string(),
+    userId: s.string(),
+    nickname: s.string(),
+    profileImage: s.nullable(s.string()),
+    role: TripRole,
+    joinedAt: s.string({ format: "date-time" })
+  })
+);
+
+export const TripMemberListResponse = s.named(
+  "TripMemberListResponse",
+  s.object({ role: s.optional(TripRole), members: s.array(TripMember) }, { description: "`role` is the caller's own role." })
+);
+
+export const TripInvite = s.named(
+  "TripInvite",
+  s.object({
+    id: s.string(),
+    role: TripInviteRole,
+    expiresAt: s.string({ format: "date-time" }),
+    createdAt: s.string({ format: "date-time" })
+  })
+);
+
+export const TripInviteListResponse = s.named("TripInviteListResponse", s.object({ invites: s.array(TripInvite) }));
+
+export const CreateInviteRequest = s.named(
+  "CreateInviteRequest",
+  s.object({
+    role: s.optional(TripInviteRole),
+    expiresInHours: s.optional(s.integer({ minimum: 1, maximum: 24 * 30, description: "Defaults to a week" }))
+  })
+);
+
+export const CreateInviteResponse = s.named(
+  "CreateInviteResponse",
+  s.object({
+    invite: s.object({
+      id: s.string(),
+      role: TripInviteRole,
+      expiresAt: s.string({ format: "date-time" }),
+      createdAt: s.string({ format: "date-time" }),
+      token: s.string({ description: "Only returned here; the server keeps a hash." }),
+      inviteUrl: s.string()
+    })
+  })
+);
+
+export const AcceptInviteRequest = s.named("AcceptInviteRequest", s.object({ token: s.string({ minLength: 1 }) }));
+
+export const AcceptInviteResponse = s.named(
+  "AcceptInviteResponse",
+  s.object({
+    trip: s.object({
+      id: s.string(),
+      title: s.string(),
+      destination: s.string(),
+      startDate: s.string({ format: "date-time" }),
+      endDate: s.string({ format: "date-time" })
+    }),
+    role: TripRole,
+    member: s.nullable(TripMember)
+  }, { description: "Accepting never downgrades; `member` is null for the owner." })
+);
+
+// Trip history
+
+export const TripHistoryUser = s.named(
+  "TripHistoryUser",
+  s.object({
+    id: s.nullable(s.string()),
+    nickname: s.string(),
+    deleted: s.boolean()
+  }, { description: "Entries by a deleted account keep a placeholder nickname with a null id." })
+);
+
+export const TripHistoryEntry = s.named(
+  "TripHistoryEntry",
+  s.object({
+    id: s.string(),
+    action: s.string({ description: "e.g. place.update, day.replan" }),
+    entityType: s.enum(["place", "day"]),
+    entityId: s.string(),
+    before: s.unknown({ description: "Snapshot before the change, or null" }),
+    after: s.unknown({ description: "Snapshot after the change, or null" }),
+    revertOfId: s.nullable(s.string()),
+    createdAt: s.string({ format: "date-time" }),
+    user: TripHistoryUser
+  })
+);
+
+export const TripHistoryQuery = s.object({
+  limit: s.optional(s.integer({ minimum: 1, maximum: 200, description: "Defaults to 50" })),
+  cursor: s.optional(s.string({ description: "nextCursor of the previous page" }))
+});
+
+export const TripHistoryPage = s.named(
+  "TripHistoryPage",
+  s.object({ entries: s.array(TripHistoryEntry), nextCursor: s.nullable(s.string()) })
+);
+
+export const RevertHistoryResponse = s.named(
+  "RevertHistoryResponse",
+  s.object({
+    revertedEntryId: s.string(),
+    entityType: s.enum(["place", "day"]),
+    entityId: s.string(),
+    trip: s.nullable(TripWithDays)
+  })
+);
+
+// Planner
+
+const precipitationType = () => s.enum(["rain", "rain_snow", "snow", "shower"]);
+const skyCondition = () => s.enum(["clear", "partly_cloudy", "cloudy"]);
+
+export const MealSlotKind = s.named("MealSlotKind", s.enum(MEAL_SLOT_KINDS));
+export const LodgingType = s.named("LodgingType", s.enum(LODGING_TYPES));
+
+const optionalChoice = <V extends readonly string[]>(values: V) => s.optional(s.nullable(s.enum(values)));
+
+export const PlannerPreferences = s.named(
+  "PlannerPreferences",
+  s.object({
+    companion: optionalChoice(COMPANION_TYPES),
+    purpose: optionalChoice(TRIP_PURPOSES),
+    travelStyle: optionalChoice(TRAVEL_STYLES),
+    targetGroup: optionalChoice(TARGET_GROUPS),
+    budgetRange: optionalChoice(BUDGET_RANGES),
+    foods: s.optional(s.nullable(s.array(s.enum(FOOD_PREFERENCES)))),
+    childAgeGroups: s.optional(s.nullable(s.array(s.enum(CHILD_AGE_GROUPS))))
+  })
+);
+
+export const LodgingSelection = s.named(
+  "LodgingSelection",
+  s.object({
+    type: s.optional(LodgingType),
+    contentId: s.optional(s.string({ minLength: 1 })),
+    name: s.optional(s.string({ minLength: 1 })),
+    address: s.optional(s.string({ minLength: 1 })),
+    lat: s.optional(latitude()),
+    lng: s.optional(longitude())
+  }, { description: "lat and lng go together. Without them the stay is looked up by contentId." })
+);
+
+export const GenerateItineraryRequest = s.named(
+  "GenerateItineraryRequest",
+  s.object({
+    destination: s.string({ minLength: 1 }),
+    startDate: s.string({ format: "date" }),
+    endDate: s.string({ format: "date" }),
+    title: s.optional(s.string({ minLength: 1 })),
+    transport: optionalText(),
+    companions: optionalText(),
+    area: s.optional(s.string({ minLength: 1 })),
+    keyword: s.optional(s.string({ minLength: 1 })),
+    mealSlots: s.optional(s.array(MealSlotKind)),
+    flights: s.optional(s.array(CreateFlightRequest)),
+    rentcars: s.optional(s.array(CreateRentcarRequest)),
+    stays: s.optional(s.array(CreateStayRequest)),
+    attractions: s.optional(
+      s.array(s.unknown(), {
+        maxItems: 30,
+        description: "TourAPI content IDs, or TourAPI search items (contentid, title, mapx, mapy, ...)"
+      })
+    ),
+    restaurants: s.optional(
+      s.array(s.unknown(), { maxItems: 30, description: "Naver local search items; title is required" })
+    ),
+    lodging: s.optional(s.nullable(LodgingSelection)),
+    preferences: s.optional(s.nullable(PlannerPreferences))
+  })
+);
+
+export const ScoreComponent = s.named(
+  "ScoreComponent",
+  s.object({
+    factor: s.enum(["popularity", "companion", "children", "purpose", "target_group", "food", "budget"]),
+    points: s.number(),
+    reason: s.string()
+  })
+);
+
+export const ScoredCandidate = s.named(
+  "ScoredCandidate",
+  s.object({
+    id: s.string(),
+    score: s.number(),
+    breakdown: s.array(ScoreComponent),
+    name: s.string(),
+    scheduled: s.boolean()
+  })
+);
+
+export const PlannerScoring = s.named(
+  "PlannerScoring",
+  s.object({
+    pace: s.object({ attractionsPerDay: s.integer(), reasons: s.array(s.string()) }),
+    attractions: s.array(ScoredCandidate),
+    restaurants: s.array(ScoredCandidate)
+  })
+);
+
+export const TripEvent = s.named(
+  "TripEvent",
+  s.object({
+    contentId: s.string(),
+    name: s.string(),
+    startDate: s.string({ format: "date" }),
+    endDate: s.string({ format: "date" }),
+    address: s.nullable(s.string()),
+    lat: s.nullable(s.number()),
+    lng: s.nullable(s.number()),
+    imageUrl: s.nullable(s.string()),
+    phone: s.nullable(s.string())
+  })
+);
+
+export const EventOffer = s.named(
+  "EventOffer",
+  s.object({
+    event: TripEvent,
+    suggestedSlot: s.nullable(s.object({ startTime: s.string({ format: "time" }), endTime: s.string({ format: "time" }) })),
+    distanceKm: s.nullable(s.number()),
+    conflicts: s.array(
+      s.object({
+        type: s.enum(["already_scheduled", "no_free_time", "far_from_day"]),
+        message: s.string(),
+        placeIds: s.array(s.string())
+      })
+    )
+  })
+);
+
+export const DayEventOffers = s.named(
+  "DayEventOffers",
+  s.object({ dayNumber: s.integer(), date: s.string({ format: "date" }), offers: s.array(EventOffer) })
+);
+
+export const GenerateItineraryResponse = s.named(
+  "GenerateItineraryResponse",
+  s.object({
+    trip: Trip,
+    recommendations: s.object({ attractions: s.integer(), restaurants: s.integer() }),
+    selections: s.object({ attractions: s.integer(), restaurants: s.integer(), lodging: s.nullable(s.string()) }),
+    scoring: s.nullable(PlannerScoring),
+    festivals: s.object({ events: s.array(TripEvent), days: s.array(DayEventOffers) }),
+    warnings: warnings()
+  })
+);
+
+export const ReplanTripRequest = s.named(
+  "ReplanTripRequest",
+  s.object({
+    dayNumber: s.optional(s.integer({ minimum: 1, description: "Replans every day when omitted" })),
+    keyword: s.optional(s.string({ minLength: 1 })),
+    mealSlots: s.optional(s.array(MealSlotKind)),
+    area: s.optional(s.string({ minLength: 1 }))
+  })
+);
+
+export const ReplanTripResponse = s.named(
+  "ReplanTripResponse",
+  s.object({
+    trip: s.nullable(Trip),
+    replannedDays: s.integer(),
+    recommendations: s.object({ attractions: s.integer(), restaurants: s.integer() }),
+    warnings: warnings()
+  })
+);
+
+export const WeatherCheckRequest = s.named(
+  "WeatherCheckRequest",
+  s.object({
+    dayNumber: s.optional(s.integer({ minimum: 1, description: "Checks every day when omitted" })),
+    popThreshold: s.optional(
+      s.integer({ minimum: 0, maximum: 100, description: "Chance of rain (%) that makes a day wet; defaults to 60" })
+    )
+  })
+);
+
+export const IndoorReplacement = s.named(
+  "IndoorReplacement",
+  s.object({
+    contentId: s.string(),
+    name: s.string(),
+    category: s.enum(["attraction"]),
+    address: s.nullable(s.string()),
+    lat: s.number(),
+    lng: s.number(),
+    imageUrl: s.nullable(s.string()),
+    distanceKm: s.number()
+  })
+);
+
+export const DayWeatherCheck = s.named(
+  "DayWeatherCheck",
+  s.object({
+    dayNumber: s.integer(),
+    date: s.string({ format: "date" }),
+    weather: s.nullable(
+      s.object({
+        maxPop: s.integer(),
+        precipitation: s.nullable(precipitationType()),
+        wet: s.boolean()
+      })
+    ),
+    swaps: s.array(
+      s.object({ placeId: s.string(), placeName: s.string(), replacement: s.nullable(IndoorReplacement) })
+    )
+  })
+);
+
+export const WeatherCheckResponse = s.named(
+  "WeatherCheckResponse",
+  s.object({
+    tripId: s.string(),
+    forecastBase: s.object({ baseDate: s.string(), baseTime: s.string() }),
+    days: s.array(DayWeatherCheck),
+    warnings: warnings()
+  }, { description: "Proposed swaps only; nothing changes until the client applies them through the places API." })
+);
+
+export const DayRouteRequest = s.named(
+  "DayRouteRequest",
+  s.object({ mode: s.optional(RouteTransportMode) }, { description: "The mode defaults to the trip's transport." })
+);
+
+export const DayRouteResponse = s.named(
+  "DayRouteResponse",
+  s.object({ success: s.boolean(), data: OptimizedRoute, warnings: warnings() })
+);
+
+// Trip weather and events
+
+export const HourlyForecast = s.named(
+  "HourlyForecast",
+  s.object({
+    time: s.string({ format: "time", description: "KST" }),
+    temperature: s.nullable(s.number()),
+    sky: s.nullable(skyCondition()),
+    precipitationType: s.nullable(precipitationType()),
+    precipitationProbability: s.nullable(s.number({ description: "Percent" })),
+    humidity: s.nullable(s.number()),
+    windSpeed: s.nullable(s.number({ description: "m/s" })),
+    windDirection: s.nullable(s.number({ description: "Degrees; 0 is wind from the north" }))
+  })
+);
+
+export const DailyForecast = s.named(
+  "DailyForecast",
+  s.object({
+    date: s.string({ format: "date", description: "KST" }),
+    minTemperature: s.nullable(s.number()),
+    maxTemperature: s.nullable(s.number()),
+    sky: s.nullable(skyCondition()),
+    precipitationType: s.nullable(precipitationType()),
+    maxPrecipitationProbability: s.nullable(s.number()),
+    maxWindSpeed: s.nullable(s.number()),
+    hourly: s.array(HourlyForecast)
+  })
+);
+
+export const TripWeatherResponse = s.named(
+  "TripWeatherResponse",
+  s.object({
+    tripId: s.string(),
+    forecastBase: s.object({ baseDate: s.string(), baseTime: s.string() }),
+    days: s.array(
+      s.object({
+        dayNumber: s.integer(),
+        date: s.string({ format: "date" }),
+        grid: s.nullable(s.object({ nx: s.integer(), ny: s.integer() }, { description: "KMA forecast grid" })),
+        forecast: s.nullable(DailyForecast)
+      })
+    ),
+    warnings: warnings()
+  }, { description: "Days beyond the short-term forecast range have a null forecast." })
+);
+
+export const TripEventsResponse = s.named(
+  "TripEventsResponse",
+  s.object({
+    tripId: s.string(),
+    areaCode: s.nullable(s.string({ description: "TourAPI area code of the destination" })),
+    events: s.array(TripEvent),
+    days: s.array(DayEventOffers),
+    warnings: warnings()
+  })
+);
+
+export const TripAirQuality = s.named(
+  "TripAirQuality",
+  s.object({
+    sido: s.string(),
+    days: s.array(
+      s.object({
+        dayNumber: s.integer(),
+        date: s.string({ format: "date" }),
+        pm10Grade: s.nullable(s.integer()),
+        pm25Grade: s.nullable(s.integer()),
+        pm10GradeText: s.string(),
+        pm25GradeText: s.string(),
+        source: s.enum(["measured", "forecast"])
+      })
+    ),
+    advisories: s.array(
+      s.object({
+        dayNumber: s.integer(),
+        date: s.string({ format: "date" }),
+        pollutant: s.enum(["pm10", "pm25"]),
+        grade: s.integer(),
+        message: s.string(),
+        placeIds: s.array(s.string())
+      })
+    )
+  }, { description: "AirKorea grades: 1 good, 2 moderate, 3 bad, 4 very bad." })
+);
+
+export const TripSummaryResponse = s.named(
+  "TripSummaryResponse",
+  s.object({
+    summary: s.object({
+      tripId: s.string(),
+      title: s.string(),
+      destination: s.string(),
+      status: s.string(),
+      startDate: s.string({ format: "date-time" }),
+      endDate: s.string({ format: "date-time" }),
+      totalDays: s.integer(),
+      plannedDays: s.integer(),
+      totalPlaces: s.integer(),
+      placesByCategory: s.record(s.integer()),
+      airQuality: s.nullable(TripAirQuality),
+      advisories: s.array(s.string())
+    })
+  })
+);
+
+// Auth and account
+
+const credentialFields = {
+  kakaoAccessToken: s.optional(s.string({ minLength: 1, description: "Kakao SDK access token (kakao)" })),
+  naverAccessToken: s.optional(s.string({ minLength: 1, description: "Naver SDK access token (naver)" })),
+  identityToken: s.optional(s.string({ minLength: 1, description: "Sign in with Apple identity token (apple)" })),
+  credential: s.optional(s.string({ minLength: 1, description: "fake: `fake:<subject>`, outside production only" }))
+};
+
+export const LoginRequest = s.named(
+  "LoginRequest",
+  s.object({
+    ...credentialFields,
+    nickname: s.optional(s.string({ description: "Apple only tells the app the user's name on the first sign-in" })),
+    deviceName: s.optional(s.string())
+  }, { description: "Send the credential field of the provider in the path." })
+);
+
+export const LinkIdentityRequest = s.named(
+  "LinkIdentityRequest",
+  s.object(credentialFields, { description: "Send the credential field of the provider in the path, as for login." })
+);
+
+export const AuthUser = s.named(
+  "AuthUser",
+  s.object({
+    id: s.string(),
+    nickname: s.string(),
+    email: s.nullable(s.string()),
+    profileImage: s.nullable(s.string())
+  })
+);
+
+export const LoginResponse = s.named(
+  "LoginResponse",
+  s.object({ accessToken: s.string(), refreshToken: s.string(), sessionId: s.string(), user: AuthUser })
+);
+
+export const RefreshRequest = s.named("RefreshRequest", s.object({ refreshToken: s.string({ minLength: 1 }) }));
+
+export const RefreshResponse = s.named(
+  "RefreshResponse",
+  s.object({
+    accessToken: s.string(),
+    refreshToken: s.string({ description: "Replaces the one sent; the old one is now unusable." })
+  })
+);
+
+export const MeResponse = s.named(
+  "MeResponse",
+  s.object({
+    user: s.object({
+      id: s.string(),
+      nickname: s.string(),
+      email: s.nullable(s.string()),
+      profileImage: s.nullable(s.string()),
+      createdAt: s.string({ format: "date-time" })
+    })
+  })
+);
+
+export const IdentityProvider = s.named("IdentityProvider", s.enum(IDENTITY_PROVIDERS));
+
+export const LinkedIdentity = s.named(
+  "LinkedIdentity",
+  s.object({ provider: IdentityProvider, email: s.nullable(s.string()), linkedAt: s.string({ format: "date-time" }) })
+);
+
+export const IdentityListResponse = s.named("IdentityListResponse", s.object({ identities: s.array(LinkedIdentity) }));
+
+const sessionFields = {
+  id: s.string(),
+  deviceName: s.nullable(s.string()),
+  userAgent: s.nullable(s.string()),
+  createdAt: s.string({ format: "date-time" }),
+  lastUsedAt: s.string({ format: "date-time" }),
+  expiresAt: s.string({ format: "date-time" })
+};
+
+export const DeviceSession = s.named(
+  "DeviceSession",
+  s.object({ ...sessionFields, current: s.boolean({ description: "The session of the calling access token" }) })
+);
+
+export const SessionListResponse = s.named("SessionListResponse", s.object({ sessions: s.array(DeviceSession) }));
+
+export const LogoutResponse = s.named("LogoutResponse", s.object({ message: s.string() }));
+
+export const UserProfile = s.named(
+  "UserProfile",
+  s.object({
+    companion: s.enum(COMPANION_TYPES),
+    purpose: s.enum(TRIP_PURPOSES),
+    travelStyle: s.enum(TRAVEL_STYLES),
+    transport: s.enum(PROFILE_TRANSPORTS),
+    foods: s.array(s.enum(FOOD_PREFERENCES)),
+    childAgeGroups: s.array(s.enum(CHILD_AGE_GROUPS)),
+    updatedAt: s.string({ format: "date-time" })
+  })
+);
+
+export const UpdateUserProfileRequest = s.named(
+  "UpdateUserProfileRequest",
+  s.object({
+    companion: s.enum(COMPANION_TYPES),
+    purpose: s.enum(TRIP_PURPOSES),
+    travelStyle: s.enum(TRAVEL_STYLES),
+    transport: s.enum(PROFILE_TRANSPORTS),
+    foods: s.optional(s.array(s.enum(FOOD_PREFERENCES))),
+    childAgeGroups: s.optional(
+      s.array(s.enum(CHILD_AGE_GROUPS), { description: "Required when companion is family_kids, otherwise not allowed" })
+    )
+  }, { description: "Replaces the whole profile." })
+);
+
+export const UserProfileResponse = s.named(
+  "UserProfileResponse",
+  s.object({ profile: s.nullable(UserProfile) }, { description: "`profile` is null until the user saves one." })
+);
+
+export const DeletionTokenResponse = s.named(
+  "DeletionTokenResponse",
+  s.object({ confirmationToken: s.string(), expiresAt: s.string({ format: "date-time" }) })
+);
+
+export const DeleteAccountRequest = s.named(
+  "DeleteAccountRequest",
+  s.object({
+    confirmationToken: s.string({ minLength: 1, description: "From POST /auth/me/deletion-token" }),
+    unlinkKakao: s.optional(s.boolean({ description: "Also disconnect TripMate from the Kakao account" }))
+  })
+);
+
+export const AccountDeletionResult = s.named(
+  "AccountDeletionResult",
+  s.object({
+    deletedTrips: s.integer({ description: "Trips the user owned" }),
+    kakaoUnlinked: s.boolean(),
+    warnings: warnings()
+  })
+);
+
+export const AccountExport = s.named(
+  "AccountExport",
+  s.object({
+    version: s.integer(),
+    exportedAt: s.string({ format: "date-time" }),
+    user: s.object({
+      id: s.string(),
+      nickname: s.string(),
+      email: s.nullable(s.string()),
+      profileImage: s.nullable(s.string()),
+      createdAt: s.string({ format: "date-time" }),
+      updatedAt: s.string({ format: "date-time" })
+    }),
+    profile: s.nullable(UserProfile),
+    identities: s.array(LinkedIdentity),
+    sessions: s.array(s.object(sessionFields)),
+    trips: s.array(Trip, { description: "Trips the user owns" }),
+    sharedTrips: s.array(
+      s.object({
+        id: s.string(),
+        title: s.string(),
+        destination: s.string(),
+        startDate: s.string({ format: "date-time" }),
+        endDate: s.string({ format: "date-time" }),
+        role: TripRole,
+        joinedAt: s.string({ format: "date-time" })
+      }),
+      { description: "Trips of other owners the user is a member of; only the membership is included." }
+    )
+  })
+);
+
+export type RouteTransportMode = Infer<typeof RouteTransportMode>;
+export type RoutePoint = Infer<typeof RoutePoint>;
+export type RouteSegmentEstimate = Infer<typeof RouteSegmentEstimate>;
+export type RouteImprovementSummary = Infer<typeof RouteImprovementSummary>;
+export type OptimizedRoute = Infer<typeof OptimizedRoute>;
+export type PlaceInput = Infer<typeof PlaceInput>;
+export type DayInput = Infer<typeof DayInput>;
+export type CreateTripRequest = Infer<typeof CreateTripRequest>;
+export type UpdateTripRequest = Infer<typeof UpdateTripRequest>;
+export type UpdateDayRequest = Infer<typeof UpdateDayRequest>;
+export type UpdatePlaceRequest = Infer<typeof UpdatePlaceRequest>;
+export type LinkIdentityRequest = Infer<typeof LinkIdentityRequest>;
+export type UpdateUserProfileRequest = Infer<typeof UpdateUserProfileRequest>;
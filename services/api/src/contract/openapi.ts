@@ -0,0 +1,132 @@
+import { CONTRACT_OPERATIONS, pathParameters, type ContractOperation } from "./operations";
+import type { AnySchema } from "./schema";
+
+type JsonObject = Record<string, unknown>;
+
+const CONTRACT_VERSION = "1.0.0";
+
+function toJsonSchema(schema: AnySchema, components: Map<string, JsonObject>, root = false): JsonObject {
+  if (schema.name && !root) {
+    if (!components.has(schema.name)) {
+      // Reserve the name first so self-references cannot recurse forever.
+      components.set(schema.name, {});
+      components.set(schema.name, toJsonSchema(schema, components, true));
+    }
+    return { $ref: `#/components/schemas/${schema.name}` };
+  }
+
+  const description = schema.description ? { description: schema.description } : {};
+
+  switch (schema.kind) {
+    case "string":
+      return {
+        type: "string",
+        ...(schema.format ? { format: schema.format } : {}),
+        ...(schema.enum ? { enum: [...schema.enum] } : {}),
+        ...(schema.minLength !== undefined ? { minLength: schema.minLength } : {}),
+        ...(schema.maxLength !== undefined ? { maxLength: schema.maxLength } : {}),
+        ...description
+      };
+    case "number":
+    case "integer":
+      return {
+        type: schema.kind,
+        ...(schema.minimum !== undefined ? { minimum: schema.minimum } : {}),
+        ...(schema.maximum !== undefined ? { maximum: schema.maximum } : {}),
+        ...description
+      };
+    case "boolean":
+      return { type: "boolean", ...description };
+    case "unknown":
+      return { ...description };
+    case "array":
+      return {
+        type: "array",
+        items: toJsonSchema(schema.items, components),
+        ...(schema.maxItems !== undefined ? { maxItems: schema.maxItems } : {}),
+        ...description
+      };
+    case "object":
+      return {
+        type: "object",
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property, components)])
+        ),
+        ...(schema.required.length > 0 ? { required: schema.required } : {}),
+        additionalProperties: false,
+        ...description
+      };
+    case "record":
+      return { type: "object", additionalProperties: toJsonSchema(schema.values, components), ...description };
+    case "nullable":
+      return { anyOf: [toJsonSchema(schema.inner, components), { type: "null" }], ...description };
+  }
+}
+
+function toOperationObject(operation: ContractOperation, components: Map<string, JsonObject>): JsonObject {
+  const query = operation.query?.kind === "object" ? operation.query : undefined;
+  const parameters = [
+    ...pathParameters(operation.path).map((name) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" }
+    })),
+    ...Object.entries(query?.properties ?? {}).map(([name, schema]) => ({
+      name,
+      in: "query",
+      required: !schema.optional,
+      schema: toJsonSchema(schema, components)
+    }))
+  ];
+
+  const responses = Object.fromEntries(
+    Object.entries(operation.responses).map(([status, schema]) => [
+      status,
+      schema
+        ? { description: `HTTP ${status}`, content: { "application/json": { schema: toJsonSchema(schema, components) } } }
+        : { description: `HTTP ${status}` }
+    ])
+  );
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    tags: [operation.tag],
+    ...(operation.auth ? { security: [{ bearerAuth: [] }] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.requestBody
+      ? {
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: toJsonSchema(operation.requestBody, components) } }
+          }
+        }
+      : {}),
+    responses
+  };
+}
+
+// OpenAPI 3.1 document for the contract operations. `serverUrl` is the API prefix, e.g. /api/v1.
+export function buildOpenApiDocument(serverUrl: string): JsonObject {
+  const components = new Map<string, JsonObject>();
+  const paths: Record<string, JsonObject> = {};
+
+  for (const operation of CONTRACT_OPERATIONS) {
+    paths[operation.path] = {
+      ...paths[operation.path],
+      [operation.method.toLowerCase()]: toOperationObject(operation, components)
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "TripMate API", version: CONTRACT_VERSION },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: {
+      schemas: Object.fromEntries([...components.entries()].sort(([a], [b]) => a.localeCompare(b))),
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } }
+    }
+  };
+}
@@ -0,0 +1,681 @@
+import {
+  AcceptInviteRequest,
+  AcceptInviteResponse,
+  AccountDeletionResult,
+  AccountExport,
+  ApiError,
+  CreateFlightRequest,
+  CreateInviteRequest,
+  CreateInviteResponse,
+  CreateRentcarRequest,
+  CreateStayRequest,
+  CreateTripRequest,
+  DayInput,
+  DayListResponse,
+  DayResponse,
+  DayRouteRequest,
+  DayRouteResponse,
+  DeleteAccountRequest,
+  DeletionTokenResponse,
+  FlightListResponse,
+  FlightResponse,
+  GenerateItineraryRequest,
+  GenerateItineraryResponse,
+  IdentityListResponse,
+  LinkIdentityRequest,
+  LoginRequest,
+  LoginResponse,
+  LogoutResponse,
+  MeResponse,
+  OptimizeRouteRequest,
+  OptimizeRouteResponse,
+  PlaceInput,
+  PlaceListResponse,
+  PlaceResponse,
+  RefreshRequest,
+  RefreshResponse,
+  RentcarListResponse,
+  RentcarResponse,
+  ReplanTripRequest,
+  ReplanTripResponse,
+  RevertHistoryResponse,
+  SessionListResponse,
+  StayListResponse,
+  StayResponse,
+  TripHistoryPage,
+  TripHistoryQuery,
+  TripInviteListResponse,
+  TripListResponse,
+  TripMemberListResponse,
+  TripResponse,
+  TripEventsResponse,
+  TripSummaryResponse,
+  TripWeatherResponse,
+  UpdateDayRequest,
+  UpdateFlightRequest,
+  UpdatePlaceRequest,
+  UpdateRentcarRequest,
+  UpdateStayRequest,
+  UpdateTripRequest,
+  UpdateUserProfileRequest,
+  UserProfileResponse,
+  WeatherCheckRequest,
+  WeatherCheckResponse
+} from "./components";
+import type { AnySchema } from "./schema";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+export interface ContractOperation {
+  operationId: string;
+  method: HttpMethod;
+  // Relative to the API prefix; `{name}` marks a path parameter.
+  path: string;
+  summary: string;
+  tag: string;
+  auth: boolean;
+  // Object schema of the query string; every field should be optional.
+  query?: AnySchema;
+  requestBody?: AnySchema;
+  // Status code -> body schema; null means no body.
+  responses: Record<number, AnySchema | null>;
+}
+
+const tripNotFound = { 404: ApiError };
+// Reads need membership; writes need the editor role.
+const tripRead = { 401: ApiError, ...tripNotFound };
+const tripWrite = { 400: ApiError, 401: ApiError, 403: ApiError, ...tripNotFound };
+
+const optimizeRouteResponses = { 200: OptimizeRouteResponse, 400: ApiError, 429: ApiError, 500: ApiError, 503: ApiError };
+
+// Endpoints described here validate their bodies from the contract (query strings are still parsed
+// by their handlers) and are exposed in /openapi.json and the generated client. The public lookups
+// (tourism, weather, address, restaurants, medical) are not listed yet and still use hand-written
+// validation.
+export const CONTRACT_OPERATIONS: ContractOperation[] = [
+  {
+    operationId: "optimizeRoute",
+    method: "POST",
+    path: "/route/optimize",
+    summary: "Order waypoints for the shortest trip",
+    tag: "route",
+    auth: false,
+    requestBody: OptimizeRouteRequest,
+    responses: optimizeRouteResponses
+  },
+  {
+    operationId: "optimizePlannerRoute",
+    method: "POST",
+    path: "/planner/route/optimize",
+    summary: "Same as optimizeRoute, under the planner prefix",
+    tag: "route",
+    auth: false,
+    requestBody: OptimizeRouteRequest,
+    responses: optimizeRouteResponses
+  },
+  {
+    operationId: "listTrips",
+    method: "GET",
+    path: "/trips",
+    summary: "Trips the user owns or is a member of",
+    tag: "trips",
+    auth: true,
+    responses: { 200: TripListResponse, 401: ApiError }
+  },
+  {
+    operationId: "createTrip",
+    method: "POST",
+    path: "/trips",
+    summary: "Create a trip, optionally with days and places",
+    tag: "trips",
+    auth: true,
+    requestBody: CreateTripRequest,
+    responses: { 201: TripResponse, 400: ApiError, 401: ApiError }
+  },
+  {
+    operationId: "getTrip",
+    method: "GET",
+    path: "/trips/{tripId}",
+    summary: "Trip with days, places, flights, rental cars and stays",
+    tag: "trips",
+    auth: true,
+    responses: { 200: TripResponse, 401: ApiError, ...tripNotFound }
+  },
+  {
+    operationId: "updateTrip",
+    method: "PATCH",
+    path: "/trips/{tripId}",
+    summary: "Update trip fields (editor or owner)",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdateTripRequest,
+    responses: { 200: TripResponse, 400: ApiError, 401: ApiError, 403: ApiError, ...tripNotFound }
+  },
+  {
+    operationId: "deleteTrip",
+    method: "DELETE",
+    path: "/trips/{tripId}",
+    summary: "Delete a trip (owner only)",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, 401: ApiError, 403: ApiError, ...tripNotFound }
+  },
+  {
+    operationId: "listDays",
+    method: "GET",
+    path: "/trips/{tripId}/days",
+    summary: "Days of a trip with their places, by day number",
+    tag: "trips",
+    auth: true,
+    responses: { 200: DayListResponse, ...tripRead }
+  },
+  {
+    operationId: "createDay",
+    method: "POST",
+    path: "/trips/{tripId}/days",
+    summary: "Add a day, optionally with places",
+    tag: "trips",
+    auth: true,
+    requestBody: DayInput,
+    responses: { 201: DayResponse, ...tripWrite }
+  },
+  {
+    operationId: "getDay",
+    method: "GET",
+    path: "/trips/{tripId}/days/{dayId}",
+    summary: "One day of a trip with its places",
+    tag: "trips",
+    auth: true,
+    responses: { 200: DayResponse, ...tripRead }
+  },
+  {
+    operationId: "updateDay",
+    method: "PATCH",
+    path: "/trips/{tripId}/days/{dayId}",
+    summary: "Change a day's number or date",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdateDayRequest,
+    responses: { 200: DayResponse, ...tripWrite }
+  },
+  {
+    operationId: "deleteDay",
+    method: "DELETE",
+    path: "/trips/{tripId}/days/{dayId}",
+    summary: "Remove a day and its places",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, ...tripWrite }
+  },
+  {
+    operationId: "listPlaces",
+    method: "GET",
+    path: "/trips/{tripId}/days/{dayId}/places",
+    summary: "Places of a day, by order",
+    tag: "trips",
+    auth: true,
+    responses: { 200: PlaceListResponse, ...tripRead }
+  },
+  {
+    operationId: "createPlace",
+    method: "POST",
+    path: "/trips/{tripId}/days/{dayId}/places",
+    summary: "Add a place to a day",
+    tag: "trips",
+    auth: true,
+    requestBody: PlaceInput,
+    responses: { 201: PlaceResponse, ...tripWrite }
+  },
+  {
+    operationId: "getPlace",
+    method: "GET",
+    path: "/trips/{tripId}/days/{dayId}/places/{placeId}",
+    summary: "One place of a day",
+    tag: "trips",
+    auth: true,
+    responses: { 200: PlaceResponse, ...tripRead }
+  },
+  {
+    operationId: "updatePlace",
+    method: "PATCH",
+    path: "/trips/{tripId}/days/{dayId}/places/{placeId}",
+    summary: "Update place fields",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdatePlaceRequest,
+    responses: { 200: PlaceResponse, ...tripWrite }
+  },
+  {
+    operationId: "deletePlace",
+    method: "DELETE",
+    path: "/trips/{tripId}/days/{dayId}/places/{placeId}",
+    summary: "Remove a place",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, ...tripWrite }
+  },
+  {
+    operationId: "getTripWeather",
+    method: "GET",
+    path: "/trips/{tripId}/weather",
+    summary: "Short-term forecast for each day of a trip",
+    tag: "trips",
+    auth: true,
+    responses: { 200: TripWeatherResponse, 400: ApiError, ...tripRead }
+  },
+  {
+    operationId: "getTripEvents",
+    method: "GET",
+    path: "/trips/{tripId}/events",
+    summary: "Festivals at the destination during the trip, offered per day",
+    tag: "trips",
+    auth: true,
+    responses: { 200: TripEventsResponse, 400: ApiError, ...tripRead }
+  },
+  {
+    operationId: "listFlights",
+    method: "GET",
+    path: "/trips/{tripId}/flights",
+    summary: "Flights of a trip, by departure",
+    tag: "trips",
+    auth: true,
+    responses: { 200: FlightListResponse, ...tripRead }
+  },
+  {
+    operationId: "createFlight",
+    method: "POST",
+    path: "/trips/{tripId}/flights",
+    summary: "Add a flight; days on both ends start or end at the airport",
+    tag: "trips",
+    auth: true,
+    requestBody: CreateFlightRequest,
+    responses: { 201: FlightResponse, ...tripWrite }
+  },
+  {
+    operationId: "getFlight",
+    method: "GET",
+    path: "/trips/{tripId}/flights/{flightId}",
+    summary: "One flight of a trip",
+    tag: "trips",
+    auth: true,
+    responses: { 200: FlightResponse, ...tripRead }
+  },
+  {
+    operationId: "updateFlight",
+    method: "PATCH",
+    path: "/trips/{tripId}/flights/{flightId}",
+    summary: "Update flight fields",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdateFlightRequest,
+    responses: { 200: FlightResponse, ...tripWrite }
+  },
+  {
+    operationId: "deleteFlight",
+    method: "DELETE",
+    path: "/trips/{tripId}/flights/{flightId}",
+    summary: "Remove a flight",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, ...tripWrite }
+  },
+  {
+    operationId: "listRentcars",
+    method: "GET",
+    path: "/trips/{tripId}/rentcars",
+    summary: "Rental cars of a trip, by pickup",
+    tag: "trips",
+    auth: true,
+    responses: { 200: RentcarListResponse, ...tripRead }
+  },
+  {
+    operationId: "createRentcar",
+    method: "POST",
+    path: "/trips/{tripId}/rentcars",
+    summary: "Add a rental car booking",
+    tag: "trips",
+    auth: true,
+    requestBody: CreateRentcarRequest,
+    responses: { 201: RentcarResponse, ...tripWrite }
+  },
+  {
+    operationId: "getRentcar",
+    method: "GET",
+    path: "/trips/{tripId}/rentcars/{rentcarId}",
+    summary: "One rental car booking of a trip",
+    tag: "trips",
+    auth: true,
+    responses: { 200: RentcarResponse, ...tripRead }
+  },
+  {
+    operationId: "updateRentcar",
+    method: "PATCH",
+    path: "/trips/{tripId}/rentcars/{rentcarId}",
+    summary: "Update rental car fields",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdateRentcarRequest,
+    responses: { 200: RentcarResponse, ...tripWrite }
+  },
+  {
+    operationId: "deleteRentcar",
+    method: "DELETE",
+    path: "/trips/{tripId}/rentcars/{rentcarId}",
+    summary: "Remove a rental car booking",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, ...tripWrite }
+  },
+  {
+    operationId: "listStays",
+    method: "GET",
+    path: "/trips/{tripId}/stays",
+    summary: "Stays of a trip, by check-in",
+    tag: "trips",
+    auth: true,
+    responses: { 200: StayListResponse, ...tripRead }
+  },
+  {
+    operationId: "createStay",
+    method: "POST",
+    path: "/trips/{tripId}/stays",
+    summary: "Add a stay; the nights it covers start and end at it",
+    tag: "trips",
+    auth: true,
+    requestBody: CreateStayRequest,
+    responses: { 201: StayResponse, ...tripWrite }
+  },
+  {
+    operationId: "getStay",
+    method: "GET",
+    path: "/trips/{tripId}/stays/{stayId}",
+    summary: "One stay of a trip",
+    tag: "trips",
+    auth: true,
+    responses: { 200: StayResponse, ...tripRead }
+  },
+  {
+    operationId: "updateStay",
+    method: "PATCH",
+    path: "/trips/{tripId}/stays/{stayId}",
+    summary: "Update stay fields",
+    tag: "trips",
+    auth: true,
+    requestBody: UpdateStayRequest,
+    responses: { 200: StayResponse, ...tripWrite }
+  },
+  {
+    operationId: "deleteStay",
+    method: "DELETE",
+    path: "/trips/{tripId}/stays/{stayId}",
+    summary: "Remove a stay",
+    tag: "trips",
+    auth: true,
+    responses: { 204: null, ...tripWrite }
+  },
+  {
+    operationId: "listTripMembers",
+    method: "GET",
+    path: "/trips/{tripId}/members",
+    summary: "Members of a trip, oldest first, with the caller's role",
+    tag: "members",
+    auth: true,
+    responses: { 200: TripMemberListResponse, ...tripRead }
+  },
+  {
+    operationId: "removeTripMember",
+    method: "DELETE",
+    path: "/trips/{tripId}/members/{memberId}",
+    summary: "Leave a trip, or remove a member (owner only)",
+    tag: "members",
+    auth: true,
+    responses: { 204: null, 400: ApiError, 401: ApiError, 403: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "listTripInvites",
+    method: "GET",
+    path: "/trips/{tripId}/invites",
+    summary: "Open invites of a trip (owner only)",
+    tag: "members",
+    auth: true,
+    responses: { 200: TripInviteListResponse, 401: ApiError, 403: ApiError, ...tripNotFound }
+  },
+  {
+    operationId: "createTripInvite",
+    method: "POST",
+    path: "/trips/{tripId}/invites",
+    summary: "Create an invite link (owner only)",
+    tag: "members",
+    auth: true,
+    requestBody: CreateInviteRequest,
+    responses: { 201: CreateInviteResponse, ...tripWrite }
+  },
+  {
+    operationId: "revokeTripInvite",
+    method: "DELETE",
+    path: "/trips/{tripId}/invites/{inviteId}",
+    summary: "Revoke an open invite (owner only)",
+    tag: "members",
+    auth: true,
+    responses: { 204: null, 400: ApiError, 401: ApiError, 403: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "acceptTripInvite",
+    method: "POST",
+    path: "/trips/invites/accept",
+    summary: "Join a trip with an invite token",
+    tag: "members",
+    auth: true,
+    requestBody: AcceptInviteRequest,
+    responses: { 200: AcceptInviteResponse, 400: ApiError, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "listTripHistory",
+    method: "GET",
+    path: "/trips/{tripId}/history",
+    summary: "Changes to a trip's days and places, newest first",
+    tag: "history",
+    auth: true,
+    query: TripHistoryQuery,
+    responses: { 200: TripHistoryPage, 400: ApiError, ...tripRead }
+  },
+  {
+    operationId: "revertTripHistory",
+    method: "POST",
+    path: "/trips/{tripId}/history/{entryId}/revert",
+    summary: "Undo one change, recorded as a new history entry",
+    tag: "history",
+    auth: true,
+    responses: { 200: RevertHistoryResponse, 409: ApiError, ...tripWrite }
+  },
+  {
+    operationId: "generateItinerary",
+    method: "POST",
+    path: "/planner/generate",
+    summary: "Create a trip with a generated day-by-day itinerary",
+    tag: "planner",
+    auth: true,
+    requestBody: GenerateItineraryRequest,
+    responses: { 201: GenerateItineraryResponse, 400: ApiError, 401: ApiError, 500: ApiError, 503: ApiError }
+  },
+  {
+    operationId: "replanTrip",
+    method: "POST",
+    path: "/planner/trips/{tripId}/replan",
+    summary: "Regenerate the stops of one day or of every day",
+    tag: "planner",
+    auth: true,
+    requestBody: ReplanTripRequest,
+    responses: { 200: ReplanTripResponse, ...tripWrite, 500: ApiError, 503: ApiError }
+  },
+  {
+    operationId: "checkTripWeather",
+    method: "POST",
+    path: "/planner/trips/{tripId}/weather-check",
+    summary: "Propose indoor swaps for outdoor stops on rainy days",
+    tag: "planner",
+    auth: true,
+    requestBody: WeatherCheckRequest,
+    responses: { 200: WeatherCheckResponse, 400: ApiError, ...tripRead }
+  },
+  {
+    operationId: "optimizeTripDayRoute",
+    method: "POST",
+    path: "/planner/trips/{tripId}/days/{dayNumber}/route",
+    summary: "Order a saved day's stops between its anchors (airport, rental car, stay)",
+    tag: "route",
+    auth: true,
+    requestBody: DayRouteRequest,
+    responses: { 200: DayRouteResponse, 400: ApiError, 429: ApiError, ...tripRead, 503: ApiError }
+  },
+  {
+    operationId: "getTripSummary",
+    method: "GET",
+    path: "/planner/trips/{tripId}/summary",
+    summary: "Counts per trip and per category, with air quality advice",
+    tag: "planner",
+    auth: true,
+    responses: { 200: TripSummaryResponse, ...tripRead }
+  },
+  {
+    operationId: "login",
+    method: "POST",
+    path: "/auth/login/{provider}",
+    summary: "Sign in (or sign up) with a provider token and start a device session",
+    tag: "auth",
+    auth: false,
+    requestBody: LoginRequest,
+    responses: { 200: LoginResponse, 400: ApiError, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "refreshTokens",
+    method: "POST",
+    path: "/auth/refresh",
+    summary: "Rotate the refresh token and issue a new access token",
+    tag: "auth",
+    auth: false,
+    requestBody: RefreshRequest,
+    responses: { 200: RefreshResponse, 400: ApiError, 401: ApiError }
+  },
+  {
+    operationId: "getMe",
+    method: "GET",
+    path: "/auth/me",
+    summary: "The signed-in user",
+    tag: "auth",
+    auth: true,
+    responses: { 200: MeResponse, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "exportAccount",
+    method: "GET",
+    path: "/auth/me/export",
+    summary: "Everything stored about the user, as a JSON download",
+    tag: "auth",
+    auth: true,
+    responses: { 200: AccountExport, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "createDeletionToken",
+    method: "POST",
+    path: "/auth/me/deletion-token",
+    summary: "Confirmation token for deleting the account, valid for five minutes",
+    tag: "auth",
+    auth: true,
+    responses: { 200: DeletionTokenResponse, 401: ApiError }
+  },
+  {
+    operationId: "deleteAccount",
+    method: "DELETE",
+    path: "/auth/me",
+    summary: "Delete the account with its trips, memberships, sessions and sign-in providers",
+    tag: "auth",
+    auth: true,
+    requestBody: DeleteAccountRequest,
+    responses: { 200: AccountDeletionResult, 400: ApiError, 401: ApiError, 403: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "listIdentities",
+    method: "GET",
+    path: "/auth/me/identities",
+    summary: "Sign-in providers linked to the account",
+    tag: "auth",
+    auth: true,
+    responses: { 200: IdentityListResponse, 401: ApiError }
+  },
+  {
+    operationId: "linkIdentity",
+    method: "POST",
+    path: "/auth/me/identities/{provider}",
+    summary: "Link another sign-in provider",
+    tag: "auth",
+    auth: true,
+    requestBody: LinkIdentityRequest,
+    responses: { 200: IdentityListResponse, 400: ApiError, 401: ApiError, 404: ApiError, 409: ApiError }
+  },
+  {
+    operationId: "unlinkIdentity",
+    method: "DELETE",
+    path: "/auth/me/identities/{provider}",
+    summary: "Unlink a sign-in provider; the last one cannot be removed",
+    tag: "auth",
+    auth: true,
+    responses: { 204: null, 401: ApiError, 404: ApiError, 409: ApiError }
+  },
+  {
+    operationId: "getProfile",
+    method: "GET",
+    path: "/auth/me/profile",
+    summary: "Saved travel preferences",
+    tag: "auth",
+    auth: true,
+    responses: { 200: UserProfileResponse, 401: ApiError }
+  },
+  {
+    operationId: "saveProfile",
+    method: "PUT",
+    path: "/auth/me/profile",
+    summary: "Save travel preferences, replacing the previous ones",
+    tag: "auth",
+    auth: true,
+    requestBody: UpdateUserProfileRequest,
+    responses: { 200: UserProfileResponse, 400: ApiError, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "listSessions",
+    method: "GET",
+    path: "/auth/sessions",
+    summary: "Devices signed in to the account",
+    tag: "auth",
+    auth: true,
+    responses: { 200: SessionListResponse, 401: ApiError }
+  },
+  {
+    operationId: "revokeSession",
+    method: "DELETE",
+    path: "/auth/sessions/{sessionId}",
+    summary: "Sign another device out",
+    tag: "auth",
+    auth: true,
+    responses: { 204: null, 401: ApiError, 404: ApiError }
+  },
+  {
+    operationId: "logout",
+    method: "POST",
+    path: "/auth/logout",
+    summary: "Sign the current device out",
+    tag: "auth",
+    auth: true,
+    responses: { 200: LogoutResponse, 401: ApiError }
+  }
+];
+
+export function pathParameters(path: string): string[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map((match) => match[1]);
+}
+
+// The operation an Express route serves, from the route's full pattern, e.g. /trips/:tripId.
+export function findContractOperation(method: string, routePath: string): ContractOperation | undefined {
+  const path = routePath.replace(/:(\w+)/g, "{$1}");
+  return CONTRACT_OPERATIONS.find((operation) => operation.method === method && operation.path === path);
+}
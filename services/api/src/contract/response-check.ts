@@ -0,0 +1,19 @@
+import { ApiError } from "./components";
+import type { ContractOperation } from "./operations";
+import { findSchemaMismatches } from "./schema";
+
+// Compares a response of a contract operation with what the contract promises. Error statuses the
+// operation does not list (e.g. an unexpected 500) only have to be a valid ApiError body.
+export function checkContractResponse(operation: ContractOperation, status: number, body: unknown): string[] {
+  const documented = status in operation.responses;
+  if (!documented && status < 400) {
+    return [`status ${status} is not documented`];
+  }
+
+  const schema = documented ? operation.responses[status] : ApiError;
+  if (!schema) {
+    return body === undefined ? [] : [`status ${status} is documented without a body`];
+  }
+
+  return findSchemaMismatches(schema, body);
+}
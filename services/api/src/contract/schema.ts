@@ -0,0 +1,274 @@
+// A small schema language for the API contract. Each schema is a plain description that three
+// things are derived from: request validation on the server, the OpenAPI document, and the
+// TypeScript types of the generated client. `Infer<typeof X>` gives the server the same type.
+
+// "time-windows" is a place's opening hours, e.g. "09:00-12:00,13:00-18:00".
+export type StringFormat = "date" | "date-time" | "time" | "time-windows" | "email" | "uri";
+
+export type SchemaNode =
+  | { kind: "string"; format?: StringFormat; minLength?: number; maxLength?: number; enum?: readonly string[] }
+  | { kind: "number" | "integer"; minimum?: number; maximum?: number }
+  | { kind: "boolean" }
+  | { kind: "array"; items: AnySchema; maxItems?: number }
+  | { kind: "record"; values: AnySchema }
+  | { kind: "object"; properties: Record<string, AnySchema>; required: string[] }
+  | { kind: "nullable"; inner: AnySchema }
+  | { kind: "unknown" };
+
+type Annotations = { name?: string; description?: string; optional?: boolean };
+
+export type AnySchema = SchemaNode & Annotations;
+
+// The phantom `__type` carries the TypeScript type; it never exists at runtime.
+export type Schema<T> = AnySchema & { readonly __type?: T };
+type OptionalSchema<T> = Schema<T> & { optional: true };
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type OptionalKeys<P> = { [K in keyof P]: P[K] extends { optional: true } ? K : never }[keyof P];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+type InferObject<P extends Record<string, AnySchema>> = Simplify<
+  { [K in Exclude<keyof P, OptionalKeys<P>>]: Infer<P[K]> } & { [K in OptionalKeys<P>]?: Infer<P[K]> }
+>;
+
+export const s = {
+  string(options: { format?: StringFormat; minLength?: number; maxLength?: number; description?: string } = {}) {
+    return { kind: "string", ...options } as Schema<string>;
+  },
+  enum<const V extends readonly string[]>(values: V, options: { description?: string } = {}) {
+    return { kind: "string", enum: values, ...options } as Schema<V[number]>;
+  },
+  number(options: { minimum?: number; maximum?: number; description?: string } = {}) {
+    return { kind: "number", ...options } as Schema<number>;
+  },
+  integer(options: { minimum?: number; maximum?: number; description?: string } = {}) {
+    return { kind: "integer", ...options } as Schema<number>;
+  },
+  boolean(options: { description?: string } = {}) {
+    return { kind: "boolean", ...options } as Schema<boolean>;
+  },
+  unknown(options: { description?: string } = {}) {
+    return { kind: "unknown", ...options } as Schema<unknown>;
+  },
+  array<T>(items: Schema<T>, options: { maxItems?: number; description?: string } = {}) {
+    return { kind: "array", items, ...options } as Schema<T[]>;
+  },
+  // An object with arbitrary keys, e.g. counts per category.
+  record<T>(values: Schema<T>, options: { description?: string } = {}) {
+    return { kind: "record", values, ...options } as Schema<Record<string, T>>;
+  },
+  object<P extends Record<string, AnySchema>>(properties: P, options: { description?: string } = {}) {
+    const required = Object.keys(properties).filter((key) => !properties[key].optional);
+    return { kind: "object", properties, required, ...options } as Schema<InferObject<P>>;
+  },
+  nullable<T>(inner: Schema<T>) {
+    return { kind: "nullable", inner } as Schema<T | null>;
+  },
+  optional<T>(schema: Schema<T>) {
+    return { ...schema, optional: true } as OptionalSchema<T>;
+  },
+  // Named schemas become OpenAPI components and exported types in the generated client.
+  named<T>(name: string, schema: Schema<T>) {
+    return { ...schema, name } as Schema<T>;
+  }
+};
+
+function describeType(schema: AnySchema): string {
+  switch (schema.kind) {
+    case "string":
+      if (schema.enum) return `one of ${schema.enum.join(", ")}`;
+      if (schema.format === "time-windows") return "opening hours like 09:00-18:00";
+      return schema.format === "date" || schema.format === "date-time" ? "a valid date string" : "a string";
+    case "number":
+      return "a finite number";
+    case "integer":
+      return "an integer";
+    case "boolean":
+      return "a boolean";
+    case "array":
+      return "an array";
+    case "object":
+    case "record":
+      return "an object";
+    case "nullable":
+      return `${describeType(schema.inner)} or null`;
+    case "unknown":
+      return "a value";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isValidFormat(value: string, format: StringFormat | undefined): boolean {
+  switch (format) {
+    case "date":
+    case "date-time":
+      return !Number.isNaN(new Date(value).getTime());
+    case "time":
+      return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+    case "time-windows":
+      // Zero-padded clock times compare as strings.
+      return value.split(",").every((window) => {
+        const matched = /^(([01]\d|2[0-3]):[0-5]\d)-(([01]\d|2[0-3]):[0-5]\d|24:00)$/.exec(window);
+        return matched !== null && matched[3]! > matched[1]!;
+      });
+    case "email":
+      return /^\S+@\S+\.\S+$/.test(value);
+    case "uri":
+      return /^https?:\/\/\S+$/.test(value);
+    default:
+      return true;
+  }
+}
+
+// Returns the value with strings trimmed, or undefined after pushing messages for `path`. Messages
+// follow the wording the hand-written validators used, e.g. "title is required and must be a string".
+function parseNode(schema: AnySchema, value: unknown, path: string, errors: string[], required: boolean): unknown {
+  const expected = required ? `is required and must be ${describeType(schema)}` : `must be ${describeType(schema)}`;
+
+  switch (schema.kind) {
+    case "nullable":
+      return value === null ? null : parseNode(schema.inner, value, path, errors, required);
+    case "unknown":
+      return value;
+    case "string": {
+      if (typeof value !== "string") {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      const trimmed = value.trim();
+      if (schema.minLength !== undefined && trimmed.length < schema.minLength) {
+        errors.push(schema.minLength === 1 ? `${path} must not be empty` : `${path} must be at least ${schema.minLength} characters`);
+        return undefined;
+      }
+      if (schema.maxLength !== undefined && trimmed.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+        return undefined;
+      }
+      if ((schema.enum && !schema.enum.includes(trimmed)) || !isValidFormat(trimmed, schema.format)) {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      return trimmed;
+    }
+    case "number":
+    case "integer": {
+      const valid =
+        typeof value === "number" && (schema.kind === "integer" ? Number.isInteger(value) : Number.isFinite(value));
+      if (!valid) {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be greater than or equal to ${schema.minimum}`);
+        return undefined;
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be less than or equal to ${schema.maximum}`);
+        return undefined;
+      }
+      return value;
+    }
+    case "boolean":
+      if (typeof value !== "boolean") {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      return value;
+    case "array": {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} can include at most ${schema.maxItems} items`);
+        return undefined;
+      }
+      const before = errors.length;
+      const items = value.map((item, index) => parseNode(schema.items, item, `${path}[${index}]`, errors, true));
+      return errors.length === before ? items : undefined;
+    }
+    case "record": {
+      if (!isRecord(value)) {
+        errors.push(`${path} ${expected}`);
+        return undefined;
+      }
+      const before = errors.length;
+      const entries = Object.entries(value).map(([key, entry]) => [
+        key,
+        parseNode(schema.values, entry, path ? `${path}.${key}` : key, errors, true)
+      ]);
+      return errors.length === before ? Object.fromEntries(entries) : undefined;
+    }
+    case "object": {
+      if (!isRecord(value)) {
+        errors.push(`${path} ${required ? "is required and " : ""}must be an object`);
+        return undefined;
+      }
+      return parseProperties(schema, value, path, errors);
+    }
+  }
+}
+
+function parseProperties(
+  schema: Extract<SchemaNode, { kind: "object" }>,
+  value: Record<string, unknown>,
+  path: string,
+  errors: string[],
+  rootLabel = "Request body"
+): Record<string, unknown> | undefined {
+  const before = errors.length;
+  const unknownFields = Object.keys(value).filter((field) => !Object.hasOwn(schema.properties, field));
+  if (unknownFields.length > 0) {
+    errors.push(`${path || rootLabel} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const parsed: Record<string, unknown> = {};
+  for (const [field, property] of Object.entries(schema.properties)) {
+    const fieldPath = path ? `${path}.${field}` : field;
+    if (value[field] === undefined) {
+      if (!property.optional) {
+        errors.push(`${fieldPath} is required and must be ${describeType(property)}`);
+      }
+      continue;
+    }
+
+    const fieldValue = parseNode(property, value[field], fieldPath, errors, !property.optional);
+    if (fieldValue !== undefined) {
+      parsed[field] = fieldValue;
+    }
+  }
+
+  return errors.length === before ? parsed : undefined;
+}
+
+export type ParseFailure = { ok: false; message: string; errors: string[] };
+export type ParseResult<T> = { ok: true; value: T } | ParseFailure;
+
+// Validates a JSON request body against an object schema. Unknown fields are rejected.
+export function parseBody<T>(schema: Schema<T>, body: unknown): ParseResult<T> {
+  if (schema.kind !== "object" || !isRecord(body)) {
+    return { ok: false, message: "Request body must be a JSON object", errors: [] };
+  }
+
+  const errors: string[] = [];
+  const value = parseProperties(schema, body, "", errors);
+  return value && errors.length === 0
+    ? { ok: true, value: value as T }
+    : { ok: false, message: "Validation failed", errors };
+}
+
+// Lists where a response body departs from its schema, checked as the client will see it after
+// JSON serialization (Dates become strings). An empty list means the body matches.
+export function findSchemaMismatches(schema: AnySchema, body: unknown): string[] {
+  const errors: string[] = [];
+  const value = body === undefined ? undefined : (JSON.parse(JSON.stringify(body)) as unknown);
+  if (schema.kind === "object" && isRecord(value)) {
+    parseProperties(schema, value, "", errors, "Response body");
+  } else {
+    parseNode(schema, value, "body", errors, true);
+  }
+  return errors;
+}
@@ -1,35 +1,49 @@
 import { Request, Response } from "express";
 
-import {
-  OptimizeRouteInput,
-  RoutePoint,
-  RouteTransportMode,
-  optimizeRoute
-} from "../services/route-optimizer";
-import { normalizeRouteErrorMessage, sanitizePublicText } from "../utils/response-safety";
+import { OptimizeRouteRequest } from "../contract/components";
+import { parseBody } from "../contract/schema";
+import { sendError, sendUnexpectedError, sendValidationError } from "../errors/respond";
+import { OptimizeRouteInput, RouteTransportMode, optimizeRoute } from "../services/route-optimizer";
+import { sanitizePublicText } from "../utils/response-safety";
 
 interface ValidationSuccess {
   ok: true;
   value: OptimizeRouteInput;
 }
 
+// No errors means the body was not a JSON object at all.
 interface ValidationFailure {
   ok: false;
-  message: string;
-  details: string[];
+  errors: string[];
 }
 
 type ValidationResult = ValidationSuccess | ValidationFailure;
 
+const MODE_ALIASES: Record<string, RouteTransportMode> = {
+  driving: "driving",
+  drive: "driving",
+  car: "driving",
+  auto: "driving",
+  transit: "transit",
+  public: "transit",
+  "public-transit": "transit",
+  bus: "transit",
+  subway: "transit",
+  walking: "walking",
+  walk: "walking",
+  pedestrian: "walking"
+};
+
 function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
-function toFiniteNumber(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
 
+// Numeric strings become numbers; anything else is passed through for the contract to reject.
+function toNumberIfNumeric(value: unknown): unknown {
   if (typeof value === "string" && value.trim() !== "") {
     const parsed = Number(value);
     if (Number.isFinite(parsed)) {
@@ -37,7 +51,7 @@ function toFiniteNumber(value: unknown): number | null {
     }
   }
 
-  return null;
+  return value;
 }
 
 function readOptionalString(value: unknown, maxLength = 120): string | undefined {
@@ -53,139 +67,66 @@ function readOptionalString(value: unknown, maxLength = 120): string | undefined
   return trimmed.slice(0, maxLength);
 }
 
-function parsePoint(raw: unknown, label: string, errors: string[]): RoutePoint | undefined {
-  if (raw === undefined || raw === null) {
-    return undefined;
-  }
-
+function normalizePoint(raw: unknown): unknown {
   if (!isRecord(raw)) {
-    errors.push(`${label} must be an object.`);
-    return undefined;
-  }
-
-  const lat = toFiniteNumber(raw.lat ?? raw.latitude ?? raw.y);
-  const lng = toFiniteNumber(raw.lng ?? raw.lon ?? raw.longitude ?? raw.x);
-
-  if (lat === null || lat < -90 || lat > 90) {
-    errors.push(`${label}.lat must be a valid number between -90 and 90.`);
-  }
-
-  if (lng === null || lng < -180 || lng > 180) {
-    errors.push(`${label}.lng must be a valid number between -180 and 180.`);
+    return raw;
   }
 
-  if (lat === null || lng === null) {
-    return undefined;
-  }
+  const id = readOptionalString(raw.id);
+  const name = readOptionalString(raw.name ?? raw.title);
 
   return {
-    id: readOptionalString(raw.id),
-    name: readOptionalString(raw.name ?? raw.title),
-    lat,
-    lng
+    ...(id !== undefined ? { id } : {}),
+    ...(name !== undefined ? { name } : {}),
+    lat: toNumberIfNumeric(raw.lat ?? raw.latitude ?? raw.y),
+    lng: toNumberIfNumeric(raw.lng ?? raw.lon ?? raw.longitude ?? raw.x)
   };
 }
 
-function parsePointArray(raw: unknown, label: string, errors: string[]): RoutePoint[] {
-  if (raw === undefined || raw === null) {
-    return [];
-  }
-
-  if (!Array.isArray(raw)) {
-    errors.push(`${label} must be an array.`);
-    return [];
-  }
-
-  if (raw.length > 25) {
-    errors.push(`${label} can include at most 25 points.`);
-  }
-
-  const cappedRaw = raw.slice(0, 25);
-  const points: RoutePoint[] = [];
-
-  cappedRaw.forEach((item, index) => {
-    const parsed = parsePoint(item, `${label}[${index}]`, errors);
-    if (parsed) {
-      points.push(parsed);
-    }
-  });
-
-  return points;
+function normalizeMode(raw: unknown): unknown {
+  return typeof raw === "string" ? (MODE_ALIASES[raw.trim().toLowerCase()] ?? raw) : raw;
 }
 
-function parseMode(raw: unknown, errors: string[]): RouteTransportMode {
-  if (raw === undefined || raw === null || raw === "") {
-    return "driving";
-  }
-
-  if (typeof raw !== "string") {
-    errors.push("mode must be a string.");
-    return "driving";
-  }
-
-  const normalized = raw.trim().toLowerCase();
-
-  if (["driving", "drive", "car", "auto"].includes(normalized)) {
-    return "driving";
-  }
-
-  if (["transit", "public", "public-transit", "bus", "subway"].includes(normalized)) {
-    return "transit";
-  }
-
-  if (["walking", "walk", "pedestrian"].includes(normalized)) {
-    return "walking";
-  }
-
-  errors.push("mode must be one of driving, transit, or walking.");
-  return "driving";
-}
-
-function parseRoundTrip(raw: unknown, errors: string[]): boolean {
-  if (raw === undefined || raw === null || raw === "") {
-    return false;
-  }
-
-  if (typeof raw === "boolean") {
-    return raw;
-  }
-
+function normalizeRoundTrip(raw: unknown): unknown {
   if (raw === "true") {
     return true;
   }
 
-  if (raw === "false") {
-    return false;
-  }
+  return raw === "false" ? false : raw;
+}
+
+// Older clients send origin/destination, points/stops, transportMode, latitude/longitude and
+// numeric strings. Map those onto the contract shape; fields this endpoint never read are dropped.
+function toContractBody(body: Record<string, unknown>): Record<string, unknown> {
+  const start = body.start ?? body.origin;
+  const end = body.end ?? body.destination;
+  const waypoints = body.waypoints ?? body.points ?? body.stops;
+  const mode = body.mode ?? body.transportMode;
 
-  errors.push("roundTrip must be a boolean.");
-  return false;
+  return {
+    ...(!isBlank(start) ? { start: normalizePoint(start) } : {}),
+    ...(!isBlank(end) ? { end: normalizePoint(end) } : {}),
+    ...(!isBlank(waypoints)
+      ? { waypoints: Array.isArray(waypoints) ? waypoints.map(normalizePoint) : waypoints }
+      : {}),
+    ...(!isBlank(body.roundTrip) ? { roundTrip: normalizeRoundTrip(body.roundTrip) } : {}),
+    ...(!isBlank(mode) ? { mode: normalizeMode(mode) } : {})
+  };
 }
 
 function validateOptimizeRouteBody(body: unknown): ValidationResult {
   if (!isRecord(body)) {
-    return {
-      ok: false,
-      message: "Request body must be a JSON object.",
-      details: []
-    };
+    return { ok: false, errors: [] };
   }
 
-  const errors: string[] = [];
-
-  const start = parsePoint(body.start ?? body.origin, "start", errors);
-  const end = parsePoint(body.end ?? body.destination, "end", errors);
-  const waypoints = parsePointArray(
-    body.waypoints ?? body.points ?? body.stops,
-    "waypoints",
-    errors
-  );
-  const mode = parseMode(body.mode ?? body.transportMode, errors);
-  const roundTrip = parseRoundTrip(body.roundTrip, errors);
+  const parsed = parseBody(OptimizeRouteRequest, toContractBody(body));
+  const errors = parsed.ok ? [] : [...parsed.errors];
+  const request = parsed.ok ? parsed.value : {};
+  const roundTrip = request.roundTrip ?? false;
 
-  let normalizedStart = start;
-  let normalizedEnd = end;
-  const normalizedWaypoints = [...waypoints];
+  let normalizedStart = request.start;
+  let normalizedEnd = request.end;
+  const normalizedWaypoints = [...(request.waypoints ?? [])];
 
   if (!normalizedStart && normalizedWaypoints.length > 0) {
     normalizedStart = normalizedWaypoints.shift();
@@ -200,22 +141,18 @@ function validateOptimizeRouteBody(body: unknown): ValidationResult {
     normalizedWaypoints.length +
     (normalizedEnd ? 1 : 0);
 
-  if (!normalizedStart) {
+  if (parsed.ok && !normalizedStart) {
     errors.push(
       "A start/origin point is required. Provide start/origin or include waypoints/points with at least one item."
     );
   }
 
-  if (totalPoints < 2) {
+  if (parsed.ok && totalPoints < 2) {
     errors.push("At least two points are required to optimize a route.");
   }
 
   if (errors.length > 0 || !normalizedStart) {
-    return {
-      ok: false,
-      message: "Invalid optimize route payload.",
-      details: errors
-    };
+    return { ok: false, errors };
   }
 
   return {
@@ -225,7 +162,7 @@ function validateOptimizeRouteBody(body: unknown): ValidationResult {
       waypoints: normalizedWaypoints,
       end: normalizedEnd,
       roundTrip,
-      mode
+      mode: request.mode ?? "driving"
     }
   };
 }
@@ -234,11 +171,11 @@ export async function optimizeRouteHandler(req: Request, res: Response): Promise
   const validation = validateOptimizeRouteBody(req.body);
 
   if (!validation.ok) {
-    res.status(400).json({
-      error: "Bad Request",
-      message: validation.message,
-      details: validation.details
-    });
+    if (validation.errors.length > 0) {
+      sendValidationError(res, validation.errors);
+    } else {
+      sendError(res, "INVALID_REQUEST_BODY");
+    }
     return;
   }
 
@@ -250,13 +187,9 @@ export async function optimizeRouteHandler(req: Request, res: Response): Promise
       data: result
     });
   } catch (error) {
-    const message = normalizeRouteErrorMessage(error);
     const internalMessage = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[route-optimize] failed: ${internalMessage || "unknown"}`);
 
-    res.status(500).json({
-      error: "Internal Server Error",
-      message
-    });
+    sendUnexpectedError(res, error);
   }
 }
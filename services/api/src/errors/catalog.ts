@@ -0,0 +1,207 @@
+// Every error response carries one of these codes. Codes are stable: clients branch on them, so
+// rename or remove one only together with the mobile app. Messages are what a user may be shown;
+// anything specific to the request goes in `details`.
+
+export const ERROR_LOCALES = ["ko", "en"] as const;
+export type ErrorLocale = (typeof ERROR_LOCALES)[number];
+
+interface ErrorDefinition {
+  status: number;
+  messages: Record<ErrorLocale, string>;
+}
+
+export const ERROR_CATALOG = {
+  VALIDATION_FAILED: {
+    status: 400,
+    messages: { ko: "입력한 내용을 다시 확인해주세요.", en: "Some of the submitted values are invalid." }
+  },
+  INVALID_REQUEST_BODY: {
+    status: 400,
+    messages: { ko: "요청 형식이 올바르지 않습니다.", en: "The request body must be a JSON object." }
+  },
+  AUTH_REQUIRED: {
+    status: 401,
+    messages: { ko: "로그인이 필요합니다.", en: "Please sign in to continue." }
+  },
+  AUTH_TOKEN_INVALID: {
+    status: 401,
+    messages: { ko: "로그인 정보가 만료되었습니다. 다시 로그인해주세요.", en: "Your sign-in has expired. Please sign in again." }
+  },
+  REFRESH_TOKEN_INVALID: {
+    status: 401,
+    messages: { ko: "유효하지 않은 리프레시 토큰입니다.", en: "The refresh token is invalid." }
+  },
+  SESSION_REVOKED: {
+    status: 401,
+    messages: { ko: "로그아웃된 세션입니다. 다시 로그인해주세요.", en: "This session was signed out. Please sign in again." }
+  },
+  LOGIN_PROVIDER_UNSUPPORTED: {
+    status: 404,
+    messages: { ko: "지원하지 않는 로그인 방식입니다.", en: "This sign-in method is not supported." }
+  },
+  IDENTITY_TOKEN_INVALID: {
+    status: 401,
+    messages: { ko: "로그인 토큰이 유효하지 않습니다.", en: "The sign-in token could not be verified." }
+  },
+  IDENTITY_LINKED_TO_OTHER_USER: {
+    status: 409,
+    messages: {
+      ko: "이미 다른 계정에 연결된 로그인 수단입니다.",
+      en: "This sign-in account is already linked to another user."
+    }
+  },
+  IDENTITY_PROVIDER_ALREADY_LINKED: {
+    status: 409,
+    messages: {
+      ko: "같은 로그인 방식의 다른 계정이 이미 연결되어 있습니다.",
+      en: "Another account of this sign-in method is already linked."
+    }
+  },
+  IDENTITY_NOT_LINKED: {
+    status: 404,
+    messages: { ko: "연결되지 않은 로그인 수단입니다.", en: "This sign-in method is not linked." }
+  },
+  LAST_IDENTITY_REQUIRED: {
+    status: 409,
+    messages: { ko: "마지막 로그인 수단은 해제할 수 없습니다.", en: "The last sign-in method cannot be removed." }
+  },
+  ACCOUNT_DELETION_UNCONFIRMED: {
+    status: 403,
+    messages: {
+      ko: "탈퇴 확인이 만료되었습니다. 다시 시도해주세요.",
+      en: "The account deletion confirmation has expired. Please try again."
+    }
+  },
+  USER_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "사용자를 찾을 수 없습니다.", en: "User not found." }
+  },
+  SESSION_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "세션을 찾을 수 없습니다.", en: "Session not found." }
+  },
+  TRIP_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "여행을 찾을 수 없습니다.", en: "Trip not found." }
+  },
+  TRIP_DAY_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "여행 일차를 찾을 수 없습니다.", en: "Trip day not found." }
+  },
+  PLACE_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "장소를 찾을 수 없습니다.", en: "Place not found." }
+  },
+  FLIGHT_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "항공편을 찾을 수 없습니다.", en: "Flight not found." }
+  },
+  RENTCAR_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "렌터카 예약을 찾을 수 없습니다.", en: "Rental car not found." }
+  },
+  STAY_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "숙소를 찾을 수 없습니다.", en: "Stay not found." }
+  },
+  TRIP_MEMBER_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "여행 멤버를 찾을 수 없습니다.", en: "Trip member not found." }
+  },
+  INVITE_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "초대가 없거나 만료되었습니다.", en: "The invite does not exist or has expired." }
+  },
+  TRIP_PERMISSION_DENIED: {
+    status: 403,
+    messages: { ko: "이 여행을 변경할 권한이 없습니다.", en: "You do not have permission to change this trip." }
+  },
+  TRIP_OWNER_NOT_REMOVABLE: {
+    status: 400,
+    messages: { ko: "여행 소유자는 멤버에서 제외할 수 없습니다.", en: "The trip owner cannot be removed." }
+  },
+  HISTORY_ENTRY_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "변경 기록을 찾을 수 없습니다.", en: "History entry not found." }
+  },
+  HISTORY_NOT_REVERTIBLE: {
+    status: 409,
+    messages: { ko: "되돌릴 이전 상태가 없는 변경입니다.", en: "This change has no earlier state to restore." }
+  },
+  HISTORY_DAY_MISSING: {
+    status: 409,
+    messages: {
+      ko: "장소가 속해 있던 일차가 삭제되어 되돌릴 수 없습니다.",
+      en: "The day this place belonged to no longer exists."
+    }
+  },
+  HISTORY_DAY_NUMBER_TAKEN: {
+    status: 409,
+    messages: {
+      ko: "같은 일차 번호를 다른 일차가 쓰고 있어 되돌릴 수 없습니다.",
+      en: "Another day now has this day number, so the change cannot be reverted."
+    }
+  },
+  RATE_LIMITED: {
+    status: 429,
+    messages: { ko: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요.", en: "Too many requests. Please retry shortly." }
+  },
+  UPSTREAM_UNAVAILABLE: {
+    status: 503,
+    messages: {
+      ko: "외부 서비스 응답이 원활하지 않습니다. 잠시 후 다시 시도해주세요.",
+      en: "An external service is not responding. Please try again later."
+    }
+  },
+  NOT_IMPLEMENTED: {
+    status: 501,
+    messages: { ko: "아직 준비 중인 기능입니다.", en: "This feature is not available yet." }
+  },
+  ENDPOINT_NOT_FOUND: {
+    status: 404,
+    messages: { ko: "요청한 API를 찾을 수 없습니다.", en: "No endpoint matches this request." }
+  },
+  INTERNAL_ERROR: {
+    status: 500,
+    messages: { ko: "일시적인 오류가 발생했습니다. 잠시 후 다시 시도해주세요.", en: "Unexpected error. Please try again." }
+  }
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CATALOG;
+
+export const ERROR_CODES = Object.keys(ERROR_CATALOG) as ErrorCode[];
+
+export interface FieldError {
+  // Dotted path into the request, e.g. days[0].places[1].name; absent when no single field is at fault.
+  field?: string;
+  message: string;
+}
+
+export interface ErrorBody {
+  code: ErrorCode;
+  message: string;
+  details?: FieldError[];
+}
+
+const LEADING_FIELD_PATH = /^([a-z][A-Za-z0-9]*(?:\[\d+\]|\.[A-Za-z][A-Za-z0-9]*)*) /;
+
+// Validators in this codebase word every message as "<field path> <problem>", so the field can be
+// read back from the message instead of threading it through each validator.
+export function toFieldErrors(messages: string[]): FieldError[] {
+  return messages.map((message) => {
+    const field = LEADING_FIELD_PATH.exec(message)?.[1];
+    return field ? { field, message } : { message };
+  });
+}
+
+export function errorStatus(code: ErrorCode): number {
+  return ERROR_CATALOG[code].status;
+}
+
+export function buildErrorBody(code: ErrorCode, locale: ErrorLocale, details: FieldError[] = []): ErrorBody {
+  return {
+    code,
+    message: ERROR_CATALOG[code].messages[locale],
+    ...(details.length > 0 ? { details } : {})
+  };
+}
@@ -0,0 +1,42 @@
+import { Response } from "express";
+
+import type { ParseFailure } from "../contract/schema";
+import { isUpstreamError } from "../services/upstream-client";
+import {
+  ERROR_LOCALES,
+  buildErrorBody,
+  errorStatus,
+  toFieldErrors,
+  type ErrorCode,
+  type ErrorLocale,
+  type FieldError
+} from "./catalog";
+
+// Korean unless the client prefers English; the app itself is Korean-first.
+function resolveLocale(res: Response): ErrorLocale {
+  const preferred = res.req.acceptsLanguages(...ERROR_LOCALES);
+  return preferred === "en" ? "en" : "ko";
+}
+
+export function sendError(res: Response, code: ErrorCode, details: FieldError[] = []) {
+  const locale = resolveLocale(res);
+  res.setHeader("Content-Language", locale);
+  return res.status(errorStatus(code)).json(buildErrorBody(code, locale, details));
+}
+
+export function sendValidationError(res: Response, messages: string[]) {
+  return sendError(res, "VALIDATION_FAILED", toFieldErrors(messages));
+}
+
+// parseBody reports no field errors when the body is not a JSON object at all.
+export function sendParseFailure(res: Response, failure: ParseFailure) {
+  return failure.errors.length > 0
+    ? sendValidationError(res, failure.errors)
+    : sendError(res, "INVALID_REQUEST_BODY");
+}
+
+// For catch blocks: callers log first. Upstream failures get their own code so clients can offer
+// a retry instead of reporting a bug.
+export function sendUnexpectedError(res: Response, error: unknown) {
+  return sendError(res, isUpstreamError(error) ? "UPSTREAM_UNAVAILABLE" : "INTERNAL_ERROR");
+}
@@ -1,5 +1,8 @@
 import { Request, Response, NextFunction } from "express";
+import { refreshSessions } from "../config/refresh-sessions";
+import { sendError, sendUnexpectedError } from "../errors/respond";
 import { verifyAccessToken, TokenPayload } from "../utils/jwt";
+import { sanitizePublicText } from "../utils/response-safety";
 
 declare global {
   namespace Express {
@@ -9,19 +12,33 @@ declare global {
   }
 }
 
-export function authMiddleware(req: Request, res: Response, next: NextFunction) {
+// Access tokens outlive a logout by up to an hour, so the session they were issued for must still be
+// active. Tokens issued before sessions existed carry no sessionId and are only checked for signature.
+export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
-    return res.status(401).json({ message: "인증 토큰이 필요합니다" });
+    return sendError(res, "AUTH_REQUIRED");
   }
 
+  let payload: TokenPayload;
   try {
     const token = authHeader.split(" ")[1];
-    const payload = verifyAccessToken(token);
-    req.user = payload;
-    next();
+    payload = verifyAccessToken(token);
   } catch {
-    return res.status(401).json({ message: "유효하지 않은 토큰입니다" });
+    return sendError(res, "AUTH_TOKEN_INVALID");
   }
+
+  try {
+    if (payload.sessionId && !(await refreshSessions.isActive(payload.userId, payload.sessionId))) {
+      return sendError(res, "SESSION_REVOKED");
+    }
+  } catch (error) {
+    const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+    console.error(`[auth] session check failed: ${message || "unknown"}`);
+    return sendUnexpectedError(res, error);
+  }
+
+  req.user = payload;
+  next();
 }
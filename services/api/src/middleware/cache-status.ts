@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from "express";
+
+import { summarizeCacheLookups, trackCacheLookups, type CacheLookup } from "../services/response-cache";
+
+// Sets X-Cache (HIT, MISS or PARTIAL) on JSON responses whose handler went through the response
+// cache. Responses that made no cached lookup, such as validation errors, get no header.
+export function cacheStatusHeader(req: Request, res: Response, next: NextFunction): void {
+  const lookups: CacheLookup[] = [];
+  const json = res.json.bind(res);
+
+  res.json = (body?: unknown) => {
+    const status = summarizeCacheLookups(lookups);
+    if (status && !res.headersSent) {
+      res.setHeader("X-Cache", status);
+    }
+    return json(body);
+  };
+
+  trackCacheLookups(lookups, next);
+}
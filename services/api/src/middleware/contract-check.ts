@@ -0,0 +1,45 @@
+import { NextFunction, Request, Response } from "express";
+
+import { findContractOperation, type ContractOperation } from "../contract/operations";
+import { checkContractResponse } from "../contract/response-check";
+
+const MAX_LOGGED_MISMATCHES = 5;
+
+export type ContractMismatchReporter = (operation: ContractOperation, status: number, mismatches: string[]) => void;
+
+function logMismatches(operation: ContractOperation, status: number, mismatches: string[]) {
+  const shown = mismatches.slice(0, MAX_LOGGED_MISMATCHES).join("; ");
+  const more = mismatches.length > MAX_LOGGED_MISMATCHES ? ` (+${mismatches.length - MAX_LOGGED_MISMATCHES} more)` : "";
+  console.warn(`[contract] ${operation.operationId} ${status} does not match the contract: ${shown}${more}`);
+}
+
+// Outside production, checks the JSON bodies of contract operations against their response
+// schemas and logs where a handler has drifted from the contract. Responses are sent unchanged.
+// `report` is called for every checked response, with an empty list when it matches.
+export function contractResponseCheck(apiPrefix: string, report?: ContractMismatchReporter) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const json = res.json.bind(res);
+
+    res.json = (body?: unknown) => {
+      // Only routed handlers are checked; req.route is unset in middleware such as auth. A router's
+      // "/" route joins to a trailing slash (e.g. /trips/), which the contract paths do not have.
+      const routePath =
+        typeof req.route?.path === "string" ? `${req.baseUrl}${req.route.path}`.replace(/(.)\/$/, "$1") : null;
+      const operation =
+        routePath?.startsWith(apiPrefix) ? findContractOperation(req.method, routePath.slice(apiPrefix.length)) : undefined;
+
+      if (operation) {
+        const mismatches = checkContractResponse(operation, res.statusCode, body);
+        if (report) {
+          report(operation, res.statusCode, mismatches);
+        } else if (mismatches.length > 0) {
+          logMismatches(operation, res.statusCode, mismatches);
+        }
+      }
+
+      return json(body);
+    };
+
+    next();
+  };
+}
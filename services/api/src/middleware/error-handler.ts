@@ -1,8 +1,13 @@
 import { NextFunction, Request, Response } from "express";
-import {
-  normalizeInternalErrorMessage,
-  sanitizePublicText
-} from "../utils/response-safety";
+
+import { sendError, sendUnexpectedError } from "../errors/respond";
+import { sanitizePublicText } from "../utils/response-safety";
+
+// body-parser marks malformed JSON as a client error; everything else reaching here is a bug or an
+// upstream failure nobody handled.
+function isMalformedBody(err: unknown): boolean {
+  return err instanceof SyntaxError && (err as { type?: unknown }).type === "entity.parse.failed";
+}
 
 export function errorHandler(
   err: unknown,
@@ -10,11 +15,13 @@ export function errorHandler(
   res: Response,
   _next: NextFunction
 ): void {
+  if (isMalformedBody(err)) {
+    sendError(res, "INVALID_REQUEST_BODY");
+    return;
+  }
+
   const message = err instanceof Error ? sanitizePublicText(err.message) : "unknown";
   console.error(`[api] unhandled error: ${message || "unknown"}`);
 
-  res.status(500).json({
-    error: "Internal Server Error",
-    message: normalizeInternalErrorMessage()
-  });
+  sendUnexpectedError(res, err);
 }
@@ -1,8 +1,7 @@
 import { Request, Response } from "express";
 
+import { sendError } from "../errors/respond";
+
 export function notFoundHandler(req: Request, res: Response): void {
-  res.status(404).json({
-    error: "Not Found",
-    message: `No route matched ${req.method} request.`
-  });
+  sendError(res, "ENDPOINT_NOT_FOUND", [{ message: `No route matched ${req.method} request.` }]);
 }
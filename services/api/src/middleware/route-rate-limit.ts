@@ -1,5 +1,7 @@
 import { NextFunction, Request, Response } from "express";
 
+import { sendError } from "../errors/respond";
+
 type RateLimitBucket = {
   count: number;
   resetAt: number;
@@ -44,10 +46,7 @@ export function optimizeRouteRateLimit(req: Request, res: Response, next: NextFu
   if (current.count > MAX_REQUESTS_PER_WINDOW) {
     const retryAfterSec = Math.max(1, Math.ceil((current.resetAt - now) / 1000));
     res.setHeader("Retry-After", String(retryAfterSec));
-    res.status(429).json({
-      error: "Too Many Requests",
-      message: "Route optimization rate limit exceeded. Please retry shortly."
-    });
+    sendError(res, "RATE_LIMITED");
     return;
   }
 
@@ -1,5 +1,6 @@
 import { Router } from "express";
 
+import { sendUnexpectedError, sendValidationError } from "../errors/respond";
 import { searchAddress } from "../services/address.service";
 import { sanitizePublicText } from "../utils/response-safety";
 
@@ -10,7 +11,7 @@ addressRouter.get("/search", async (req, res) => {
     const { keyword, page } = req.query;
 
     if (!keyword || typeof keyword !== "string" || keyword.trim() === "") {
-      return res.status(400).json({ message: "검색어가 필요합니다" });
+      return sendValidationError(res, ["keyword is required"]);
     }
 
     const items = await searchAddress(keyword, page ? Number(page) : 1);
@@ -18,7 +19,7 @@ addressRouter.get("/search", async (req, res) => {
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[address] search failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "주소 검색 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -1,54 +1,87 @@
 import { Router } from "express";
+import {
+  DeleteAccountRequest,
+  LinkIdentityRequest,
+  LoginRequest,
+  RefreshRequest,
+  UpdateUserProfileRequest
+} from "../contract/components";
+import { parseBody } from "../contract/schema";
 import { prisma } from "../config/database";
-import { getKakaoUserByToken } from "../services/kakao-auth.service";
+import { identityVerifier } from "../config/identity-providers";
+import { refreshSessions } from "../config/refresh-sessions";
+import { sendError, sendParseFailure, sendUnexpectedError, sendValidationError } from "../errors/respond";
 import {
-  generateAccessToken,
-  generateRefreshToken,
-  verifyRefreshToken
-} from "../utils/jwt";
+  CREDENTIAL_FIELDS,
+  isIdentityProvider,
+  type IdentityProvider
+} from "../services/identity-providers";
 import { authMiddleware } from "../middleware/auth";
+import { buildAccountExport, deleteAccount } from "../services/account-data";
+import { toSessionDevice } from "../services/refresh-sessions";
+import {
+  toUserProfileData,
+  toUserProfileInput,
+  toUserProfileView,
+  validateUserProfile
+} from "../services/user-profile";
+import { linkIdentity, listIdentities, signInWithIdentity, unlinkIdentity } from "../services/user-identities";
+import {
+  ACCOUNT_DELETION_TOKEN_TTL_MS,
+  generateAccountDeletionToken,
+  verifyAccountDeletionToken
+} from "../utils/jwt";
 import { sanitizePublicText } from "../utils/response-safety";
 
 const authRouter = Router();
 
-// 카카오 로그인 (모바일에서 카카오 토큰을 받아서 보내줌)
-authRouter.post("/login/kakao", async (req, res) => {
-  try {
-    const { kakaoAccessToken } = req.body as { kakaoAccessToken?: string };
+function logInternalError(scope: string, error: unknown) {
+  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+  console.error(`[auth] ${scope} failed: ${message || "unknown"}`);
+}
+
+// Login and linking share the credential fields; only the one named for the provider is used.
+function readCredential(body: LinkIdentityRequest, provider: IdentityProvider): string | null {
+  return body[CREDENTIAL_FIELDS[provider]] ?? null;
+}
 
-    if (!kakaoAccessToken) {
-      return res.status(400).json({ message: "카카오 액세스 토큰이 필요합니다" });
+// 소셜 로그인 (모바일 SDK가 받은 토큰을 보내줌). 처음 보는 계정이면 가입 처리
+authRouter.post("/login/:provider", async (req, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isIdentityProvider(provider) || !identityVerifier.isEnabled(provider)) {
+      return sendError(res, "LOGIN_PROVIDER_UNSUPPORTED");
     }
 
-    // 카카오에서 유저 정보 가져오기
-    const kakaoUser = await getKakaoUserByToken(kakaoAccessToken);
-    const kakaoId = String(kakaoUser.id);
-    const nickname = kakaoUser.kakao_account?.profile?.nickname ?? "여행자";
-    const email = kakaoUser.kakao_account?.email ?? null;
-    const profileImage = kakaoUser.kakao_account?.profile?.profile_image_url ?? null;
+    const parsed = parseBody(LoginRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
 
-    // DB에서 유저 찾기 또는 새로 만들기
-    let user = await prisma.user.findUnique({ where: { kakaoId } });
+    const { nickname, deviceName, ...credentials } = parsed.value;
+    const credential = readCredential(credentials, provider);
+    if (!credential) {
+      return sendValidationError(res, [`${CREDENTIAL_FIELDS[provider]} is required`]);
+    }
 
-    if (!user) {
-      user = await prisma.user.create({
-        data: { kakaoId, nickname, email, profileImage }
-      });
-    } else {
-      user = await prisma.user.update({
-        where: { kakaoId },
-        data: { nickname, email, profileImage }
-      });
+    const verified = await identityVerifier.verify(provider, credential);
+    if (!verified.ok) {
+      return sendError(res, verified.code);
     }
 
-    // JWT 토큰 발급
-    const tokenPayload = { userId: user.id, kakaoId: user.kakaoId };
-    const accessToken = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
+    // 애플은 이름을 앱에만 한 번 알려주므로 클라이언트가 nickname으로 전달
+    const user = await signInWithIdentity(verified.identity, nickname ? nickname.slice(0, 30) : null);
+
+    // 기기 세션을 만들고 JWT 토큰 발급
+    const { accessToken, refreshToken, sessionId } = await refreshSessions.start(
+      user.id,
+      toSessionDevice(deviceName, req.headers["user-agent"])
+    );
 
     return res.json({
       accessToken,
       refreshToken,
+      sessionId,
       user: {
         id: user.id,
         nickname: user.nickname,
@@ -57,30 +90,31 @@ authRouter.post("/login/kakao", async (req, res) => {
       }
     });
   } catch (error) {
-    const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
-    console.error(`[auth] Kakao login failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "로그인 처리 중 오류가 발생했습니다" });
+    logInternalError(`${req.params.provider} login`, error);
+    return sendUnexpectedError(res, error);
   }
 });
 
-// 토큰 갱신
+// 토큰 갱신 (리프레시 토큰도 매번 새로 발급, 이전 토큰은 더 이상 쓸 수 없음)
 authRouter.post("/refresh", async (req, res) => {
   try {
-    const { refreshToken } = req.body as { refreshToken?: string };
-
-    if (!refreshToken) {
-      return res.status(400).json({ message: "리프레시 토큰이 필요합니다" });
+    const parsed = parseBody(RefreshRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
-    const payload = verifyRefreshToken(refreshToken);
-    const newAccessToken = generateAccessToken({
-      userId: payload.userId,
-      kakaoId: payload.kakaoId
-    });
+    const result = await refreshSessions.rotate(parsed.value.refreshToken);
+    if (!result.ok) {
+      return sendError(
+        res,
+        result.reason === "reused" || result.reason === "revoked" ? "SESSION_REVOKED" : "REFRESH_TOKEN_INVALID"
+      );
+    }
 
-    return res.json({ accessToken: newAccessToken });
-  } catch {
-    return res.status(401).json({ message: "유효하지 않은 리프레시 토큰입니다" });
+    return res.json({ accessToken: result.tokens.accessToken, refreshToken: result.tokens.refreshToken });
+  } catch (error) {
+    logInternalError("refresh token", error);
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -99,18 +133,231 @@ authRouter.get("/me", authMiddleware, async (req, res) => {
     });
 
     if (!user) {
-      return res.status(404).json({ message: "사용자를 찾을 수 없습니다" });
+      return sendError(res, "USER_NOT_FOUND");
     }
 
     return res.json({ user });
-  } catch {
-    return res.status(500).json({ message: "사용자 정보 조회 중 오류가 발생했습니다" });
+  } catch (error) {
+    logInternalError("get me", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 내 데이터 내려받기 (개인정보 열람 요청용 JSON)
+authRouter.get("/me/export", authMiddleware, async (req, res) => {
+  try {
+    const archive = await buildAccountExport(req.user!.userId);
+    if (!archive) {
+      return sendError(res, "USER_NOT_FOUND");
+    }
+
+    const day = archive.exportedAt.slice(0, 10).replace(/-/g, "");
+    res.setHeader("Content-Disposition", `attachment; filename="tripmate-export-${day}.json"`);
+    return res.json(archive);
+  } catch (error) {
+    logInternalError("export account", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 회원 탈퇴 확인 토큰 발급 (5분 유효)
+authRouter.post("/me/deletion-token", authMiddleware, (req, res) => {
+  const confirmationToken = generateAccountDeletionToken(req.user!.userId);
+  return res.json({
+    confirmationToken,
+    expiresAt: new Date(Date.now() + ACCOUNT_DELETION_TOKEN_TTL_MS).toISOString()
+  });
+});
+
+// 회원 탈퇴 (여행, 세션, 로그인 수단까지 모두 삭제)
+authRouter.delete("/me", authMiddleware, async (req, res) => {
+  try {
+    const parsed = parseBody(DeleteAccountRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const { confirmationToken, unlinkKakao } = parsed.value;
+    const userId = req.user!.userId;
+    let confirmedUserId: string | null = null;
+    try {
+      confirmedUserId = verifyAccountDeletionToken(confirmationToken).userId;
+    } catch {
+      confirmedUserId = null;
+    }
+    if (confirmedUserId !== userId) {
+      return sendError(res, "ACCOUNT_DELETION_UNCONFIRMED");
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return sendError(res, "USER_NOT_FOUND");
+    }
+
+    const result = await deleteAccount(userId, { unlinkKakao: unlinkKakao === true });
+    return res.json(result);
+  } catch (error) {
+    logInternalError("delete account", error);
+    return sendUnexpectedError(res, error);
   }
 });
 
-// 로그아웃 (클라이언트에서 토큰 삭제)
-authRouter.post("/logout", (_req, res) => {
-  return res.json({ message: "로그아웃 완료" });
+// 연결된 로그인 수단 목록
+authRouter.get("/me/identities", authMiddleware, async (req, res) => {
+  try {
+    const identities = await listIdentities(req.user!.userId);
+    return res.json({ identities });
+  } catch (error) {
+    logInternalError("list identities", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 로그인 수단 연결 (로그인과 같은 body로 해당 계정 토큰을 보내줌)
+authRouter.post("/me/identities/:provider", authMiddleware, async (req, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isIdentityProvider(provider) || !identityVerifier.isEnabled(provider)) {
+      return sendError(res, "LOGIN_PROVIDER_UNSUPPORTED");
+    }
+
+    const parsed = parseBody(LinkIdentityRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const credential = readCredential(parsed.value, provider);
+    if (!credential) {
+      return sendValidationError(res, [`${CREDENTIAL_FIELDS[provider]} is required`]);
+    }
+
+    const verified = await identityVerifier.verify(provider, credential);
+    if (!verified.ok) {
+      return sendError(res, verified.code);
+    }
+
+    const userId = req.user!.userId;
+    const linked = await linkIdentity(userId, verified.identity);
+    if (!linked.ok) {
+      return sendError(res, linked.code);
+    }
+
+    return res.json({ identities: await listIdentities(userId) });
+  } catch (error) {
+    logInternalError("link identity", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 로그인 수단 해제 (마지막 하나는 해제 불가)
+authRouter.delete("/me/identities/:provider", authMiddleware, async (req, res) => {
+  try {
+    const { provider } = req.params;
+    if (!isIdentityProvider(provider)) {
+      return sendError(res, "LOGIN_PROVIDER_UNSUPPORTED");
+    }
+
+    const unlinked = await unlinkIdentity(req.user!.userId, provider);
+    if (!unlinked.ok) {
+      return sendError(res, unlinked.code);
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("unlink identity", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 여행 성향 프로필 조회 (아직 저장하지 않았으면 null)
+authRouter.get("/me/profile", authMiddleware, async (req, res) => {
+  try {
+    const profile = await prisma.userProfile.findUnique({
+      where: { userId: req.user!.userId }
+    });
+
+    return res.json({ profile: profile ? toUserProfileView(profile) : null });
+  } catch (error) {
+    logInternalError("get profile", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 여행 성향 프로필 저장 (전체 교체)
+authRouter.put("/me/profile", authMiddleware, async (req, res) => {
+  try {
+    const parsed = parseBody(UpdateUserProfileRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const input = toUserProfileInput(parsed.value);
+    const errors: string[] = [];
+    validateUserProfile(input, errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const userId = req.user!.userId;
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      return sendError(res, "USER_NOT_FOUND");
+    }
+
+    const data = toUserProfileData(input);
+    const profile = await prisma.userProfile.upsert({
+      where: { userId },
+      create: { ...data, userId },
+      update: data
+    });
+
+    return res.json({ profile: toUserProfileView(profile) });
+  } catch (error) {
+    logInternalError("save profile", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 로그인된 기기 목록
+authRouter.get("/sessions", authMiddleware, async (req, res) => {
+  try {
+    const sessions = await refreshSessions.list(req.user!.userId, req.user!.sessionId);
+    return res.json({ sessions });
+  } catch (error) {
+    logInternalError("list sessions", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 다른 기기 로그아웃 (분실한 폰 등). 그 기기의 액세스 토큰도 바로 거부됨 (다른 서버 인스턴스에서는 세션 확인 캐시 때문에 최대 30초 뒤)
+authRouter.delete("/sessions/:sessionId", authMiddleware, async (req, res) => {
+  try {
+    const revoked = await refreshSessions.revokeUserSession(req.user!.userId, req.params.sessionId, "signed_out");
+    if (!revoked) {
+      return sendError(res, "SESSION_NOT_FOUND");
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("revoke session", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// 로그아웃 (현재 기기 세션 폐기)
+authRouter.post("/logout", authMiddleware, async (req, res) => {
+  try {
+    const sessionId = req.user!.sessionId;
+
+    if (sessionId) {
+      await refreshSessions.revokeUserSession(req.user!.userId, sessionId, "logout");
+    }
+
+    return res.json({ message: "로그아웃 완료" });
+  } catch (error) {
+    logInternalError("logout", error);
+    return sendUnexpectedError(res, error);
+  }
 });
 
 export { authRouter };
@@ -1,12 +1,19 @@
 import { Router } from "express";
 
+import { upstream } from "../services/upstream-client";
+
 const healthRouter = Router();
 
+// Stays 200 while a provider circuit is open: the API itself is up and serves fallbacks, so
+// liveness probes should not restart it. "degraded" tells monitoring which providers to check.
 healthRouter.get("/health", (_req, res) => {
+  const providers = upstream.health();
+
   res.status(200).json({
-    status: "ok",
+    status: providers.some((provider) => provider.state !== "closed") ? "degraded" : "ok",
     service: "tripmate-api",
-    timestamp: new Date().toISOString()
+    timestamp: new Date().toISOString(),
+    providers
   });
 });
 
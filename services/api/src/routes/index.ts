@@ -1,5 +1,6 @@
 import { Router } from "express";
 
+import { cacheStatusHeader } from "../middleware/cache-status";
 import { addressRouter } from "./address";
 import { authRouter } from "./auth";
 import { plannerRouter } from "./planner";
@@ -7,6 +8,8 @@ import { medicalRouter } from "./medical";
 import { restaurantsRouter } from "./restaurants";
 import { routeRouter } from "./route";
 import { tourismRouter } from "./tourism";
+import { tripHistoryRouter } from "./trip-history";
+import { tripMembersRouter } from "./trip-members";
 import { tripsRouter } from "./trips";
 import { weatherRouter } from "./weather";
 
@@ -14,12 +17,14 @@ const apiRouter = Router();
 
 apiRouter.use("/address", addressRouter);
 apiRouter.use("/auth", authRouter);
+apiRouter.use("/trips", tripMembersRouter);
+apiRouter.use("/trips", tripHistoryRouter);
 apiRouter.use("/trips", tripsRouter);
 apiRouter.use("/planner", plannerRouter);
 apiRouter.use("/route", routeRouter);
-apiRouter.use("/tourism", tourismRouter);
-apiRouter.use("/weather", weatherRouter);
-apiRouter.use("/restaurants", restaurantsRouter);
-apiRouter.use("/medical", medicalRouter);
+apiRouter.use("/tourism", cacheStatusHeader, tourismRouter);
+apiRouter.use("/weather", cacheStatusHeader, weatherRouter);
+apiRouter.use("/restaurants", cacheStatusHeader, restaurantsRouter);
+apiRouter.use("/medical", cacheStatusHeader, medicalRouter);
 
 export { apiRouter };
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { sendUnexpectedError, sendValidationError } from "../errors/respond";
 import { searchHospitals, searchPharmacies } from "../services/medical.service";
 import { sanitizePublicText } from "../utils/response-safety";
 
@@ -7,7 +8,7 @@ const medicalRouter = Router();
 medicalRouter.get("/hospitals", async (req, res) => {
   try {
     const { lat, lng, page } = req.query;
-    if (!lat || !lng) return res.status(400).json({ message: "lat, lng가 필요합니다" });
+    if (!lat || !lng) return sendValidationError(res, ["lat/lng is required"]);
 
     const items = await searchHospitals({
       lat: Number(lat),
@@ -18,14 +19,14 @@ medicalRouter.get("/hospitals", async (req, res) => {
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[medical] hospital search failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "병원 검색 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
 medicalRouter.get("/pharmacies", async (req, res) => {
   try {
     const { lat, lng, page } = req.query;
-    if (!lat || !lng) return res.status(400).json({ message: "lat, lng가 필요합니다" });
+    if (!lat || !lng) return sendValidationError(res, ["lat/lng is required"]);
 
     const items = await searchPharmacies({
       lat: Number(lat),
@@ -36,7 +37,7 @@ medicalRouter.get("/pharmacies", async (req, res) => {
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[medical] pharmacy search failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "약국 검색 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
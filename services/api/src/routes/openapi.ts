@@ -0,0 +1,16 @@
+import { Router } from "express";
+
+import { env } from "../config/env";
+import { buildOpenApiDocument } from "../contract/openapi";
+
+const openApiRouter = Router();
+
+// The contract only changes with a deploy, so the document is built once.
+let cachedDocument: Record<string, unknown> | null = null;
+
+openApiRouter.get("/openapi.json", (_req, res) => {
+  cachedDocument ??= buildOpenApiDocument(env.apiPrefix);
+  res.status(200).json(cachedDocument);
+});
+
+export { openApiRouter };
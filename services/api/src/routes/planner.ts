@@ -1,20 +1,118 @@
+import {
+  partitionItinerary,
+  rankCandidates,
+  resolveDailyPace,
+  scoreCandidate,
+  type CandidateScore,
+  type DailyPace,
+  type TravelPreferences,
+  type TspLocation
+} from "@tripmate/planner";
 import { Router } from "express";
 
 import { prisma } from "../config/database";
+import {
+  DayRouteRequest,
+  GenerateItineraryRequest,
+  ReplanTripRequest,
+  WeatherCheckRequest
+} from "../contract/components";
+import { parseBody } from "../contract/schema";
 import { optimizeRouteHandler } from "../controllers/route-controller";
+import { sendError, sendParseFailure, sendUnexpectedError, sendValidationError } from "../errors/respond";
+import {
+  ANCHOR_PLACE_CATEGORIES,
+  sortAnchorPlaces,
+  toAnchorOverrides,
+  type DayPlanAnchors
+} from "../services/day-anchors";
+import { buildDayPlans } from "../services/day-plans";
 import { authMiddleware } from "../middleware/auth";
 import { optimizeRouteRateLimit } from "../middleware/route-rate-limit";
-import { searchRestaurants, type NaverLocalItem } from "../services/restaurant.service";
+import {
+  DEFAULT_MEAL_SLOTS,
+  buildMealSearchQuery,
+  countUncoveredMealSlots,
+  insertMealSlots,
+  toMealRestaurant,
+  type DayTimeline,
+  type DayWindow,
+  type MealRestaurant,
+  type MealSlotKind
+} from "../services/meal-slots";
+import {
+  parsePlannerPreferences,
+  toAttractionCandidate,
+  toRestaurantCandidate
+} from "../services/planner-preferences";
+import {
+  parseAttractionSelections,
+  parseLodgingSelection,
+  parseRestaurantSelections,
+  resolveAttractionSelections,
+  resolveLodging,
+  toLodgingStay
+} from "../services/planner-selections";
+import {
+  parseNaverCoordinate,
+  searchRestaurants,
+  type NaverLocalItem
+} from "../services/restaurant.service";
+import {
+  optimizeRoute,
+  type RoutePoint,
+  type RouteTransportMode
+} from "../services/route-optimizer";
 import {
   AREA_CODES,
   searchAttractions,
   searchByKeyword,
+  findFestivalOffers,
+  getContentDetail,
+  getContentOpeningHours,
   type TourItem
 } from "../services/tourism.service";
+import { findTripAccess, hasTripRole, tripMembershipFilter } from "../services/trip-access";
+import { recordTripActivity, snapshotDay } from "../services/trip-activity";
+import { loadTripAirQuality, type TripAirQuality } from "../services/trip-air-quality";
+import {
+  DEFAULT_POP_THRESHOLD,
+  INDOOR_CONTENT_TYPE_ID,
+  proposeIndoorSwaps,
+  summarizeDayWeather,
+  type DayWeather
+} from "../services/weather-replan";
+import { latestForecastBase } from "../services/weather-summary";
+import {
+  POPULAR_GRIDS,
+  fetchGridForecasts,
+  resolveForecastGrid,
+  toGridKey
+} from "../services/weather.service";
+import {
+  parseFlightInput,
+  validateFlightSchedule,
+  type FlightInput
+} from "../services/trip-flights";
+import {
+  findRentcarWarnings,
+  isDrivingTransport,
+  parseRentcarInput,
+  validateRentcarSchedule,
+  type RentcarInput
+} from "../services/trip-rentcars";
+import {
+  parseStayInput,
+  validateStaySchedule,
+  type StayInput
+} from "../services/trip-stays";
 import { sanitizePublicText } from "../utils/response-safety";
 
 const plannerRouter = Router();
 const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const ATTRACTIONS_PER_DAY = 2;
+// Ranking only helps when there is more to choose from than the days can hold.
+const SCORED_CANDIDATE_ROWS = 30;
 
 const plannerTripInclude = {
   days: {
@@ -24,6 +122,15 @@ const plannerTripInclude = {
         orderBy: { orderIndex: "asc" as const }
       }
     }
+  },
+  flights: {
+    orderBy: { departureTime: "asc" as const }
+  },
+  rentcars: {
+    orderBy: { pickupTime: "asc" as const }
+  },
+  stays: {
+    orderBy: { checkIn: "asc" as const }
   }
 };
 
@@ -37,11 +144,36 @@ interface PlannerPlaceCreateData {
   imageUrl?: string | null;
   phone?: string | null;
   memo?: string | null;
+  startTime?: string | null;
+  endTime?: string | null;
+  openingHours?: string | null;
+}
+
+interface PlannerPoolItem {
+  id: string;
+  place: PlannerPlaceCreateData;
 }
 
 interface PlannerCandidates {
   attractions: TourItem[];
   restaurants: NaverLocalItem[];
+  // Same order as `attractions`; empty when no preferences were given.
+  attractionScores: CandidateScore[];
+}
+
+interface ItineraryOptions {
+  dayPlans?: DayPlanAnchors[];
+  // User picks at the head of `attractions`; they are always kept.
+  selectedCount?: number;
+  attractionsPerDay?: number;
+  // Stored opening hours by content id; attractions without an entry may be visited any time.
+  openingHours?: Map<string, string>;
+}
+
+interface PlannerItinerary {
+  days: PlannerPlaceCreateData[][];
+  // Stops a day could not fit, by day index.
+  unplaced: Array<{ dayIndex: number; place: PlannerPlaceCreateData }>;
 }
 
 interface PlannerCandidateInput {
@@ -49,10 +181,10 @@ interface PlannerCandidateInput {
   keyword?: string;
   area?: string;
   limit?: number;
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
+  // Either search can be skipped when the user's own picks already cover it.
+  includeAttractions?: boolean;
+  includeRestaurants?: boolean;
+  preferences?: TravelPreferences;
 }
 
 function getQueryString(value: unknown): string | undefined {
@@ -64,82 +196,6 @@ function getQueryString(value: unknown): string | undefined {
   return trimmed === "" ? undefined : trimmed;
 }
 
-function parseRequiredString(value: unknown, field: string, errors: string[]): string | null {
-  if (typeof value !== "string") {
-    errors.push(`${field} is required and must be a string`);
-    return null;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} is required and must not be empty`);
-    return null;
-  }
-
-  return trimmed;
-}
-
-function parseOptionalString(value: unknown, field: string, errors: string[]): string | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (typeof value !== "string") {
-    errors.push(`${field} must be a string`);
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} must not be empty`);
-    return undefined;
-  }
-
-  return trimmed;
-}
-
-function parseOptionalNullableString(
-  value: unknown,
-  field: string,
-  errors: string[]
-): string | null | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (value === null) {
-    return null;
-  }
-
-  if (typeof value !== "string") {
-    errors.push(`${field} must be a string or null`);
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} must not be empty`);
-    return undefined;
-  }
-
-  return trimmed;
-}
-
-function parseRequiredDate(value: unknown, field: string, errors: string[]): Date | null {
-  if (typeof value !== "string" || !value.trim()) {
-    errors.push(`${field} is required and must be a valid date string`);
-    return null;
-  }
-
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    errors.push(`${field} must be a valid date string`);
-    return null;
-  }
-
-  return parsed;
-}
-
 function parseOptionalPositiveInteger(
   value: unknown,
   field: string,
@@ -215,7 +271,7 @@ function buildTripDates(startDate: Date, endDate: Date): Date[] {
   return dates;
 }
 
-function toAttractionPlace(item: TourItem, orderIndex: number): PlannerPlaceCreateData {
+function toAttractionPlace(item: TourItem, orderIndex: number, openingHours?: string): PlannerPlaceCreateData {
   const lat = parseLatitude(item.mapy);
   const lng = parseLongitude(item.mapx);
   const address = [item.addr1, item.addr2].filter(Boolean).join(" ").trim();
@@ -228,13 +284,13 @@ function toAttractionPlace(item: TourItem, orderIndex: number): PlannerPlaceCrea
     ...(lat !== undefined ? { lat } : {}),
     ...(lng !== undefined ? { lng } : {}),
     ...(item.firstimage || item.firstimage2 ? { imageUrl: item.firstimage || item.firstimage2 } : {}),
-    ...(item.tel ? { phone: item.tel } : {})
+    ...(item.tel ? { phone: item.tel } : {}),
+    ...(openingHours ? { openingHours } : {})
   };
 }
 
-function toRestaurantPlace(item: NaverLocalItem, orderIndex: number): PlannerPlaceCreateData {
-  const lat = parseLatitude(item.mapy);
-  const lng = parseLongitude(item.mapx);
+function toRestaurantPlace(restaurant: MealRestaurant, orderIndex: number): PlannerPlaceCreateData {
+  const { item, lat, lng } = restaurant;
   const address = (item.roadAddress || item.address || "").trim();
   const category = item.category.trim() || "restaurant";
 
@@ -249,35 +305,282 @@ function toRestaurantPlace(item: NaverLocalItem, orderIndex: number): PlannerPla
   };
 }
 
-function buildDayPlaces(
-  dayIndex: number,
+// User picks lead the list and are never cut, even past the per-day target.
+function buildAttractionPool(
+  dayCount: number,
+  attractions: TourItem[],
+  selectedCount: number,
+  attractionsPerDay: number,
+  openingHours: Map<string, string>
+): PlannerPoolItem[] {
+  const poolSize = Math.max(dayCount * attractionsPerDay, selectedCount);
+  return attractions.slice(0, poolSize).map((item, index) => ({
+    id: `attraction-${index}`,
+    place: toAttractionPlace(item, 0, openingHours.get(item.contentid))
+  }));
+}
+
+function toPoolLocation(item: PlannerPoolItem): TspLocation | null {
+  const { lat, lng } = item.place;
+  if (typeof lat !== "number" || typeof lng !== "number") {
+    return null;
+  }
+
+  return { id: item.id, name: item.place.name, lat, lng, category: "attraction" };
+}
+
+// A day that runs out of time gives up searched stops, latest first, to make room for the user's
+// picks. If that frees no room for them the day is scheduled as routed.
+function fitDayPlaces(
+  places: PlannerPlaceCreateData[],
+  picks: Set<PlannerPlaceCreateData>,
+  mealSlots: readonly MealSlotKind[],
+  restaurants: MealRestaurant[],
+  usedRestaurantKeys: Set<string>,
+  window?: DayWindow
+): DayTimeline<PlannerPlaceCreateData> {
+  const schedule = (kept: PlannerPlaceCreateData[]) => {
+    const keys = new Set(usedRestaurantKeys);
+    return { keys, timeline: insertMealSlots(kept, mealSlots, restaurants, keys, window) };
+  };
+  const countLeftOutPicks = (timeline: DayTimeline<PlannerPlaceCreateData>) =>
+    timeline.unplaced.filter((place) => picks.has(place)).length;
+  const scheduledStops = (timeline: DayTimeline<PlannerPlaceCreateData>) =>
+    timeline.entries.flatMap((entry) => (entry.type === "stop" ? [entry.stop] : []));
+
+  const initial = schedule(places);
+  let trimmed = initial;
+  let kept = places;
+  while (countLeftOutPicks(trimmed.timeline) > 0) {
+    const fill = scheduledStops(trimmed.timeline)
+      .reverse()
+      .find((place) => !picks.has(place));
+    if (!fill) break;
+
+    kept = kept.filter((place) => place !== fill);
+    trimmed = schedule(kept);
+  }
+
+  const result = countLeftOutPicks(trimmed.timeline) < countLeftOutPicks(initial.timeline) ? trimmed : initial;
+  result.keys.forEach((key) => usedRestaurantKeys.add(key));
+  const scheduled = new Set(scheduledStops(result.timeline));
+  return {
+    entries: result.timeline.entries,
+    unplaced: places.filter((place) => !scheduled.has(place))
+  };
+}
+
+// Splits attractions into geographically compact days (clustered, then route-ordered) and
+// slots meals in between. Attractions without coordinates are handed to the lightest days.
+function buildItineraryPlaces(
+  dayCount: number,
   destination: string,
   attractions: TourItem[],
-  restaurants: NaverLocalItem[]
-): PlannerPlaceCreateData[] {
-  const places: PlannerPlaceCreateData[] = [];
-  const attractionCount = attractions.length >= 2 ? 2 : attractions.length;
-
-  for (let i = 0; i < attractionCount; i += 1) {
-    const attraction = attractions[(dayIndex * 2 + i) % attractions.length];
-    places.push(toAttractionPlace(attraction, places.length));
+  restaurants: MealRestaurant[],
+  mealSlots: readonly MealSlotKind[],
+  options: ItineraryOptions = {}
+): PlannerItinerary {
+  const {
+    dayPlans = [],
+    selectedCount = 0,
+    attractionsPerDay = ATTRACTIONS_PER_DAY,
+    openingHours = new Map<string, string>()
+  } = options;
+  const pool = buildAttractionPool(dayCount, attractions, selectedCount, attractionsPerDay, openingHours);
+  const poolById = new Map(pool.map((item) => [item.id, item]));
+  const located = pool
+    .map((item) => toPoolLocation(item))
+    .filter((location): location is TspLocation => location !== null);
+  const locatedIds = new Set(located.map((location) => location.id));
+
+  const partition = partitionItinerary(located, {
+    dayCount,
+    dayAnchors: toAnchorOverrides(dayPlans)
+  });
+  const days = partition.days.map((day) =>
+    day.orderedIds
+      .map((id) => poolById.get(id)?.place)
+      .filter((place): place is PlannerPlaceCreateData => Boolean(place))
+  );
+
+  for (const item of pool) {
+    if (locatedIds.has(item.id)) continue;
+
+    const lightestDay = days.reduce(
+      (best, places, index) => (places.length < (days[best]?.length ?? 0) ? index : best),
+      0
+    );
+    days[lightestDay]?.push(item.place);
+  }
+
+  const usedRestaurantKeys = new Set<string>();
+  const unplaced: PlannerItinerary["unplaced"] = [];
+  const picks = new Set(pool.slice(0, selectedCount).map((item) => item.place));
+
+  const itineraryDays = days.map((places, dayIndex) => {
+    const plan = dayPlans[dayIndex];
+    const { entries: timeline, unplaced: dayUnplaced } = fitDayPlaces(
+      places,
+      picks,
+      mealSlots,
+      restaurants,
+      usedRestaurantKeys,
+      plan?.window
+    );
+    unplaced.push(...dayUnplaced.map((place) => ({ dayIndex, place })));
+    const leading = sortAnchorPlaces(plan?.leading ?? []);
+    const trailing = sortAnchorPlaces(plan?.trailing ?? []);
+    const scheduled: PlannerPlaceCreateData[] =
+      timeline.length === 0 && leading.length === 0 && trailing.length === 0
+        ? [
+            {
+              orderIndex: 0,
+              name: `${destination} 자유 일정`,
+              category: "free",
+              memo: "추천 데이터를 찾지 못해 자유 일정으로 생성되었습니다."
+            }
+          ]
+        : timeline.map((entry, orderIndex) => ({
+            ...(entry.type === "stop" ? entry.stop : toRestaurantPlace(entry.restaurant, orderIndex)),
+            orderIndex,
+            startTime: entry.startTime,
+            endTime: entry.endTime
+          }));
+
+    // Flights, rental car handovers and the night's lodging bracket the day they anchor.
+    return [...leading, ...scheduled, ...trailing].map((place, orderIndex) => ({ ...place, orderIndex }));
+  });
+
+  return { days: itineraryDays, unplaced };
+}
+
+function describeUnplacedStops(unplaced: PlannerItinerary["unplaced"], dayIndexes?: Set<number>): string[] {
+  return unplaced
+    .filter(({ dayIndex }) => !dayIndexes || dayIndexes.has(dayIndex))
+    .map(({ dayIndex, place }) => `"${place.name}" did not fit into day ${dayIndex + 1} and was left out`);
+}
+
+function parseOptionalFlights(value: unknown, field: string, errors: string[]): FlightInput[] {
+  if (value === undefined) {
+    return [];
   }
 
-  if (restaurants.length > 0) {
-    const restaurant = restaurants[dayIndex % restaurants.length];
-    places.push(toRestaurantPlace(restaurant, places.length));
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
   }
 
-  if (places.length === 0) {
-    places.push({
-      orderIndex: 0,
-      name: `${destination} 자유 일정`,
-      category: "free",
-      memo: "추천 데이터를 찾지 못해 자유 일정으로 생성되었습니다."
-    });
+  const flights: FlightInput[] = [];
+  value.forEach((flightValue, index) => {
+    const path = `${field}[${index}]`;
+    const flightErrors: string[] = [];
+    const flight = parseFlightInput(flightValue, path, flightErrors);
+    errors.push(...flightErrors);
+    if (flightErrors.length > 0 || !flight) return;
+
+    const complete = flight as FlightInput;
+    validateFlightSchedule(complete, path, errors);
+    flights.push(complete);
+  });
+
+  return flights;
+}
+
+function parseOptionalRentcars(value: unknown, field: string, errors: string[]): RentcarInput[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+
+  const rentcars: RentcarInput[] = [];
+  value.forEach((rentcarValue, index) => {
+    const path = `${field}[${index}]`;
+    const rentcarErrors: string[] = [];
+    const rentcar = parseRentcarInput(rentcarValue, path, rentcarErrors);
+    errors.push(...rentcarErrors);
+    if (rentcarErrors.length > 0 || !rentcar) return;
+
+    const complete = rentcar as RentcarInput;
+    validateRentcarSchedule(complete, path, errors);
+    rentcars.push(complete);
+  });
+
+  return rentcars;
+}
+
+function parseOptionalStays(value: unknown, field: string, errors: string[]): StayInput[] {
+  if (value === undefined) {
+    return [];
   }
 
-  return places;
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+
+  const stays: StayInput[] = [];
+  value.forEach((stayValue, index) => {
+    const path = `${field}[${index}]`;
+    const stayErrors: string[] = [];
+    const stay = parseStayInput(stayValue, path, stayErrors);
+    errors.push(...stayErrors);
+    if (stayErrors.length > 0 || !stay) return;
+
+    const complete = stay as StayInput;
+    validateStaySchedule(complete, path, errors);
+    stays.push(complete);
+  });
+
+  return stays;
+}
+
+// Names of picked restaurants that no meal slot took. Picked attractions always get a day, so
+// any that are missing show up in the itinerary's unplaced stops instead.
+function findUnscheduledRestaurants(itinerary: PlannerPlaceCreateData[][], restaurants: MealRestaurant[]): string[] {
+  const scheduled = new Set(itinerary.flat().map((place) => place.name));
+  return restaurants.map((restaurant) => restaurant.item.title.trim()).filter((name) => !scheduled.has(name));
+}
+
+// Explains the ranking in the generate response: each scored candidate with its breakdown and
+// whether it ended up in the schedule.
+function buildScoringSummary(
+  pace: DailyPace,
+  attractions: TourItem[],
+  attractionScores: CandidateScore[],
+  restaurants: MealRestaurant[],
+  itinerary: PlannerPlaceCreateData[][]
+) {
+  const scheduled = new Set(itinerary.flat().map((place) => place.name));
+  const byId = new Map(attractions.map((item) => [item.contentid, item.title.trim()]));
+
+  return {
+    pace,
+    attractions: attractionScores.map((score) => {
+      const name = byId.get(score.id) ?? "";
+      return { ...score, name, scheduled: scheduled.has(name) };
+    }),
+    restaurants: restaurants.flatMap((restaurant) => {
+      const name = restaurant.item.title.trim();
+      return restaurant.score ? [{ ...restaurant.score, name, scheduled: scheduled.has(name) }] : [];
+    })
+  };
+}
+
+// Falls back to the trip's transport when the client does not pick a mode.
+function resolveRouteMode(transport: string | null): RouteTransportMode {
+  const normalized = transport?.trim().toLowerCase() ?? "";
+  if (isDrivingTransport(normalized)) return "driving";
+  if (["transit", "public", "bus", "subway"].includes(normalized)) return "transit";
+  if (["walk", "walking"].includes(normalized)) return "walking";
+  return "driving";
+}
+
+function toRoutePoint(place: { id: string; name?: string; lat: number; lng: number }): RoutePoint {
+  return { id: place.id, name: place.name, lat: place.lat, lng: place.lng };
 }
 
 function normalizeLimit(value: unknown, defaultValue = 5, max = 20): number {
@@ -310,27 +613,54 @@ function logInternalError(scope: string, error: unknown) {
   console.error(`[planner] ${scope} failed: ${message || "unknown"}`);
 }
 
+// An attraction whose hours cannot be looked up is scheduled as if it never closed.
+async function fetchOpeningHours(attractions: TourItem[]): Promise<Map<string, string>> {
+  const results = await Promise.allSettled(attractions.map((item) => getContentOpeningHours(item)));
+  const hours = new Map<string, string>();
+  let failure: unknown;
+
+  results.forEach((result, index) => {
+    const item = attractions[index];
+    if (result.status === "rejected") {
+      failure ??= result.reason;
+    } else if (item && result.value) {
+      hours.set(item.contentid, result.value);
+    }
+  });
+
+  if (failure !== undefined) {
+    logInternalError("opening hours lookup", failure);
+  }
+
+  return hours;
+}
+
 async function fetchPlannerCandidates(input: PlannerCandidateInput): Promise<PlannerCandidates> {
   const limit = input.limit ?? 10;
   const restaurantQuery = input.keyword ?? `${input.destination} 맛집`;
   const areaCode = pickAreaCode(input.destination, input.area);
 
-  const attractionsPromise = input.keyword
-    ? searchByKeyword(input.keyword, 1)
-    : searchAttractions({
-        areaCode,
-        pageNo: 1,
-        numOfRows: Math.max(limit, 10)
-      });
+  const attractionsPromise =
+    input.includeAttractions === false
+      ? Promise.resolve<TourItem[]>([])
+      : input.keyword
+        ? searchByKeyword(input.keyword, 1)
+        : searchAttractions({
+            areaCode,
+            pageNo: 1,
+            numOfRows: input.preferences ? SCORED_CANDIDATE_ROWS : Math.max(limit, 10)
+          });
 
   const [attractionsResult, restaurantsResult] = await Promise.allSettled([
     attractionsPromise,
-    searchRestaurants({
-      query: restaurantQuery,
-      display: limit,
-      start: 1,
-      sort: "comment"
-    })
+    input.includeRestaurants === false
+      ? Promise.resolve<NaverLocalItem[]>([])
+      : searchRestaurants({
+          query: restaurantQuery,
+          display: limit,
+          start: 1,
+          sort: "comment"
+        })
   ]);
 
   const attractions =
@@ -346,7 +676,71 @@ async function fetchPlannerCandidates(input: PlannerCandidateInput): Promise<Pla
     logInternalError("restaurant recommendation lookup", restaurantsResult.reason);
   }
 
-  return { attractions, restaurants };
+  if (!input.preferences) {
+    return { attractions, restaurants, attractionScores: [] };
+  }
+
+  const ranked = rankCandidates(
+    attractions.map((item) => ({ ...toAttractionCandidate(item), item })),
+    input.preferences
+  );
+  return {
+    attractions: ranked.map(({ candidate }) => candidate.item),
+    restaurants,
+    attractionScores: ranked.map(({ score }) => score)
+  };
+}
+
+// Lunch reuses the general restaurant candidates; other slots run their own search query.
+// The user's picks go first so they win the de-duplication below. With preferences, searched
+// restaurants carry a score that the meal slots weigh against the detour.
+async function fetchMealRestaurants(
+  destination: string,
+  mealSlots: readonly MealSlotKind[],
+  baseRestaurants: NaverLocalItem[],
+  selectedRestaurants: MealRestaurant[] = [],
+  preferences?: TravelPreferences
+): Promise<MealRestaurant[]> {
+  const extraSlots = mealSlots.filter((slot) => slot !== "lunch");
+  const results = await Promise.allSettled(
+    extraSlots.map((slot) =>
+      searchRestaurants({
+        query: buildMealSearchQuery(destination, slot),
+        display: 5,
+        start: 1,
+        sort: "comment"
+      })
+    )
+  );
+
+  const restaurants = [
+    ...selectedRestaurants,
+    ...baseRestaurants.map((item) => toMealRestaurant(item, "lunch"))
+  ];
+  results.forEach((result, index) => {
+    const slot = extraSlots[index];
+    if (!slot) return;
+
+    if (result.status === "rejected") {
+      logInternalError(`${slot} restaurant lookup`, result.reason);
+      return;
+    }
+
+    restaurants.push(...result.value.map((item) => toMealRestaurant(item, slot)));
+  });
+
+  const seenKeys = new Set<string>();
+  return restaurants
+    .filter((restaurant) => {
+      if (seenKeys.has(restaurant.key)) return false;
+      seenKeys.add(restaurant.key);
+      return true;
+    })
+    .map((restaurant) =>
+      preferences && !restaurant.selected
+        ? { ...restaurant, score: scoreCandidate(toRestaurantCandidate(restaurant), preferences) }
+        : restaurant
+    );
 }
 
 plannerRouter.post("/route/optimize", optimizeRouteRateLimit, optimizeRouteHandler);
@@ -355,39 +749,97 @@ plannerRouter.use(authMiddleware);
 
 plannerRouter.post("/generate", async (req, res) => {
   try {
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
+    const parsed = parseBody(GenerateItineraryRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
+    const body = parsed.value;
+    const { destination, title, transport, companions, area, keyword } = body;
+    const startDate = new Date(body.startDate);
+    const endDate = new Date(body.endDate);
+    const mealSlots = body.mealSlots ?? DEFAULT_MEAL_SLOTS;
     const errors: string[] = [];
-    const destination = parseRequiredString(body.destination, "destination", errors);
-    const startDate = parseRequiredDate(body.startDate, "startDate", errors);
-    const endDate = parseRequiredDate(body.endDate, "endDate", errors);
-    const title = parseOptionalString(body.title, "title", errors);
-    const transport = parseOptionalNullableString(body.transport, "transport", errors);
-    const companions = parseOptionalNullableString(body.companions, "companions", errors);
-    const area = parseOptionalString(body.area, "area", errors);
-    const keyword = parseOptionalString(body.keyword, "keyword", errors);
-
-    if (startDate && endDate && startDate.getTime() > endDate.getTime()) {
+    const flights = parseOptionalFlights(body.flights, "flights", errors);
+    const rentcars = parseOptionalRentcars(body.rentcars, "rentcars", errors);
+    const stays = parseOptionalStays(body.stays, "stays", errors);
+    const attractionSelections = parseAttractionSelections(body.attractions, "attractions", errors);
+    const selectedRestaurants = parseRestaurantSelections(body.restaurants, "restaurants", errors);
+    const lodgingSelection = parseLodgingSelection(body.lodging, "lodging", errors);
+    const preferences = parsePlannerPreferences(body.preferences, "preferences", errors);
+
+    if (startDate.getTime() > endDate.getTime()) {
       errors.push("startDate must be before or equal to endDate");
     }
 
-    if (errors.length > 0 || !destination || !startDate || !endDate) {
-      return res.status(400).json({
-        message: "Validation failed",
-        errors
-      });
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
     }
 
     const dayDates = buildTripDates(startDate, endDate);
+    const [selected, lodging] = await Promise.all([
+      resolveAttractionSelections(attractionSelections, getContentDetail),
+      resolveLodging(lodgingSelection, getContentDetail)
+    ]);
+    // Explicit stays win over the wizard's single lodging pick.
+    const lodgingStay = stays.length === 0 ? toLodgingStay(lodging, dayDates) : null;
+    const tripStays = lodgingStay ? [lodgingStay] : stays;
+
+    // The user's picks are scheduled first; searches only fill what they leave open.
+    const selectedIds = new Set(selected.attractions.map((item) => item.contentid));
+    const pace = preferences ? resolveDailyPace(preferences) : null;
+    const attractionsPerDay = pace?.attractionsPerDay ?? ATTRACTIONS_PER_DAY;
+    const attractionGap = Math.max(0, dayDates.length * attractionsPerDay - selected.attractions.length);
+    const needsRestaurants =
+      countUncoveredMealSlots(dayDates.length, mealSlots, selectedRestaurants) > 0;
     const candidates = await fetchPlannerCandidates({
       destination,
       keyword,
       area,
-      limit: 8
+      limit: 8,
+      includeAttractions: attractionGap > 0,
+      includeRestaurants: needsRestaurants,
+      ...(preferences ? { preferences } : {})
     });
+    const fillAttractions = candidates.attractions
+      .filter((item) => !selectedIds.has(item.contentid))
+      .slice(0, attractionGap);
+    const mealRestaurants = needsRestaurants
+      ? await fetchMealRestaurants(
+          destination,
+          mealSlots,
+          candidates.restaurants,
+          selectedRestaurants,
+          preferences
+        )
+      : selectedRestaurants;
+    const dayPlans = buildDayPlans(dayDates, flights, rentcars, tripStays);
+    const attractions = [...selected.attractions, ...fillAttractions];
+    const itinerary = buildItineraryPlaces(
+      dayDates.length,
+      destination,
+      attractions,
+      mealRestaurants,
+      mealSlots,
+      {
+        dayPlans,
+        selectedCount: selected.attractions.length,
+        attractionsPerDay,
+        openingHours: await fetchOpeningHours(attractions)
+      }
+    );
+    const selectionWarnings = [
+      ...selected.missingContentIds.map(
+        (contentId) => `Attraction ${contentId} could not be found and was skipped`
+      ),
+      ...(lodgingSelection && (lodgingSelection.contentId || lodgingSelection.name) && lodging?.lat === undefined
+        ? ["The selected lodging could not be located, so days do not start or end there"]
+        : []),
+      ...describeUnplacedStops(itinerary.unplaced),
+      ...findUnscheduledRestaurants(itinerary.days, selectedRestaurants).map(
+        (name) => `"${name}" did not fit into the schedule`
+      )
+    ];
 
     const trip = await prisma.trip.create({
       data: {
@@ -397,36 +849,57 @@ plannerRouter.post("/generate", async (req, res) => {
         endDate,
         status: "draft",
         userId: req.user!.userId,
+        members: {
+          create: { userId: req.user!.userId, role: "owner" }
+        },
         ...(transport !== undefined ? { transport } : {}),
         ...(companions !== undefined ? { companions } : {}),
+        ...(flights.length > 0 ? { flights: { create: flights } } : {}),
+        ...(rentcars.length > 0 ? { rentcars: { create: rentcars } } : {}),
+        ...(tripStays.length > 0 ? { stays: { create: tripStays } } : {}),
         days: {
           create: dayDates.map((date, dayIndex) => ({
             dayNumber: dayIndex + 1,
             date,
             places: {
-              create: buildDayPlaces(
-                dayIndex,
-                destination,
-                candidates.attractions,
-                candidates.restaurants
-              )
+              create: itinerary.days[dayIndex] ?? []
             }
           }))
         }
       },
       include: plannerTripInclude
     });
+    const festivalWarnings: string[] = [];
+    const festivals = await findFestivalOffers(
+      pickAreaCode(destination, area),
+      trip.days.map((tripDay, index) => ({ ...tripDay, window: dayPlans[index]?.window })),
+      festivalWarnings
+    );
 
     return res.status(201).json({
       trip,
       recommendations: {
-        attractions: candidates.attractions.length,
-        restaurants: candidates.restaurants.length
-      }
+        attractions: fillAttractions.length,
+        restaurants: mealRestaurants.filter((restaurant) => !restaurant.selected).length
+      },
+      selections: {
+        attractions: selected.attractions.length,
+        restaurants: selectedRestaurants.length,
+        lodging: lodging?.name ?? null
+      },
+      scoring: pace
+        ? buildScoringSummary(pace, candidates.attractions, candidates.attractionScores, mealRestaurants, itinerary.days)
+        : null,
+      festivals,
+      warnings: [
+        ...selectionWarnings,
+        ...findRentcarWarnings(trip.transport, trip.rentcars, trip.days),
+        ...festivalWarnings
+      ]
     });
   } catch (error) {
     logInternalError("generate itinerary", error);
-    return res.status(500).json({ message: "여행 일정 생성 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -434,37 +907,34 @@ plannerRouter.post("/trips/:tripId/replan", async (req, res) => {
   try {
     const tripId = getQueryString(req.params.tripId);
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
-    const body = req.body as unknown;
-    if (body !== undefined && !isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
+    // Every field is optional, so an empty body replans every day.
+    const parsed = parseBody(ReplanTripRequest, req.body ?? {});
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
-    const payload = isRecord(body) ? body : {};
 
-    const errors: string[] = [];
-    const dayNumber = parseOptionalPositiveInteger(payload.dayNumber, "dayNumber", errors);
-    const keyword = parseOptionalString(payload.keyword, "keyword", errors);
-    const area = parseOptionalString(payload.area, "area", errors);
+    const { dayNumber, keyword, area } = parsed.value;
+    const mealSlots = parsed.value.mealSlots ?? DEFAULT_MEAL_SLOTS;
 
-    if (errors.length > 0) {
-      return res.status(400).json({
-        message: "Validation failed",
-        errors
-      });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const trip = await prisma.trip.findFirst({
-      where: {
-        id: tripId,
-        userId: req.user!.userId
-      },
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
       include: plannerTripInclude
     });
 
     if (!trip) {
-      return res.status(404).json({ message: "Trip not found" });
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const targetDays =
@@ -473,7 +943,7 @@ plannerRouter.post("/trips/:tripId/replan", async (req, res) => {
         : trip.days.filter((tripDay) => tripDay.dayNumber === dayNumber);
 
     if (targetDays.length === 0) {
-      return res.status(404).json({ message: "Target day not found in trip" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     const candidates = await fetchPlannerCandidates({
@@ -482,31 +952,55 @@ plannerRouter.post("/trips/:tripId/replan", async (req, res) => {
       area,
       limit: 8
     });
+    const mealRestaurants = await fetchMealRestaurants(
+      trip.destination,
+      mealSlots,
+      candidates.restaurants
+    );
+    const itinerary = buildItineraryPlaces(
+      trip.days.length,
+      trip.destination,
+      candidates.attractions,
+      mealRestaurants,
+      mealSlots,
+      {
+        dayPlans: buildDayPlans(
+          trip.days.map((tripDay) => tripDay.date),
+          trip.flights,
+          trip.rentcars,
+          trip.stays
+        ),
+        openingHours: await fetchOpeningHours(candidates.attractions)
+      }
+    );
 
-    await prisma.$transaction(
-      targetDays.map((tripDay) =>
-        prisma.tripDay.update({
+    const userId = req.user!.userId;
+    await prisma.$transaction(async (tx) => {
+      for (const tripDay of targetDays) {
+        const before = await snapshotDay(tx, tripDay.id);
+        await tx.tripDay.update({
           where: { id: tripDay.id },
           data: {
             places: {
               deleteMany: {},
-              create: buildDayPlaces(
-                Math.max(0, tripDay.dayNumber - 1),
-                trip.destination,
-                candidates.attractions,
-                candidates.restaurants
-              )
+              create: itinerary.days[Math.max(0, tripDay.dayNumber - 1)] ?? []
             }
           }
-        })
-      )
-    );
+        });
+        await recordTripActivity(tx, {
+          tripId,
+          userId,
+          action: "day.replan",
+          entityType: "day",
+          entityId: tripDay.id,
+          before,
+          after: await snapshotDay(tx, tripDay.id)
+        });
+      }
+    });
 
-    const updatedTrip = await prisma.trip.findFirst({
-      where: {
-        id: tripId,
-        userId: req.user!.userId
-      },
+    const updatedTrip = await prisma.trip.findUnique({
+      where: { id: tripId },
       include: plannerTripInclude
     });
 
@@ -515,12 +1009,189 @@ plannerRouter.post("/trips/:tripId/replan", async (req, res) => {
       replannedDays: targetDays.length,
       recommendations: {
         attractions: candidates.attractions.length,
-        restaurants: candidates.restaurants.length
-      }
+        restaurants: mealRestaurants.length
+      },
+      warnings: [
+        ...describeUnplacedStops(
+          itinerary.unplaced,
+          new Set(targetDays.map((tripDay) => Math.max(0, tripDay.dayNumber - 1)))
+        ),
+        ...(updatedTrip
+          ? findRentcarWarnings(updatedTrip.transport, updatedTrip.rentcars, updatedTrip.days)
+          : [])
+      ]
     });
   } catch (error) {
     logInternalError("replan trip", error);
-    return res.status(500).json({ message: "여행 일정 재생성 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// Proposes indoor replacements for outdoor stops on days with rain or snow in the forecast.
+// Read-only: the response is a diff for the client to review and apply stop by stop.
+plannerRouter.post("/trips/:tripId/weather-check", async (req, res) => {
+  try {
+    const tripId = getQueryString(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const parsed = parseBody(WeatherCheckRequest, req.body ?? {});
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const { dayNumber } = parsed.value;
+    const popThreshold = parsed.value.popThreshold ?? DEFAULT_POP_THRESHOLD;
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: plannerTripInclude
+    });
+
+    if (!trip) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const targetDays =
+      dayNumber === undefined
+        ? trip.days
+        : trip.days.filter((tripDay) => tripDay.dayNumber === dayNumber);
+
+    if (targetDays.length === 0) {
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
+    }
+
+    const warnings: string[] = [];
+    const forecastBase = latestForecastBase(new Date());
+    const dayGrids = targetDays.map((tripDay) =>
+      resolveForecastGrid(tripDay.places, POPULAR_GRIDS[trip.destination])
+    );
+    const forecasts = await fetchGridForecasts(dayGrids, forecastBase);
+
+    const weatherByDay = new Map<number, DayWeather | null>();
+    targetDays.forEach((tripDay, index) => {
+      const grid = dayGrids[index];
+      const items = grid ? forecasts.get(toGridKey(grid)) : undefined;
+      const weather = items ? summarizeDayWeather(items, tripDay.date, popThreshold) : null;
+      weatherByDay.set(tripDay.dayNumber, weather);
+
+      if (!grid) {
+        warnings.push(`Day ${tripDay.dayNumber} has no located places to look up the forecast for`);
+      } else if (!items) {
+        warnings.push(`The forecast for day ${tripDay.dayNumber} could not be loaded`);
+      } else if (!weather) {
+        warnings.push(`No forecast is available for day ${tripDay.dayNumber} yet`);
+      }
+    });
+
+    let indoorItems: TourItem[] = [];
+    if ([...weatherByDay.values()].some((weather) => weather?.wet)) {
+      try {
+        indoorItems = await searchAttractions({
+          areaCode: pickAreaCode(trip.destination),
+          contentTypeId: INDOOR_CONTENT_TYPE_ID,
+          numOfRows: 30
+        });
+      } catch (error) {
+        logInternalError("weather-check indoor lookup", error);
+        warnings.push("Indoor alternatives could not be loaded");
+      }
+    }
+
+    return res.json({
+      tripId,
+      forecastBase,
+      days: proposeIndoorSwaps(targetDays, weatherByDay, indoorItems),
+      warnings
+    });
+  } catch (error) {
+    logInternalError("weather check", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// Optimizes a saved day's stops, starting at the rental car pickup, arrival airport or last
+// night's stay and ending at the return counter, departure airport or tonight's stay.
+plannerRouter.post("/trips/:tripId/days/:dayNumber/route", optimizeRouteRateLimit, async (req, res) => {
+  try {
+    const tripId = getQueryString(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const errors: string[] = [];
+    const dayNumber = parseOptionalPositiveInteger(req.params.dayNumber, "dayNumber", errors);
+    if (errors.length > 0 || dayNumber === undefined) {
+      return sendValidationError(res, errors);
+    }
+
+    const parsed = parseBody(DayRouteRequest, req.body ?? {});
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+    const requestedMode = parsed.value.mode;
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: plannerTripInclude
+    });
+    if (!trip) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const dayIndex = trip.days.findIndex((tripDay) => tripDay.dayNumber === dayNumber);
+    const day = trip.days[dayIndex];
+    if (!day) {
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
+    }
+
+    const plan = buildDayPlans(
+      trip.days.map((tripDay) => tripDay.date),
+      trip.flights,
+      trip.rentcars,
+      trip.stays
+    )[dayIndex];
+    const waypoints = day.places
+      .filter((place) => !ANCHOR_PLACE_CATEGORIES.has(place.category))
+      .flatMap((place) =>
+        typeof place.lat === "number" && typeof place.lng === "number"
+          ? [toRoutePoint({ id: place.id, name: place.name, lat: place.lat, lng: place.lng })]
+          : []
+      );
+    const start = plan?.start ? toRoutePoint(plan.start) : waypoints.shift();
+    const end = plan?.end ? toRoutePoint(plan.end) : undefined;
+
+    if (!start || waypoints.length + (end ? 1 : 0) < 1) {
+      return sendValidationError(res, ["At least two places with coordinates are required to optimize this day"]);
+    }
+
+    const result = await optimizeRoute({
+      start,
+      waypoints,
+      end,
+      roundTrip: false,
+      mode: requestedMode ?? resolveRouteMode(trip.transport)
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+      warnings: findRentcarWarnings(trip.transport, trip.rentcars, [day])
+    });
+  } catch (error) {
+    logInternalError("optimize day route", error);
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -528,19 +1199,19 @@ plannerRouter.get("/trips/:tripId/summary", async (req, res) => {
   try {
     const tripId = getQueryString(req.params.tripId);
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     const trip = await prisma.trip.findFirst({
       where: {
         id: tripId,
-        userId: req.user!.userId
+        ...tripMembershipFilter(req.user!.userId)
       },
       include: plannerTripInclude
     });
 
     if (!trip) {
-      return res.status(404).json({ message: "Trip not found" });
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const totalPlaces = trip.days.reduce((sum, day) => sum + day.places.length, 0);
@@ -553,6 +1224,14 @@ plannerRouter.get("/trips/:tripId/summary", async (req, res) => {
       return acc;
     }, {});
 
+    // Air quality is advisory; the summary is still served when AirKorea is unavailable.
+    let airQuality: TripAirQuality | null = null;
+    try {
+      airQuality = await loadTripAirQuality(trip.destination, trip.days, trip.companions);
+    } catch (error) {
+      logInternalError("trip summary air-quality lookup", error);
+    }
+
     return res.json({
       summary: {
         tripId: trip.id,
@@ -564,12 +1243,14 @@ plannerRouter.get("/trips/:tripId/summary", async (req, res) => {
         totalDays: trip.days.length,
         plannedDays,
         totalPlaces,
-        placesByCategory
+        placesByCategory,
+        airQuality,
+        advisories: airQuality?.advisories.map((advisory) => advisory.message) ?? []
       }
     });
   } catch (error) {
     logInternalError("trip summary lookup", error);
-    return res.status(500).json({ message: "여행 요약 조회 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -603,8 +1284,8 @@ plannerRouter.get("/suggestions/destinations", async (req, res) => {
     });
 
     const restaurants = candidates.restaurants.slice(0, limit).map((item) => {
-      const lat = parseLatitude(item.mapy);
-      const lng = parseLongitude(item.mapx);
+      const lat = parseNaverCoordinate(item.mapy, 90);
+      const lng = parseNaverCoordinate(item.mapx, 180);
 
       return {
         title: item.title,
@@ -622,7 +1303,7 @@ plannerRouter.get("/suggestions/destinations", async (req, res) => {
     });
   } catch (error) {
     logInternalError("destination suggestions lookup", error);
-    return res.status(500).json({ message: "추천 여행지 조회 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -1,4 +1,5 @@
 import { Router } from "express";
+import { sendUnexpectedError, sendValidationError } from "../errors/respond";
 import { searchRestaurants } from "../services/restaurant.service";
 import { sanitizePublicText } from "../utils/response-safety";
 
@@ -7,7 +8,7 @@ const restaurantsRouter = Router();
 restaurantsRouter.get("/search", async (req, res) => {
   try {
     const { query, display, start, sort } = req.query;
-    if (!query) return res.status(400).json({ message: "검색어가 필요합니다" });
+    if (!query) return sendValidationError(res, ["query is required"]);
 
     const items = await searchRestaurants({
       query: query as string,
@@ -20,7 +21,7 @@ restaurantsRouter.get("/search", async (req, res) => {
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[restaurants] search failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "맛집 검색 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -0,0 +1,142 @@
+import { Router } from "express";
+
+import { prisma } from "../config/database";
+import { sendError, sendUnexpectedError, sendValidationError } from "../errors/respond";
+import { authMiddleware } from "../middleware/auth";
+import { findTripAccess, hasTripRole } from "../services/trip-access";
+import { parseSnapshot, revertTripActivity } from "../services/trip-activity";
+import { sanitizePublicText } from "../utils/response-safety";
+
+const tripHistoryRouter = Router();
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+// Shown for entries whose author has since deleted their account.
+const DELETED_USER_NICKNAME = "탈퇴한 사용자";
+
+function parseRequiredParam(value: string | undefined): string | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  return value.trim();
+}
+
+function getQueryString(value: unknown): string | undefined {
+  if (typeof value === "string" && value.trim()) {
+    return value.trim();
+  }
+
+  return undefined;
+}
+
+function toHistoryUser(user: { id: string; nickname: string } | null) {
+  return user ? { ...user, deleted: false } : { id: null, nickname: DELETED_USER_NICKNAME, deleted: true };
+}
+
+function logInternalError(scope: string, error: unknown) {
+  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+  console.error(`[trip-history] ${scope} failed: ${message || "unknown"}`);
+}
+
+tripHistoryRouter.use(authMiddleware);
+
+tripHistoryRouter.get("/:tripId/history", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const rawLimit = getQueryString(req.query.limit);
+    const limit = rawLimit === undefined ? DEFAULT_HISTORY_LIMIT : Number(rawLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      return sendValidationError(res, [`limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}`]);
+    }
+    const cursor = getQueryString(req.query.cursor);
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    // Newest first; the cursor is the id of the last entry from the previous page.
+    const entries = await prisma.tripActivity.findMany({
+      where: { tripId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: { user: { select: { id: true, nickname: true } } }
+    });
+
+    const page = entries.slice(0, limit);
+    return res.json({
+      entries: page.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId,
+        before: parseSnapshot(entry.before),
+        after: parseSnapshot(entry.after),
+        revertOfId: entry.revertOfId,
+        createdAt: entry.createdAt,
+        user: toHistoryUser(entry.user)
+      })),
+      nextCursor: entries.length > limit ? page[page.length - 1]?.id ?? null : null
+    });
+  } catch (error) {
+    logInternalError("list history", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripHistoryRouter.post("/:tripId/history/:entryId/revert", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    const entryId = parseRequiredParam(req.params.entryId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!entryId) {
+      return sendValidationError(res, ["entryId is required"]);
+    }
+
+    const userId = req.user!.userId;
+    const tripAccess = await findTripAccess(tripId, userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const result = await revertTripActivity(tripId, entryId, userId);
+    if (!result.ok) {
+      return sendError(res, result.code);
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: {
+        days: {
+          orderBy: { dayNumber: "asc" },
+          include: { places: { orderBy: { orderIndex: "asc" } } }
+        }
+      }
+    });
+
+    return res.json({
+      revertedEntryId: result.entryId,
+      entityType: result.entityType,
+      entityId: result.entityId,
+      trip
+    });
+  } catch (error) {
+    logInternalError("revert history entry", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+export { tripHistoryRouter };
@@ -0,0 +1,297 @@
+import { Router } from "express";
+
+import { prisma } from "../config/database";
+import { AcceptInviteRequest, CreateInviteRequest } from "../contract/components";
+import { parseBody } from "../contract/schema";
+import { sendError, sendParseFailure, sendUnexpectedError, sendValidationError } from "../errors/respond";
+import { authMiddleware } from "../middleware/auth";
+import {
+  createInviteToken,
+  findTripAccess,
+  hasTripRole,
+  hashInviteToken,
+  isTripRoleAtLeast,
+  toTripRole,
+  type TripRole
+} from "../services/trip-access";
+import { sanitizePublicText } from "../utils/response-safety";
+
+const tripMembersRouter = Router();
+
+const INVITE_LINK_BASE = "tripmate://invite";
+const DEFAULT_INVITE_TTL_HOURS = 24 * 7;
+
+const memberUserSelect = {
+  id: true,
+  nickname: true,
+  profileImage: true
+};
+
+interface MemberRecord {
+  id: string;
+  role: string;
+  createdAt: Date;
+  user: { id: string; nickname: string; profileImage: string | null };
+}
+
+function parseRequiredParam(value: string | undefined): string | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+
+  return value.trim();
+}
+
+function logInternalError(scope: string, error: unknown) {
+  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+  console.error(`[trip-members] ${scope} failed: ${message || "unknown"}`);
+}
+
+function toMemberResponse(member: MemberRecord) {
+  return {
+    id: member.id,
+    userId: member.user.id,
+    nickname: member.user.nickname,
+    profileImage: member.user.profileImage,
+    role: toTripRole(member.role),
+    joinedAt: member.createdAt
+  };
+}
+
+tripMembersRouter.use(authMiddleware);
+
+tripMembersRouter.post("/invites/accept", async (req, res) => {
+  try {
+    const parsed = parseBody(AcceptInviteRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const userId = req.user!.userId;
+    const invite = await prisma.tripInvite.findUnique({
+      where: { tokenHash: hashInviteToken(parsed.value.token) },
+      include: {
+        trip: {
+          select: { id: true, title: true, destination: true, startDate: true, endDate: true, userId: true }
+        }
+      }
+    });
+
+    if (!invite || invite.revokedAt || invite.expiresAt.getTime() <= Date.now()) {
+      return sendError(res, "INVITE_NOT_FOUND");
+    }
+
+    const { userId: ownerId, ...trip } = invite.trip;
+    const inviteRole = toTripRole(invite.role);
+    const existing = await prisma.tripMember.findUnique({
+      where: { tripId_userId: { tripId: trip.id, userId } },
+      include: { user: { select: memberUserSelect } }
+    });
+
+    // Accepting never downgrades: owners and members with an equal or higher role keep theirs.
+    if (ownerId === userId || (existing && isTripRoleAtLeast(toTripRole(existing.role), inviteRole))) {
+      const role: TripRole = ownerId === userId ? "owner" : toTripRole(existing?.role ?? "viewer");
+      return res.json({ trip, role, member: existing ? toMemberResponse(existing) : null });
+    }
+
+    const member = await prisma.tripMember.upsert({
+      where: { tripId_userId: { tripId: trip.id, userId } },
+      create: { tripId: trip.id, userId, role: inviteRole },
+      update: { role: inviteRole },
+      include: { user: { select: memberUserSelect } }
+    });
+
+    return res.json({ trip, role: inviteRole, member: toMemberResponse(member) });
+  } catch (error) {
+    logInternalError("accept invite", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripMembersRouter.get("/:tripId/members", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const members = await prisma.tripMember.findMany({
+      where: { tripId },
+      orderBy: { createdAt: "asc" },
+      include: { user: { select: memberUserSelect } }
+    });
+
+    return res.json({
+      role: tripAccess.role,
+      members: members.map((member) => toMemberResponse(member))
+    });
+  } catch (error) {
+    logInternalError("list members", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripMembersRouter.delete("/:tripId/members/:memberId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    const memberId = parseRequiredParam(req.params.memberId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!memberId) {
+      return sendValidationError(res, ["memberId is required"]);
+    }
+
+    const userId = req.user!.userId;
+    const tripAccess = await findTripAccess(tripId, userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const member = await prisma.tripMember.findFirst({
+      where: { id: memberId, tripId },
+      select: { id: true, userId: true }
+    });
+    if (!member) {
+      return sendError(res, "TRIP_MEMBER_NOT_FOUND");
+    }
+
+    if (member.userId === tripAccess.ownerId) {
+      return sendError(res, "TRIP_OWNER_NOT_REMOVABLE");
+    }
+
+    // Members may leave on their own; removing someone else is owner-only.
+    if (member.userId !== userId && !hasTripRole(tripAccess, "owner")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    await prisma.tripMember.delete({ where: { id: member.id } });
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("remove member", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripMembersRouter.get("/:tripId/invites", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "owner")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const invites = await prisma.tripInvite.findMany({
+      where: { tripId, revokedAt: null, expiresAt: { gt: new Date() } },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, role: true, expiresAt: true, createdAt: true }
+    });
+
+    return res.json({ invites });
+  } catch (error) {
+    logInternalError("list invites", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripMembersRouter.post("/:tripId/invites", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "owner")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const parsed = parseBody(CreateInviteRequest, req.body ?? {});
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
+    }
+
+    const role = parsed.value.role ?? "viewer";
+    const expiresInHours = parsed.value.expiresInHours ?? DEFAULT_INVITE_TTL_HOURS;
+
+    const { token, tokenHash } = createInviteToken();
+    const invite = await prisma.tripInvite.create({
+      data: {
+        tokenHash,
+        role,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+        tripId,
+        createdById: req.user!.userId
+      },
+      select: { id: true, role: true, expiresAt: true, createdAt: true }
+    });
+
+    // The raw token is only returned here; the database keeps its hash.
+    return res.status(201).json({
+      invite: {
+        ...invite,
+        token,
+        inviteUrl: `${INVITE_LINK_BASE}?token=${encodeURIComponent(token)}`
+      }
+    });
+  } catch (error) {
+    logInternalError("create invite", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripMembersRouter.delete("/:tripId/invites/:inviteId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId);
+    const inviteId = parseRequiredParam(req.params.inviteId);
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!inviteId) {
+      return sendValidationError(res, ["inviteId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "owner")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const revoked = await prisma.tripInvite.updateMany({
+      where: { id: inviteId, tripId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+    if (revoked.count === 0) {
+      return sendError(res, "INVITE_NOT_FOUND");
+    }
+
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("revoke invite", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+export { tripMembersRouter };
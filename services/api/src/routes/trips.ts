@@ -1,7 +1,45 @@
-import { Router, type Response } from "express";
-
+import { Router } from "express";
+
+import {
+  CreateFlightRequest,
+  CreateRentcarRequest,
+  CreateStayRequest,
+  CreateTripRequest,
+  DayInput,
+  PlaceInput,
+  UpdateDayRequest,
+  UpdateFlightRequest,
+  UpdatePlaceRequest,
+  UpdateRentcarRequest,
+  UpdateStayRequest,
+  UpdateTripRequest
+} from "../contract/components";
+import { parseBody } from "../contract/schema";
 import { prisma } from "../config/database";
+import { sendError, sendParseFailure, sendUnexpectedError, sendValidationError } from "../errors/respond";
 import { authMiddleware } from "../middleware/auth";
+import { findTripAccess, hasTripRole, tripMembershipFilter } from "../services/trip-access";
+import { recordTripActivity, snapshotDay, snapshotPlace } from "../services/trip-activity";
+import { parseFlightInput, validateFlightSchedule, type FlightInput } from "../services/trip-flights";
+import {
+  findRentcarWarnings,
+  parseRentcarInput,
+  validateRentcarSchedule,
+  type RentcarInput
+} from "../services/trip-rentcars";
+import { parseStayInput, validateStaySchedule, type StayInput } from "../services/trip-stays";
+import { resolveSidoName } from "../services/air-quality.service";
+import { toDayKey } from "../services/day-anchors";
+import { buildDayPlans } from "../services/day-plans";
+import { AREA_CODES, findFestivalOffers } from "../services/tourism.service";
+import { planEventOffers } from "../services/trip-events";
+import { latestForecastBase, normalizeForecast } from "../services/weather-summary";
+import {
+  POPULAR_GRIDS,
+  fetchGridForecasts,
+  resolveForecastGrid,
+  toGridKey
+} from "../services/weather.service";
 import { sanitizePublicText } from "../utils/response-safety";
 
 const tripsRouter = Router();
@@ -14,6 +52,15 @@ const tripDetailsInclude = {
         orderBy: { orderIndex: "asc" as const }
       }
     }
+  },
+  flights: {
+    orderBy: { departureTime: "asc" as const }
+  },
+  rentcars: {
+    orderBy: { pickupTime: "asc" as const }
+  },
+  stays: {
+    orderBy: { checkIn: "asc" as const }
   }
 };
 
@@ -23,230 +70,6 @@ const dayDetailsInclude = {
   }
 };
 
-const tripCreateFields = new Set([
-  "title",
-  "destination",
-  "startDate",
-  "endDate",
-  "transport",
-  "companions",
-  "status",
-  "days"
-]);
-const tripUpdateFields = new Set([
-  "title",
-  "destination",
-  "startDate",
-  "endDate",
-  "transport",
-  "companions",
-  "status"
-]);
-const dayCreateFields = new Set(["dayNumber", "date", "places"]);
-const dayUpdateFields = new Set(["dayNumber", "date"]);
-const placeFields = new Set([
-  "orderIndex",
-  "name",
-  "address",
-  "lat",
-  "lng",
-  "category",
-  "imageUrl",
-  "phone",
-  "memo",
-  "startTime",
-  "endTime"
-]);
-
-interface ParsedPlaceInput {
-  orderIndex: number;
-  name: string;
-  category: string;
-  address?: string | null;
-  lat?: number | null;
-  lng?: number | null;
-  imageUrl?: string | null;
-  phone?: string | null;
-  memo?: string | null;
-  startTime?: string | null;
-  endTime?: string | null;
-}
-
-interface ParsedDayInput {
-  dayNumber: number;
-  date: Date;
-  places?: ParsedPlaceInput[];
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
-}
-
-function sendValidationError(res: Response, errors: string[]) {
-  return res.status(400).json({
-    message: "Validation failed",
-    errors
-  });
-}
-
-function addUnknownFieldError(
-  body: Record<string, unknown>,
-  allowedFields: Set<string>,
-  errors: string[],
-  label: string
-) {
-  const unknownFields = Object.keys(body).filter((field) => !allowedFields.has(field));
-  if (unknownFields.length > 0) {
-    errors.push(`${label} contains unknown fields: ${unknownFields.join(", ")}`);
-  }
-}
-
-function parseRequiredNonEmptyString(
-  value: unknown,
-  field: string,
-  errors: string[]
-): string | null {
-  if (typeof value !== "string") {
-    errors.push(`${field} is required and must be a string`);
-    return null;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} is required and must not be empty`);
-    return null;
-  }
-
-  return trimmed;
-}
-
-function parseOptionalNonEmptyString(
-  value: unknown,
-  field: string,
-  errors: string[]
-): string | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (typeof value !== "string") {
-    errors.push(`${field} must be a string`);
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} must not be empty`);
-    return undefined;
-  }
-
-  return trimmed;
-}
-
-function parseOptionalNullableNonEmptyString(
-  value: unknown,
-  field: string,
-  errors: string[]
-): string | null | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (value === null) {
-    return null;
-  }
-
-  if (typeof value !== "string") {
-    errors.push(`${field} must be a string or null`);
-    return undefined;
-  }
-
-  const trimmed = value.trim();
-  if (!trimmed) {
-    errors.push(`${field} must not be empty`);
-    return undefined;
-  }
-
-  return trimmed;
-}
-
-function parseRequiredDate(value: unknown, field: string, errors: string[]): Date | null {
-  if (typeof value !== "string" || !value.trim()) {
-    errors.push(`${field} is required and must be a valid date string`);
-    return null;
-  }
-
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    errors.push(`${field} must be a valid date string`);
-    return null;
-  }
-
-  return parsed;
-}
-
-function parseOptionalDate(value: unknown, field: string, errors: string[]): Date | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (typeof value !== "string" || !value.trim()) {
-    errors.push(`${field} must be a valid date string`);
-    return undefined;
-  }
-
-  const parsed = new Date(value);
-  if (Number.isNaN(parsed.getTime())) {
-    errors.push(`${field} must be a valid date string`);
-    return undefined;
-  }
-
-  return parsed;
-}
-
-function parseRequiredInteger(value: unknown, field: string, errors: string[]): number | null {
-  if (typeof value !== "number" || !Number.isInteger(value)) {
-    errors.push(`${field} is required and must be an integer`);
-    return null;
-  }
-
-  return value;
-}
-
-function parseOptionalInteger(value: unknown, field: string, errors: string[]): number | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (typeof value !== "number" || !Number.isInteger(value)) {
-    errors.push(`${field} must be an integer`);
-    return undefined;
-  }
-
-  return value;
-}
-
-function parseOptionalNullableNumber(
-  value: unknown,
-  field: string,
-  errors: string[]
-): number | null | undefined {
-  if (value === undefined) {
-    return undefined;
-  }
-
-  if (value === null) {
-    return null;
-  }
-
-  if (typeof value !== "number" || !Number.isFinite(value)) {
-    errors.push(`${field} must be a finite number or null`);
-    return undefined;
-  }
-
-  return value;
-}
-
 function parseRequiredParam(value: string | undefined, name: string): string | null {
   if (!value || !value.trim()) {
     return null;
@@ -255,7 +78,7 @@ function parseRequiredParam(value: string | undefined, name: string): string | n
   return value.trim();
 }
 
-function toPlaceCreateData(place: ParsedPlaceInput) {
+function toPlaceCreateData(place: PlaceInput) {
   return {
     orderIndex: place.orderIndex,
     name: place.name,
@@ -267,127 +90,59 @@ function toPlaceCreateData(place: ParsedPlaceInput) {
     ...(place.phone !== undefined ? { phone: place.phone } : {}),
     ...(place.memo !== undefined ? { memo: place.memo } : {}),
     ...(place.startTime !== undefined ? { startTime: place.startTime } : {}),
-    ...(place.endTime !== undefined ? { endTime: place.endTime } : {})
+    ...(place.endTime !== undefined ? { endTime: place.endTime } : {}),
+    ...(place.openingHours !== undefined ? { openingHours: place.openingHours } : {})
   };
 }
 
-function parsePlaceCreateInput(
-  value: unknown,
-  path: string,
-  errors: string[]
-): ParsedPlaceInput | null {
-  if (!isRecord(value)) {
-    errors.push(`${path} must be an object`);
-    return null;
-  }
-
-  addUnknownFieldError(value, placeFields, errors, path);
-
-  const orderIndex = parseRequiredInteger(value.orderIndex, `${path}.orderIndex`, errors);
-  const name = parseRequiredNonEmptyString(value.name, `${path}.name`, errors);
-  const category = parseRequiredNonEmptyString(value.category, `${path}.category`, errors);
-  const address = parseOptionalNullableNonEmptyString(value.address, `${path}.address`, errors);
-  const lat = parseOptionalNullableNumber(value.lat, `${path}.lat`, errors);
-  const lng = parseOptionalNullableNumber(value.lng, `${path}.lng`, errors);
-  const imageUrl = parseOptionalNullableNonEmptyString(value.imageUrl, `${path}.imageUrl`, errors);
-  const phone = parseOptionalNullableNonEmptyString(value.phone, `${path}.phone`, errors);
-  const memo = parseOptionalNullableNonEmptyString(value.memo, `${path}.memo`, errors);
-  const startTime = parseOptionalNullableNonEmptyString(value.startTime, `${path}.startTime`, errors);
-  const endTime = parseOptionalNullableNonEmptyString(value.endTime, `${path}.endTime`, errors);
-
-  if (orderIndex === null || name === null || category === null) {
-    return null;
-  }
-
-  if (orderIndex < 0) {
-    errors.push(`${path}.orderIndex must be greater than or equal to 0`);
-  }
-
-  const parsed: ParsedPlaceInput = {
-    orderIndex,
-    name,
-    category
-  };
-
-  if (address !== undefined) parsed.address = address;
-  if (lat !== undefined) parsed.lat = lat;
-  if (lng !== undefined) parsed.lng = lng;
-  if (imageUrl !== undefined) parsed.imageUrl = imageUrl;
-  if (phone !== undefined) parsed.phone = phone;
-  if (memo !== undefined) parsed.memo = memo;
-  if (startTime !== undefined) parsed.startTime = startTime;
-  if (endTime !== undefined) parsed.endTime = endTime;
-
-  return parsed;
+function logInternalError(scope: string, error: unknown) {
+  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+  console.error(`[trips] ${scope} failed: ${message || "unknown"}`);
 }
 
-function parseDayCreateInput(value: unknown, path: string, errors: string[]): ParsedDayInput | null {
-  if (!isRecord(value)) {
-    errors.push(`${path} must be an object`);
-    return null;
-  }
-
-  addUnknownFieldError(value, dayCreateFields, errors, path);
-
-  const dayNumber = parseRequiredInteger(value.dayNumber, `${path}.dayNumber`, errors);
-  const date = parseRequiredDate(value.date, `${path}.date`, errors);
-
-  if (dayNumber === null || date === null) {
-    return null;
-  }
-
-  if (dayNumber < 1) {
-    errors.push(`${path}.dayNumber must be greater than or equal to 1`);
-  }
-
-  let places: ParsedPlaceInput[] | undefined;
-  if ("places" in value) {
-    if (!Array.isArray(value.places)) {
-      errors.push(`${path}.places must be an array`);
-    } else {
-      places = [];
-      value.places.forEach((placeValue, index) => {
-        const parsedPlace = parsePlaceCreateInput(placeValue, `${path}.places[${index}]`, errors);
-        if (parsedPlace) {
-          places!.push(parsedPlace);
-        }
-      });
-    }
-  }
-
-  const parsed: ParsedDayInput = {
-    dayNumber,
-    date
-  };
+async function findDayInTrip(tripId: string, dayId: string) {
+  return prisma.tripDay.findFirst({
+    where: { id: dayId, tripId },
+    select: { id: true }
+  });
+}
 
-  if (places !== undefined) {
-    parsed.places = places;
-  }
+async function findFlightInTrip(tripId: string, flightId: string) {
+  return prisma.tripFlight.findFirst({
+    where: { id: flightId, tripId }
+  });
+}
 
-  return parsed;
+async function findRentcarInTrip(tripId: string, rentcarId: string) {
+  return prisma.tripRentcar.findFirst({
+    where: { id: rentcarId, tripId }
+  });
 }
 
-function logInternalError(scope: string, error: unknown) {
-  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
-  console.error(`[trips] ${scope} failed: ${message || "unknown"}`);
+async function findStayInTrip(tripId: string, stayId: string) {
+  return prisma.tripStay.findFirst({
+    where: { id: stayId, tripId }
+  });
 }
 
-async function findOwnedTrip(tripId: string, userId: string) {
-  return prisma.trip.findFirst({
-    where: { id: tripId, userId },
+async function loadRentcarWarnings(tripId: string): Promise<string[]> {
+  const trip = await prisma.trip.findUnique({
+    where: { id: tripId },
     select: {
-      id: true,
-      startDate: true,
-      endDate: true
+      transport: true,
+      rentcars: { select: { pickupTime: true } },
+      days: {
+        orderBy: { dayNumber: "asc" },
+        select: {
+          dayNumber: true,
+          date: true,
+          places: { select: { name: true, category: true, startTime: true } }
+        }
+      }
     }
   });
-}
 
-async function findDayInTrip(tripId: string, dayId: string) {
-  return prisma.tripDay.findFirst({
-    where: { id: dayId, tripId },
-    select: { id: true }
-  });
+  return trip ? findRentcarWarnings(trip.transport, trip.rentcars, trip.days) : [];
 }
 
 async function findPlaceInDay(dayId: string, placeId: string) {
@@ -403,7 +158,7 @@ tripsRouter.get("/", async (req, res) => {
   try {
     const userId = req.user!.userId;
     const trips = await prisma.trip.findMany({
-      where: { userId },
+      where: tripMembershipFilter(userId),
       orderBy: { createdAt: "desc" },
       include: tripDetailsInclude
     });
@@ -411,49 +166,22 @@ tripsRouter.get("/", async (req, res) => {
     return res.json({ trips });
   } catch (error) {
     logInternalError("list trips", error);
-    return res.status(500).json({ message: "Failed to list trips" });
+    return sendUnexpectedError(res, error);
   }
 });
 
 tripsRouter.post("/", async (req, res) => {
   try {
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
+    const parsed = parseBody(CreateTripRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
-    const errors: string[] = [];
-    addUnknownFieldError(body, tripCreateFields, errors, "Request body");
-
-    const title = parseRequiredNonEmptyString(body.title, "title", errors);
-    const destination = parseRequiredNonEmptyString(body.destination, "destination", errors);
-    const startDate = parseRequiredDate(body.startDate, "startDate", errors);
-    const endDate = parseRequiredDate(body.endDate, "endDate", errors);
-    const transport = parseOptionalNullableNonEmptyString(body.transport, "transport", errors);
-    const companions = parseOptionalNullableNonEmptyString(body.companions, "companions", errors);
-    const status = parseOptionalNonEmptyString(body.status, "status", errors);
-
-    let days: ParsedDayInput[] | undefined;
-    if ("days" in body) {
-      if (!Array.isArray(body.days)) {
-        errors.push("days must be an array");
-      } else {
-        days = [];
-        body.days.forEach((dayValue, index) => {
-          const parsedDay = parseDayCreateInput(dayValue, `days[${index}]`, errors);
-          if (parsedDay) {
-            days!.push(parsedDay);
-          }
-        });
-      }
-    }
-
-    if (startDate && endDate && startDate.getTime() > endDate.getTime()) {
-      errors.push("startDate must be before or equal to endDate");
-    }
-
-    if (errors.length > 0 || !title || !destination || !startDate || !endDate) {
-      return sendValidationError(res, errors);
+    const { title, destination, transport, companions, status, days } = parsed.value;
+    const startDate = new Date(parsed.value.startDate);
+    const endDate = new Date(parsed.value.endDate);
+    if (startDate.getTime() > endDate.getTime()) {
+      return sendValidationError(res, ["startDate must be before or equal to endDate"]);
     }
 
     const trip = await prisma.trip.create({
@@ -464,6 +192,9 @@ tripsRouter.post("/", async (req, res) => {
         endDate,
         status: status ?? "draft",
         userId: req.user!.userId,
+        members: {
+          create: { userId: req.user!.userId, role: "owner" }
+        },
         ...(transport !== undefined ? { transport } : {}),
         ...(companions !== undefined ? { companions } : {}),
         ...(days !== undefined
@@ -471,7 +202,7 @@ tripsRouter.post("/", async (req, res) => {
               days: {
                 create: days.map((day) => ({
                   dayNumber: day.dayNumber,
-                  date: day.date,
+                  date: new Date(day.date),
                   ...(day.places !== undefined
                     ? {
                         places: {
@@ -490,7 +221,7 @@ tripsRouter.post("/", async (req, res) => {
     return res.status(201).json({ trip });
   } catch (error) {
     logInternalError("create trip", error);
-    return res.status(500).json({ message: "Failed to create trip" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -498,25 +229,25 @@ tripsRouter.get("/:tripId", async (req, res) => {
   try {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     const trip = await prisma.trip.findFirst({
       where: {
         id: tripId,
-        userId: req.user!.userId
+        ...tripMembershipFilter(req.user!.userId)
       },
       include: tripDetailsInclude
     });
 
     if (!trip) {
-      return res.status(404).json({ message: "Trip not found" });
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     return res.json({ trip });
   } catch (error) {
     logInternalError("get trip detail", error);
-    return res.status(500).json({ message: "Failed to get trip" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -524,73 +255,32 @@ tripsRouter.patch("/:tripId", async (req, res) => {
   try {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
-    }
-
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
-    }
-
-    const errors: string[] = [];
-    addUnknownFieldError(body, tripUpdateFields, errors, "Request body");
-
-    const data: {
-      title?: string;
-      destination?: string;
-      startDate?: Date;
-      endDate?: Date;
-      transport?: string | null;
-      companions?: string | null;
-      status?: string;
-    } = {};
-
-    if ("title" in body) {
-      const title = parseRequiredNonEmptyString(body.title, "title", errors);
-      if (title) data.title = title;
+      return sendValidationError(res, ["tripId is required"]);
     }
 
-    if ("destination" in body) {
-      const destination = parseRequiredNonEmptyString(body.destination, "destination", errors);
-      if (destination) data.destination = destination;
+    const parsed = parseBody(UpdateTripRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
-    if ("startDate" in body) {
-      const startDate = parseOptionalDate(body.startDate, "startDate", errors);
-      if (startDate) data.startDate = startDate;
-    }
-
-    if ("endDate" in body) {
-      const endDate = parseOptionalDate(body.endDate, "endDate", errors);
-      if (endDate) data.endDate = endDate;
-    }
-
-    if ("transport" in body) {
-      const transport = parseOptionalNullableNonEmptyString(body.transport, "transport", errors);
-      if (transport !== undefined) data.transport = transport;
-    }
-
-    if ("companions" in body) {
-      const companions = parseOptionalNullableNonEmptyString(body.companions, "companions", errors);
-      if (companions !== undefined) data.companions = companions;
-    }
-
-    if ("status" in body) {
-      const status = parseOptionalNonEmptyString(body.status, "status", errors);
-      if (status !== undefined) data.status = status;
-    }
+    const { startDate, endDate, ...fields } = parsed.value;
+    const data = {
+      ...fields,
+      ...(startDate !== undefined ? { startDate: new Date(startDate) } : {}),
+      ...(endDate !== undefined ? { endDate: new Date(endDate) } : {})
+    };
 
-    if (Object.keys(data).length === 0 && errors.length === 0) {
-      errors.push("At least one updatable field is required");
+    if (Object.keys(data).length === 0) {
+      return sendValidationError(res, ["At least one updatable field is required"]);
     }
 
-    if (errors.length > 0) {
-      return sendValidationError(res, errors);
+    const existingTrip = await findTripAccess(tripId, req.user!.userId);
+    if (!existingTrip) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const existingTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!existingTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    if (!hasTripRole(existingTrip, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     const nextStartDate = data.startDate ?? existingTrip.startDate;
@@ -608,7 +298,7 @@ tripsRouter.patch("/:tripId", async (req, res) => {
     return res.json({ trip });
   } catch (error) {
     logInternalError("update trip", error);
-    return res.status(500).json({ message: "Failed to update trip" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -616,19 +306,23 @@ tripsRouter.delete("/:tripId", async (req, res) => {
   try {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    if (!hasTripRole(tripAccess, "owner")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     await prisma.trip.delete({ where: { id: tripId } });
     return res.status(204).send();
   } catch (error) {
     logInternalError("delete trip", error);
-    return res.status(500).json({ message: "Failed to delete trip" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -636,12 +330,12 @@ tripsRouter.get("/:tripId/days", async (req, res) => {
   try {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const days = await prisma.tripDay.findMany({
@@ -653,7 +347,7 @@ tripsRouter.get("/:tripId/days", async (req, res) => {
     return res.json({ days });
   } catch (error) {
     logInternalError("list days", error);
-    return res.status(500).json({ message: "Failed to list trip days" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -661,53 +355,29 @@ tripsRouter.post("/:tripId/days", async (req, res) => {
   try {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
-    const errors: string[] = [];
-    addUnknownFieldError(body, dayCreateFields, errors, "Request body");
-
-    const dayNumber = parseRequiredInteger(body.dayNumber, "dayNumber", errors);
-    const date = parseRequiredDate(body.date, "date", errors);
-
-    if (dayNumber !== null && dayNumber < 1) {
-      errors.push("dayNumber must be greater than or equal to 1");
-    }
-
-    let places: ParsedPlaceInput[] | undefined;
-    if ("places" in body) {
-      if (!Array.isArray(body.places)) {
-        errors.push("places must be an array");
-      } else {
-        places = [];
-        body.places.forEach((placeValue, index) => {
-          const parsedPlace = parsePlaceCreateInput(placeValue, `places[${index}]`, errors);
-          if (parsedPlace) {
-            places!.push(parsedPlace);
-          }
-        });
-      }
-    }
-
-    if (errors.length > 0 || dayNumber === null || date === null) {
-      return sendValidationError(res, errors);
+    const parsed = parseBody(DayInput, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
+    const { dayNumber, places } = parsed.value;
     const day = await prisma.tripDay.create({
       data: {
         tripId,
         dayNumber,
-        date,
+        date: new Date(parsed.value.date),
         ...(places !== undefined
           ? {
               places: {
@@ -722,7 +392,7 @@ tripsRouter.post("/:tripId/days", async (req, res) => {
     return res.status(201).json({ day });
   } catch (error) {
     logInternalError("create day", error);
-    return res.status(500).json({ message: "Failed to create trip day" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -731,16 +401,16 @@ tripsRouter.get("/:tripId/days/:dayId", async (req, res) => {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const day = await prisma.tripDay.findFirst({
@@ -748,13 +418,13 @@ tripsRouter.get("/:tripId/days/:dayId", async (req, res) => {
       include: dayDetailsInclude
     });
     if (!day) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     return res.json({ day });
   } catch (error) {
     logInternalError("get day detail", error);
-    return res.status(500).json({ message: "Failed to get trip day" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -763,72 +433,62 @@ tripsRouter.patch("/:tripId/days/:dayId", async (req, res) => {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
-    }
-
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
-    }
-
-    const dayExists = await findDayInTrip(tripId, dayId);
-    if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const errors: string[] = [];
-    addUnknownFieldError(body, dayUpdateFields, errors, "Request body");
-
-    const data: {
-      dayNumber?: number;
-      date?: Date;
-    } = {};
-
-    if ("dayNumber" in body) {
-      const dayNumber = parseOptionalInteger(body.dayNumber, "dayNumber", errors);
-      if (dayNumber !== undefined) {
-        if (dayNumber < 1) {
-          errors.push("dayNumber must be greater than or equal to 1");
-        } else {
-          data.dayNumber = dayNumber;
-        }
-      }
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
-    if ("date" in body) {
-      const date = parseOptionalDate(body.date, "date", errors);
-      if (date) {
-        data.date = date;
-      }
+    const dayExists = await findDayInTrip(tripId, dayId);
+    if (!dayExists) {
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
-    if (Object.keys(data).length === 0 && errors.length === 0) {
-      errors.push("At least one updatable field is required");
+    const parsed = parseBody(UpdateDayRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
-    if (errors.length > 0) {
-      return sendValidationError(res, errors);
+    const { date, ...fields } = parsed.value;
+    const data = { ...fields, ...(date !== undefined ? { date: new Date(date) } : {}) };
+    if (Object.keys(data).length === 0) {
+      return sendValidationError(res, ["At least one updatable field is required"]);
     }
 
-    const day = await prisma.tripDay.update({
-      where: { id: dayId },
-      data,
-      include: dayDetailsInclude
+    const userId = req.user!.userId;
+    const day = await prisma.$transaction(async (tx) => {
+      const before = await snapshotDay(tx, dayId);
+      const updated = await tx.tripDay.update({
+        where: { id: dayId },
+        data,
+        include: dayDetailsInclude
+      });
+      await recordTripActivity(tx, {
+        tripId,
+        userId,
+        action: "day.update",
+        entityType: "day",
+        entityId: dayId,
+        before,
+        after: await snapshotDay(tx, dayId)
+      });
+      return updated;
     });
 
     return res.json({ day });
   } catch (error) {
     logInternalError("update day", error);
-    return res.status(500).json({ message: "Failed to update trip day" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -837,28 +497,45 @@ tripsRouter.delete("/:tripId/days/:dayId", async (req, res) => {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
-    await prisma.tripDay.delete({ where: { id: dayId } });
+    const userId = req.user!.userId;
+    await prisma.$transaction(async (tx) => {
+      const before = await snapshotDay(tx, dayId);
+      await tx.tripDay.delete({ where: { id: dayId } });
+      await recordTripActivity(tx, {
+        tripId,
+        userId,
+        action: "day.delete",
+        entityType: "day",
+        entityId: dayId,
+        before,
+        after: null
+      });
+    });
     return res.status(204).send();
   } catch (error) {
     logInternalError("delete day", error);
-    return res.status(500).json({ message: "Failed to delete trip day" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -867,21 +544,21 @@ tripsRouter.get("/:tripId/days/:dayId/places", async (req, res) => {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     const places = await prisma.tripPlace.findMany({
@@ -892,7 +569,7 @@ tripsRouter.get("/:tripId/days/:dayId/places", async (req, res) => {
     return res.json({ places });
   } catch (error) {
     logInternalError("list places", error);
-    return res.status(500).json({ message: "Failed to list places" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -901,42 +578,43 @@ tripsRouter.post("/:tripId/days/:dayId/places", async (req, res) => {
     const tripId = parseRequiredParam(req.params.tripId, "tripId");
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
-    const body = req.body as unknown;
-    const errors: string[] = [];
-
-    const parsedPlace = parsePlaceCreateInput(body, "Request body", errors);
-    if (errors.length > 0 || !parsedPlace) {
-      return sendValidationError(res, errors);
+    const parsed = parseBody(PlaceInput, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
     const place = await prisma.tripPlace.create({
       data: {
         tripDayId: dayId,
-        ...toPlaceCreateData(parsedPlace)
+        ...toPlaceCreateData(parsed.value)
       }
     });
 
     return res.status(201).json({ place });
   } catch (error) {
     logInternalError("create place", error);
-    return res.status(500).json({ message: "Failed to create place" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -946,38 +624,38 @@ tripsRouter.get("/:tripId/days/:dayId/places/:placeId", async (req, res) => {
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     const placeId = parseRequiredParam(req.params.placeId, "placeId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
     if (!placeId) {
-      return res.status(400).json({ message: "placeId is required" });
+      return sendValidationError(res, ["placeId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     const place = await prisma.tripPlace.findFirst({
       where: { id: placeId, tripDayId: dayId }
     });
     if (!place) {
-      return res.status(404).json({ message: "Place not found" });
+      return sendError(res, "PLACE_NOT_FOUND");
     }
 
     return res.json({ place });
   } catch (error) {
     logInternalError("get place detail", error);
-    return res.status(500).json({ message: "Failed to get place" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -987,132 +665,69 @@ tripsRouter.patch("/:tripId/days/:dayId/places/:placeId", async (req, res) => {
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     const placeId = parseRequiredParam(req.params.placeId, "placeId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
     if (!placeId) {
-      return res.status(400).json({ message: "placeId is required" });
+      return sendValidationError(res, ["placeId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     const placeExists = await findPlaceInDay(dayId, placeId);
     if (!placeExists) {
-      return res.status(404).json({ message: "Place not found" });
-    }
-
-    const body = req.body as unknown;
-    if (!isRecord(body)) {
-      return res.status(400).json({ message: "Request body must be a JSON object" });
-    }
-
-    const errors: string[] = [];
-    addUnknownFieldError(body, placeFields, errors, "Request body");
-
-    const data: {
-      orderIndex?: number;
-      name?: string;
-      address?: string | null;
-      lat?: number | null;
-      lng?: number | null;
-      category?: string;
-      imageUrl?: string | null;
-      phone?: string | null;
-      memo?: string | null;
-      startTime?: string | null;
-      endTime?: string | null;
-    } = {};
-
-    if ("orderIndex" in body) {
-      const orderIndex = parseOptionalInteger(body.orderIndex, "orderIndex", errors);
-      if (orderIndex !== undefined) {
-        if (orderIndex < 0) {
-          errors.push("orderIndex must be greater than or equal to 0");
-        } else {
-          data.orderIndex = orderIndex;
-        }
-      }
-    }
-
-    if ("name" in body) {
-      const name = parseRequiredNonEmptyString(body.name, "name", errors);
-      if (name) data.name = name;
-    }
-
-    if ("address" in body) {
-      const address = parseOptionalNullableNonEmptyString(body.address, "address", errors);
-      if (address !== undefined) data.address = address;
-    }
-
-    if ("lat" in body) {
-      const lat = parseOptionalNullableNumber(body.lat, "lat", errors);
-      if (lat !== undefined) data.lat = lat;
-    }
-
-    if ("lng" in body) {
-      const lng = parseOptionalNullableNumber(body.lng, "lng", errors);
-      if (lng !== undefined) data.lng = lng;
-    }
-
-    if ("category" in body) {
-      const category = parseRequiredNonEmptyString(body.category, "category", errors);
-      if (category) data.category = category;
-    }
-
-    if ("imageUrl" in body) {
-      const imageUrl = parseOptionalNullableNonEmptyString(body.imageUrl, "imageUrl", errors);
-      if (imageUrl !== undefined) data.imageUrl = imageUrl;
+      return sendError(res, "PLACE_NOT_FOUND");
     }
 
-    if ("phone" in body) {
-      const phone = parseOptionalNullableNonEmptyString(body.phone, "phone", errors);
-      if (phone !== undefined) data.phone = phone;
+    const parsed = parseBody(UpdatePlaceRequest, req.body);
+    if (!parsed.ok) {
+      return sendParseFailure(res, parsed);
     }
 
-    if ("memo" in body) {
-      const memo = parseOptionalNullableNonEmptyString(body.memo, "memo", errors);
-      if (memo !== undefined) data.memo = memo;
+    const data = parsed.value;
+    if (Object.keys(data).length === 0) {
+      return sendValidationError(res, ["At least one updatable field is required"]);
     }
 
-    if ("startTime" in body) {
-      const startTime = parseOptionalNullableNonEmptyString(body.startTime, "startTime", errors);
-      if (startTime !== undefined) data.startTime = startTime;
-    }
-
-    if ("endTime" in body) {
-      const endTime = parseOptionalNullableNonEmptyString(body.endTime, "endTime", errors);
-      if (endTime !== undefined) data.endTime = endTime;
-    }
-
-    if (Object.keys(data).length === 0 && errors.length === 0) {
-      errors.push("At least one updatable field is required");
-    }
-
-    if (errors.length > 0) {
-      return sendValidationError(res, errors);
-    }
-
-    const place = await prisma.tripPlace.update({
-      where: { id: placeId },
-      data
+    const userId = req.user!.userId;
+    const place = await prisma.$transaction(async (tx) => {
+      const before = await snapshotPlace(tx, placeId);
+      const updated = await tx.tripPlace.update({
+        where: { id: placeId },
+        data
+      });
+      await recordTripActivity(tx, {
+        tripId,
+        userId,
+        action: "place.update",
+        entityType: "place",
+        entityId: placeId,
+        before,
+        after: updated
+      });
+      return updated;
     });
 
     return res.json({ place });
   } catch (error) {
     logInternalError("update place", error);
-    return res.status(500).json({ message: "Failed to update place" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -1122,70 +737,762 @@ tripsRouter.delete("/:tripId/days/:dayId/places/:placeId", async (req, res) => {
     const dayId = parseRequiredParam(req.params.dayId, "dayId");
     const placeId = parseRequiredParam(req.params.placeId, "placeId");
     if (!tripId) {
-      return res.status(400).json({ message: "tripId is required" });
+      return sendValidationError(res, ["tripId is required"]);
     }
 
     if (!dayId) {
-      return res.status(400).json({ message: "dayId is required" });
+      return sendValidationError(res, ["dayId is required"]);
     }
 
     if (!placeId) {
-      return res.status(400).json({ message: "placeId is required" });
+      return sendValidationError(res, ["placeId is required"]);
     }
 
-    const ownedTrip = await findOwnedTrip(tripId, req.user!.userId);
-    if (!ownedTrip) {
-      return res.status(404).json({ message: "Trip not found" });
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
     }
 
     const dayExists = await findDayInTrip(tripId, dayId);
     if (!dayExists) {
-      return res.status(404).json({ message: "Day not found" });
+      return sendError(res, "TRIP_DAY_NOT_FOUND");
     }
 
     const placeExists = await findPlaceInDay(dayId, placeId);
     if (!placeExists) {
-      return res.status(404).json({ message: "Place not found" });
+      return sendError(res, "PLACE_NOT_FOUND");
     }
 
-    await prisma.tripPlace.delete({ where: { id: placeId } });
+    const userId = req.user!.userId;
+    await prisma.$transaction(async (tx) => {
+      const before = await snapshotPlace(tx, placeId);
+      await tx.tripPlace.delete({ where: { id: placeId } });
+      await recordTripActivity(tx, {
+        tripId,
+        userId,
+        action: "place.delete",
+        entityType: "place",
+        entityId: placeId,
+        before,
+        after: null
+      });
+    });
     return res.status(204).send();
   } catch (error) {
     logInternalError("delete place", error);
-    return res.status(500).json({ message: "Failed to delete place" });
+    return sendUnexpectedError(res, error);
   }
 });
 
-tripsRouter.get("/:tripId/flights", (_req, res) => {
-  res.status(501).json({ message: "Trip flights list scaffold - not implemented" });
-});
+tripsRouter.get("/:tripId/flights", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
 
-tripsRouter.post("/:tripId/flights", (_req, res) => {
-  res.status(501).json({ message: "Trip flights create scaffold - not implemented" });
-});
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
 
-tripsRouter.get("/:tripId/rentcars", (_req, res) => {
-  res.status(501).json({ message: "Trip rentcars list scaffold - not implemented" });
-});
+    const flights = await prisma.tripFlight.findMany({
+      where: { tripId },
+      orderBy: { departureTime: "asc" }
+    });
 
-tripsRouter.post("/:tripId/rentcars", (_req, res) => {
-  res.status(501).json({ message: "Trip rentcars create scaffold - not implemented" });
+    return res.json({ flights });
+  } catch (error) {
+    logInternalError("list flights", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.post("/:tripId/flights", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const body = parseBody(CreateFlightRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const parsed = parseFlightInput(body.value, "", errors);
+    if (errors.length > 0 || !parsed) {
+      return sendValidationError(res, errors);
+    }
+
+    const flight = parsed as FlightInput;
+    validateFlightSchedule(flight, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const created = await prisma.tripFlight.create({
+      data: {
+        ...flight,
+        tripId
+      }
+    });
+
+    return res.status(201).json({ flight: created });
+  } catch (error) {
+    logInternalError("create flight", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.get("/:tripId/flights/:flightId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const flightId = parseRequiredParam(req.params.flightId, "flightId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!flightId) {
+      return sendValidationError(res, ["flightId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const flight = await findFlightInTrip(tripId, flightId);
+    if (!flight) {
+      return sendError(res, "FLIGHT_NOT_FOUND");
+    }
+
+    return res.json({ flight });
+  } catch (error) {
+    logInternalError("get flight", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.patch("/:tripId/flights/:flightId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const flightId = parseRequiredParam(req.params.flightId, "flightId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!flightId) {
+      return sendValidationError(res, ["flightId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const existingFlight = await findFlightInTrip(tripId, flightId);
+    if (!existingFlight) {
+      return sendError(res, "FLIGHT_NOT_FOUND");
+    }
+
+    const body = parseBody(UpdateFlightRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const data = parseFlightInput(body.value, "", errors, true);
+    if (data && Object.keys(data).length === 0 && errors.length === 0) {
+      errors.push("At least one updatable field is required");
+    }
+
+    if (errors.length > 0 || !data) {
+      return sendValidationError(res, errors);
+    }
+
+    validateFlightSchedule({ ...existingFlight, ...data }, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const flight = await prisma.tripFlight.update({
+      where: { id: flightId },
+      data
+    });
+
+    return res.json({ flight });
+  } catch (error) {
+    logInternalError("update flight", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.delete("/:tripId/flights/:flightId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const flightId = parseRequiredParam(req.params.flightId, "flightId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!flightId) {
+      return sendValidationError(res, ["flightId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const flight = await findFlightInTrip(tripId, flightId);
+    if (!flight) {
+      return sendError(res, "FLIGHT_NOT_FOUND");
+    }
+
+    await prisma.tripFlight.delete({ where: { id: flightId } });
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("delete flight", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.get("/:tripId/rentcars", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const rentcars = await prisma.tripRentcar.findMany({
+      where: { tripId },
+      orderBy: { pickupTime: "asc" }
+    });
+
+    return res.json({ rentcars, warnings: await loadRentcarWarnings(tripId) });
+  } catch (error) {
+    logInternalError("list rentcars", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.post("/:tripId/rentcars", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const body = parseBody(CreateRentcarRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const parsed = parseRentcarInput(body.value, "", errors);
+    if (errors.length > 0 || !parsed) {
+      return sendValidationError(res, errors);
+    }
+
+    const rentcar = parsed as RentcarInput;
+    validateRentcarSchedule(rentcar, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const created = await prisma.tripRentcar.create({
+      data: {
+        ...rentcar,
+        tripId
+      }
+    });
+
+    return res.status(201).json({ rentcar: created, warnings: await loadRentcarWarnings(tripId) });
+  } catch (error) {
+    logInternalError("create rentcar", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.get("/:tripId/rentcars/:rentcarId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const rentcarId = parseRequiredParam(req.params.rentcarId, "rentcarId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!rentcarId) {
+      return sendValidationError(res, ["rentcarId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const rentcar = await findRentcarInTrip(tripId, rentcarId);
+    if (!rentcar) {
+      return sendError(res, "RENTCAR_NOT_FOUND");
+    }
+
+    return res.json({ rentcar });
+  } catch (error) {
+    logInternalError("get rentcar", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.patch("/:tripId/rentcars/:rentcarId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const rentcarId = parseRequiredParam(req.params.rentcarId, "rentcarId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!rentcarId) {
+      return sendValidationError(res, ["rentcarId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const existingRentcar = await findRentcarInTrip(tripId, rentcarId);
+    if (!existingRentcar) {
+      return sendError(res, "RENTCAR_NOT_FOUND");
+    }
+
+    const body = parseBody(UpdateRentcarRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const data = parseRentcarInput(body.value, "", errors, true);
+    if (data && Object.keys(data).length === 0 && errors.length === 0) {
+      errors.push("At least one updatable field is required");
+    }
+
+    if (errors.length > 0 || !data) {
+      return sendValidationError(res, errors);
+    }
+
+    validateRentcarSchedule({ ...existingRentcar, ...data }, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const rentcar = await prisma.tripRentcar.update({
+      where: { id: rentcarId },
+      data
+    });
+
+    return res.json({ rentcar, warnings: await loadRentcarWarnings(tripId) });
+  } catch (error) {
+    logInternalError("update rentcar", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.delete("/:tripId/rentcars/:rentcarId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const rentcarId = parseRequiredParam(req.params.rentcarId, "rentcarId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!rentcarId) {
+      return sendValidationError(res, ["rentcarId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const rentcar = await findRentcarInTrip(tripId, rentcarId);
+    if (!rentcar) {
+      return sendError(res, "RENTCAR_NOT_FOUND");
+    }
+
+    await prisma.tripRentcar.delete({ where: { id: rentcarId } });
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("delete rentcar", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.get("/:tripId/stays", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const stays = await prisma.tripStay.findMany({
+      where: { tripId },
+      orderBy: { checkIn: "asc" }
+    });
+
+    return res.json({ stays });
+  } catch (error) {
+    logInternalError("list stays", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.post("/:tripId/stays", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const body = parseBody(CreateStayRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const parsed = parseStayInput(body.value, "", errors);
+    if (errors.length > 0 || !parsed) {
+      return sendValidationError(res, errors);
+    }
+
+    const stay = parsed as StayInput;
+    validateStaySchedule(stay, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const created = await prisma.tripStay.create({
+      data: {
+        ...stay,
+        tripId
+      }
+    });
+
+    return res.status(201).json({ stay: created });
+  } catch (error) {
+    logInternalError("create stay", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.get("/:tripId/stays/:stayId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const stayId = parseRequiredParam(req.params.stayId, "stayId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!stayId) {
+      return sendValidationError(res, ["stayId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const stay = await findStayInTrip(tripId, stayId);
+    if (!stay) {
+      return sendError(res, "STAY_NOT_FOUND");
+    }
+
+    return res.json({ stay });
+  } catch (error) {
+    logInternalError("get stay", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.patch("/:tripId/stays/:stayId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const stayId = parseRequiredParam(req.params.stayId, "stayId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!stayId) {
+      return sendValidationError(res, ["stayId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const existingStay = await findStayInTrip(tripId, stayId);
+    if (!existingStay) {
+      return sendError(res, "STAY_NOT_FOUND");
+    }
+
+    const body = parseBody(UpdateStayRequest, req.body);
+    if (!body.ok) {
+      return sendParseFailure(res, body);
+    }
+
+    const errors: string[] = [];
+    const data = parseStayInput(body.value, "", errors, true);
+    if (data && Object.keys(data).length === 0 && errors.length === 0) {
+      errors.push("At least one updatable field is required");
+    }
+
+    if (errors.length > 0 || !data) {
+      return sendValidationError(res, errors);
+    }
+
+    validateStaySchedule({ ...existingStay, ...data }, "", errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, errors);
+    }
+
+    const stay = await prisma.tripStay.update({
+      where: { id: stayId },
+      data
+    });
+
+    return res.json({ stay });
+  } catch (error) {
+    logInternalError("update stay", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+tripsRouter.delete("/:tripId/stays/:stayId", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    const stayId = parseRequiredParam(req.params.stayId, "stayId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    if (!stayId) {
+      return sendValidationError(res, ["stayId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    if (!hasTripRole(tripAccess, "editor")) {
+      return sendError(res, "TRIP_PERMISSION_DENIED");
+    }
+
+    const stay = await findStayInTrip(tripId, stayId);
+    if (!stay) {
+      return sendError(res, "STAY_NOT_FOUND");
+    }
+
+    await prisma.tripStay.delete({ where: { id: stayId } });
+    return res.status(204).send();
+  } catch (error) {
+    logInternalError("delete stay", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// Daily forecast per trip day, looked up at the day's first located stop. Days beyond the
+// short-term forecast range come back with a null forecast.
+tripsRouter.get("/:tripId/weather", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      select: {
+        destination: true,
+        days: {
+          orderBy: { dayNumber: "asc" },
+          select: {
+            dayNumber: true,
+            date: true,
+            places: {
+              orderBy: { orderIndex: "asc" },
+              select: { lat: true, lng: true }
+            }
+          }
+        }
+      }
+    });
+
+    if (!trip) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const forecastBase = latestForecastBase(new Date());
+    const grids = trip.days.map((tripDay) =>
+      resolveForecastGrid(tripDay.places, POPULAR_GRIDS[trip.destination])
+    );
+    const forecasts = await fetchGridForecasts(grids, forecastBase);
+    const warnings: string[] = [];
+
+    const days = trip.days.map((tripDay, index) => {
+      const grid = grids[index] ?? null;
+      const items = grid ? forecasts.get(toGridKey(grid)) : undefined;
+      const date = toDayKey(tripDay.date);
+
+      if (!grid) {
+        warnings.push(`Day ${tripDay.dayNumber} has no located places to look up the forecast for`);
+      } else if (!items) {
+        warnings.push(`The forecast for day ${tripDay.dayNumber} could not be loaded`);
+      }
+
+      return {
+        dayNumber: tripDay.dayNumber,
+        date,
+        grid,
+        forecast: items ? (normalizeForecast(items).find((day) => day.date === date) ?? null) : null
+      };
+    });
+
+    return res.json({ tripId, forecastBase, days, warnings });
+  } catch (error) {
+    logInternalError("get trip weather", error);
+    return sendUnexpectedError(res, error);
+  }
+});
+
+// Festivals running during the trip, offered per day as optional stops together with any
+// conflicts against the saved schedule. Accepting one goes through the places API.
+tripsRouter.get("/:tripId/events", async (req, res) => {
+  try {
+    const tripId = parseRequiredParam(req.params.tripId, "tripId");
+    if (!tripId) {
+      return sendValidationError(res, ["tripId is required"]);
+    }
+
+    const tripAccess = await findTripAccess(tripId, req.user!.userId);
+    if (!tripAccess) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const trip = await prisma.trip.findUnique({
+      where: { id: tripId },
+      include: tripDetailsInclude
+    });
+
+    if (!trip) {
+      return sendError(res, "TRIP_NOT_FOUND");
+    }
+
+    const plans = buildDayPlans(
+      trip.days.map((tripDay) => tripDay.date),
+      trip.flights,
+      trip.rentcars,
+      trip.stays
+    );
+    const days = trip.days.map((tripDay, index) => ({ ...tripDay, window: plans[index]?.window }));
+    const areaCode = AREA_CODES[trip.destination] ?? AREA_CODES[resolveSidoName(trip.destination) ?? ""];
+    const warnings: string[] = [];
+
+    if (!areaCode) {
+      warnings.push(`No TourAPI area is known for ${trip.destination}`);
+      return res.json({ tripId, areaCode: null, events: [], days: planEventOffers([], days), warnings });
+    }
+
+    const festivals = await findFestivalOffers(areaCode, days, warnings);
+    return res.json({ tripId, areaCode, events: festivals.events, days: festivals.days, warnings });
+  } catch (error) {
+    logInternalError("get trip events", error);
+    return sendUnexpectedError(res, error);
+  }
 });
 
 tripsRouter.get("/:tripId/restaurants", (_req, res) => {
-  res.status(501).json({ message: "Trip restaurants list scaffold - not implemented" });
+  sendError(res, "NOT_IMPLEMENTED");
 });
 
 tripsRouter.post("/:tripId/restaurants", (_req, res) => {
-  res.status(501).json({ message: "Trip restaurants create scaffold - not implemented" });
+  sendError(res, "NOT_IMPLEMENTED");
 });
 
 tripsRouter.get("/:tripId/parking", (_req, res) => {
-  res.status(501).json({ message: "Trip parking list scaffold - not implemented" });
+  sendError(res, "NOT_IMPLEMENTED");
 });
 
 tripsRouter.post("/:tripId/parking", (_req, res) => {
-  res.status(501).json({ message: "Trip parking create scaffold - not implemented" });
+  sendError(res, "NOT_IMPLEMENTED");
 });
 
 export { tripsRouter };
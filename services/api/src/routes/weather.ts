@@ -1,6 +1,8 @@
 import { Router } from "express";
+import { sendUnexpectedError, sendValidationError } from "../errors/respond";
 import { getShortTermForecast, toGridCoord, POPULAR_GRIDS } from "../services/weather.service";
-import { getAirQuality, gradeToText } from "../services/air-quality.service";
+import { latestForecastBase, normalizeForecast } from "../services/weather-summary";
+import { getCachedAirQuality, gradeToText, resolveSidoName } from "../services/air-quality.service";
 import { sanitizePublicText } from "../utils/response-safety";
 
 const weatherRouter = Router();
@@ -17,27 +19,32 @@ weatherRouter.get("/forecast", async (req, res) => {
     } else if (lat && lng) {
       ({ nx, ny } = toGridCoord(Number(lat), Number(lng)));
     } else {
-      return res.status(400).json({ message: "city 또는 lat/lng가 필요합니다" });
+      return sendValidationError(res, ["Either city or lat/lng is required"]);
     }
 
-    const now = new Date();
-    const date = (baseDate as string) ?? now.toISOString().slice(0, 10).replace(/-/g, "");
-    const time = (baseTime as string) ?? "0500";
+    const latest = latestForecastBase(new Date());
+    const date = (baseDate as string) ?? latest.baseDate;
+    const time = (baseTime as string) ?? latest.baseTime;
 
     const items = await getShortTermForecast({ nx, ny, baseDate: date, baseTime: time });
-    return res.json({ items, grid: { nx, ny } });
+    return res.json({
+      items,
+      daily: normalizeForecast(items),
+      grid: { nx, ny },
+      base: { baseDate: date, baseTime: time }
+    });
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[weather] forecast lookup failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "날씨 정보 조회 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
 weatherRouter.get("/air", async (req, res) => {
   try {
     const { sido } = req.query;
-    if (!sido) return res.status(400).json({ message: "시도명이 필요합니다 (예: 서울, 부산)" });
-    const items = await getAirQuality(sido as string);
+    if (!sido) return sendValidationError(res, ["sido is required (e.g. 서울, 부산)"]);
+    const items = await getCachedAirQuality(resolveSidoName(sido as string) ?? (sido as string));
     return res.json({
       items: Array.isArray(items)
         ? items.map((item) => ({
@@ -50,7 +57,7 @@ weatherRouter.get("/air", async (req, res) => {
   } catch (error) {
     const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
     console.error(`[weather] air-quality lookup failed: ${message || "unknown"}`);
-    return res.status(500).json({ message: "대기질 정보 조회 중 오류가 발생했습니다" });
+    return sendUnexpectedError(res, error);
   }
 });
 
@@ -0,0 +1,102 @@
+import { prisma } from "../config/database";
+import { refreshSessions } from "../config/refresh-sessions";
+import { sanitizePublicText } from "../utils/response-safety";
+import { unlinkKakaoUser } from "./kakao-auth.service";
+import { listIdentities } from "./user-identities";
+import { toUserProfileView } from "./user-profile";
+
+export interface AccountDeletionResult {
+  deletedTrips: number;
+  kakaoUnlinked: boolean;
+  warnings: string[];
+}
+
+export const ACCOUNT_EXPORT_VERSION = 1;
+
+// Everything stored about the user, for PIPA access requests. Trips shared with the user belong to
+// their owners, so only the membership is included for those.
+export async function buildAccountExport(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, nickname: true, email: true, profileImage: true, createdAt: true, updatedAt: true }
+  });
+  if (!user) {
+    return null;
+  }
+
+  const [profile, identities, sessions, trips, memberships] = await Promise.all([
+    prisma.userProfile.findUnique({ where: { userId } }),
+    listIdentities(userId),
+    refreshSessions.list(userId, undefined),
+    prisma.trip.findMany({
+      where: { userId },
+      orderBy: { startDate: "asc" },
+      include: {
+        days: {
+          orderBy: { dayNumber: "asc" },
+          include: { places: { orderBy: { orderIndex: "asc" } } }
+        },
+        flights: { orderBy: { departureTime: "asc" } },
+        rentcars: { orderBy: { pickupTime: "asc" } },
+        stays: { orderBy: { checkIn: "asc" } }
+      }
+    }),
+    prisma.tripMember.findMany({
+      where: { userId, trip: { userId: { not: userId } } },
+      orderBy: { createdAt: "asc" },
+      include: { trip: { select: { id: true, title: true, destination: true, startDate: true, endDate: true } } }
+    })
+  ]);
+
+  return {
+    version: ACCOUNT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    user,
+    profile: profile ? toUserProfileView(profile) : null,
+    identities,
+    sessions: sessions.map(({ current: _current, ...session }) => session),
+    trips,
+    sharedTrips: memberships.map((membership) => ({
+      ...membership.trip,
+      role: membership.role,
+      joinedAt: membership.createdAt
+    }))
+  };
+}
+
+// Removes the user row; trips they own, memberships, invites, history, identities and refresh
+// sessions go with it through the schema's cascades, which also signs every device out. The Kakao
+// app connection is cut first, while the Kakao identity is still known; failing to do so does not
+// block the deletion.
+export async function deleteAccount(userId: string, options: { unlinkKakao: boolean }): Promise<AccountDeletionResult> {
+  const warnings: string[] = [];
+  let kakaoUnlinked = false;
+
+  if (options.unlinkKakao) {
+    const kakao = await prisma.userIdentity.findUnique({
+      where: { userId_provider: { userId, provider: "kakao" } },
+      select: { subject: true }
+    });
+    const legacy = kakao ? null : await prisma.user.findUnique({ where: { id: userId }, select: { kakaoId: true } });
+    const kakaoUserId = kakao?.subject ?? legacy?.kakaoId ?? null;
+
+    if (kakaoUserId) {
+      try {
+        await unlinkKakaoUser(kakaoUserId);
+        kakaoUnlinked = true;
+      } catch (error) {
+        const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+        console.error(`[auth] kakao unlink failed: ${message || "unknown"}`);
+        warnings.push("Kakao app connection could not be removed; disconnect TripMate in the Kakao account settings");
+      }
+    }
+  }
+
+  const [deletedTrips] = await prisma.$transaction([
+    prisma.trip.count({ where: { userId } }),
+    prisma.user.delete({ where: { id: userId } })
+  ]);
+  refreshSessions.forgetUser(userId);
+
+  return { deletedTrips, kakaoUnlinked, warnings };
+}
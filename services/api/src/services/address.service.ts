@@ -1,5 +1,5 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { upstream } from "./upstream-client";
 
 interface JusoItem {
   roadAddr: string;
@@ -25,7 +25,7 @@ interface JusoApiResponse {
 
 // 주소 검색 (자동완성)
 export async function searchAddress(keyword: string, pageNo?: number) {
-  const response = await axios.get<JusoApiResponse>("https://business.juso.go.kr/addrlink/addrLinkApi.do", {
+  const payload = await upstream.get<JusoApiResponse>("juso", "https://business.juso.go.kr/addrlink/addrLinkApi.do", {
     params: {
       confmKey: env.jusoSearchApiKey,
       currentPage: pageNo ?? 1,
@@ -35,7 +35,7 @@ export async function searchAddress(keyword: string, pageNo?: number) {
     }
   });
 
-  return response.data.results.juso ?? [];
+  return payload.results.juso ?? [];
 }
 
 export type { JusoItem, JusoApiResponse };
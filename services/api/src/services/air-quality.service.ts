@@ -1,5 +1,6 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { responseCache } from "../config/response-cache";
+import { upstream } from "./upstream-client";
 
 const AIR_API_BASE = "https://apis.data.go.kr/B552584/ArpltnInforInqireSvc";
 
@@ -28,9 +29,120 @@ interface AirQualityResponse {
   };
 }
 
+interface DustForecastItem {
+  informCode: string;
+  informData: string;
+  informGrade: string;
+  dataTime: string;
+}
+
+interface DustForecastResponse {
+  response?: {
+    body?: {
+      items?: DustForecastItem[];
+    };
+  };
+}
+
+type DustPollutant = "PM10" | "PM25";
+
+// 에어코리아 시도명 (sidoName 파라미터 값)
+const SIDO_NAMES = [
+  "서울",
+  "부산",
+  "대구",
+  "인천",
+  "광주",
+  "대전",
+  "울산",
+  "세종",
+  "경기",
+  "강원",
+  "충북",
+  "충남",
+  "전북",
+  "전남",
+  "경북",
+  "경남",
+  "제주"
+] as const;
+
+type SidoName = (typeof SIDO_NAMES)[number];
+
+const SIDO_ALIASES: Array<[RegExp, SidoName]> = [
+  [/^서울/, "서울"],
+  [/^부산/, "부산"],
+  [/^대구/, "대구"],
+  [/^인천/, "인천"],
+  [/^광주/, "광주"],
+  [/^대전/, "대전"],
+  [/^울산/, "울산"],
+  [/^세종/, "세종"],
+  [/^경기/, "경기"],
+  [/^강원/, "강원"],
+  [/^충청북|^충북/, "충북"],
+  [/^충청남|^충남/, "충남"],
+  [/^전라북|^전북/, "전북"],
+  [/^전라남|^전남/, "전남"],
+  [/^경상북|^경북/, "경북"],
+  [/^경상남|^경남/, "경남"],
+  [/^제주/, "제주"]
+];
+
+// 시도명이 없는 주요 여행지 → 시도
+const CITY_SIDO: Record<string, SidoName> = {
+  강릉: "강원",
+  속초: "강원",
+  양양: "강원",
+  춘천: "강원",
+  평창: "강원",
+  정선: "강원",
+  경주: "경북",
+  안동: "경북",
+  포항: "경북",
+  울릉: "경북",
+  여수: "전남",
+  순천: "전남",
+  목포: "전남",
+  담양: "전남",
+  전주: "전북",
+  군산: "전북",
+  통영: "경남",
+  거제: "경남",
+  남해: "경남",
+  진주: "경남",
+  창원: "경남",
+  서귀포: "제주",
+  수원: "경기",
+  가평: "경기",
+  파주: "경기",
+  태안: "충남",
+  보령: "충남",
+  공주: "충남",
+  부여: "충남",
+  단양: "충북",
+  청주: "충북",
+  제천: "충북"
+};
+
+// 예보 등급 문자열의 권역명 → 시도 (경기·강원은 권역이 둘로 나뉨)
+const FORECAST_REGIONS: Record<string, SidoName> = {
+  경기북부: "경기",
+  경기남부: "경기",
+  영동: "강원",
+  영서: "강원"
+};
+
+const GRADE_BY_TEXT: Record<string, number> = {
+  좋음: 1,
+  보통: 2,
+  나쁨: 3,
+  매우나쁨: 4
+};
+
 // 시도별 대기질 조회
 export async function getAirQuality(sidoName: string) {
-  const response = await axios.get<AirQualityResponse>(withServiceKey("getCtprvnRltmMesureDnsty"), {
+  const payload = await upstream.get<AirQualityResponse>("airkorea", withServiceKey("getCtprvnRltmMesureDnsty"), {
     params: {
       returnType: "json",
       numOfRows: 100,
@@ -40,7 +152,80 @@ export async function getAirQuality(sidoName: string) {
     }
   });
 
-  return response.data?.response?.body?.items ?? [];
+  return payload?.response?.body?.items ?? [];
+}
+
+// 시도별 측정소 실시간 측정값 (1시간 캐시)
+export async function getCachedAirQuality(sidoName: string): Promise<AirQualityItem[]> {
+  return responseCache.fetch("airkorea.measurement", { sidoName }, () => getAirQuality(sidoName));
+}
+
+// 미세먼지 예보 (발표일 기준 오늘~모레, 1시간 캐시)
+export async function getDustForecast(searchDate: string, informCode: DustPollutant): Promise<DustForecastItem[]> {
+  return responseCache.fetch("airkorea.forecast", { searchDate, informCode }, async () => {
+    const payload = await upstream.get<DustForecastResponse>("airkorea", withServiceKey("getMinuDustFrcstDspth"), {
+      params: {
+        returnType: "json",
+        numOfRows: 100,
+        pageNo: 1,
+        searchDate,
+        InformCode: informCode,
+        ver: "1.1"
+      }
+    });
+
+    return payload?.response?.body?.items ?? [];
+  });
+}
+
+// 여행지명·주소 → 에어코리아 시도명 (앞에서부터 처음 찾은 값)
+export function resolveSidoName(...texts: (string | null | undefined)[]): SidoName | null {
+  for (const text of texts) {
+    const normalized = text?.trim().replace(/\s+/g, " ") ?? "";
+    if (!normalized) continue;
+
+    const alias = SIDO_ALIASES.find(([pattern]) => pattern.test(normalized));
+    if (alias) return alias[1];
+
+    const city = Object.keys(CITY_SIDO).find((name) => normalized.startsWith(name));
+    if (city) return CITY_SIDO[city] ?? null;
+  }
+
+  return null;
+}
+
+// 측정소 등급의 중앙값 (등급 없는 측정소는 제외)
+export function toSidoGrade(items: AirQualityItem[], field: "pm10Grade" | "pm25Grade"): number | null {
+  const grades = items
+    .map((item) => Number(item[field]))
+    .filter((grade) => Number.isInteger(grade) && grade >= 1 && grade <= 4)
+    .sort((a, b) => a - b);
+
+  return grades.length > 0 ? (grades[Math.floor((grades.length - 1) / 2)] ?? null) : null;
+}
+
+// 예보 등급 문자열("서울 : 보통,제주 : 좋음,...")에서 날짜별 시도 등급 추출. 같은 날짜는
+// 가장 최근 발표를 쓰고, 권역이 나뉜 시도는 나쁜 쪽 등급을 쓴다.
+export function readForecastGrades(items: DustForecastItem[], sidoName: SidoName): Map<string, number> {
+  const latest = new Map<string, DustForecastItem>();
+  for (const item of items) {
+    const current = latest.get(item.informData);
+    if (!current || item.dataTime > current.dataTime) latest.set(item.informData, item);
+  }
+
+  const grades = new Map<string, number>();
+  for (const [date, item] of latest) {
+    for (const entry of item.informGrade.split(",")) {
+      const [region, gradeText] = entry.split(":").map((part) => part.trim());
+      const grade = gradeText ? GRADE_BY_TEXT[gradeText.replace(/\s+/g, "")] : undefined;
+      const sido = region ? (FORECAST_REGIONS[region] ?? region) : undefined;
+      if (sido !== sidoName || grade === undefined) continue;
+
+      grades.set(date, Math.max(grades.get(date) ?? 0, grade));
+    }
+  }
+
+  return grades;
 }
 
 // 등급 텍스트 변환
@@ -59,4 +244,4 @@ export function gradeToText(grade: string): string {
   }
 }
 
-export type { AirQualityItem };
+export type { AirQualityItem, DustForecastItem, DustPollutant, SidoName };
@@ -0,0 +1,28 @@
+import type { JsonWebKey } from "crypto";
+
+import { upstream } from "./upstream-client";
+
+interface AppleKeysResponse {
+  keys: (JsonWebKey & { kid: string; alg: string })[];
+}
+
+type AppleSigningKey = AppleKeysResponse["keys"][number];
+
+// 애플은 키를 드물게 교체하므로 1시간 동안 재사용
+const APPLE_KEYS_TTL_MS = 60 * 60 * 1000;
+
+let cachedKeys: { keys: AppleSigningKey[]; expiresAt: number } | null = null;
+
+// Sign in with Apple identity token 검증용 공개키 목록 (모르는 kid면 refresh로 다시 받음)
+export async function getAppleSigningKeys(refresh = false): Promise<AppleSigningKey[]> {
+  if (!refresh && cachedKeys && cachedKeys.expiresAt > Date.now()) {
+    return cachedKeys.keys;
+  }
+
+  const payload = await upstream.get<AppleKeysResponse>("apple-auth", "https://appleid.apple.com/auth/keys");
+  const keys = Array.isArray(payload.keys) ? payload.keys : [];
+  cachedKeys = { keys, expiresAt: Date.now() + APPLE_KEYS_TTL_MS };
+  return keys;
+}
+
+export type { AppleSigningKey };
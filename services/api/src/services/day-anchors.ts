@@ -0,0 +1,120 @@
+import { formatClockTime, parseClockTime, type TspLocation } from "@tripmate/planner";
+
+import type { DayWindow } from "./meal-slots";
+
+export interface AnchorPlaceData {
+  orderIndex: number;
+  name: string;
+  category: string;
+  address?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  phone?: string | null;
+  memo?: string | null;
+  // Untimed entries (e.g. the night's lodging) go after all timed ones.
+  startTime?: string | null;
+  endTime?: string | null;
+}
+
+// Fixed commitments of one trip day (flights, rental car pickup/return, lodging) that the generated
+// schedule has to fit around.
+export interface DayPlanAnchors {
+  window: DayWindow;
+  start?: TspLocation;
+  end?: TspLocation;
+  leading: AnchorPlaceData[];
+  trailing: AnchorPlaceData[];
+}
+
+// Categories of the fixed entries above; they are not sightseeing or driving stops themselves.
+export const ANCHOR_PLACE_CATEGORIES: ReadonlySet<string> = new Set(["flight", "rentcar", "lodging"]);
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+
+export function createDayPlanAnchors(dayCount: number): DayPlanAnchors[] {
+  return Array.from({ length: dayCount }, () => ({ window: {}, leading: [], trailing: [] }));
+}
+
+export function toKstDateKey(date: Date): string {
+  return new Date(date.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function toKstMinutes(date: Date): number {
+  const shifted = new Date(date.getTime() + KST_OFFSET_MS);
+  return shifted.getUTCHours() * 60 + shifted.getUTCMinutes();
+}
+
+// Trip days are stored as local midnights (see buildTripDates in the planner route).
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function findDayIndex(dayDates: Date[], instant: Date): number {
+  const key = toKstDateKey(instant);
+  return dayDates.findIndex((date) => toDayKey(date) === key);
+}
+
+export function clampClock(minutes: number): string {
+  return formatClockTime(Math.min(Math.max(minutes, 0), MINUTES_PER_DAY - 1));
+}
+
+// The schedule may only begin at `minutes`; the latest such commitment also becomes the start point.
+export function openDayAt(plan: DayPlanAnchors, minutes: number, location?: TspLocation | null) {
+  const current = plan.window.startTime ? parseClockTime(plan.window.startTime) : Number.NEGATIVE_INFINITY;
+  if (minutes < current) {
+    return;
+  }
+
+  plan.window.startTime = clampClock(minutes);
+  if (location) {
+    plan.start = location;
+    plan.window.startPoint = { lat: location.lat, lng: location.lng };
+  }
+}
+
+// The schedule has to reach `location` by `minutes`; the earliest such commitment becomes the end point.
+export function closeDayAt(plan: DayPlanAnchors, minutes: number, location?: TspLocation | null) {
+  const current = plan.window.endTime ? parseClockTime(plan.window.endTime) : Number.POSITIVE_INFINITY;
+  if (minutes > current) {
+    return;
+  }
+
+  plan.window.endTime = clampClock(minutes);
+  if (location) {
+    plan.end = location;
+    plan.window.endPoint = { lat: location.lat, lng: location.lng };
+  }
+}
+
+// Point-only anchors without a time, such as lodging. Flights and rental cars are applied first
+// and keep the start/end they set.
+export function startDayFrom(plan: DayPlanAnchors, location: TspLocation) {
+  if (plan.start) {
+    return;
+  }
+
+  plan.start = location;
+  plan.window.startPoint = { lat: location.lat, lng: location.lng };
+}
+
+export function endDayAt(plan: DayPlanAnchors, location: TspLocation) {
+  if (plan.end) {
+    return;
+  }
+
+  plan.end = location;
+  plan.window.endPoint = { lat: location.lat, lng: location.lng };
+}
+
+export function toAnchorOverrides(plans: DayPlanAnchors[]) {
+  return plans.map((plan) => ({ start: plan.start ?? null, end: plan.end ?? null }));
+}
+
+export function sortAnchorPlaces(places: AnchorPlaceData[]): AnchorPlaceData[] {
+  const toSortKey = (place: AnchorPlaceData) =>
+    place.startTime ? parseClockTime(place.startTime) : Number.POSITIVE_INFINITY;
+  return [...places].sort((a, b) => toSortKey(a) - toSortKey(b));
+}
@@ -0,0 +1,18 @@
+import { createDayPlanAnchors, type DayPlanAnchors } from "./day-anchors";
+import { applyFlightAnchors, type FlightInput } from "./trip-flights";
+import { applyRentcarAnchors, type RentcarInput } from "./trip-rentcars";
+import { applyStayAnchors, type StayInput } from "./trip-stays";
+
+// Timed commitments go first; stays only fill the start/end points they leave open.
+export function buildDayPlans(
+  dayDates: Date[],
+  flights: FlightInput[],
+  rentcars: RentcarInput[],
+  stays: StayInput[]
+): DayPlanAnchors[] {
+  const plans = createDayPlanAnchors(dayDates.length);
+  applyFlightAnchors(plans, flights, dayDates);
+  applyRentcarAnchors(plans, rentcars, dayDates);
+  applyStayAnchors(plans, stays, dayDates);
+  return plans;
+}
@@ -0,0 +1,575 @@
+import { readFileSync } from "fs";
+import path from "path";
+
+import { haversineDistanceKm } from "@tripmate/planner";
+
+import type { RouteEstimateProvider, RoutePoint, RouteTransportMode } from "./route-optimizer";
+import { upstream } from "./upstream-client";
+
+export interface TravelEstimate {
+  distanceKm: number;
+  durationMin: number;
+  provider: RouteEstimateProvider;
+}
+
+export interface TravelPair {
+  from: RoutePoint;
+  to: RoutePoint;
+}
+
+export interface DistanceMatrixProvider {
+  readonly name: string;
+  // Destinations sent per upstream request for one origin.
+  readonly maxBatchSize: number;
+  // Destinations farther than this from the origin are sent one per request instead of batched.
+  readonly maxBatchRadiusKm?: number;
+  // Upstream requests allowed per estimate call; pairs beyond it fall through to the next provider.
+  readonly maxRequests: number;
+  readonly cacheable: boolean;
+  supports(mode: RouteTransportMode): boolean;
+  // Resolves one entry per destination; null means the provider has no route for that pair.
+  estimateBatch(
+    origin: RoutePoint,
+    destinations: RoutePoint[],
+    mode: RouteTransportMode
+  ): Promise<Array<TravelEstimate | null>>;
+}
+
+export interface DistanceMatrixProviderKeys {
+  kakaoKey?: string;
+  odsayKey?: string;
+  fixturePath?: string;
+}
+
+export interface DistanceMatrixClientOptions {
+  providers: DistanceMatrixProvider[];
+  onProviderError?: (provider: DistanceMatrixProvider, error: unknown) => void;
+}
+
+export interface DistanceMatrixClient {
+  estimatePairs(pairs: TravelPair[], mode: RouteTransportMode): Promise<TravelEstimate[]>;
+  estimateMatrix(
+    origins: RoutePoint[],
+    destinations: RoutePoint[],
+    mode: RouteTransportMode
+  ): Promise<TravelEstimate[][]>;
+}
+
+export interface DistanceMatrixFixtureEntry {
+  mode: RouteTransportMode;
+  provider: RouteEstimateProvider;
+  from: { lat: number; lng: number };
+  to: { lat: number; lng: number };
+  distanceKm: number;
+  durationMin: number;
+}
+
+export interface DistanceMatrixFixture {
+  description?: string;
+  entries: DistanceMatrixFixtureEntry[];
+}
+
+interface CacheEntry {
+  estimate: TravelEstimate;
+  expiresAt: number;
+}
+
+interface PairBatch {
+  origin: RoutePoint;
+  pairIndexes: number[];
+}
+
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 5000;
+const COORDINATE_KEY_DECIMALS = 5;
+const REQUEST_CONCURRENCY = 4;
+// Kakao Mobility multi-destination directions accepts up to 30 destinations within a 10 km radius.
+const KAKAO_MAX_DESTINATIONS = 30;
+const KAKAO_MULTI_DESTINATION_RADIUS_M = 10000;
+
+const cache = new Map<string, CacheEntry>();
+const fixtureCache = new Map<string, DistanceMatrixFixture>();
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function toFiniteNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  return null;
+}
+
+function getFallbackSpeedKmh(mode: RouteTransportMode): number {
+  if (mode === "walking") {
+    return 4.5;
+  }
+
+  if (mode === "transit") {
+    return 28;
+  }
+
+  return 35;
+}
+
+function estimateFallbackSegment(
+  from: RoutePoint,
+  to: RoutePoint,
+  mode: RouteTransportMode
+): TravelEstimate {
+  const lineDistanceKm = haversineDistanceKm(from, to);
+  const adjustedDistanceKm = lineDistanceKm * 1.25;
+  const speedKmh = getFallbackSpeedKmh(mode);
+  const durationMin = (adjustedDistanceKm / speedKmh) * 60;
+
+  return {
+    distanceKm: roundTo(adjustedDistanceKm, 2),
+    durationMin: roundTo(durationMin, 1),
+    provider: "fallback"
+  };
+}
+
+function toCoordinateKey(point: { lat: number; lng: number }): string {
+  return `${point.lat.toFixed(COORDINATE_KEY_DECIMALS)},${point.lng.toFixed(COORDINATE_KEY_DECIMALS)}`;
+}
+
+function toPairKey(from: { lat: number; lng: number }, to: { lat: number; lng: number }, mode: RouteTransportMode): string {
+  return `${mode}:${toCoordinateKey(from)}>${toCoordinateKey(to)}`;
+}
+
+function readCache(key: string, now: number): TravelEstimate | null {
+  const entry = cache.get(key);
+  if (!entry) {
+    return null;
+  }
+
+  cache.delete(key);
+  if (entry.expiresAt <= now) {
+    return null;
+  }
+
+  // Re-inserting keeps Map order as least-recently-used first.
+  cache.set(key, entry);
+  return entry.estimate;
+}
+
+function writeCache(key: string, estimate: TravelEstimate, now: number): void {
+  cache.delete(key);
+  cache.set(key, { estimate, expiresAt: now + CACHE_TTL_MS });
+
+  while (cache.size > CACHE_MAX_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey === undefined) {
+      break;
+    }
+    cache.delete(oldestKey);
+  }
+}
+
+export function clearDistanceMatrixCache(): void {
+  cache.clear();
+}
+
+// 카카오 모빌리티 자동차 길찾기 (단건)
+async function estimateWithKakao(from: RoutePoint, to: RoutePoint, apiKey: string): Promise<TravelEstimate | null> {
+  const params = new URLSearchParams({
+    origin: `${from.lng},${from.lat}`,
+    destination: `${to.lng},${to.lat}`,
+    priority: "RECOMMEND",
+    alternatives: "false",
+    road_details: "false"
+  });
+  const endpoint = `https://apis-navi.kakaomobility.com/v1/directions?${params.toString()}`;
+
+  const payload = await upstream.get<unknown>("kakao-mobility", endpoint, {
+    headers: {
+      Authorization: `KakaoAK ${apiKey}`
+    }
+  });
+
+  const summary = (payload as { routes?: Array<{ summary?: { distance?: unknown; duration?: unknown } }> })
+    .routes?.[0]?.summary;
+
+  const distanceMeters = toFiniteNumber(summary?.distance);
+  const durationSeconds = toFiniteNumber(summary?.duration);
+
+  if (distanceMeters === null || durationSeconds === null) {
+    return null;
+  }
+
+  return {
+    distanceKm: roundTo(distanceMeters / 1000, 2),
+    durationMin: roundTo(durationSeconds / 60, 1),
+    provider: "kakao"
+  };
+}
+
+// 카카오 모빌리티 다중 목적지 길찾기
+async function estimateWithKakaoDestinations(
+  origin: RoutePoint,
+  destinations: RoutePoint[],
+  apiKey: string
+): Promise<Array<TravelEstimate | null>> {
+  // Destinations outside the API radius are rejected upstream, so they are not sent at all. The client
+  // already routes them to single-pair requests through maxBatchRadiusKm.
+  const reachable = destinations
+    .map((destination, index) => ({ destination, index }))
+    .filter(({ destination }) => haversineDistanceKm(origin, destination) * 1000 < KAKAO_MULTI_DESTINATION_RADIUS_M);
+
+  const results: Array<TravelEstimate | null> = destinations.map(() => null);
+  if (reachable.length === 0) {
+    return results;
+  }
+
+  const payload = await upstream.request<unknown>("kakao-mobility", {
+    method: "POST",
+    url: "https://apis-navi.kakaomobility.com/v1/destinations/directions",
+    headers: {
+      Authorization: `KakaoAK ${apiKey}`,
+      "Content-Type": "application/json"
+    },
+    data: {
+      origin: { x: String(origin.lng), y: String(origin.lat) },
+      destinations: reachable.map(({ destination, index }) => ({
+        x: String(destination.lng),
+        y: String(destination.lat),
+        key: String(index)
+      })),
+      radius: KAKAO_MULTI_DESTINATION_RADIUS_M,
+      priority: "TIME"
+    }
+  });
+
+  const routes =
+    (payload as {
+      routes?: Array<{ result_code?: unknown; key?: unknown; summary?: { distance?: unknown; duration?: unknown } }>;
+    }).routes ?? [];
+
+  for (const route of routes) {
+    const index = toFiniteNumber(route.key);
+    const distanceMeters = toFiniteNumber(route.summary?.distance);
+    const durationSeconds = toFiniteNumber(route.summary?.duration);
+
+    if (
+      toFiniteNumber(route.result_code) !== 0 ||
+      index === null ||
+      index < 0 ||
+      index >= results.length ||
+      distanceMeters === null ||
+      durationSeconds === null
+    ) {
+      continue;
+    }
+
+    results[index] = {
+      distanceKm: roundTo(distanceMeters / 1000, 2),
+      durationMin: roundTo(durationSeconds / 60, 1),
+      provider: "kakao"
+    };
+  }
+
+  return results;
+}
+
+// ODsay 대중교통 길찾기
+async function estimateWithOdsay(from: RoutePoint, to: RoutePoint, apiKey: string): Promise<TravelEstimate | null> {
+  const params = new URLSearchParams({
+    SX: String(from.lng),
+    SY: String(from.lat),
+    EX: String(to.lng),
+    EY: String(to.lat),
+    apiKey
+  });
+  const endpoint = `https://api.odsay.com/v1/api/searchPubTransPathT?${params.toString()}`;
+
+  const payload = await upstream.get<unknown>("odsay", endpoint);
+
+  const info = (payload as {
+    result?: { path?: Array<{ info?: { totalDistance?: unknown; totalTime?: unknown } }> };
+  }).result?.path?.[0]?.info;
+
+  const distanceMeters = toFiniteNumber(info?.totalDistance);
+  const durationMin = toFiniteNumber(info?.totalTime);
+
+  // ODsay reports "no route" (e.g. pairs closer than 700 m) as an error body, not an HTTP failure.
+  if (distanceMeters === null || durationMin === null) {
+    return null;
+  }
+
+  return {
+    distanceKm: roundTo(distanceMeters / 1000, 2),
+    durationMin: roundTo(durationMin, 1),
+    provider: "odsay"
+  };
+}
+
+export function createKakaoDistanceMatrixProvider(apiKey: string): DistanceMatrixProvider {
+  return {
+    name: "kakao",
+    maxBatchSize: KAKAO_MAX_DESTINATIONS,
+    maxBatchRadiusKm: KAKAO_MULTI_DESTINATION_RADIUS_M / 1000,
+    maxRequests: 40,
+    cacheable: true,
+    supports: () => true,
+    estimateBatch: async (origin, destinations) => {
+      const [destination] = destinations;
+      if (destinations.length === 1 && destination) {
+        return [await estimateWithKakao(origin, destination, apiKey)];
+      }
+
+      return estimateWithKakaoDestinations(origin, destinations, apiKey);
+    }
+  };
+}
+
+export function createOdsayDistanceMatrixProvider(apiKey: string): DistanceMatrixProvider {
+  return {
+    name: "odsay",
+    maxBatchSize: 1,
+    maxRequests: 30,
+    cacheable: true,
+    supports: () => true,
+    estimateBatch: async (origin, destinations) =>
+      Promise.all(destinations.map((destination) => estimateWithOdsay(origin, destination, apiKey)))
+  };
+}
+
+export const haversineDistanceMatrixProvider: DistanceMatrixProvider = {
+  name: "fallback",
+  maxBatchSize: Number.POSITIVE_INFINITY,
+  maxRequests: Number.POSITIVE_INFINITY,
+  cacheable: false,
+  supports: () => true,
+  estimateBatch: async (origin, destinations, mode) =>
+    destinations.map((destination) => estimateFallbackSegment(origin, destination, mode))
+};
+
+// Serves recorded estimates so route optimization can run offline; unknown pairs resolve to null.
+export function createFixtureDistanceMatrixProvider(fixture: DistanceMatrixFixture): DistanceMatrixProvider {
+  const entries = new Map<string, TravelEstimate>();
+  for (const entry of fixture.entries) {
+    entries.set(toPairKey(entry.from, entry.to, entry.mode), {
+      distanceKm: entry.distanceKm,
+      durationMin: entry.durationMin,
+      provider: entry.provider
+    });
+  }
+
+  return {
+    name: "fixture",
+    maxBatchSize: Number.POSITIVE_INFINITY,
+    maxRequests: Number.POSITIVE_INFINITY,
+    cacheable: false,
+    supports: () => true,
+    estimateBatch: async (origin, destinations, mode) =>
+      destinations.map((destination) => entries.get(toPairKey(origin, destination, mode)) ?? null)
+  };
+}
+
+function isFixtureEntry(value: unknown): value is DistanceMatrixFixtureEntry {
+  const entry = value as Partial<DistanceMatrixFixtureEntry> | null;
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    (entry.mode === "driving" || entry.mode === "transit" || entry.mode === "walking") &&
+    (entry.provider === "kakao" || entry.provider === "odsay" || entry.provider === "fallback") &&
+    typeof entry.from?.lat === "number" &&
+    typeof entry.from?.lng === "number" &&
+    typeof entry.to?.lat === "number" &&
+    typeof entry.to?.lng === "number" &&
+    typeof entry.distanceKm === "number" &&
+    typeof entry.durationMin === "number"
+  );
+}
+
+export function loadDistanceMatrixFixture(filePath: string): DistanceMatrixFixture {
+  const resolvedPath = path.resolve(filePath);
+  const cached = fixtureCache.get(resolvedPath);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = JSON.parse(readFileSync(resolvedPath, "utf8")) as { description?: unknown; entries?: unknown };
+  if (!Array.isArray(parsed.entries) || !parsed.entries.every(isFixtureEntry)) {
+    throw new Error(`Invalid distance matrix fixture: ${resolvedPath}`);
+  }
+
+  const fixture: DistanceMatrixFixture = {
+    ...(typeof parsed.description === "string" ? { description: parsed.description } : {}),
+    entries: parsed.entries
+  };
+  fixtureCache.set(resolvedPath, fixture);
+  return fixture;
+}
+
+export function resolveProviderKeys(): DistanceMatrixProviderKeys {
+  const kakao =
+    process.env.KAKAO_REST_API_KEY ??
+    process.env.KAKAO_API_KEY ??
+    process.env.KAKAO_KEY;
+  const odsay = process.env.ODSAY_API_KEY ?? process.env.ODSAY_KEY;
+  const fixturePath = process.env.ROUTE_MATRIX_FIXTURE_PATH;
+
+  return {
+    kakaoKey: kakao?.trim() || undefined,
+    odsayKey: odsay?.trim() || undefined,
+    fixturePath: fixturePath?.trim() || undefined
+  };
+}
+
+// A configured fixture replaces the live providers; the haversine provider always closes the chain.
+export function resolveDistanceMatrixProviders(
+  mode: RouteTransportMode,
+  keys: DistanceMatrixProviderKeys
+): DistanceMatrixProvider[] {
+  if (keys.fixturePath) {
+    return [
+      createFixtureDistanceMatrixProvider(loadDistanceMatrixFixture(keys.fixturePath)),
+      haversineDistanceMatrixProvider
+    ];
+  }
+
+  const kakao = keys.kakaoKey ? createKakaoDistanceMatrixProvider(keys.kakaoKey) : null;
+  const odsay = keys.odsayKey ? createOdsayDistanceMatrixProvider(keys.odsayKey) : null;
+  const live = mode === "transit" ? [odsay, kakao] : [kakao, odsay];
+
+  return [
+    ...live.filter((provider): provider is DistanceMatrixProvider => provider !== null),
+    haversineDistanceMatrixProvider
+  ];
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex];
+      nextIndex += 1;
+      await worker(item);
+    }
+  });
+
+  await Promise.all(runners);
+}
+
+// Groups pending pairs by origin and splits each group into provider-sized batches. Pairs beyond the
+// provider's batch radius get a batch each, after the shared ones so a tight request budget goes to
+// the batches that cover the most pairs.
+function buildBatches(pairs: TravelPair[], pendingIndexes: number[], provider: DistanceMatrixProvider): PairBatch[] {
+  const { maxBatchSize, maxBatchRadiusKm } = provider;
+  const byOrigin = new Map<string, PairBatch>();
+  const singles: PairBatch[] = [];
+  for (const pairIndex of pendingIndexes) {
+    const { from: origin, to } = pairs[pairIndex];
+    if (maxBatchRadiusKm !== undefined && haversineDistanceKm(origin, to) >= maxBatchRadiusKm) {
+      singles.push({ origin, pairIndexes: [pairIndex] });
+      continue;
+    }
+
+    const key = toCoordinateKey(origin);
+    const group = byOrigin.get(key) ?? { origin, pairIndexes: [] };
+    group.pairIndexes.push(pairIndex);
+    byOrigin.set(key, group);
+  }
+
+  const batches: PairBatch[] = [];
+  for (const group of byOrigin.values()) {
+    for (let offset = 0; offset < group.pairIndexes.length; offset += maxBatchSize) {
+      batches.push({
+        origin: group.origin,
+        pairIndexes: group.pairIndexes.slice(offset, offset + maxBatchSize)
+      });
+    }
+  }
+
+  return [...batches, ...singles];
+}
+
+export function createDistanceMatrixClient(options: DistanceMatrixClientOptions): DistanceMatrixClient {
+  // A provider that failed once is skipped for the rest of this client's lifetime.
+  const failedProviders = new Set<DistanceMatrixProvider>();
+
+  const estimatePairs = async (pairs: TravelPair[], mode: RouteTransportMode): Promise<TravelEstimate[]> => {
+    const now = Date.now();
+    const results: Array<TravelEstimate | null> = pairs.map(({ from, to }) => {
+      if (toCoordinateKey(from) === toCoordinateKey(to)) {
+        return { distanceKm: 0, durationMin: 0, provider: "fallback" };
+      }
+      return readCache(toPairKey(from, to, mode), now);
+    });
+
+    for (const provider of options.providers) {
+      if (failedProviders.has(provider) || !provider.supports(mode)) {
+        continue;
+      }
+
+      const pendingIndexes = results.flatMap((result, index) => (result ? [] : [index]));
+      if (pendingIndexes.length === 0) {
+        break;
+      }
+
+      const batches = buildBatches(pairs, pendingIndexes, provider).slice(0, provider.maxRequests);
+
+      await runWithConcurrency(batches, REQUEST_CONCURRENCY, async (batch) => {
+        if (failedProviders.has(provider)) {
+          return;
+        }
+
+        try {
+          const estimates = await provider.estimateBatch(
+            batch.origin,
+            batch.pairIndexes.map((pairIndex) => pairs[pairIndex].to),
+            mode
+          );
+
+          batch.pairIndexes.forEach((pairIndex, index) => {
+            const estimate = estimates[index];
+            if (!estimate) {
+              return;
+            }
+
+            results[pairIndex] = estimate;
+            if (provider.cacheable) {
+              const { from, to } = pairs[pairIndex];
+              writeCache(toPairKey(from, to, mode), estimate, Date.now());
+            }
+          });
+        } catch (error) {
+          if (!failedProviders.has(provider)) {
+            failedProviders.add(provider);
+            options.onProviderError?.(provider, error);
+          }
+        }
+      });
+    }
+
+    return results.map(
+      (result, index) => result ?? estimateFallbackSegment(pairs[index].from, pairs[index].to, mode)
+    );
+  };
+
+  const estimateMatrix = async (
+    origins: RoutePoint[],
+    destinations: RoutePoint[],
+    mode: RouteTransportMode
+  ): Promise<TravelEstimate[][]> => {
+    const pairs = origins.flatMap((from) => destinations.map((to) => ({ from, to })));
+    const estimates = await estimatePairs(pairs, mode);
+
+    return origins.map((_, originIndex) =>
+      estimates.slice(originIndex * destinations.length, (originIndex + 1) * destinations.length)
+    );
+  };
+
+  return { estimatePairs, estimateMatrix };
+}
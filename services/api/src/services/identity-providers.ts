@@ -0,0 +1,215 @@
+import { createPublicKey } from "crypto";
+import jwt from "jsonwebtoken";
+
+import type { AppleSigningKey } from "./apple-auth.service";
+import type { KakaoUserResponse } from "./kakao-auth.service";
+import type { NaverUserResponse } from "./naver-auth.service";
+
+export type IdentityProvider = "kakao" | "naver" | "apple" | "fake";
+
+export const IDENTITY_PROVIDERS: readonly IdentityProvider[] = ["kakao", "naver", "apple", "fake"];
+
+// Request body field carrying the provider credential, named after what each SDK hands the app.
+export const CREDENTIAL_FIELDS = {
+  kakao: "kakaoAccessToken",
+  naver: "naverAccessToken",
+  apple: "identityToken",
+  fake: "credential"
+} as const satisfies Record<IdentityProvider, string>;
+
+export interface VerifiedIdentity {
+  provider: IdentityProvider;
+  // Stable account id at the provider.
+  subject: string;
+  email: string | null;
+  nickname: string | null;
+  profileImage: string | null;
+}
+
+export type VerifyResult =
+  | { ok: true; identity: VerifiedIdentity }
+  | { ok: false; code: "IDENTITY_TOKEN_INVALID" };
+
+export interface IdentityVerifierOptions {
+  fetchKakaoUser: (accessToken: string) => Promise<KakaoUserResponse>;
+  fetchNaverUser: (accessToken: string) => Promise<NaverUserResponse>;
+  fetchAppleKeys: (refresh?: boolean) => Promise<AppleSigningKey[]>;
+  // Bundle ids / service ids an Apple identity token may be issued for. Empty disables Apple.
+  appleClientIds: string[];
+  // Accepts `fake:<subject>` credentials; never enabled in production.
+  fakeEnabled: boolean;
+}
+
+export interface IdentityVerifier {
+  isEnabled(provider: IdentityProvider): boolean;
+  verify(provider: IdentityProvider, credential: string): Promise<VerifyResult>;
+}
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+const FAKE_PREFIX = "fake:";
+
+export function isIdentityProvider(value: unknown): value is IdentityProvider {
+  return typeof value === "string" && (IDENTITY_PROVIDERS as readonly string[]).includes(value);
+}
+
+function textOrNull(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// The upstream client reports provider answers as "<provider> responded with HTTP <status>".
+function isRejectedCredential(error: unknown): boolean {
+  return error instanceof Error && /responded with HTTP (400|401|403)\b/.test(error.message);
+}
+
+function rejected(): VerifyResult {
+  return { ok: false, code: "IDENTITY_TOKEN_INVALID" };
+}
+
+// Builds a credential for the fake provider, e.g. `fake:parent-01?email=mom@example.com&nickname=엄마`.
+export function createFakeCredential(identity: { subject: string; email?: string; nickname?: string }): string {
+  const params = new URLSearchParams();
+  if (identity.email) params.set("email", identity.email);
+  if (identity.nickname) params.set("nickname", identity.nickname);
+  const query = params.toString();
+  return `${FAKE_PREFIX}${encodeURIComponent(identity.subject)}${query ? `?${query}` : ""}`;
+}
+
+function parseFakeCredential(credential: string): VerifiedIdentity | null {
+  if (!credential.startsWith(FAKE_PREFIX)) {
+    return null;
+  }
+
+  const [rawSubject, query = ""] = credential.slice(FAKE_PREFIX.length).split("?", 2);
+  let subject: string | null;
+  try {
+    subject = textOrNull(decodeURIComponent(rawSubject));
+  } catch {
+    return null;
+  }
+  if (!subject) {
+    return null;
+  }
+
+  const params = new URLSearchParams(query);
+  return {
+    provider: "fake",
+    subject,
+    email: textOrNull(params.get("email")),
+    nickname: textOrNull(params.get("nickname")),
+    profileImage: null
+  };
+}
+
+function toKakaoIdentity(user: KakaoUserResponse): VerifiedIdentity {
+  return {
+    provider: "kakao",
+    subject: String(user.id),
+    email: textOrNull(user.kakao_account?.email),
+    nickname: textOrNull(user.kakao_account?.profile?.nickname),
+    profileImage: textOrNull(user.kakao_account?.profile?.profile_image_url)
+  };
+}
+
+function toNaverIdentity(user: NaverUserResponse): VerifiedIdentity | null {
+  const profile = user.resultcode === "00" ? user.response : undefined;
+  if (!profile?.id) {
+    return null;
+  }
+
+  return {
+    provider: "naver",
+    subject: profile.id,
+    email: textOrNull(profile.email),
+    nickname: textOrNull(profile.nickname) ?? textOrNull(profile.name),
+    profileImage: textOrNull(profile.profile_image)
+  };
+}
+
+export function createIdentityVerifier(options: IdentityVerifierOptions): IdentityVerifier {
+  function isEnabled(provider: IdentityProvider): boolean {
+    switch (provider) {
+      case "kakao":
+      case "naver":
+        return true;
+      case "apple":
+        return options.appleClientIds.length > 0;
+      case "fake":
+        return options.fakeEnabled;
+    }
+  }
+
+  // Apple sends a signed identity token instead of an access token, so it is checked locally
+  // against Apple's published keys. The key list is fetched again once when the kid is unknown.
+  async function verifyAppleToken(identityToken: string): Promise<VerifiedIdentity | null> {
+    const decoded = jwt.decode(identityToken, { complete: true });
+    const kid = decoded && typeof decoded === "object" ? decoded.header.kid : undefined;
+    if (!kid) {
+      return null;
+    }
+
+    let key = (await options.fetchAppleKeys()).find((candidate) => candidate.kid === kid);
+    if (!key) {
+      key = (await options.fetchAppleKeys(true)).find((candidate) => candidate.kid === kid);
+    }
+    if (!key) {
+      return null;
+    }
+
+    let payload: jwt.JwtPayload | string;
+    try {
+      payload = jwt.verify(identityToken, createPublicKey({ key, format: "jwk" }), {
+        algorithms: ["RS256"],
+        issuer: APPLE_ISSUER,
+        audience: options.appleClientIds as [string, ...string[]]
+      });
+    } catch {
+      return null;
+    }
+
+    if (typeof payload === "string" || !payload.sub) {
+      return null;
+    }
+
+    return {
+      provider: "apple",
+      subject: payload.sub,
+      email: textOrNull(payload.email),
+      // Apple only shares the name with the app, on the first sign-in.
+      nickname: null,
+      profileImage: null
+    };
+  }
+
+  async function verify(provider: IdentityProvider, credential: string): Promise<VerifyResult> {
+    if (!isEnabled(provider)) {
+      throw new Error(`${provider} login is disabled`);
+    }
+
+    try {
+      let identity: VerifiedIdentity | null;
+      switch (provider) {
+        case "kakao":
+          identity = toKakaoIdentity(await options.fetchKakaoUser(credential));
+          break;
+        case "naver":
+          identity = toNaverIdentity(await options.fetchNaverUser(credential));
+          break;
+        case "apple":
+          identity = await verifyAppleToken(credential);
+          break;
+        case "fake":
+          identity = parseFakeCredential(credential);
+          break;
+      }
+
+      return identity ? { ok: true, identity } : rejected();
+    } catch (error) {
+      if (isRejectedCredential(error)) {
+        return rejected();
+      }
+      throw error;
+    }
+  }
+
+  return { isEnabled, verify };
+}
@@ -1,4 +1,5 @@
-import axios from "axios";
+import { env } from "../config/env";
+import { upstream } from "./upstream-client";
 
 interface KakaoTokenResponse {
   access_token: string;
@@ -19,14 +20,29 @@ interface KakaoUserResponse {
 }
 
 export async function getKakaoUserByToken(kakaoAccessToken: string): Promise<KakaoUserResponse> {
-  const response = await axios.get<KakaoUserResponse>("https://kapi.kakao.com/v2/user/me", {
+  return upstream.get<KakaoUserResponse>("kakao-auth", "https://kapi.kakao.com/v2/user/me", {
     headers: {
       Authorization: `Bearer ${kakaoAccessToken}`,
       "Content-Type": "application/x-www-form-urlencoded;charset=utf-8"
     }
   });
+}
+
+// 회원 탈퇴 시 카카오 앱 연결 끊기 (어드민 키로 대상 회원번호 지정)
+export async function unlinkKakaoUser(kakaoUserId: string): Promise<void> {
+  if (!env.kakaoAdminKey) {
+    throw new Error("KAKAO_ADMIN_KEY is not configured");
+  }
 
-  return response.data;
+  await upstream.request("kakao-auth", {
+    method: "POST",
+    url: "https://kapi.kakao.com/v1/user/unlink",
+    headers: {
+      Authorization: `KakaoAK ${env.kakaoAdminKey}`,
+      "Content-Type": "application/x-www-form-urlencoded;charset=utf-8"
+    },
+    data: new URLSearchParams({ target_id_type: "user_id", target_id: kakaoUserId }).toString()
+  });
 }
 
 export type { KakaoTokenResponse, KakaoUserResponse };
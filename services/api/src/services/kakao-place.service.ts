@@ -1,5 +1,6 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { responseCache } from "../config/response-cache";
+import { upstream } from "./upstream-client";
 
 interface KakaoPlaceItem {
   id: string;
@@ -44,47 +45,53 @@ export async function searchPlace(params: {
   page?: number;
   size?: number;
 }) {
-  const response = await axios.get<KakaoPlaceResponse>(
-    "https://dapi.kakao.com/v2/local/search/keyword.json",
-    {
-      headers: {
-        Authorization: `KakaoAK ${env.kakaoRestApiKey}`
-      },
-      params: {
-        query: params.query,
-        x: params.x,
-        y: params.y,
-        radius: params.radius,
-        page: params.page ?? 1,
-        size: params.size ?? 15
-      }
-    }
-  );
+  const query = {
+    query: params.query,
+    x: params.x,
+    y: params.y,
+    radius: params.radius,
+    page: params.page ?? 1,
+    size: params.size ?? 15
+  };
 
-  return response.data;
+  return responseCache.fetch("kakao.keyword", query, async () => {
+    return upstream.get<KakaoPlaceResponse>(
+      "kakao-local",
+      "https://dapi.kakao.com/v2/local/search/keyword.json",
+      {
+        headers: {
+          Authorization: `KakaoAK ${env.kakaoRestApiKey}`
+        },
+        params: query
+      }
+    );
+  });
 }
 
 // 주소 → 좌표 변환
 export async function addressToCoord(address: string) {
-  const response = await axios.get<KakaoAddressResponse>(
-    "https://dapi.kakao.com/v2/local/search/address.json",
-    {
-      headers: {
-        Authorization: `KakaoAK ${env.kakaoRestApiKey}`
-      },
-      params: { query: address }
-    }
-  );
+  return responseCache.fetch("kakao.address", { query: address }, async () => {
+    const payload = await upstream.get<KakaoAddressResponse>(
+      "kakao-local",
+      "https://dapi.kakao.com/v2/local/search/address.json",
+      {
+        headers: {
+          Authorization: `KakaoAK ${env.kakaoRestApiKey}`
+        },
+        params: { query: address }
+      }
+    );
 
-  const doc = response.data.documents?.[0];
-  if (!doc) return null;
+    const doc = payload.documents?.[0];
+    if (!doc) return null;
 
-  return {
-    address: doc.address_name,
-    roadAddress: doc.road_address?.address_name ?? null,
-    lat: parseFloat(doc.y),
-    lng: parseFloat(doc.x)
-  };
+    return {
+      address: doc.address_name,
+      roadAddress: doc.road_address?.address_name ?? null,
+      lat: parseFloat(doc.y),
+      lng: parseFloat(doc.x)
+    };
+  });
 }
 
 export type { KakaoPlaceItem, KakaoPlaceResponse };
@@ -0,0 +1,365 @@
+import {
+  estimateTravelMinutes,
+  formatClockTime,
+  parseClockTime,
+  parseTimeWindows,
+  scheduleDay,
+  type CandidateScore,
+  type DayScheduleResult,
+  type ScheduleStop
+} from "@tripmate/planner";
+
+import { parseNaverCoordinate, type NaverLocalItem } from "./naver-local";
+
+export type MealSlotKind = "breakfast" | "lunch" | "cafe" | "dinner";
+
+interface MealSlotDefinition {
+  kind: MealSlotKind;
+  label: string;
+  time: string;
+  durationMinutes: number;
+  queryKeyword: string;
+  acceptsCategory: (category: string) => boolean;
+}
+
+export interface MealRestaurant {
+  key: string;
+  item: NaverLocalItem;
+  sourceSlot: MealSlotKind;
+  // Picked by the user; placed before any searched candidate.
+  selected?: boolean;
+  // Preference score of a searched candidate; see planner-preferences.
+  score?: CandidateScore;
+  lat?: number;
+  lng?: number;
+}
+
+export interface DayStopInput {
+  lat?: number | null;
+  lng?: number | null;
+  // Known opening hours in TripPlace.openingHours form; the stop is only visited inside them.
+  openingHours?: string | null;
+}
+
+// Usable part of a day, e.g. after landing or before heading back to the airport. Stops and meals
+// that would not finish before endTime (including the ride to endPoint) are left out.
+export interface DayWindow {
+  startTime?: string;
+  endTime?: string;
+  startPoint?: { lat: number; lng: number };
+  endPoint?: { lat: number; lng: number };
+}
+
+export type DayTimelineEntry<T> =
+  | { type: "stop"; stop: T; startTime: string; endTime: string }
+  | {
+      type: "meal";
+      slot: MealSlotKind;
+      label: string;
+      restaurant: MealRestaurant;
+      startTime: string;
+      endTime: string;
+    };
+
+export interface DayTimeline<T> {
+  entries: DayTimelineEntry<T>[];
+  // Stops that did not fit the day (closed, or no time left before endTime), in route order.
+  unplaced: T[];
+}
+
+interface LocatedPoint {
+  id: string;
+  lat: number;
+  lng: number;
+}
+
+interface PlannedMeal {
+  id: string;
+  definition: MealSlotDefinition;
+  restaurant: MealRestaurant;
+  point: LocatedPoint | null;
+  startTime: number;
+}
+
+const DAY_START_TIME = "09:00";
+// Without a window the day runs until midnight.
+const DAY_END_TIME = "24:00";
+const STOP_DWELL_MINUTES = 90;
+// A meal may start this much after its slot time so the stop before it can finish.
+const MEAL_DELAY_MINUTES = 30;
+
+const CAFE_CATEGORY_PATTERN = /카페|디저트|베이커리|제과|cafe|dessert/i;
+const BAR_CATEGORY_PATTERN = /술집|주점|호프|포차|와인바|칵테일|pub|bar/i;
+
+const isMealCategory = (category: string): boolean =>
+  !CAFE_CATEGORY_PATTERN.test(category) && !BAR_CATEGORY_PATTERN.test(category);
+const isCafeCategory = (category: string): boolean => CAFE_CATEGORY_PATTERN.test(category);
+
+const MEAL_SLOT_DEFINITIONS: Record<MealSlotKind, MealSlotDefinition> = {
+  breakfast: {
+    kind: "breakfast",
+    label: "아침",
+    time: "08:30",
+    durationMinutes: 45,
+    queryKeyword: "아침식사",
+    acceptsCategory: isMealCategory
+  },
+  lunch: {
+    kind: "lunch",
+    label: "점심",
+    time: "12:00",
+    durationMinutes: 60,
+    queryKeyword: "맛집",
+    acceptsCategory: isMealCategory
+  },
+  cafe: {
+    kind: "cafe",
+    label: "카페",
+    time: "15:00",
+    durationMinutes: 40,
+    queryKeyword: "카페",
+    acceptsCategory: isCafeCategory
+  },
+  dinner: {
+    kind: "dinner",
+    label: "저녁",
+    time: "18:00",
+    durationMinutes: 90,
+    queryKeyword: "저녁 맛집",
+    acceptsCategory: isMealCategory
+  }
+};
+
+export const MEAL_SLOT_KINDS: readonly MealSlotKind[] = ["breakfast", "lunch", "cafe", "dinner"];
+export const DEFAULT_MEAL_SLOTS: readonly MealSlotKind[] = ["lunch", "dinner"];
+
+export function isMealSlotKind(value: unknown): value is MealSlotKind {
+  return typeof value === "string" && (MEAL_SLOT_KINDS as readonly string[]).includes(value);
+}
+
+export function buildMealSearchQuery(destination: string, slot: MealSlotKind): string {
+  return `${destination} ${MEAL_SLOT_DEFINITIONS[slot].queryKeyword}`;
+}
+
+export function toMealRestaurant(item: NaverLocalItem, sourceSlot: MealSlotKind): MealRestaurant {
+  const lat = parseNaverCoordinate(item.mapy, 90);
+  const lng = parseNaverCoordinate(item.mapx, 180);
+
+  return {
+    key: `${item.title.trim()}|${(item.roadAddress || item.address || "").trim()}`,
+    item,
+    sourceSlot,
+    ...(lat !== undefined ? { lat } : {}),
+    ...(lng !== undefined ? { lng } : {})
+  };
+}
+
+// A user pick counts as found by the cafe query or the lunch query, depending on its category.
+export function toSelectedMealRestaurant(item: NaverLocalItem): MealRestaurant {
+  const sourceSlot = isCafeCategory(item.category) ? "cafe" : "lunch";
+  return { ...toMealRestaurant(item, sourceSlot), selected: true };
+}
+
+// Meal slots across the whole trip that the given restaurants cannot fill by category, one
+// restaurant per slot. Zero means no further restaurant search is needed.
+export function countUncoveredMealSlots(
+  dayCount: number,
+  slots: readonly MealSlotKind[],
+  restaurants: MealRestaurant[]
+): number {
+  const remaining = [...restaurants];
+  let uncovered = 0;
+
+  for (const slot of new Set(slots)) {
+    const definition = MEAL_SLOT_DEFINITIONS[slot];
+    for (let day = 0; day < dayCount; day += 1) {
+      const index = remaining.findIndex((restaurant) => definition.acceptsCategory(restaurant.item.category));
+      if (index === -1) {
+        uncovered += 1;
+      } else {
+        remaining.splice(index, 1);
+      }
+    }
+  }
+
+  return uncovered;
+}
+
+function toLocatedPoint(id: string, lat: unknown, lng: unknown): LocatedPoint | null {
+  if (typeof lat !== "number" || typeof lng !== "number") {
+    return null;
+  }
+
+  return { id, lat, lng };
+}
+
+function travelMinutesBetween(from: LocatedPoint | null, to: LocatedPoint | null): number {
+  return from && to ? estimateTravelMinutes(from, to) : 0;
+}
+
+// Prefers the user's picks, then restaurants found by the slot's own search query, then the
+// closest to the previous stop.
+function pickRestaurant(
+  definition: MealSlotDefinition,
+  previous: LocatedPoint | null,
+  restaurants: MealRestaurant[],
+  usedKeys: Set<string>
+): MealRestaurant | null {
+  const matching = restaurants.filter(
+    (restaurant) =>
+      !usedKeys.has(restaurant.key) && definition.acceptsCategory(restaurant.item.category)
+  );
+  const selected = matching.filter((restaurant) => restaurant.selected);
+  const ownSource = matching.filter((restaurant) => restaurant.sourceSlot === definition.kind);
+  const pool = selected.length > 0 ? selected : ownSource.length > 0 ? ownSource : matching;
+
+  let best: MealRestaurant | null = null;
+  let bestCost = Number.POSITIVE_INFINITY;
+  let bestScore = 0;
+
+  // Each preference point is worth one minute of detour; unknown distances fall back to the score.
+  for (const restaurant of pool) {
+    const point = toLocatedPoint(restaurant.key, restaurant.lat, restaurant.lng);
+    const score = restaurant.score?.score ?? 0;
+    const distance =
+      previous && point ? travelMinutesBetween(previous, point) : Number.POSITIVE_INFINITY;
+    const cost = distance - score;
+
+    if (!best || cost < bestCost || (cost === bestCost && score > bestScore)) {
+      best = restaurant;
+      bestCost = cost;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// Stops keep their route order and meals are pinned to their slot time; the planner's day
+// scheduler times everything and moves a stop past a meal only when it would overrun it.
+export function insertMealSlots<T extends DayStopInput>(
+  stops: T[],
+  slots: readonly MealSlotKind[],
+  restaurants: MealRestaurant[],
+  usedKeys: Set<string>,
+  window: DayWindow = {}
+): DayTimeline<T> {
+  const windowStart = window.startTime ? parseClockTime(window.startTime) : undefined;
+  const windowEnd = parseClockTime(window.endTime ?? DAY_END_TIME);
+  const startPoint = window.startPoint
+    ? toLocatedPoint("window-start", window.startPoint.lat, window.startPoint.lng)
+    : null;
+  const endPoint = window.endPoint
+    ? toLocatedPoint("window-end", window.endPoint.lat, window.endPoint.lng)
+    : null;
+  // Meals that would already be over when the day starts are skipped rather than pushed later.
+  const pending = [...new Set(slots)]
+    .map((slot) => MEAL_SLOT_DEFINITIONS[slot])
+    .filter(
+      (definition) =>
+        windowStart === undefined || parseClockTime(definition.time) + definition.durationMinutes > windowStart
+    )
+    .sort((a, b) => parseClockTime(a.time) - parseClockTime(b.time));
+  const dayStart =
+    windowStart ??
+    Math.min(parseClockTime(DAY_START_TIME), pending[0] ? parseClockTime(pending[0].time) : windowEnd);
+  if (windowEnd <= dayStart) {
+    return { entries: [], unplaced: [...stops] };
+  }
+
+  // The scheduler needs coordinates on every stop; unlocated ones get a placeholder and travel
+  // to or from them counts as zero, as it always has here.
+  const points = new Map<string, LocatedPoint | null>();
+  const toScheduleStop = (id: string, point: LocatedPoint | null): ScheduleStop => {
+    points.set(id, point);
+    return { id, lat: point?.lat ?? 0, lng: point?.lng ?? 0 };
+  };
+  const stopItems = stops.map((stop, index) => {
+    const openingHours = stop.openingHours ? parseTimeWindows(stop.openingHours) : null;
+    return {
+      ...toScheduleStop(`stop-${index}`, toLocatedPoint(`stop-${index}`, stop.lat, stop.lng)),
+      ...(openingHours ? { openingHours } : {})
+    };
+  });
+  const startLocation = startPoint ? toScheduleStop(startPoint.id, startPoint) : null;
+  const endLocation = endPoint ? toScheduleStop(endPoint.id, endPoint) : null;
+  const travel = (from: { id: string }, to: { id: string }) =>
+    travelMinutesBetween(points.get(from.id) ?? null, points.get(to.id) ?? null);
+
+  const meals: PlannedMeal[] = [];
+  const run = (): DayScheduleResult =>
+    scheduleDay(
+      [
+        ...stopItems,
+        ...meals.map((meal) => ({
+          ...toScheduleStop(meal.id, meal.point),
+          fixedStartTime: formatClockTime(meal.startTime),
+          duration: meal.definition.durationMinutes
+        }))
+      ],
+      {
+        dayStartTime: formatClockTime(dayStart),
+        dayEndTime: formatClockTime(windowEnd),
+        startLocation,
+        endLocation,
+        defaultDwellMinutes: STOP_DWELL_MINUTES,
+        travelMinutes: travel,
+        keepOrder: true
+      }
+    );
+
+  // Each meal's restaurant is picked near wherever the schedule so far has the traveller at meal
+  // time; a stop running slightly past the slot time pushes the meal back instead of moving later.
+  const reservedKeys = new Set(usedKeys);
+  for (const definition of pending) {
+    const mealTime = parseClockTime(definition.time);
+    const timeline = run().timeline;
+    const started = timeline.filter((visit) => parseClockTime(visit.startTime) < mealTime);
+    const overrunning = started[started.length - 1];
+    const previousVisit =
+      overrunning && parseClockTime(overrunning.departureTime) <= mealTime + MEAL_DELAY_MINUTES
+        ? overrunning
+        : started.filter((visit) => parseClockTime(visit.departureTime) <= mealTime).pop();
+    const previous = previousVisit ? points.get(previousVisit.id) ?? null : startPoint;
+    const restaurant = pickRestaurant(definition, previous, restaurants, reservedKeys);
+    if (!restaurant) continue;
+
+    const point = toLocatedPoint(restaurant.key, restaurant.lat, restaurant.lng);
+    const readyAt = previousVisit ? parseClockTime(previousVisit.departureTime) : dayStart;
+    const startTime = Math.max(mealTime, readyAt + travelMinutesBetween(previous, point));
+    const endTime = startTime + definition.durationMinutes;
+    if (endTime + travelMinutesBetween(point, endPoint) > windowEnd) continue;
+
+    reservedKeys.add(restaurant.key);
+    meals.push({ id: `meal-${definition.kind}`, definition, restaurant, point, startTime });
+  }
+
+  const mealsById = new Map(meals.map((meal) => [meal.id, meal]));
+  const stopAt = (id: string): T | undefined =>
+    id.startsWith("stop-") ? stops[Number(id.slice("stop-".length))] : undefined;
+  const schedule = run();
+  const entries = schedule.timeline.flatMap((visit): DayTimelineEntry<T>[] => {
+    const meal = mealsById.get(visit.id);
+    if (meal) {
+      usedKeys.add(meal.restaurant.key);
+      return [
+        {
+          type: "meal",
+          slot: meal.definition.kind,
+          label: meal.definition.label,
+          restaurant: meal.restaurant,
+          startTime: visit.startTime,
+          endTime: visit.departureTime
+        }
+      ];
+    }
+
+    const stop = stopAt(visit.id);
+    return stop ? [{ type: "stop", stop, startTime: visit.startTime, endTime: visit.departureTime }] : [];
+  });
+  // A meal that loses its slot is simply not served; only stops are reported back.
+  const unplacedIds = new Set(schedule.unscheduled.map((item) => item.id));
+  const unplaced = stops.filter((_, index) => unplacedIds.has(`stop-${index}`));
+
+  return { entries, unplaced };
+}
@@ -1,5 +1,6 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { responseCache } from "../config/response-cache";
+import { upstream } from "./upstream-client";
 
 function withServiceKey(url: string): string {
   const key = encodeURIComponent(env.dataGoKrApiKey);
@@ -48,22 +49,25 @@ export async function searchHospitals(params: {
   lng: number;
   pageNo?: number;
 }) {
-  const response = await axios.get<DataGoResponse<HospitalItem>>(
-    withServiceKey(
-      "https://apis.data.go.kr/B552657/HsptlAsembySearchService/getHsptlMdcncListInfoInqire"
-    ),
-    {
-      params: {
-        WGS84_LAT: params.lat,
-        WGS84_LON: params.lng,
-        pageNo: params.pageNo ?? 1,
-        numOfRows: 10,
-        _type: "json"
-      }
-    }
-  );
+  const query = {
+    WGS84_LAT: params.lat,
+    WGS84_LON: params.lng,
+    pageNo: params.pageNo ?? 1,
+    numOfRows: 10,
+    _type: "json"
+  };
+
+  return responseCache.fetch("medical.hospitals", query, async () => {
+    const payload = await upstream.get<DataGoResponse<HospitalItem>>(
+      "nemc",
+      withServiceKey(
+        "https://apis.data.go.kr/B552657/HsptlAsembySearchService/getHsptlMdcncListInfoInqire"
+      ),
+      { params: query }
+    );
 
-  return normalizeItems(response.data?.response?.body?.items?.item);
+    return normalizeItems(payload?.response?.body?.items?.item);
+  });
 }
 
 // 약국 검색 (위치 기반)
@@ -72,22 +76,25 @@ export async function searchPharmacies(params: {
   lng: number;
   pageNo?: number;
 }) {
-  const response = await axios.get<DataGoResponse<PharmacyItem>>(
-    withServiceKey(
-      "https://apis.data.go.kr/B552657/ErmctInsttInfoInqireService/getParmacyListInfoInqire"
-    ),
-    {
-      params: {
-        WGS84_LAT: params.lat,
-        WGS84_LON: params.lng,
-        pageNo: params.pageNo ?? 1,
-        numOfRows: 10,
-        _type: "json"
-      }
-    }
-  );
+  const query = {
+    WGS84_LAT: params.lat,
+    WGS84_LON: params.lng,
+    pageNo: params.pageNo ?? 1,
+    numOfRows: 10,
+    _type: "json"
+  };
+
+  return responseCache.fetch("medical.pharmacies", query, async () => {
+    const payload = await upstream.get<DataGoResponse<PharmacyItem>>(
+      "nemc",
+      withServiceKey(
+        "https://apis.data.go.kr/B552657/ErmctInsttInfoInqireService/getParmacyListInfoInqire"
+      ),
+      { params: query }
+    );
 
-  return normalizeItems(response.data?.response?.body?.items?.item);
+    return normalizeItems(payload?.response?.body?.items?.item);
+  });
 }
 
 export type { HospitalItem, PharmacyItem };
@@ -0,0 +1,24 @@
+import { upstream } from "./upstream-client";
+
+interface NaverUserResponse {
+  resultcode: string;
+  message: string;
+  response?: {
+    id: string;
+    email?: string;
+    nickname?: string;
+    name?: string;
+    profile_image?: string;
+  };
+}
+
+// 네이버 로그인 SDK가 준 액세스 토큰으로 회원 프로필 조회
+export async function getNaverUserByToken(naverAccessToken: string): Promise<NaverUserResponse> {
+  return upstream.get<NaverUserResponse>("naver-auth", "https://openapi.naver.com/v1/nid/me", {
+    headers: {
+      Authorization: `Bearer ${naverAccessToken}`
+    }
+  });
+}
+
+export type { NaverUserResponse };
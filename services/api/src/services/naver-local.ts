@@ -0,0 +1,32 @@
+interface NaverLocalItem {
+  title: string;
+  link: string;
+  category: string;
+  description: string;
+  telephone: string;
+  address: string;
+  roadAddress: string;
+  mapx: string;
+  mapy: string;
+}
+
+interface NaverSearchResponse {
+  lastBuildDate: string;
+  total: number;
+  start: number;
+  display: number;
+  items: NaverLocalItem[];
+}
+
+// 네이버 지역검색 좌표(mapx/mapy)는 WGS84 값에 1e7을 곱한 정수 문자열로 내려온다.
+export function parseNaverCoordinate(value: string, maxAbs: number): number | undefined {
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed)) {
+    return undefined;
+  }
+
+  const degrees = Math.abs(parsed) > maxAbs ? parsed / 1e7 : parsed;
+  return Math.abs(degrees) <= maxAbs ? degrees : undefined;
+}
+
+export type { NaverLocalItem, NaverSearchResponse };
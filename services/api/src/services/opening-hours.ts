@@ -0,0 +1,93 @@
+import { formatClockTime, formatTimeWindows, type TimeWindow } from "@tripmate/planner";
+
+// TourAPI detailIntro2 keeps opening hours in a different free-text field per content type.
+const HOURS_FIELDS: Record<string, string> = {
+  "12": "usetime",
+  "14": "usetimeculture",
+  "15": "playtime",
+  "28": "usetimeleports",
+  "38": "opentime",
+  "39": "opentimefood"
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+// "09:00~18:00", "9시~18시", "10시 30분 - 22:00"
+const CLOCK = String.raw`(\d{1,2})\s*(?::\s*(\d{2})|시(?:\s*(\d{2})\s*분)?)`;
+const RANGE_PATTERN = new RegExp(`${CLOCK}\\s*[~\\-–]\\s*${CLOCK}`, "g");
+const BREAK_PATTERN = /(브레이크|break|휴게|점심시간)[^\d]{0,12}$/i;
+const ALWAYS_OPEN_PATTERN = /24\s*시간|상시\s*(개방|운영|이용)/;
+
+interface MinuteRange {
+  open: number;
+  close: number;
+}
+
+function toMinutes(hours: string | undefined, minutes: string | undefined): number | null {
+  const total = Number(hours) * 60 + Number(minutes ?? 0);
+  return Number.isInteger(total) && Number(minutes ?? 0) < 60 && total <= MINUTES_PER_DAY ? total : null;
+}
+
+// Breaks are cut out of the windows they fall in.
+function subtractBreaks(windows: MinuteRange[], breaks: MinuteRange[]): MinuteRange[] {
+  return breaks.reduce(
+    (remaining, pause) =>
+      remaining.flatMap((window) =>
+        [
+          { open: window.open, close: Math.min(window.close, pause.open) },
+          { open: Math.max(window.open, pause.close), close: window.close }
+        ].filter((part) => part.close > part.open)
+      ),
+    windows
+  );
+}
+
+// Reads the opening hours out of TourAPI's free text, e.g. "09:00~18:00<br>(입장마감 17:00)".
+// Ranges that overlap are alternatives (summer and winter hours, weekdays and weekends), so only
+// the time they share is kept; ranges apart from each other are separate windows. Returns null
+// when the text names no clock range or the place never closes.
+export function parseTourOpeningHours(text: string | undefined): TimeWindow[] | null {
+  const plain = (text ?? "").replace(/<[^>]*>/g, " ");
+  if (ALWAYS_OPEN_PATTERN.test(plain)) {
+    return null;
+  }
+
+  const ranges: MinuteRange[] = [];
+  const breaks: MinuteRange[] = [];
+  for (const matched of plain.matchAll(RANGE_PATTERN)) {
+    const open = toMinutes(matched[1], matched[2] ?? matched[3]);
+    const rawClose = toMinutes(matched[4], matched[5] ?? matched[6]);
+    if (open === null || rawClose === null || open === MINUTES_PER_DAY) continue;
+
+    // Past midnight ("18:00~02:00") counts as open until the day ends.
+    const range = { open, close: rawClose <= open ? MINUTES_PER_DAY : rawClose };
+    const before = plain.slice(0, matched.index);
+    (BREAK_PATTERN.test(before) ? breaks : ranges).push(range);
+  }
+
+  if (ranges.length === 0) {
+    return null;
+  }
+
+  const sorted = [...ranges].sort((a, b) => a.open - b.open);
+  const apart = sorted.every((range, index) => index === 0 || range.open >= (sorted[index - 1]?.close ?? 0));
+  const shared = {
+    open: Math.max(...ranges.map((range) => range.open)),
+    close: Math.min(...ranges.map((range) => range.close))
+  };
+  if (!apart && shared.close <= shared.open) {
+    return null;
+  }
+
+  const windows = subtractBreaks(apart ? sorted : [shared], breaks);
+  return windows.length > 0
+    ? windows.map((window) => ({ open: formatClockTime(window.open), close: formatClockTime(window.close) }))
+    : null;
+}
+
+// Stored form of the hours in a TourAPI intro item, or null when they are unknown.
+export function readTourOpeningHours(contentTypeId: string, intro: Record<string, unknown> | null): string | null {
+  const field = HOURS_FIELDS[contentTypeId];
+  const text = field ? intro?.[field] : undefined;
+  const windows = typeof text === "string" ? parseTourOpeningHours(text) : null;
+  return windows ? formatTimeWindows(windows) : null;
+}
@@ -0,0 +1,150 @@
+import type {
+  BudgetRange,
+  ChildAgeGroup,
+  CompanionType,
+  FoodPreference,
+  ScoringCandidate,
+  TargetGroup,
+  TravelPreferences,
+  TravelStyle,
+  TripPurpose
+} from "@tripmate/planner";
+
+import type { MealRestaurant } from "./meal-slots";
+import type { TourItem } from "./tourism.service";
+
+export const preferenceFields = new Set([
+  "companion",
+  "purpose",
+  "travelStyle",
+  "targetGroup",
+  "budgetRange",
+  "foods",
+  "childAgeGroups"
+]);
+
+export const COMPANION_TYPES: readonly CompanionType[] = [
+  "solo",
+  "friends",
+  "couple",
+  "family_kids",
+  "family_no_kids",
+  "parents"
+];
+export const TRIP_PURPOSES: readonly TripPurpose[] = ["sightseeing", "relaxation", "activity", "food_tour", "filial"];
+export const TRAVEL_STYLES: readonly TravelStyle[] = ["J", "P"];
+export const TARGET_GROUPS: readonly TargetGroup[] = ["young", "family", "senior"];
+export const BUDGET_RANGES: readonly BudgetRange[] = ["under_50", "50_100", "100_200", "unlimited"];
+export const FOOD_PREFERENCES: readonly FoodPreference[] = [
+  "korean",
+  "chinese",
+  "japanese",
+  "western",
+  "seafood",
+  "meat",
+  "noodle",
+  "salad",
+  "cafe",
+  "dessert",
+  "pub",
+  "other"
+];
+export const CHILD_AGE_GROUPS: readonly ChildAgeGroup[] = ["0_2", "3_5", "6_7", "8_10", "11_13"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseEnum<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string,
+  errors: string[]
+): T | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !allowed.includes(value as T)) {
+    errors.push(`${field} must be one of ${allowed.join(", ")}`);
+    return undefined;
+  }
+
+  return value as T;
+}
+
+function parseEnumList<T extends string>(
+  value: unknown,
+  allowed: readonly T[],
+  field: string,
+  errors: string[]
+): T[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some((entry) => !allowed.includes(entry as T))) {
+    errors.push(`${field} must be an array of ${allowed.join(", ")}`);
+    return undefined;
+  }
+
+  return [...new Set(value as T[])];
+}
+
+// Mirrors the signup profile and trip draft fields of the mobile app. Returns undefined when
+// nothing was sent, so callers can keep the unscored search order.
+export function parsePlannerPreferences(
+  value: unknown,
+  field: string,
+  errors: string[]
+): TravelPreferences | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+
+  const unknownFields = Object.keys(value).filter((key) => !preferenceFields.has(key));
+  if (unknownFields.length > 0) {
+    errors.push(`${field} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const companion = parseEnum(value.companion, COMPANION_TYPES, `${field}.companion`, errors);
+  const purpose = parseEnum(value.purpose, TRIP_PURPOSES, `${field}.purpose`, errors);
+  const travelStyle = parseEnum(value.travelStyle, TRAVEL_STYLES, `${field}.travelStyle`, errors);
+  const targetGroup = parseEnum(value.targetGroup, TARGET_GROUPS, `${field}.targetGroup`, errors);
+  const budgetRange = parseEnum(value.budgetRange, BUDGET_RANGES, `${field}.budgetRange`, errors);
+  const foods = parseEnumList(value.foods, FOOD_PREFERENCES, `${field}.foods`, errors);
+  const childAgeGroups = parseEnumList(value.childAgeGroups, CHILD_AGE_GROUPS, `${field}.childAgeGroups`, errors);
+
+  return {
+    ...(companion ? { companion } : {}),
+    ...(purpose ? { purpose } : {}),
+    ...(travelStyle ? { travelStyle } : {}),
+    ...(targetGroup ? { targetGroup } : {}),
+    ...(budgetRange ? { budgetRange } : {}),
+    ...(foods ? { foods } : {}),
+    ...(childAgeGroups ? { childAgeGroups } : {})
+  };
+}
+
+export function toAttractionCandidate(item: TourItem): ScoringCandidate {
+  return {
+    id: item.contentid,
+    kind: "attraction",
+    name: item.title.trim(),
+    ...(item.contenttypeid ? { contentTypeId: item.contenttypeid } : {})
+  };
+}
+
+export function toRestaurantCandidate(restaurant: MealRestaurant): ScoringCandidate {
+  return {
+    id: restaurant.key,
+    kind: "restaurant",
+    name: restaurant.item.title.trim(),
+    ...(restaurant.item.category ? { category: restaurant.item.category } : {})
+  };
+}
@@ -0,0 +1,379 @@
+import { toDayKey } from "./day-anchors";
+import { toSelectedMealRestaurant, type MealRestaurant } from "./meal-slots";
+import type { NaverLocalItem } from "./naver-local";
+import type { TourItem } from "./tourism.service";
+import { toStayDate, type StayInput } from "./trip-stays";
+import { sanitizePublicText } from "../utils/response-safety";
+
+export const LODGING_TYPES = ["hotel", "resort", "pension", "guesthouse", "pool_villa"] as const;
+export type LodgingType = (typeof LODGING_TYPES)[number];
+
+// TourAPI detail lookup (getContentDetail); passed in so the selection logic stays free of config.
+export type ContentDetailLookup = (contentId: string) => Promise<TourItem | null>;
+
+// A TourAPI content ID, optionally with the item the client already has from a TourAPI search.
+// Bare IDs (or items without coordinates) are looked up before scheduling.
+export interface AttractionSelection {
+  contentId: string;
+  item?: TourItem;
+}
+
+export interface LodgingSelection {
+  type?: LodgingType;
+  contentId?: string;
+  name?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface ResolvedLodging {
+  type?: LodgingType;
+  contentId?: string;
+  name: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface ResolvedAttractions {
+  attractions: TourItem[];
+  missingContentIds: string[];
+}
+
+export const lodgingFields = new Set(["type", "contentId", "name", "address", "lat", "lng"]);
+
+const MAX_SELECTED_ATTRACTIONS = 30;
+const MAX_SELECTED_RESTAURANTS = 30;
+const DETAIL_LOOKUP_CONCURRENCY = 4;
+
+const LODGING_TYPE_LABELS: Record<LodgingType, string> = {
+  hotel: "호텔",
+  resort: "리조트",
+  pension: "펜션",
+  guesthouse: "게스트하우스",
+  pool_villa: "풀빌라"
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isLodgingType(value: unknown): value is LodgingType {
+  return typeof value === "string" && (LODGING_TYPES as readonly string[]).includes(value);
+}
+
+function readText(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function hasCoordinate(value: string | undefined, maxAbs: number): boolean {
+  const parsed = value === undefined ? Number.NaN : Number(value);
+  return Number.isFinite(parsed) && parsed !== 0 && Math.abs(parsed) <= maxAbs;
+}
+
+function logLookupError(scope: string, error: unknown) {
+  const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+  console.error(`[planner-selections] ${scope} failed: ${message || "unknown"}`);
+}
+
+function toSelectedTourItem(value: Record<string, unknown>, contentId: string): TourItem | undefined {
+  const title = readText(value.title);
+  const mapx = readText(value.mapx);
+  const mapy = readText(value.mapy);
+  if (!title || !hasCoordinate(mapx, 180) || !hasCoordinate(mapy, 90)) {
+    return undefined;
+  }
+
+  const optional = (field: "addr2" | "firstimage" | "firstimage2" | "tel") => {
+    const text = readText(value[field]);
+    return text ? { [field]: text } : {};
+  };
+
+  return {
+    contentid: contentId,
+    title,
+    addr1: readText(value.addr1) ?? "",
+    mapx: mapx as string,
+    mapy: mapy as string,
+    contenttypeid: readText(value.contenttypeid) ?? "",
+    ...optional("addr2"),
+    ...optional("firstimage"),
+    ...optional("firstimage2"),
+    ...optional("tel")
+  };
+}
+
+export function parseAttractionSelections(
+  value: unknown,
+  field: string,
+  errors: string[]
+): AttractionSelection[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+
+  if (value.length > MAX_SELECTED_ATTRACTIONS) {
+    errors.push(`${field} must contain at most ${MAX_SELECTED_ATTRACTIONS} items`);
+    return [];
+  }
+
+  const selections = new Map<string, AttractionSelection>();
+  value.forEach((entry, index) => {
+    const path = `${field}[${index}]`;
+    if (typeof entry === "string") {
+      const contentId = entry.trim();
+      if (!contentId) {
+        errors.push(`${path} must be a non-empty content ID`);
+        return;
+      }
+      if (!selections.has(contentId)) selections.set(contentId, { contentId });
+      return;
+    }
+
+    if (!isRecord(entry)) {
+      errors.push(`${path} must be a content ID string or a TourAPI item`);
+      return;
+    }
+
+    const contentId = readText(entry.contentid ?? entry.contentId);
+    if (!contentId) {
+      errors.push(`${path}.contentid is required`);
+      return;
+    }
+
+    if (!selections.has(contentId)) {
+      const item = toSelectedTourItem(entry, contentId);
+      selections.set(contentId, item ? { contentId, item } : { contentId });
+    }
+  });
+
+  return [...selections.values()];
+}
+
+// Restaurants are Naver local search items as returned by /restaurants/search.
+export function parseRestaurantSelections(
+  value: unknown,
+  field: string,
+  errors: string[]
+): MealRestaurant[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return [];
+  }
+
+  if (value.length > MAX_SELECTED_RESTAURANTS) {
+    errors.push(`${field} must contain at most ${MAX_SELECTED_RESTAURANTS} items`);
+    return [];
+  }
+
+  const restaurants = new Map<string, MealRestaurant>();
+  value.forEach((entry, index) => {
+    const path = `${field}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push(`${path} must be a Naver local search item`);
+      return;
+    }
+
+    const title = readText(entry.title);
+    if (!title) {
+      errors.push(`${path}.title is required and must be a non-empty string`);
+      return;
+    }
+
+    const item: NaverLocalItem = {
+      title,
+      link: readText(entry.link) ?? "",
+      category: readText(entry.category) ?? "",
+      description: readText(entry.description) ?? "",
+      telephone: readText(entry.telephone) ?? "",
+      address: readText(entry.address) ?? "",
+      roadAddress: readText(entry.roadAddress) ?? "",
+      mapx: readText(entry.mapx) ?? "",
+      mapy: readText(entry.mapy) ?? ""
+    };
+    const restaurant = toSelectedMealRestaurant(item);
+    if (!restaurants.has(restaurant.key)) restaurants.set(restaurant.key, restaurant);
+  });
+
+  return [...restaurants.values()];
+}
+
+export function parseLodgingSelection(
+  value: unknown,
+  field: string,
+  errors: string[]
+): LodgingSelection | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!isRecord(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+
+  const unknownFields = Object.keys(value).filter((key) => !lodgingFields.has(key));
+  if (unknownFields.length > 0) {
+    errors.push(`${field} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const lodging: LodgingSelection = {};
+  if (value.type !== undefined) {
+    if (isLodgingType(value.type)) {
+      lodging.type = value.type;
+    } else {
+      errors.push(`${field}.type must be one of ${LODGING_TYPES.join(", ")}`);
+    }
+  }
+
+  for (const key of ["contentId", "name", "address"] as const) {
+    const raw = value[key];
+    if (raw === undefined) continue;
+    const text = typeof raw === "string" ? raw.trim() : "";
+    if (!text) {
+      errors.push(`${field}.${key} must be a non-empty string`);
+      continue;
+    }
+    lodging[key] = text;
+  }
+
+  const { lat, lng } = value;
+  if (lat !== undefined || lng !== undefined) {
+    if (
+      typeof lat !== "number" ||
+      typeof lng !== "number" ||
+      !Number.isFinite(lat) ||
+      !Number.isFinite(lng) ||
+      Math.abs(lat) > 90 ||
+      Math.abs(lng) > 180
+    ) {
+      errors.push(`${field}.lat and ${field}.lng must be given together as valid coordinates`);
+    } else {
+      lodging.lat = lat;
+      lodging.lng = lng;
+    }
+  }
+
+  return lodging;
+}
+
+// Keeps the selection order. IDs that TourAPI doesn't know (or that fail to load) are reported
+// instead of failing the whole request.
+export async function resolveAttractionSelections(
+  selections: AttractionSelection[],
+  getContentDetail: ContentDetailLookup
+): Promise<ResolvedAttractions> {
+  const resolved = new Map<string, TourItem>();
+  const pending = selections.filter((selection) => {
+    if (selection.item) resolved.set(selection.contentId, selection.item);
+    return !selection.item;
+  });
+
+  for (let offset = 0; offset < pending.length; offset += DETAIL_LOOKUP_CONCURRENCY) {
+    const batch = pending.slice(offset, offset + DETAIL_LOOKUP_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((selection) => getContentDetail(selection.contentId)));
+
+    results.forEach((result, index) => {
+      const contentId = batch[index]?.contentId;
+      if (!contentId) return;
+
+      if (result.status === "rejected") {
+        logLookupError(`attraction ${contentId} lookup`, result.reason);
+        return;
+      }
+
+      if (result.value) resolved.set(contentId, result.value);
+    });
+  }
+
+  return {
+    attractions: selections
+      .map((selection) => resolved.get(selection.contentId))
+      .filter((item): item is TourItem => Boolean(item)),
+    missingContentIds: selections
+      .filter((selection) => !resolved.has(selection.contentId))
+      .map((selection) => selection.contentId)
+  };
+}
+
+// A lodging type alone picks no place; a name, coordinates or a TourAPI stay (content type 32) do.
+export async function resolveLodging(
+  selection: LodgingSelection | undefined,
+  getContentDetail: ContentDetailLookup
+): Promise<ResolvedLodging | null> {
+  if (!selection) {
+    return null;
+  }
+
+  const label = selection.type ? LODGING_TYPE_LABELS[selection.type] : undefined;
+  const base = {
+    ...(selection.type ? { type: selection.type } : {}),
+    ...(selection.contentId ? { contentId: selection.contentId } : {}),
+    ...(selection.address ? { address: selection.address } : {})
+  };
+
+  if (selection.lat !== undefined && selection.lng !== undefined) {
+    return { ...base, name: selection.name ?? `숙소${label ? ` (${label})` : ""}`, lat: selection.lat, lng: selection.lng };
+  }
+
+  if (selection.contentId) {
+    try {
+      const item = await getContentDetail(selection.contentId);
+      const lat = item ? Number(item.mapy) : Number.NaN;
+      const lng = item ? Number(item.mapx) : Number.NaN;
+      if (item && hasCoordinate(item.mapy, 90) && hasCoordinate(item.mapx, 180)) {
+        const address = [item.addr1, item.addr2].filter(Boolean).join(" ").trim();
+        return {
+          ...base,
+          name: selection.name ?? item.title.trim(),
+          ...(address ? { address } : {}),
+          lat,
+          lng
+        };
+      }
+    } catch (error) {
+      logLookupError(`lodging ${selection.contentId} lookup`, error);
+    }
+  }
+
+  return selection.name ? { ...base, name: selection.name } : null;
+}
+
+// The lodging picked in the wizard covers every night of the trip. Without coordinates it
+// cannot anchor anything and is not stored.
+export function toLodgingStay(lodging: ResolvedLodging | null, dayDates: Date[]): StayInput | null {
+  const firstDay = dayDates[0];
+  const lastDay = dayDates[dayDates.length - 1];
+  if (!lodging || lodging.lat === undefined || lodging.lng === undefined || !firstDay || !lastDay) {
+    return null;
+  }
+
+  if (firstDay.getTime() === lastDay.getTime()) {
+    return null;
+  }
+
+  return {
+    name: lodging.name,
+    lat: lodging.lat,
+    lng: lodging.lng,
+    checkIn: toStayDate(toDayKey(firstDay)),
+    checkOut: toStayDate(toDayKey(lastDay)),
+    ...(lodging.address ? { address: lodging.address } : {}),
+    ...(lodging.contentId ? { contentId: lodging.contentId } : {}),
+    ...(lodging.type ? { memo: LODGING_TYPE_LABELS[lodging.type] } : {})
+  };
+}
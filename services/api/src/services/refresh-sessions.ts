@@ -0,0 +1,283 @@
+import { createHash, randomUUID } from "crypto";
+
+import type { PrismaClient } from "@prisma/client";
+
+import type { RefreshTokenPayload, TokenPayload } from "../utils/jwt";
+
+export type SessionRevokeReason = "logout" | "signed_out" | "reused";
+
+export interface SessionDevice {
+  deviceName: string | null;
+  userAgent: string | null;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export type RotateResult =
+  | { ok: true; tokens: SessionTokens }
+  | { ok: false; reason: "invalid" | "revoked" | "expired" | "reused" };
+
+export interface SessionView {
+  id: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface RefreshSessionRecord {
+  id: string;
+  userId: string;
+  currentTokenHash: string;
+  deviceName: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  revokedReason: string | null;
+}
+
+export interface RefreshSessionStore {
+  create(record: RefreshSessionRecord): Promise<void>;
+  find(sessionId: string): Promise<RefreshSessionRecord | null>;
+  // Unrevoked sessions of the user that expire after `now`, most recently used first.
+  listActive(userId: string, now: Date): Promise<RefreshSessionRecord[]>;
+  // Applies only while the session is unrevoked and still holds `tokenHash`; resolves whether it did.
+  rotate(
+    sessionId: string,
+    tokenHash: string,
+    update: Pick<RefreshSessionRecord, "currentTokenHash" | "lastUsedAt" | "expiresAt">
+  ): Promise<boolean>;
+  // Applies only while the session is unrevoked; resolves whether it did.
+  revoke(sessionId: string, reason: SessionRevokeReason, revokedAt: Date): Promise<boolean>;
+}
+
+export interface SessionTokenSigner {
+  generateAccessToken(payload: TokenPayload): string;
+  generateRefreshToken(payload: RefreshTokenPayload): string;
+  // Throws when the token is malformed, expired or not signed with the refresh secret.
+  verifyRefreshToken(token: string): RefreshTokenPayload;
+}
+
+export interface RefreshSessionsOptions {
+  store: RefreshSessionStore;
+  signer: SessionTokenSigner;
+  ttlMs: number;
+  // How long isActive may answer from memory. Revocations made through this instance apply at once;
+  // those made elsewhere (another server, a cascade delete) within this window.
+  activeCacheMs?: number;
+  now?: () => number;
+}
+
+export interface RefreshSessions {
+  start(userId: string, device: SessionDevice): Promise<SessionTokens>;
+  rotate(refreshToken: string): Promise<RotateResult>;
+  // Revokes an active session of this user; resolves false when it is someone else's, gone or already revoked.
+  revokeUserSession(userId: string, sessionId: string, reason: SessionRevokeReason): Promise<boolean>;
+  list(userId: string, currentSessionId: string | undefined): Promise<SessionView[]>;
+  // Whether an access token of this session may still be used: the session is the user's, unrevoked and unexpired.
+  isActive(userId: string, sessionId: string): Promise<boolean>;
+  // Drops cached answers for the user, for when their sessions are removed without going through this instance.
+  forgetUser(userId: string): void;
+}
+
+const MAX_DEVICE_NAME_LENGTH = 60;
+const MAX_USER_AGENT_LENGTH = 200;
+const DEFAULT_ACTIVE_CACHE_MS = 30 * 1000;
+const MAX_CACHED_SESSIONS = 10_000;
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function trimOrNull(value: unknown, maxLength: number): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : null;
+}
+
+export function toSessionDevice(deviceName: unknown, userAgent: unknown): SessionDevice {
+  return {
+    deviceName: trimOrNull(deviceName, MAX_DEVICE_NAME_LENGTH),
+    userAgent: trimOrNull(userAgent, MAX_USER_AGENT_LENGTH)
+  };
+}
+
+export function createPrismaRefreshSessionStore(client: PrismaClient): RefreshSessionStore {
+  return {
+    async create(record) {
+      await client.refreshSession.create({ data: record });
+    },
+    find(sessionId) {
+      return client.refreshSession.findUnique({ where: { id: sessionId } });
+    },
+    listActive(userId, now) {
+      return client.refreshSession.findMany({
+        where: { userId, revokedAt: null, expiresAt: { gt: now } },
+        orderBy: { lastUsedAt: "desc" }
+      });
+    },
+    // Conditional on the old hash, so two concurrent refreshes with one token cannot both win.
+    async rotate(sessionId, tokenHash, update) {
+      const rotated = await client.refreshSession.updateMany({
+        where: { id: sessionId, currentTokenHash: tokenHash, revokedAt: null },
+        data: update
+      });
+      return rotated.count > 0;
+    },
+    // A session that is already revoked keeps its first reason.
+    async revoke(sessionId, reason, revokedAt) {
+      const revoked = await client.refreshSession.updateMany({
+        where: { id: sessionId, revokedAt: null },
+        data: { revokedAt, revokedReason: reason }
+      });
+      return revoked.count > 0;
+    }
+  };
+}
+
+export function createRefreshSessions(options: RefreshSessionsOptions): RefreshSessions {
+  const { store, signer, ttlMs } = options;
+  const now = options.now ?? Date.now;
+  const activeCacheMs = options.activeCacheMs ?? DEFAULT_ACTIVE_CACHE_MS;
+  // sessionId -> last isActive lookup; Map order is insertion order, so the first key is the oldest.
+  const activeCache = new Map<string, { userId: string; active: boolean; checkedAt: number }>();
+
+  const signTokens = (userId: string, sessionId: string): SessionTokens => {
+    const payload = { userId, sessionId };
+    return {
+      accessToken: signer.generateAccessToken(payload),
+      refreshToken: signer.generateRefreshToken(payload),
+      sessionId
+    };
+  };
+
+  // Every login starts a new device session.
+  const start = async (userId: string, device: SessionDevice): Promise<SessionTokens> => {
+    const tokens = signTokens(userId, randomUUID());
+    const startedAt = new Date(now());
+
+    await store.create({
+      id: tokens.sessionId,
+      userId,
+      currentTokenHash: hashToken(tokens.refreshToken),
+      deviceName: device.deviceName,
+      userAgent: device.userAgent,
+      createdAt: startedAt,
+      lastUsedAt: startedAt,
+      expiresAt: new Date(startedAt.getTime() + ttlMs),
+      revokedAt: null,
+      revokedReason: null
+    });
+
+    return tokens;
+  };
+
+  // Swaps the presented refresh token for a new pair. A valid signature for this session whose hash no
+  // longer matches can only be a token that was already rotated, so the session is treated as stolen
+  // and revoked for every holder.
+  const rotate = async (refreshToken: string): Promise<RotateResult> => {
+    let payload;
+    try {
+      payload = signer.verifyRefreshToken(refreshToken);
+    } catch {
+      return { ok: false, reason: "invalid" };
+    }
+
+    const session = await store.find(payload.sessionId);
+    if (!session || session.userId !== payload.userId) {
+      return { ok: false, reason: "invalid" };
+    }
+    if (session.revokedAt) {
+      return { ok: false, reason: "revoked" };
+    }
+    const rotatedAt = new Date(now());
+    if (session.expiresAt.getTime() <= rotatedAt.getTime()) {
+      return { ok: false, reason: "expired" };
+    }
+
+    const tokens = signTokens(session.userId, session.id);
+    const rotated = await store.rotate(session.id, hashToken(refreshToken), {
+      currentTokenHash: hashToken(tokens.refreshToken),
+      lastUsedAt: rotatedAt,
+      expiresAt: new Date(rotatedAt.getTime() + ttlMs)
+    });
+
+    if (!rotated) {
+      await store.revoke(session.id, "reused", rotatedAt);
+      activeCache.delete(session.id);
+      console.warn(`[auth] refresh token reuse detected; session ${session.id} revoked`);
+      return { ok: false, reason: "reused" };
+    }
+
+    return { ok: true, tokens };
+  };
+
+  const revokeUserSession = async (
+    userId: string,
+    sessionId: string,
+    reason: SessionRevokeReason
+  ): Promise<boolean> => {
+    const session = await store.find(sessionId);
+    if (!session || session.userId !== userId || session.expiresAt.getTime() <= now()) {
+      return false;
+    }
+
+    const revoked = await store.revoke(session.id, reason, new Date(now()));
+    activeCache.delete(session.id);
+    return revoked;
+  };
+
+  // Active sessions, most recently used first.
+  const list = async (userId: string, currentSessionId: string | undefined): Promise<SessionView[]> => {
+    const sessions = await store.listActive(userId, new Date(now()));
+
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt.toISOString(),
+      lastUsedAt: session.lastUsedAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+      current: session.id === currentSessionId
+    }));
+  };
+
+  const isActive = async (userId: string, sessionId: string): Promise<boolean> => {
+    const checkedAt = now();
+    const cached = activeCache.get(sessionId);
+    if (cached && checkedAt - cached.checkedAt < activeCacheMs) {
+      return cached.active && cached.userId === userId;
+    }
+
+    const session = await store.find(sessionId);
+    const active = Boolean(session && !session.revokedAt && session.expiresAt.getTime() > checkedAt);
+    activeCache.delete(sessionId);
+    if (activeCache.size >= MAX_CACHED_SESSIONS) {
+      activeCache.delete(activeCache.keys().next().value!);
+    }
+    activeCache.set(sessionId, { userId: session?.userId ?? userId, active, checkedAt });
+
+    return active && session!.userId === userId;
+  };
+
+  const forgetUser = (userId: string) => {
+    for (const [sessionId, cached] of activeCache) {
+      if (cached.userId === userId) {
+        activeCache.delete(sessionId);
+      }
+    }
+  };
+
+  return { start, rotate, revokeUserSession, list, isActive, forgetUser };
+}
@@ -0,0 +1,285 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+import type { PrismaClient } from "@prisma/client";
+
+export type CacheSource =
+  | "tour.attractions"
+  | "tour.keyword"
+  | "tour.festivals"
+  | "tour.detail"
+  | "tour.intro"
+  | "naver.local"
+  | "kakao.keyword"
+  | "kakao.address"
+  | "medical.hospitals"
+  | "medical.pharmacies"
+  | "kma.forecast"
+  | "airkorea.measurement"
+  | "airkorea.forecast";
+
+// "coalesced" means the call waited on an identical in-flight lookup instead of its own.
+export type CacheLookupStatus = "hit" | "miss" | "coalesced";
+
+export interface CacheLookup {
+  source: CacheSource;
+  status: CacheLookupStatus;
+}
+
+// Values are stored as JSON so every hit hands out a fresh copy.
+export interface CacheRecord {
+  source: CacheSource;
+  value: string;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  name: string;
+  get(key: string, now: number): Promise<CacheRecord | null>;
+  set(key: string, record: CacheRecord, now: number): Promise<void>;
+  clear(source?: CacheSource): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  // Checked in order; a hit in a later store is copied into the earlier ones.
+  stores: CacheStore[];
+  ttls?: Partial<Record<CacheSource, number>>;
+  now?: () => number;
+}
+
+export interface ResponseCache {
+  fetch<T>(source: CacheSource, params: unknown, load: () => Promise<T>): Promise<T>;
+  clear(source?: CacheSource): Promise<void>;
+}
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+export const CACHE_TTLS_MS: Record<CacheSource, number> = {
+  "tour.attractions": 24 * HOUR_IN_MS,
+  "tour.keyword": 24 * HOUR_IN_MS,
+  "tour.festivals": 6 * HOUR_IN_MS,
+  "tour.detail": 24 * HOUR_IN_MS,
+  "tour.intro": 24 * HOUR_IN_MS,
+  "naver.local": 12 * HOUR_IN_MS,
+  "kakao.keyword": 24 * HOUR_IN_MS,
+  "kakao.address": 7 * 24 * HOUR_IN_MS,
+  "medical.hospitals": 6 * HOUR_IN_MS,
+  "medical.pharmacies": 6 * HOUR_IN_MS,
+  "kma.forecast": HOUR_IN_MS,
+  "airkorea.measurement": HOUR_IN_MS,
+  "airkorea.forecast": HOUR_IN_MS
+};
+
+const PRUNE_EVERY_WRITES = 100;
+
+const lookupContext = new AsyncLocalStorage<CacheLookup[]>();
+
+function recordLookup(source: CacheSource, status: CacheLookupStatus): void {
+  lookupContext.getStore()?.push({ source, status });
+}
+
+function logStoreError(store: CacheStore, action: string, error: unknown): void {
+  const message = error instanceof Error ? error.message : "unknown";
+  console.error(`[cache] ${store.name} ${action} failed: ${message || "unknown"}`);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => sortKeys(entry));
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, sortKeys(entry)])
+    );
+  }
+
+  return value;
+}
+
+export function toCacheKey(source: CacheSource, params: unknown): string {
+  return `${source}:${JSON.stringify(sortKeys(params) ?? null)}`;
+}
+
+// Empty lists are not cached: TourAPI and data.go.kr answer quota and key errors with an empty
+// body, and caching those would hide the recovery for a whole TTL.
+function isCacheable(value: unknown): boolean {
+  return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+}
+
+// Runs a request handler with its own lookup list so the route can report how it was served.
+export function trackCacheLookups<T>(lookups: CacheLookup[], run: () => T): T {
+  return lookupContext.run(lookups, run);
+}
+
+// HIT when nothing went upstream, MISS when everything did, PARTIAL for a mix.
+export function summarizeCacheLookups(lookups: CacheLookup[]): "HIT" | "MISS" | "PARTIAL" | null {
+  if (lookups.length === 0) {
+    return null;
+  }
+
+  const misses = lookups.filter((lookup) => lookup.status === "miss").length;
+  if (misses === 0) {
+    return "HIT";
+  }
+
+  return misses === lookups.length ? "MISS" : "PARTIAL";
+}
+
+// Least-recently-used first, using Map insertion order like the distance-matrix cache.
+export function createMemoryCacheStore(maxEntries: number): CacheStore {
+  const entries = new Map<string, CacheRecord>();
+
+  return {
+    name: "memory",
+    async get(key, now) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+
+      entries.delete(key);
+      if (entry.expiresAt <= now) {
+        return null;
+      }
+
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, record) {
+      entries.delete(key);
+      entries.set(key, record);
+
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) {
+          break;
+        }
+        entries.delete(oldestKey);
+      }
+    },
+    async clear(source) {
+      if (!source) {
+        entries.clear();
+        return;
+      }
+
+      for (const [key, entry] of entries) {
+        if (entry.source === source) entries.delete(key);
+      }
+    }
+  };
+}
+
+// Survives restarts so a redeploy does not spend the daily data.go.kr quota again. Expired rows
+// are dropped when read and swept every few hundred writes.
+export function createPrismaCacheStore(client: PrismaClient): CacheStore {
+  let writes = 0;
+
+  return {
+    name: "sqlite",
+    async get(key, now) {
+      const row = await client.responseCacheEntry.findUnique({ where: { key } });
+      if (!row) {
+        return null;
+      }
+
+      if (row.expiresAt.getTime() <= now) {
+        await client.responseCacheEntry.deleteMany({ where: { key, expiresAt: { lte: new Date(now) } } });
+        return null;
+      }
+
+      return { source: row.source as CacheSource, value: row.value, expiresAt: row.expiresAt.getTime() };
+    },
+    async set(key, record, now) {
+      const data = { source: record.source, value: record.value, expiresAt: new Date(record.expiresAt) };
+      await client.responseCacheEntry.upsert({ where: { key }, create: { key, ...data }, update: data });
+
+      writes += 1;
+      if (writes % PRUNE_EVERY_WRITES === 0) {
+        await client.responseCacheEntry.deleteMany({ where: { expiresAt: { lte: new Date(now) } } });
+      }
+    },
+    async clear(source) {
+      await client.responseCacheEntry.deleteMany({ where: source ? { source } : {} });
+    }
+  };
+}
+
+// Store failures are logged and skipped: a broken cache must never fail the request itself.
+// Concurrent calls with the same key share one lookup, so a burst of identical requests costs a
+// single upstream call. Failed loads are not cached.
+export function createResponseCache(options: ResponseCacheOptions): ResponseCache {
+  const { stores } = options;
+  const ttls = { ...CACHE_TTLS_MS, ...options.ttls };
+  const now = options.now ?? Date.now;
+  const inflight = new Map<string, Promise<{ payload: string; status: CacheLookupStatus }>>();
+
+  async function writeStores(targets: CacheStore[], key: string, record: CacheRecord): Promise<void> {
+    await Promise.all(
+      targets.map((store) => store.set(key, record, now()).catch((error) => logStoreError(store, "write", error)))
+    );
+  }
+
+  async function readStores(key: string): Promise<CacheRecord | null> {
+    for (const [index, store] of stores.entries()) {
+      let record: CacheRecord | null;
+      try {
+        record = await store.get(key, now());
+      } catch (error) {
+        logStoreError(store, "read", error);
+        continue;
+      }
+
+      if (record) {
+        await writeStores(stores.slice(0, index), key, record);
+        return record;
+      }
+    }
+
+    return null;
+  }
+
+  async function resolve<T>(
+    source: CacheSource,
+    key: string,
+    load: () => Promise<T>
+  ): Promise<{ payload: string; status: CacheLookupStatus }> {
+    const cached = await readStores(key);
+    if (cached) {
+      return { payload: cached.value, status: "hit" };
+    }
+
+    const value = await load();
+    const payload = JSON.stringify(value ?? null);
+    if (isCacheable(value)) {
+      await writeStores(stores, key, { source, value: payload, expiresAt: now() + ttls[source] });
+    }
+
+    return { payload, status: "miss" };
+  }
+
+  return {
+    async fetch<T>(source: CacheSource, params: unknown, load: () => Promise<T>): Promise<T> {
+      const key = toCacheKey(source, params);
+      const pending = inflight.get(key);
+      if (pending) {
+        const { payload } = await pending;
+        recordLookup(source, "coalesced");
+        return JSON.parse(payload) as T;
+      }
+
+      const task = resolve(source, key, load).finally(() => inflight.delete(key));
+      inflight.set(key, task);
+
+      const { payload, status } = await task;
+      recordLookup(source, status);
+      return JSON.parse(payload) as T;
+    },
+    async clear(source) {
+      await Promise.all(stores.map((store) => store.clear(source).catch((error) => logStoreError(store, "clear", error))));
+    }
+  };
+}
@@ -1,25 +1,7 @@
-import axios from "axios";
 import { env } from "../config/env";
-
-interface NaverLocalItem {
-  title: string;
-  link: string;
-  category: string;
-  description: string;
-  telephone: string;
-  address: string;
-  roadAddress: string;
-  mapx: string;
-  mapy: string;
-}
-
-interface NaverSearchResponse {
-  lastBuildDate: string;
-  total: number;
-  start: number;
-  display: number;
-  items: NaverLocalItem[];
-}
+import { responseCache } from "../config/response-cache";
+import type { NaverSearchResponse } from "./naver-local";
+import { upstream } from "./upstream-client";
 
 // 맛집 검색
 export async function searchRestaurants(params: {
@@ -28,23 +10,28 @@ export async function searchRestaurants(params: {
   start?: number;
   sort?: "random" | "comment";
 }) {
-  const response = await axios.get<NaverSearchResponse>("https://openapi.naver.com/v1/search/local.json", {
-    headers: {
-      "X-Naver-Client-Id": env.naverClientId,
-      "X-Naver-Client-Secret": env.naverClientSecret
-    },
-    params: {
-      query: params.query,
-      display: params.display ?? 5,
-      start: params.start ?? 1,
-      sort: params.sort ?? "comment"
-    }
-  });
+  const query = {
+    query: params.query,
+    display: params.display ?? 5,
+    start: params.start ?? 1,
+    sort: params.sort ?? "comment"
+  };
+
+  return responseCache.fetch("naver.local", query, async () => {
+    const payload = await upstream.get<NaverSearchResponse>("naver", "https://openapi.naver.com/v1/search/local.json", {
+      headers: {
+        "X-Naver-Client-Id": env.naverClientId,
+        "X-Naver-Client-Secret": env.naverClientSecret
+      },
+      params: query
+    });
 
-  return response.data.items.map((item) => ({
-    ...item,
-    title: item.title.replace(/<[^>]*>/g, "")
-  }));
+    return payload.items.map((item) => ({
+      ...item,
+      title: item.title.replace(/<[^>]*>/g, "")
+    }));
+  });
 }
 
-export type { NaverLocalItem, NaverSearchResponse };
+export { parseNaverCoordinate } from "./naver-local";
+export type { NaverLocalItem, NaverSearchResponse } from "./naver-local";
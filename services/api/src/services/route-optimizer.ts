@@ -1,15 +1,21 @@
-import { normalizeRouteWarning, sanitizePublicText } from "../utils/response-safety";
+import { solveRouteOrder } from "@tripmate/planner";
 
-export type RouteTransportMode = "driving" | "transit" | "walking";
+import type { RouteImprovementSummary, RoutePoint, RouteTransportMode } from "../contract/components";
+import { normalizeRouteWarning, sanitizePublicText } from "../utils/response-safety";
+import {
+  createDistanceMatrixClient,
+  resolveDistanceMatrixProviders,
+  resolveProviderKeys,
+  roundTo,
+  type DistanceMatrixClient,
+  type DistanceMatrixProvider,
+  type TravelEstimate
+} from "./distance-matrix";
+
+// Shared with the mobile app through the API contract.
+export type { RouteImprovementSummary, RoutePoint, RouteTransportMode };
 export type RouteEstimateProvider = "kakao" | "odsay" | "fallback";
 
-export interface RoutePoint {
-  id?: string;
-  name?: string;
-  lat: number;
-  lng: number;
-}
-
 export interface OptimizeRouteInput {
   start: RoutePoint;
   waypoints: RoutePoint[];
@@ -32,18 +38,13 @@ export interface OptimizeRouteResult {
   totalDistanceKm: number;
   totalDurationMin: number;
   source: RouteEstimateProvider | "mixed";
+  improvement: RouteImprovementSummary;
   warnings: string[];
 }
 
-interface ProviderKeys {
-  kakaoKey?: string;
-  odsayKey?: string;
-}
-
-interface RawEstimate {
-  distanceKm: number;
-  durationMin: number;
-  provider: RouteEstimateProvider;
+export interface SolvedOrder {
+  orderedWaypoints: RoutePoint[];
+  improvement: RouteImprovementSummary;
 }
 
 function addWarning(warnings: string[], warning: string): void {
@@ -68,262 +69,81 @@ function clonePoint(point: RoutePoint): RoutePoint {
   };
 }
 
-function resolveProviderKeys(): ProviderKeys {
-  const kakao =
-    process.env.KAKAO_REST_API_KEY ??
-    process.env.KAKAO_API_KEY ??
-    process.env.KAKAO_KEY;
-  const odsay = process.env.ODSAY_API_KEY ?? process.env.ODSAY_KEY;
-
-  return {
-    kakaoKey: kakao?.trim() || undefined,
-    odsayKey: odsay?.trim() || undefined
-  };
-}
-
-function toFiniteNumber(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
-  }
+function addProviderWarning(warnings: string[], provider: DistanceMatrixProvider, error: unknown): void {
+  const message = error instanceof Error ? error.message : "unknown error";
+  const sanitizedMessage = sanitizePublicText(message);
+  const statusCode = extractHttpStatusCode(sanitizedMessage);
 
-  if (typeof value === "string" && value.trim() !== "") {
-    const parsed = Number(value);
-    if (Number.isFinite(parsed)) {
-      return parsed;
-    }
+  if (statusCode) {
+    addWarning(
+      warnings,
+      `${provider.name.toUpperCase()} estimate request returned HTTP ${statusCode}. Fallback estimate used.`
+    );
+  } else {
+    addWarning(
+      warnings,
+      `${provider.name.toUpperCase()} estimate request failed. Fallback estimate used.`
+    );
   }
-
-  return null;
 }
 
-function roundTo(value: number, decimals: number): number {
-  const factor = 10 ** decimals;
-  return Math.round(value * factor) / factor;
+function sumRoute(route: number[], matrix: TravelEstimate[][], field: "distanceKm" | "durationMin"): number {
+  return route.slice(1).reduce((sum, to, index) => sum + (matrix[route[index]]?.[to]?.[field] ?? 0), 0);
 }
 
-function haversineKm(from: RoutePoint, to: RoutePoint): number {
-  const earthRadiusKm = 6371;
-  const dLat = toRadians(to.lat - from.lat);
-  const dLng = toRadians(to.lng - from.lng);
-
-  const lat1 = toRadians(from.lat);
-  const lat2 = toRadians(to.lat);
-
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return earthRadiusKm * c;
-}
+// Node 0 is the start and nodes 1..n are the waypoints; a fixed end becomes node n + 1 while a round
+// trip without one closes on node 0. The solver minimises travel time; pairs that can never be
+// adjacent (anything into the start, anything out of the end) stay unreachable.
+export async function solveWaypointOrder(
+  input: OptimizeRouteInput,
+  matrixClient: DistanceMatrixClient
+): Promise<SolvedOrder> {
+  const waypointCount = input.waypoints.length;
+  const endTarget = input.end ?? (input.roundTrip ? input.start : undefined);
+  const nodeCount = waypointCount + (input.end ? 2 : 1);
+  const endNode = input.end ? waypointCount + 1 : 0;
 
-function toRadians(value: number): number {
-  return (value * Math.PI) / 180;
-}
-
-function orderWaypointsByDistance(start: RoutePoint, waypoints: RoutePoint[]): RoutePoint[] {
-  const remaining = waypoints.map(clonePoint);
-  const ordered: RoutePoint[] = [];
-  let current = start;
-
-  while (remaining.length > 0) {
-    let bestIndex = 0;
-    let bestDistance = Number.POSITIVE_INFINITY;
-
-    for (let i = 0; i < remaining.length; i += 1) {
-      const distance = haversineKm(current, remaining[i]);
-      if (distance < bestDistance) {
-        bestDistance = distance;
-        bestIndex = i;
-      }
-    }
-
-    const [nextPoint] = remaining.splice(bestIndex, 1);
-    ordered.push(nextPoint);
-    current = nextPoint;
-  }
-
-  return ordered;
-}
-
-function getFallbackSpeedKmh(mode: RouteTransportMode): number {
-  if (mode === "walking") {
-    return 4.5;
-  }
-
-  if (mode === "transit") {
-    return 28;
-  }
-
-  return 35;
-}
-
-function estimateFallbackSegment(
-  from: RoutePoint,
-  to: RoutePoint,
-  mode: RouteTransportMode
-): RawEstimate {
-  const lineDistanceKm = haversineKm(from, to);
-  const adjustedDistanceKm = lineDistanceKm * 1.25;
-  const speedKmh = getFallbackSpeedKmh(mode);
-  const durationMin = (adjustedDistanceKm / speedKmh) * 60;
+  const rows = await matrixClient.estimateMatrix(
+    [input.start, ...input.waypoints],
+    endTarget ? [...input.waypoints, endTarget] : input.waypoints,
+    input.mode
+  );
 
-  return {
-    distanceKm: roundTo(adjustedDistanceKm, 2),
-    durationMin: roundTo(durationMin, 1),
+  const unreachable: TravelEstimate = {
+    distanceKm: Number.POSITIVE_INFINITY,
+    durationMin: Number.POSITIVE_INFINITY,
     provider: "fallback"
   };
-}
-
-async function fetchJsonWithTimeout(
-  url: string,
-  init: RequestInit,
-  timeoutMs = 3500
-): Promise<unknown> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-
-  try {
-    const response = await fetch(url, { ...init, signal: controller.signal });
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}`);
-    }
-
-    return response.json();
-  } finally {
-    clearTimeout(timeoutId);
-  }
-}
-
-async function estimateWithKakao(from: RoutePoint, to: RoutePoint, apiKey: string): Promise<RawEstimate> {
-  const params = new URLSearchParams({
-    origin: `${from.lng},${from.lat}`,
-    destination: `${to.lng},${to.lat}`,
-    priority: "RECOMMEND",
-    alternatives: "false",
-    road_details: "false"
-  });
-  const endpoint = `https://apis-navi.kakaomobility.com/v1/directions?${params.toString()}`;
-
-  const payload = await fetchJsonWithTimeout(
-    endpoint,
-    {
-      method: "GET",
-      headers: {
-        Authorization: `KakaoAK ${apiKey}`
-      }
-    },
-    4000
+  const matrix: TravelEstimate[][] = Array.from({ length: nodeCount }, (_, from) =>
+    Array.from({ length: nodeCount }, (_, to) =>
+      from === to ? { distanceKm: 0, durationMin: 0, provider: "fallback" as const } : unreachable
+    )
   );
 
-  const summary = (payload as { routes?: Array<{ summary?: { distance?: unknown; duration?: unknown } }> })
-    .routes?.[0]?.summary;
-
-  const distanceMeters = toFiniteNumber(summary?.distance);
-  const durationSeconds = toFiniteNumber(summary?.duration);
-
-  if (distanceMeters === null || durationSeconds === null) {
-    throw new Error("Kakao response missing distance/duration");
-  }
-
-  return {
-    distanceKm: roundTo(distanceMeters / 1000, 2),
-    durationMin: roundTo(durationSeconds / 60, 1),
-    provider: "kakao"
-  };
-}
-
-async function estimateWithOdsay(from: RoutePoint, to: RoutePoint, apiKey: string): Promise<RawEstimate> {
-  const params = new URLSearchParams({
-    SX: String(from.lng),
-    SY: String(from.lat),
-    EX: String(to.lng),
-    EY: String(to.lat),
-    apiKey
+  rows.forEach((row, from) => {
+    row.forEach((estimate, column) => {
+      const to = column < waypointCount ? column + 1 : endNode;
+      matrix[from][to] = estimate;
+    });
   });
-  const endpoint = `https://api.odsay.com/v1/api/searchPubTransPathT?${params.toString()}`;
-
-  const payload = await fetchJsonWithTimeout(endpoint, { method: "GET" }, 4500);
-
-  const info = (payload as {
-    result?: { path?: Array<{ info?: { totalDistance?: unknown; totalTime?: unknown } }> };
-  }).result?.path?.[0]?.info;
 
-  const distanceMeters = toFiniteNumber(info?.totalDistance);
-  const durationMin = toFiniteNumber(info?.totalTime);
-
-  if (distanceMeters === null || durationMin === null) {
-    throw new Error("ODSAY response missing distance/time");
-  }
+  const solved = solveRouteOrder(
+    matrix.map((row) => row.map((estimate) => estimate.durationMin)),
+    input.end ? { startIndex: 0, endIndex: endNode } : { startIndex: 0, roundTrip: input.roundTrip }
+  );
+  const waypointNodes = solved.route.filter((node) => node >= 1 && node <= waypointCount);
+  const greedyDistanceKm = sumRoute(solved.greedyRoute, matrix, "distanceKm");
+  const optimizedDistanceKm = sumRoute(solved.route, matrix, "distanceKm");
 
   return {
-    distanceKm: roundTo(distanceMeters / 1000, 2),
-    durationMin: roundTo(durationMin, 1),
-    provider: "odsay"
-  };
-}
-
-async function estimateSegment(
-  from: RoutePoint,
-  to: RoutePoint,
-  mode: RouteTransportMode,
-  keys: ProviderKeys,
-  warnings: string[]
-): Promise<RawEstimate> {
-  const estimators: Array<{ provider: "kakao" | "odsay"; run: () => Promise<RawEstimate> }> = [];
-
-  if (mode === "transit") {
-    if (keys.odsayKey) {
-      estimators.push({
-        provider: "odsay",
-        run: () => estimateWithOdsay(from, to, keys.odsayKey as string)
-      });
+    orderedWaypoints: waypointNodes.map((node) => clonePoint(input.waypoints[node - 1])),
+    improvement: {
+      greedyDistanceKm: roundTo(greedyDistanceKm, 2),
+      distanceSavedKm: roundTo(greedyDistanceKm - optimizedDistanceKm, 2),
+      greedyDurationMin: roundTo(solved.greedyDistance, 1),
+      durationSavedMin: roundTo(solved.savedDistance, 1)
     }
-    if (keys.kakaoKey) {
-      estimators.push({
-        provider: "kakao",
-        run: () => estimateWithKakao(from, to, keys.kakaoKey as string)
-      });
-    }
-  } else {
-    if (keys.kakaoKey) {
-      estimators.push({
-        provider: "kakao",
-        run: () => estimateWithKakao(from, to, keys.kakaoKey as string)
-      });
-    }
-    if (keys.odsayKey) {
-      estimators.push({
-        provider: "odsay",
-        run: () => estimateWithOdsay(from, to, keys.odsayKey as string)
-      });
-    }
-  }
-
-  for (const estimator of estimators) {
-    try {
-      return await estimator.run();
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "unknown error";
-      const sanitizedMessage = sanitizePublicText(message);
-      const statusCode = extractHttpStatusCode(sanitizedMessage);
-
-      if (statusCode) {
-        addWarning(
-          warnings,
-          `${estimator.provider.toUpperCase()} estimate request returned HTTP ${statusCode}. Fallback estimate used.`
-        );
-      } else {
-        addWarning(
-          warnings,
-          `${estimator.provider.toUpperCase()} estimate request failed. Fallback estimate used.`
-        );
-      }
-    }
-  }
-
-  return estimateFallbackSegment(from, to, mode);
+  };
 }
 
 function deriveSource(segments: RouteSegmentEstimate[]): RouteEstimateProvider | "mixed" {
@@ -344,14 +164,19 @@ export async function optimizeRoute(input: OptimizeRouteInput): Promise<Optimize
   const warnings: string[] = [];
   const keys = resolveProviderKeys();
 
-  if (!keys.kakaoKey && !keys.odsayKey) {
+  if (!keys.fixturePath && !keys.kakaoKey && !keys.odsayKey) {
     addWarning(
       warnings,
       "Live route provider keys are not configured. Using local fallback estimates."
     );
   }
 
-  const orderedWaypoints = orderWaypointsByDistance(input.start, input.waypoints);
+  const matrixClient = createDistanceMatrixClient({
+    providers: resolveDistanceMatrixProviders(input.mode, keys),
+    onProviderError: (provider, error) => addProviderWarning(warnings, provider, error)
+  });
+
+  const { orderedWaypoints, improvement } = await solveWaypointOrder(input, matrixClient);
   const orderedPoints: RoutePoint[] = [clonePoint(input.start), ...orderedWaypoints];
 
   if (input.end) {
@@ -364,21 +189,18 @@ export async function optimizeRoute(input: OptimizeRouteInput): Promise<Optimize
     throw new Error("Route optimization requires at least two points.");
   }
 
-  const segments: RouteSegmentEstimate[] = [];
-
-  for (let i = 0; i < orderedPoints.length - 1; i += 1) {
-    const from = orderedPoints[i];
-    const to = orderedPoints[i + 1];
-    const estimate = await estimateSegment(from, to, input.mode, keys, warnings);
+  // Legs already resolved while building the matrix are served from the cache; legs the matrix
+  // left on the fallback estimate get one more point-to-point attempt here.
+  const legs = orderedPoints.slice(1).map((to, index) => ({ from: orderedPoints[index], to }));
+  const estimates = await matrixClient.estimatePairs(legs, input.mode);
 
-    segments.push({
-      from,
-      to,
-      distanceKm: estimate.distanceKm,
-      durationMin: estimate.durationMin,
-      provider: estimate.provider
-    });
-  }
+  const segments: RouteSegmentEstimate[] = legs.map((leg, index) => ({
+    from: leg.from,
+    to: leg.to,
+    distanceKm: estimates[index].distanceKm,
+    durationMin: estimates[index].durationMin,
+    provider: estimates[index].provider
+  }));
 
   const totalDistanceKm = roundTo(
     segments.reduce((sum, segment) => sum + segment.distanceKm, 0),
@@ -395,6 +217,7 @@ export async function optimizeRoute(input: OptimizeRouteInput): Promise<Optimize
     totalDistanceKm,
     totalDurationMin,
     source: deriveSource(segments),
+    improvement,
     warnings
   };
 }
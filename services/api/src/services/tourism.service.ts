@@ -1,5 +1,16 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { responseCache } from "../config/response-cache";
+import { sanitizePublicText } from "../utils/response-safety";
+import { toDayKey } from "./day-anchors";
+import { readTourOpeningHours } from "./opening-hours";
+import {
+  findOverlappingEvents,
+  planEventOffers,
+  type DayEventOffers,
+  type EventDay,
+  type TripEvent
+} from "./trip-events";
+import { upstream } from "./upstream-client";
 
 const TOUR_API_BASE = "https://apis.data.go.kr/B551011/KorService2";
 
@@ -29,6 +40,9 @@ interface TourItem {
   mapy: string;
   tel?: string;
   contenttypeid: string;
+  // 축제/행사 검색에만 포함 (YYYYMMDD)
+  eventstartdate?: string;
+  eventenddate?: string;
 }
 
 interface TourApiResponse {
@@ -61,59 +75,131 @@ export async function searchAttractions(params: {
   pageNo?: number;
   numOfRows?: number;
 }) {
-  const response = await axios.get<TourApiResponse>(withServiceKey("areaBasedList2"), {
-    params: {
-      numOfRows: params.numOfRows ?? 20,
-      pageNo: params.pageNo ?? 1,
-      MobileOS: "AND",
-      MobileApp: "TripMate",
-      _type: "json",
-      arrange: "P",
-      areaCode: params.areaCode,
-      contentTypeId: params.contentTypeId ?? "12"
-    }
-  });
+  const query = {
+    numOfRows: params.numOfRows ?? 20,
+    pageNo: params.pageNo ?? 1,
+    MobileOS: "AND",
+    MobileApp: "TripMate",
+    _type: "json",
+    arrange: "P",
+    areaCode: params.areaCode,
+    contentTypeId: params.contentTypeId ?? "12"
+  };
 
-  return readItems(response.data);
+  return responseCache.fetch("tour.attractions", query, async () => {
+    const payload = await upstream.get<TourApiResponse>("tourapi", withServiceKey("areaBasedList2"), { params: query });
+    return readItems(payload);
+  });
 }
 
 // 키워드 검색
 export async function searchByKeyword(keyword: string, pageNo?: number) {
-  const response = await axios.get<TourApiResponse>(withServiceKey("searchKeyword2"), {
-    params: {
-      numOfRows: 20,
-      pageNo: pageNo ?? 1,
-      MobileOS: "AND",
-      MobileApp: "TripMate",
-      _type: "json",
-      arrange: "P",
-      keyword
-    }
-  });
+  const query = {
+    numOfRows: 20,
+    pageNo: pageNo ?? 1,
+    MobileOS: "AND",
+    MobileApp: "TripMate",
+    _type: "json",
+    arrange: "P",
+    keyword
+  };
 
-  return readItems(response.data);
+  return responseCache.fetch("tour.keyword", query, async () => {
+    const payload = await upstream.get<TourApiResponse>("tourapi", withServiceKey("searchKeyword2"), { params: query });
+    return readItems(payload);
+  });
 }
 
 // 축제/행사 검색
 export async function searchFestivals(params: {
   eventStartDate: string;
+  eventEndDate?: string;
   areaCode?: string;
   pageNo?: number;
+  numOfRows?: number;
 }) {
-  const response = await axios.get<TourApiResponse>(withServiceKey("searchFestival2"), {
-    params: {
-      numOfRows: 20,
-      pageNo: params.pageNo ?? 1,
-      MobileOS: "AND",
-      MobileApp: "TripMate",
-      _type: "json",
-      arrange: "P",
-      eventStartDate: params.eventStartDate,
-      areaCode: params.areaCode
-    }
+  const query = {
+    numOfRows: params.numOfRows ?? 20,
+    pageNo: params.pageNo ?? 1,
+    MobileOS: "AND",
+    MobileApp: "TripMate",
+    _type: "json",
+    arrange: "P",
+    eventStartDate: params.eventStartDate,
+    eventEndDate: params.eventEndDate,
+    areaCode: params.areaCode
+  };
+
+  return responseCache.fetch("tour.festivals", query, async () => {
+    const payload = await upstream.get<TourApiResponse>("tourapi", withServiceKey("searchFestival2"), { params: query });
+    return readItems(payload);
+  });
+}
+
+// 여행 기간과 겹치는 축제/행사를 일자별 선택 일정으로 제안 (조회 실패 시 경고만 추가)
+export async function findFestivalOffers(
+  areaCode: string,
+  days: EventDay[],
+  warnings: string[]
+): Promise<{ events: TripEvent[]; days: DayEventOffers[] }> {
+  const firstDay = days[0];
+  const lastDay = days[days.length - 1];
+  if (!firstDay || !lastDay) {
+    return { events: [], days: [] };
+  }
+
+  const startDate = toDayKey(firstDay.date);
+  const endDate = toDayKey(lastDay.date);
+  try {
+    const items = await searchFestivals({
+      eventStartDate: startDate.replace(/-/g, ""),
+      eventEndDate: endDate.replace(/-/g, ""),
+      areaCode,
+      numOfRows: 50
+    });
+    const events = findOverlappingEvents(items, startDate, endDate);
+    return { events, days: planEventOffers(events, days) };
+  } catch (error) {
+    const message = error instanceof Error ? sanitizePublicText(error.message) : "unknown";
+    console.error(`[tourism] festival lookup failed: ${message || "unknown"}`);
+    warnings.push("Festivals could not be loaded");
+    return { events: [], days: planEventOffers([], days) };
+  }
+}
+
+// 콘텐츠 ID로 공통 정보(이름, 주소, 좌표) 조회
+export async function getContentDetail(contentId: string): Promise<TourItem | null> {
+  const query = {
+    MobileOS: "AND",
+    MobileApp: "TripMate",
+    _type: "json",
+    contentId
+  };
+
+  return responseCache.fetch("tour.detail", query, async () => {
+    const payload = await upstream.get<TourApiResponse>("tourapi", withServiceKey("detailCommon2"), { params: query });
+    return readItems(payload)[0] ?? null;
+  });
+}
+
+// 소개 정보(detailIntro2)에서 이용시간 조회. 형식은 TripPlace.openingHours와 같고, 모르면 null
+export async function getContentOpeningHours(item: Pick<TourItem, "contentid" | "contenttypeid">): Promise<string | null> {
+  const query = {
+    MobileOS: "AND",
+    MobileApp: "TripMate",
+    _type: "json",
+    contentId: item.contentid,
+    contentTypeId: item.contenttypeid
+  };
+
+  const intro = await responseCache.fetch("tour.intro", query, async () => {
+    const payload = await upstream.get<unknown>("tourapi", withServiceKey("detailIntro2"), { params: query });
+    const first = (payload as { response?: { body?: { items?: { item?: unknown } } } }).response?.body?.items?.item;
+    const record = Array.isArray(first) ? first[0] : first;
+    return typeof record === "object" && record !== null ? (record as Record<string, unknown>) : null;
   });
 
-  return readItems(response.data);
+  return readTourOpeningHours(item.contenttypeid, intro);
 }
 
 // 지역코드 매핑
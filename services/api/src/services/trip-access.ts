@@ -0,0 +1,82 @@
+import { createHash, randomBytes } from "crypto";
+
+import { prisma } from "../config/database";
+
+export type TripRole = "owner" | "editor" | "viewer";
+export type TripInviteRole = Exclude<TripRole, "owner">;
+
+export interface TripAccess {
+  id: string;
+  ownerId: string;
+  startDate: Date;
+  endDate: Date;
+  role: TripRole;
+}
+
+const ROLE_RANK: Record<TripRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
+export const TRIP_INVITE_ROLES: readonly TripInviteRole[] = ["editor", "viewer"];
+
+export function isTripInviteRole(value: unknown): value is TripInviteRole {
+  return typeof value === "string" && (TRIP_INVITE_ROLES as readonly string[]).includes(value);
+}
+
+export function toTripRole(value: string): TripRole {
+  return value === "owner" || value === "editor" ? value : "viewer";
+}
+
+export function isTripRoleAtLeast(role: TripRole, minimum: TripRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[minimum];
+}
+
+export function hasTripRole(access: TripAccess, minimum: TripRole): boolean {
+  return isTripRoleAtLeast(access.role, minimum);
+}
+
+// Trip.userId is the owner of record, so trips created before memberships existed stay reachable.
+export function tripMembershipFilter(userId: string) {
+  return {
+    OR: [{ userId }, { members: { some: { userId } } }]
+  };
+}
+
+export async function findTripAccess(tripId: string, userId: string): Promise<TripAccess | null> {
+  const trip = await prisma.trip.findFirst({
+    where: { id: tripId, ...tripMembershipFilter(userId) },
+    select: {
+      id: true,
+      userId: true,
+      startDate: true,
+      endDate: true,
+      members: {
+        where: { userId },
+        select: { role: true }
+      }
+    }
+  });
+
+  if (!trip) {
+    return null;
+  }
+
+  return {
+    id: trip.id,
+    ownerId: trip.userId,
+    startDate: trip.startDate,
+    endDate: trip.endDate,
+    role: trip.userId === userId ? "owner" : toTripRole(trip.members[0]?.role ?? "viewer")
+  };
+}
+
+export function createInviteToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(24).toString("base64url");
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,241 @@
+import type { Prisma, TripPlace } from "@prisma/client";
+
+import { prisma } from "../config/database";
+
+export type TripActivityAction =
+  | "place.update"
+  | "place.delete"
+  | "day.update"
+  | "day.delete"
+  | "day.replan"
+  | "activity.revert";
+export type TripActivityEntity = "place" | "day";
+
+type DbClient = Prisma.TransactionClient;
+
+export type PlaceSnapshot = TripPlace;
+
+export interface DaySnapshot {
+  id: string;
+  tripId: string;
+  dayNumber: number;
+  date: string;
+  places: PlaceSnapshot[];
+}
+
+export interface TripActivityInput {
+  tripId: string;
+  userId: string;
+  action: TripActivityAction;
+  entityType: TripActivityEntity;
+  entityId: string;
+  before: PlaceSnapshot | DaySnapshot | null;
+  after: PlaceSnapshot | DaySnapshot | null;
+  revertOfId?: string;
+}
+
+export type RevertResult =
+  | { ok: true; entryId: string; entityType: TripActivityEntity; entityId: string }
+  | {
+      ok: false;
+      code: "HISTORY_ENTRY_NOT_FOUND" | "HISTORY_NOT_REVERTIBLE" | "HISTORY_DAY_MISSING" | "HISTORY_DAY_NUMBER_TAKEN";
+    };
+
+export async function snapshotPlace(db: DbClient, placeId: string): Promise<PlaceSnapshot | null> {
+  return db.tripPlace.findUnique({ where: { id: placeId } });
+}
+
+export async function snapshotDay(db: DbClient, dayId: string): Promise<DaySnapshot | null> {
+  const day = await db.tripDay.findUnique({
+    where: { id: dayId },
+    include: { places: { orderBy: { orderIndex: "asc" } } }
+  });
+
+  if (!day) {
+    return null;
+  }
+
+  return {
+    id: day.id,
+    tripId: day.tripId,
+    dayNumber: day.dayNumber,
+    date: day.date.toISOString(),
+    places: day.places
+  };
+}
+
+export async function recordTripActivity(db: DbClient, input: TripActivityInput): Promise<void> {
+  await db.tripActivity.create({
+    data: {
+      tripId: input.tripId,
+      userId: input.userId,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      before: input.before ? JSON.stringify(input.before) : null,
+      after: input.after ? JSON.stringify(input.after) : null,
+      ...(input.revertOfId !== undefined ? { revertOfId: input.revertOfId } : {})
+    }
+  });
+}
+
+export function parseSnapshot(value: string | null): unknown {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function toPlaceData(place: PlaceSnapshot) {
+  return {
+    orderIndex: place.orderIndex,
+    name: place.name,
+    address: place.address,
+    lat: place.lat,
+    lng: place.lng,
+    category: place.category,
+    imageUrl: place.imageUrl,
+    phone: place.phone,
+    memo: place.memo,
+    startTime: place.startTime,
+    endTime: place.endTime,
+    // Snapshots taken before places had opening hours lack the field.
+    openingHours: place.openingHours ?? null
+  };
+}
+
+// Puts a place back exactly as snapshotted, recreating it (same id) if it was deleted since.
+async function restorePlace(db: DbClient, tripId: string, place: PlaceSnapshot): Promise<RevertResult | null> {
+  const day = await db.tripDay.findFirst({ where: { id: place.tripDayId, tripId }, select: { id: true } });
+  if (!day) {
+    return { ok: false, code: "HISTORY_DAY_MISSING" };
+  }
+
+  await db.tripPlace.upsert({
+    where: { id: place.id },
+    create: { id: place.id, tripDayId: place.tripDayId, ...toPlaceData(place) },
+    update: { tripDayId: place.tripDayId, ...toPlaceData(place) }
+  });
+
+  return null;
+}
+
+// Restores the day's fields and, unless `fieldsOnly`, replaces its places with the snapshot. Refuses
+// when another day of the trip has taken the snapshot's day number in the meantime.
+async function restoreDay(
+  db: DbClient,
+  tripId: string,
+  day: DaySnapshot,
+  fieldsOnly: boolean
+): Promise<RevertResult | null> {
+  const taken = await db.tripDay.findFirst({
+    where: { tripId, dayNumber: day.dayNumber, id: { not: day.id } },
+    select: { id: true }
+  });
+  if (taken) {
+    return { ok: false, code: "HISTORY_DAY_NUMBER_TAKEN" };
+  }
+
+  const existing = await db.tripDay.findFirst({ where: { id: day.id, tripId }, select: { id: true } });
+  const fields = { dayNumber: day.dayNumber, date: new Date(day.date) };
+
+  if (!existing) {
+    await db.tripDay.create({ data: { id: day.id, tripId, ...fields } });
+  } else {
+    await db.tripDay.update({ where: { id: day.id }, data: fields });
+  }
+
+  if (fieldsOnly && existing) {
+    return null;
+  }
+
+  await db.tripPlace.deleteMany({ where: { tripDayId: day.id } });
+  // Places from the snapshot may have moved to another day since; take them back.
+  await db.tripPlace.deleteMany({ where: { id: { in: day.places.map((place) => place.id) } } });
+  for (const place of day.places) {
+    await db.tripPlace.create({ data: { id: place.id, tripDayId: day.id, ...toPlaceData(place) } });
+  }
+
+  return null;
+}
+
+function isPlaceSnapshot(value: unknown): value is PlaceSnapshot {
+  const place = value as Partial<PlaceSnapshot> | null;
+  return typeof place === "object" && place !== null && typeof place.id === "string" && typeof place.tripDayId === "string";
+}
+
+function isDaySnapshot(value: unknown): value is DaySnapshot {
+  const day = value as Partial<DaySnapshot> | null;
+  return (
+    typeof day === "object" &&
+    day !== null &&
+    typeof day.id === "string" &&
+    typeof day.date === "string" &&
+    typeof day.dayNumber === "number" &&
+    Array.isArray(day.places) &&
+    day.places.every(isPlaceSnapshot)
+  );
+}
+
+// Restores the `before` state of an entry and logs the revert itself, so a revert can be undone too.
+export async function revertTripActivity(tripId: string, entryId: string, userId: string): Promise<RevertResult> {
+  return prisma.$transaction(async (tx) => {
+    const entry = await tx.tripActivity.findFirst({ where: { id: entryId, tripId } });
+    if (!entry) {
+      return { ok: false, code: "HISTORY_ENTRY_NOT_FOUND" };
+    }
+
+    const before = parseSnapshot(entry.before);
+
+    if (entry.entityType === "place") {
+      if (!isPlaceSnapshot(before)) {
+        return { ok: false, code: "HISTORY_NOT_REVERTIBLE" };
+      }
+
+      const current = await snapshotPlace(tx, before.id);
+      const failure = await restorePlace(tx, tripId, before);
+      if (failure) {
+        return failure;
+      }
+
+      await recordTripActivity(tx, {
+        tripId,
+        userId,
+        action: "activity.revert",
+        entityType: "place",
+        entityId: before.id,
+        before: current,
+        after: await snapshotPlace(tx, before.id),
+        revertOfId: entry.id
+      });
+      return { ok: true, entryId: entry.id, entityType: "place", entityId: before.id };
+    }
+
+    if (!isDaySnapshot(before)) {
+      return { ok: false, code: "HISTORY_NOT_REVERTIBLE" };
+    }
+
+    const current = await snapshotDay(tx, before.id);
+    const failure = await restoreDay(tx, tripId, before, entry.action === "day.update");
+    if (failure) {
+      return failure;
+    }
+
+    await recordTripActivity(tx, {
+      tripId,
+      userId,
+      action: "activity.revert",
+      entityType: "day",
+      entityId: before.id,
+      before: current,
+      after: await snapshotDay(tx, before.id),
+      revertOfId: entry.id
+    });
+    return { ok: true, entryId: entry.id, entityType: "day", entityId: before.id };
+  });
+}
@@ -0,0 +1,183 @@
+import { toDayKey } from "./day-anchors";
+import {
+  getCachedAirQuality,
+  getDustForecast,
+  gradeToText,
+  readForecastGrades,
+  resolveSidoName,
+  toSidoGrade,
+  type SidoName
+} from "./air-quality.service";
+import { isOutdoorPlace } from "./weather-replan";
+
+export type AirPollutant = "pm10" | "pm25";
+
+export interface AirQualityPlace {
+  id: string;
+  name: string;
+  category: string;
+  address: string | null;
+}
+
+export interface AirQualityDay {
+  dayNumber: number;
+  date: Date;
+  places: AirQualityPlace[];
+}
+
+export interface DayAirQuality {
+  dayNumber: number;
+  date: string;
+  // AirKorea grades: 1 good, 2 moderate, 3 bad, 4 very bad.
+  pm10Grade: number | null;
+  pm25Grade: number | null;
+  pm10GradeText: string;
+  pm25GradeText: string;
+  // Today uses live station readings; later days use the dust forecast.
+  source: "measured" | "forecast";
+}
+
+export interface AirAdvisory {
+  dayNumber: number;
+  date: string;
+  pollutant: AirPollutant;
+  grade: number;
+  message: string;
+  // Stops the advice is about, if any.
+  placeIds: string[];
+}
+
+export interface TripAirQuality {
+  sido: SidoName;
+  days: DayAirQuality[];
+  advisories: AirAdvisory[];
+}
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+// The dust forecast covers the issue day and the two days after it.
+const FORECAST_DAYS = 3;
+const BAD_GRADE = 3;
+const VERY_BAD_GRADE = 4;
+const SENSITIVE_COMPANIONS = new Set(["parents", "family_kids"]);
+const HIKING_PATTERN = /등산|트레킹|오름|둘레길|올레|산성|산$/;
+
+const POLLUTANT_LABELS: Record<AirPollutant, string> = { pm10: "PM10", pm25: "PM2.5" };
+const GRADE_LABELS: Record<number, string> = { 3: "bad", 4: "very bad" };
+
+function toKstDateKey(time: number): string {
+  return new Date(time + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function worstPollutant(day: DayAirQuality): { pollutant: AirPollutant; grade: number } | null {
+  const pm10 = day.pm10Grade ?? 0;
+  const pm25 = day.pm25Grade ?? 0;
+  if (pm10 === 0 && pm25 === 0) {
+    return null;
+  }
+
+  return pm25 >= pm10 ? { pollutant: "pm25", grade: pm25 } : { pollutant: "pm10", grade: pm10 };
+}
+
+function listNames(places: AirQualityPlace[]): string {
+  return places.map((place) => place.name).join(", ");
+}
+
+// One advisory per day with a bad grade. Parents and small children get stop-level advice:
+// hikes first, then any other outdoor stop.
+export function buildAirAdvisories(
+  airDays: DayAirQuality[],
+  tripDays: AirQualityDay[],
+  companions: string | null
+): AirAdvisory[] {
+  const sensitive = companions !== null && SENSITIVE_COMPANIONS.has(companions);
+
+  return airDays.flatMap((airDay) => {
+    const worst = worstPollutant(airDay);
+    if (!worst || worst.grade < BAD_GRADE) {
+      return [];
+    }
+
+    const places = tripDays.find((day) => day.dayNumber === airDay.dayNumber)?.places ?? [];
+    const outdoor = places.filter((place) => isOutdoorPlace(place));
+    const hiking = outdoor.filter((place) => HIKING_PATTERN.test(place.name));
+    const level = GRADE_LABELS[worst.grade] ?? "bad";
+    const prefix = `Day ${airDay.dayNumber}: ${POLLUTANT_LABELS[worst.pollutant]} is ${level}`;
+    const advise = (advice: string, targets: AirQualityPlace[]): AirAdvisory[] => [
+      {
+        dayNumber: airDay.dayNumber,
+        date: airDay.date,
+        pollutant: worst.pollutant,
+        grade: worst.grade,
+        message: `${prefix}; ${advice}`,
+        placeIds: targets.map((place) => place.id)
+      }
+    ];
+
+    if (sensitive && hiking.length > 0) {
+      return advise(`swap hiking at ${listNames(hiking)} for an indoor stop`, hiking);
+    }
+
+    if (sensitive && outdoor.length > 0) {
+      return advise(`consider indoor alternatives to ${listNames(outdoor)}`, outdoor);
+    }
+
+    const general = worst.grade >= VERY_BAD_GRADE ? "keep time outdoors short" : "wear a KF94 mask outdoors";
+    return advise(general, []);
+  });
+}
+
+// Resolves the destination (or the first stop address) to a sido and grades the trip days that
+// fall within the forecast window. Returns null when the sido is unknown or no day is upcoming.
+export async function loadTripAirQuality(
+  destination: string,
+  days: AirQualityDay[],
+  companions: string | null,
+  now = new Date()
+): Promise<TripAirQuality | null> {
+  const firstAddress = days.flatMap((day) => day.places).find((place) => place.address)?.address;
+  const sido = resolveSidoName(destination, firstAddress);
+  if (!sido) {
+    return null;
+  }
+
+  const todayKey = toKstDateKey(now.getTime());
+  const lastKey = toKstDateKey(now.getTime() + (FORECAST_DAYS - 1) * DAY_IN_MS);
+  const upcoming = days.filter((day) => {
+    const key = toDayKey(day.date);
+    return key >= todayKey && key <= lastKey;
+  });
+  if (upcoming.length === 0) {
+    return null;
+  }
+
+  const includesToday = upcoming.some((day) => toDayKey(day.date) === todayKey);
+  const [measured, pm10Forecast, pm25Forecast] = await Promise.all([
+    includesToday ? getCachedAirQuality(sido) : Promise.resolve([]),
+    getDustForecast(todayKey, "PM10"),
+    getDustForecast(todayKey, "PM25")
+  ]);
+  const pm10ByDate = readForecastGrades(pm10Forecast, sido);
+  const pm25ByDate = readForecastGrades(pm25Forecast, sido);
+
+  const airDays = upcoming.map((day): DayAirQuality => {
+    const date = toDayKey(day.date);
+    const measuredPm10 = date === todayKey ? toSidoGrade(measured, "pm10Grade") : null;
+    const measuredPm25 = date === todayKey ? toSidoGrade(measured, "pm25Grade") : null;
+    const useMeasured = measuredPm10 !== null || measuredPm25 !== null;
+    const pm10Grade = useMeasured ? measuredPm10 : (pm10ByDate.get(date) ?? null);
+    const pm25Grade = useMeasured ? measuredPm25 : (pm25ByDate.get(date) ?? null);
+
+    return {
+      dayNumber: day.dayNumber,
+      date,
+      pm10Grade,
+      pm25Grade,
+      pm10GradeText: gradeToText(String(pm10Grade ?? "")),
+      pm25GradeText: gradeToText(String(pm25Grade ?? "")),
+      source: useMeasured ? "measured" : "forecast"
+    };
+  });
+
+  return { sido, days: airDays, advisories: buildAirAdvisories(airDays, days, companions) };
+}
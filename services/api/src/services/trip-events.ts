@@ -0,0 +1,235 @@
+import { formatClockTime, haversineDistanceKm, parseClockTime } from "@tripmate/planner";
+
+import { ANCHOR_PLACE_CATEGORIES, toDayKey } from "./day-anchors";
+import type { DayWindow } from "./meal-slots";
+import type { TourItem } from "./tourism.service";
+
+export interface TripEvent {
+  contentId: string;
+  name: string;
+  // YYYY-MM-DD, inclusive.
+  startDate: string;
+  endDate: string;
+  address: string | null;
+  lat: number | null;
+  lng: number | null;
+  imageUrl: string | null;
+  phone: string | null;
+}
+
+export interface EventDayPlace {
+  id: string;
+  name: string;
+  category: string;
+  lat: number | null;
+  lng: number | null;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface EventDay {
+  dayNumber: number;
+  date: Date;
+  // Usable hours left by flights and rental car handovers.
+  window?: DayWindow;
+  places: EventDayPlace[];
+}
+
+export type EventConflictType = "already_scheduled" | "no_free_time" | "far_from_day";
+
+export interface EventConflict {
+  type: EventConflictType;
+  message: string;
+  placeIds: string[];
+}
+
+// An optional stop; nothing is added to the day until the client accepts it through the places API.
+export interface EventOffer {
+  event: TripEvent;
+  // First gap in the day long enough for a visit, if any.
+  suggestedSlot: { startTime: string; endTime: string } | null;
+  // Distance to the nearest located stop of the day.
+  distanceKm: number | null;
+  conflicts: EventConflict[];
+}
+
+export interface DayEventOffers {
+  dayNumber: number;
+  date: string;
+  offers: EventOffer[];
+}
+
+const DEFAULT_DAY_START = "10:00";
+const DEFAULT_DAY_END = "21:00";
+const EVENT_VISIT_MINUTES = 120;
+const MAX_EVENT_DISTANCE_KM = 20;
+const MAX_OFFERS_PER_DAY = 5;
+
+function toIsoDate(value: string | undefined): string | null {
+  const matched = /^(\d{4})(\d{2})(\d{2})$/.exec(value?.trim() ?? "");
+  return matched ? `${matched[1]}-${matched[2]}-${matched[3]}` : null;
+}
+
+function toCoordinate(value: string, max: number): number | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed !== 0 && Math.abs(parsed) <= max ? parsed : null;
+}
+
+// Saved places may carry hand-typed times; anything unreadable is treated as untimed.
+function readClock(value: string | null | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return parseClockTime(value);
+  } catch {
+    return null;
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.replace(/\s+/g, "").toLowerCase();
+}
+
+export function toTripEvent(item: TourItem): TripEvent | null {
+  const startDate = toIsoDate(item.eventstartdate);
+  const endDate = toIsoDate(item.eventenddate) ?? startDate;
+  if (!startDate || !endDate || endDate < startDate) {
+    return null;
+  }
+
+  const address = [item.addr1, item.addr2].filter(Boolean).join(" ").trim();
+  return {
+    contentId: item.contentid,
+    name: item.title.trim(),
+    startDate,
+    endDate,
+    address: address || null,
+    lat: toCoordinate(item.mapy, 90),
+    lng: toCoordinate(item.mapx, 180),
+    imageUrl: item.firstimage || item.firstimage2 || null,
+    phone: item.tel || null
+  };
+}
+
+// TourAPI also returns festivals that merely start inside the searched range, and its date filter
+// has been loose in practice, so the overlap is checked again here.
+export function findOverlappingEvents(items: TourItem[], startDate: string, endDate: string): TripEvent[] {
+  const seen = new Set<string>();
+
+  return items
+    .map((item) => toTripEvent(item))
+    .filter((event): event is TripEvent => {
+      if (!event || event.endDate < startDate || event.startDate > endDate || seen.has(event.contentId)) {
+        return false;
+      }
+      seen.add(event.contentId);
+      return true;
+    })
+    .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.name.localeCompare(b.name));
+}
+
+// First gap of EVENT_VISIT_MINUTES inside the day's usable hours, between the timed stops.
+function findFreeSlot(day: EventDay): { startTime: string; endTime: string } | null {
+  const dayStart = Math.max(readClock(day.window?.startTime) ?? 0, parseClockTime(DEFAULT_DAY_START));
+  const dayEnd = Math.min(readClock(day.window?.endTime) ?? Number.POSITIVE_INFINITY, parseClockTime(DEFAULT_DAY_END));
+  const busy = day.places
+    .map((place) => ({ start: readClock(place.startTime), end: readClock(place.endTime) }))
+    .flatMap(({ start, end }) => (start !== null ? [{ start, end: Math.max(start, end ?? start) }] : []))
+    .sort((a, b) => a.start - b.start);
+
+  let cursor = dayStart;
+  for (const interval of [...busy, { start: dayEnd, end: dayEnd }]) {
+    if (Math.min(interval.start, dayEnd) - cursor >= EVENT_VISIT_MINUTES) {
+      return { startTime: formatClockTime(cursor), endTime: formatClockTime(cursor + EVENT_VISIT_MINUTES) };
+    }
+    cursor = Math.max(cursor, interval.end);
+  }
+
+  return null;
+}
+
+function nearestStop(event: TripEvent, places: EventDayPlace[]): { distanceKm: number; placeId: string } | null {
+  if (event.lat === null || event.lng === null) {
+    return null;
+  }
+
+  const from = { lat: event.lat, lng: event.lng };
+  let nearest: { distanceKm: number; placeId: string } | null = null;
+  for (const place of places) {
+    if (place.lat === null || place.lng === null || ANCHOR_PLACE_CATEGORIES.has(place.category)) continue;
+
+    const distanceKm = haversineDistanceKm(from, { lat: place.lat, lng: place.lng });
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { distanceKm, placeId: place.id };
+    }
+  }
+
+  return nearest ? { ...nearest, distanceKm: Math.round(nearest.distanceKm * 10) / 10 } : null;
+}
+
+function findConflicts(
+  event: TripEvent,
+  day: EventDay,
+  slot: EventOffer["suggestedSlot"],
+  nearest: ReturnType<typeof nearestStop>
+): EventConflict[] {
+  const conflicts: EventConflict[] = [];
+
+  const duplicates = day.places.filter((place) => normalizeName(place.name) === normalizeName(event.name));
+  if (duplicates.length > 0) {
+    conflicts.push({
+      type: "already_scheduled",
+      message: `${event.name} is already on day ${day.dayNumber}`,
+      placeIds: duplicates.map((place) => place.id)
+    });
+  }
+
+  if (!slot) {
+    conflicts.push({
+      type: "no_free_time",
+      message: `Day ${day.dayNumber} has no ${EVENT_VISIT_MINUTES}-minute gap for ${event.name}`,
+      placeIds: day.places.filter((place) => readClock(place.startTime) !== null).map((place) => place.id)
+    });
+  }
+
+  if (nearest && nearest.distanceKm > MAX_EVENT_DISTANCE_KM) {
+    conflicts.push({
+      type: "far_from_day",
+      message: `${event.name} is ${nearest.distanceKm} km from the nearest stop on day ${day.dayNumber}`,
+      placeIds: [nearest.placeId]
+    });
+  }
+
+  return conflicts;
+}
+
+// Offers each running event on every trip day it overlaps. Offers without conflicts come first,
+// then the closest ones.
+export function planEventOffers(events: TripEvent[], days: EventDay[]): DayEventOffers[] {
+  return days.map((day) => {
+    const date = toDayKey(day.date);
+    const slot = findFreeSlot(day);
+
+    const offers = events
+      .filter((event) => event.startDate <= date && event.endDate >= date)
+      .map((event): EventOffer => {
+        const nearest = nearestStop(event, day.places);
+        return {
+          event,
+          suggestedSlot: slot,
+          distanceKm: nearest?.distanceKm ?? null,
+          conflicts: findConflicts(event, day, slot, nearest)
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.conflicts.length - b.conflicts.length ||
+          (a.distanceKm ?? Number.POSITIVE_INFINITY) - (b.distanceKm ?? Number.POSITIVE_INFINITY)
+      )
+      .slice(0, MAX_OFFERS_PER_DAY);
+
+    return { dayNumber: day.dayNumber, date, offers };
+  });
+}
@@ -0,0 +1,298 @@
+import type { TspLocation } from "@tripmate/planner";
+
+import {
+  clampClock,
+  closeDayAt,
+  findDayIndex,
+  openDayAt,
+  toKstMinutes,
+  type AnchorPlaceData,
+  type DayPlanAnchors
+} from "./day-anchors";
+
+export interface FlightInput {
+  carrier: string;
+  flightNumber: string;
+  departureAirport: string;
+  arrivalAirport: string;
+  departureTime: Date;
+  arrivalTime: Date;
+  bookingReference?: string | null;
+  seat?: string | null;
+  memo?: string | null;
+}
+
+interface AirportInfo {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export const flightFields = new Set([
+  "carrier",
+  "flightNumber",
+  "departureAirport",
+  "arrivalAirport",
+  "departureTime",
+  "arrivalTime",
+  "bookingReference",
+  "seat",
+  "memo"
+]);
+
+// Baggage claim and getting out of the terminal.
+const ARRIVAL_BUFFER_MINUTES = 60;
+// Domestic check-in and security; the ride to the airport is added on top by the scheduler.
+const DEPARTURE_BUFFER_MINUTES = 60;
+const AIRPORT_CODE_PATTERN = /^[A-Z]{3}$/;
+const FLIGHT_NUMBER_PATTERN = /^[A-Z0-9]{2}\d{1,4}[A-Z]?$/;
+
+const KOREAN_AIRPORTS: Record<string, AirportInfo> = {
+  GMP: { name: "김포국제공항", lat: 37.5583, lng: 126.7906 },
+  ICN: { name: "인천국제공항", lat: 37.4602, lng: 126.4407 },
+  CJU: { name: "제주국제공항", lat: 33.5104, lng: 126.4914 },
+  PUS: { name: "김해국제공항", lat: 35.1795, lng: 128.9382 },
+  CJJ: { name: "청주국제공항", lat: 36.7166, lng: 127.4991 },
+  TAE: { name: "대구국제공항", lat: 35.8941, lng: 128.6589 },
+  KWJ: { name: "광주공항", lat: 35.1264, lng: 126.8089 },
+  MWX: { name: "무안국제공항", lat: 34.9914, lng: 126.3828 },
+  RSU: { name: "여수공항", lat: 34.8423, lng: 127.6169 },
+  USN: { name: "울산공항", lat: 35.5935, lng: 129.3517 },
+  KPO: { name: "포항경주공항", lat: 35.9879, lng: 129.4205 },
+  HIN: { name: "사천공항", lat: 35.0886, lng: 128.0705 },
+  KUV: { name: "군산공항", lat: 35.9038, lng: 126.6158 },
+  WJU: { name: "원주공항", lat: 37.4381, lng: 127.9604 },
+  YNY: { name: "양양국제공항", lat: 38.0613, lng: 128.6692 }
+};
+
+function parseRequiredText(
+  value: unknown,
+  field: string,
+  errors: string[],
+  pattern?: RegExp
+): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} is required and must be a non-empty string`);
+    return null;
+  }
+
+  if (!pattern) {
+    return value.trim();
+  }
+
+  const normalized = value.replace(/\s+/g, "").toUpperCase();
+  if (!pattern.test(normalized)) {
+    errors.push(`${field} has an invalid format`);
+    return null;
+  }
+
+  return normalized;
+}
+
+function parseOptionalNullableText(
+  value: unknown,
+  field: string,
+  errors: string[]
+): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} must be a non-empty string or null`);
+    return undefined;
+  }
+
+  return value.trim();
+}
+
+// Flight times must carry a time of day; a bare date cannot place the flight within the day.
+function parseDateTime(value: unknown, field: string, errors: string[]): Date | null {
+  if (typeof value !== "string" || !/T\d{2}:\d{2}/.test(value)) {
+    errors.push(`${field} is required and must be an ISO 8601 date-time string`);
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    errors.push(`${field} must be a valid ISO 8601 date-time string`);
+    return null;
+  }
+
+  return date;
+}
+
+// Parses a flight body. With `partial`, only the given fields are validated (PATCH).
+export function parseFlightInput(
+  value: unknown,
+  path: string,
+  errors: string[],
+  partial = false
+): Partial<FlightInput> | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const body = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : "";
+  const unknownFields = Object.keys(body).filter((field) => !flightFields.has(field));
+  if (unknownFields.length > 0) {
+    errors.push(`${path || "Request body"} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const parsed: Partial<FlightInput> = {};
+  const has = (field: string) => !partial || field in body;
+
+  if (has("carrier")) {
+    const carrier = parseRequiredText(body.carrier, `${prefix}carrier`, errors);
+    if (carrier) parsed.carrier = carrier;
+  }
+
+  if (has("flightNumber")) {
+    const flightNumber = parseRequiredText(
+      body.flightNumber,
+      `${prefix}flightNumber`,
+      errors,
+      FLIGHT_NUMBER_PATTERN
+    );
+    if (flightNumber) parsed.flightNumber = flightNumber;
+  }
+
+  if (has("departureAirport")) {
+    const airport = parseRequiredText(
+      body.departureAirport,
+      `${prefix}departureAirport`,
+      errors,
+      AIRPORT_CODE_PATTERN
+    );
+    if (airport) parsed.departureAirport = airport;
+  }
+
+  if (has("arrivalAirport")) {
+    const airport = parseRequiredText(
+      body.arrivalAirport,
+      `${prefix}arrivalAirport`,
+      errors,
+      AIRPORT_CODE_PATTERN
+    );
+    if (airport) parsed.arrivalAirport = airport;
+  }
+
+  if (has("departureTime")) {
+    const departureTime = parseDateTime(body.departureTime, `${prefix}departureTime`, errors);
+    if (departureTime) parsed.departureTime = departureTime;
+  }
+
+  if (has("arrivalTime")) {
+    const arrivalTime = parseDateTime(body.arrivalTime, `${prefix}arrivalTime`, errors);
+    if (arrivalTime) parsed.arrivalTime = arrivalTime;
+  }
+
+  for (const field of ["bookingReference", "seat", "memo"] as const) {
+    const text = parseOptionalNullableText(body[field], `${prefix}${field}`, errors);
+    if (text !== undefined) parsed[field] = text;
+  }
+
+  return parsed;
+}
+
+// Cross-field checks, run on the merged record so a PATCH cannot leave the flight inconsistent.
+export function validateFlightSchedule(
+  flight: Pick<FlightInput, "departureAirport" | "arrivalAirport" | "departureTime" | "arrivalTime">,
+  path: string,
+  errors: string[]
+) {
+  const prefix = path ? `${path}.` : "";
+  if (flight.departureAirport === flight.arrivalAirport) {
+    errors.push(`${prefix}arrivalAirport must differ from departureAirport`);
+  }
+
+  if (flight.arrivalTime.getTime() <= flight.departureTime.getTime()) {
+    errors.push(`${prefix}arrivalTime must be after departureTime`);
+  }
+}
+
+export function findAirport(code: string): AirportInfo | undefined {
+  return KOREAN_AIRPORTS[code.toUpperCase()];
+}
+
+export function toAirportLocation(code: string, id: string): TspLocation | null {
+  const airport = findAirport(code);
+  return airport ? { id, name: airport.name, lat: airport.lat, lng: airport.lng, category: "airport" } : null;
+}
+
+// The latest flight landing on day 1 opens that day; the earliest flight leaving on the last day
+// closes it. Flights on other days don't constrain the schedule. A flight back to an airport an
+// earlier flight left from is the way home (a one-day trip), so it never opens the day.
+export function applyFlightAnchors(plans: DayPlanAnchors[], flights: FlightInput[], dayDates: Date[]) {
+  const lastDayIndex = dayDates.length - 1;
+  const firstPlan = plans[0];
+  const lastPlan = plans[lastDayIndex];
+  if (!firstPlan || !lastPlan) {
+    return;
+  }
+
+  const isReturn = (flight: FlightInput) =>
+    flights.some(
+      (other) =>
+        other.departureAirport === flight.arrivalAirport &&
+        other.departureTime.getTime() < flight.departureTime.getTime()
+    );
+  const arrival = flights
+    .filter((flight) => findDayIndex(dayDates, flight.arrivalTime) === 0 && !isReturn(flight))
+    .sort((a, b) => b.arrivalTime.getTime() - a.arrivalTime.getTime())[0];
+  const departure = flights
+    .filter(
+      (flight) =>
+        flight !== arrival &&
+        findDayIndex(dayDates, flight.departureTime) === lastDayIndex &&
+        (!arrival || flight.departureTime.getTime() > arrival.arrivalTime.getTime())
+    )
+    .sort((a, b) => a.departureTime.getTime() - b.departureTime.getTime())[0];
+
+  if (arrival) {
+    firstPlan.leading.push(toFlightPlace(arrival, "arrival"));
+    openDayAt(
+      firstPlan,
+      toKstMinutes(arrival.arrivalTime) + ARRIVAL_BUFFER_MINUTES,
+      toAirportLocation(arrival.arrivalAirport, "arrival-airport")
+    );
+  }
+
+  if (departure) {
+    lastPlan.trailing.push(toFlightPlace(departure, "departure"));
+    closeDayAt(
+      lastPlan,
+      toKstMinutes(departure.departureTime) - DEPARTURE_BUFFER_MINUTES,
+      toAirportLocation(departure.departureAirport, "departure-airport")
+    );
+  }
+}
+
+function toFlightPlace(flight: FlightInput, kind: "arrival" | "departure"): AnchorPlaceData {
+  const code = kind === "arrival" ? flight.arrivalAirport : flight.departureAirport;
+  const airport = findAirport(code);
+  const time = kind === "arrival" ? flight.arrivalTime : flight.departureTime;
+  const clock = toKstMinutes(time);
+  const memo = [
+    flight.bookingReference ? `예약번호 ${flight.bookingReference}` : null,
+    flight.seat ? `좌석 ${flight.seat}` : null
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return {
+    orderIndex: 0,
+    name: `${flight.carrier} ${flight.flightNumber} ${airport?.name ?? code} ${kind === "arrival" ? "도착" : "출발"}`,
+    category: "flight",
+    ...(airport ? { address: airport.name, lat: airport.lat, lng: airport.lng } : {}),
+    ...(memo ? { memo } : {}),
+    startTime: clampClock(kind === "arrival" ? clock : clock - DEPARTURE_BUFFER_MINUTES),
+    endTime: clampClock(kind === "arrival" ? clock + ARRIVAL_BUFFER_MINUTES : clock)
+  };
+}
@@ -0,0 +1,293 @@
+import { parseClockTime, type TspLocation } from "@tripmate/planner";
+
+import {
+  ANCHOR_PLACE_CATEGORIES,
+  clampClock,
+  closeDayAt,
+  findDayIndex,
+  openDayAt,
+  toDayKey,
+  toKstDateKey,
+  toKstMinutes,
+  type DayPlanAnchors
+} from "./day-anchors";
+
+export interface RentcarInput {
+  company: string;
+  pickupLocation: string;
+  pickupLat: number;
+  pickupLng: number;
+  pickupTime: Date;
+  returnLocation: string;
+  returnLat: number;
+  returnLng: number;
+  returnTime: Date;
+  vehicleClass?: string | null;
+  insurance?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export interface RentcarWarningDay {
+  dayNumber: number;
+  date: Date;
+  places: Array<{ name: string; category: string; startTime: string | null }>;
+}
+
+export const rentcarFields = new Set([
+  "company",
+  "pickupLocation",
+  "pickupLat",
+  "pickupLng",
+  "pickupTime",
+  "returnLocation",
+  "returnLat",
+  "returnLng",
+  "returnTime",
+  "vehicleClass",
+  "insurance",
+  "cost",
+  "memo"
+]);
+
+// Paperwork and vehicle check at the counter.
+const PICKUP_DURATION_MINUTES = 30;
+const RETURN_DURATION_MINUTES = 30;
+const DRIVING_TRANSPORTS = new Set(["car", "driving", "drive", "rentcar"]);
+
+function parseRequiredText(value: unknown, field: string, errors: string[]): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} is required and must be a non-empty string`);
+    return null;
+  }
+
+  return value.trim();
+}
+
+function parseOptionalNullableText(
+  value: unknown,
+  field: string,
+  errors: string[]
+): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} must be a non-empty string or null`);
+    return undefined;
+  }
+
+  return value.trim();
+}
+
+function parseCoordinate(value: unknown, field: string, limit: number, errors: string[]): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || Math.abs(value) > limit) {
+    errors.push(`${field} is required and must be a number between -${limit} and ${limit}`);
+    return null;
+  }
+
+  return value;
+}
+
+function parseDateTime(value: unknown, field: string, errors: string[]): Date | null {
+  if (typeof value !== "string" || !/T\d{2}:\d{2}/.test(value)) {
+    errors.push(`${field} is required and must be an ISO 8601 date-time string`);
+    return null;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    errors.push(`${field} must be a valid ISO 8601 date-time string`);
+    return null;
+  }
+
+  return date;
+}
+
+// Parses a rental car body. With `partial`, only the given fields are validated (PATCH).
+export function parseRentcarInput(
+  value: unknown,
+  path: string,
+  errors: string[],
+  partial = false
+): Partial<RentcarInput> | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const body = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : "";
+  const unknownFields = Object.keys(body).filter((field) => !rentcarFields.has(field));
+  if (unknownFields.length > 0) {
+    errors.push(`${path || "Request body"} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const parsed: Partial<RentcarInput> = {};
+  const has = (field: string) => !partial || field in body;
+
+  for (const field of ["company", "pickupLocation", "returnLocation"] as const) {
+    if (!has(field)) continue;
+    const text = parseRequiredText(body[field], `${prefix}${field}`, errors);
+    if (text) parsed[field] = text;
+  }
+
+  for (const field of ["pickupLat", "returnLat"] as const) {
+    if (!has(field)) continue;
+    const lat = parseCoordinate(body[field], `${prefix}${field}`, 90, errors);
+    if (lat !== null) parsed[field] = lat;
+  }
+
+  for (const field of ["pickupLng", "returnLng"] as const) {
+    if (!has(field)) continue;
+    const lng = parseCoordinate(body[field], `${prefix}${field}`, 180, errors);
+    if (lng !== null) parsed[field] = lng;
+  }
+
+  for (const field of ["pickupTime", "returnTime"] as const) {
+    if (!has(field)) continue;
+    const time = parseDateTime(body[field], `${prefix}${field}`, errors);
+    if (time) parsed[field] = time;
+  }
+
+  for (const field of ["vehicleClass", "insurance", "memo"] as const) {
+    const text = parseOptionalNullableText(body[field], `${prefix}${field}`, errors);
+    if (text !== undefined) parsed[field] = text;
+  }
+
+  if (body.cost !== undefined) {
+    if (body.cost === null) {
+      parsed.cost = null;
+    } else if (typeof body.cost !== "number" || !Number.isInteger(body.cost) || body.cost < 0) {
+      errors.push(`${prefix}cost must be a non-negative integer (KRW) or null`);
+    } else {
+      parsed.cost = body.cost;
+    }
+  }
+
+  return parsed;
+}
+
+export function validateRentcarSchedule(
+  rentcar: Pick<RentcarInput, "pickupTime" | "returnTime">,
+  path: string,
+  errors: string[]
+) {
+  const prefix = path ? `${path}.` : "";
+  if (rentcar.returnTime.getTime() <= rentcar.pickupTime.getTime()) {
+    errors.push(`${prefix}returnTime must be after pickupTime`);
+  }
+}
+
+export function isDrivingTransport(transport: string | null | undefined): boolean {
+  return Boolean(transport && DRIVING_TRANSPORTS.has(transport.trim().toLowerCase()));
+}
+
+function toClockMinutes(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return parseClockTime(value);
+  } catch {
+    return null;
+  }
+}
+
+function toLocation(id: string, name: string, lat: number, lng: number): TspLocation {
+  return { id, name, lat, lng, category: "rentcar" };
+}
+
+// Driving starts at the pickup counter on the pickup day and the return day has to end at the
+// return counter. Applied after flights, so a pickup after landing replaces the airport as the start.
+export function applyRentcarAnchors(plans: DayPlanAnchors[], rentcars: RentcarInput[], dayDates: Date[]) {
+  rentcars.forEach((rentcar, index) => {
+    const pickupPlan = plans[findDayIndex(dayDates, rentcar.pickupTime)];
+    if (pickupPlan) {
+      const pickupClock = toKstMinutes(rentcar.pickupTime);
+      pickupPlan.leading.push({
+        orderIndex: 0,
+        name: `${rentcar.company} 렌터카 픽업`,
+        category: "rentcar",
+        address: rentcar.pickupLocation,
+        lat: rentcar.pickupLat,
+        lng: rentcar.pickupLng,
+        ...(rentcar.vehicleClass ? { memo: rentcar.vehicleClass } : {}),
+        startTime: clampClock(pickupClock),
+        endTime: clampClock(pickupClock + PICKUP_DURATION_MINUTES)
+      });
+      openDayAt(
+        pickupPlan,
+        pickupClock + PICKUP_DURATION_MINUTES,
+        toLocation(`rentcar-pickup-${index}`, rentcar.pickupLocation, rentcar.pickupLat, rentcar.pickupLng)
+      );
+    }
+
+    const returnPlan = plans[findDayIndex(dayDates, rentcar.returnTime)];
+    if (returnPlan) {
+      const returnClock = toKstMinutes(rentcar.returnTime);
+      returnPlan.trailing.push({
+        orderIndex: 0,
+        name: `${rentcar.company} 렌터카 반납`,
+        category: "rentcar",
+        address: rentcar.returnLocation,
+        lat: rentcar.returnLat,
+        lng: rentcar.returnLng,
+        startTime: clampClock(returnClock - RETURN_DURATION_MINUTES),
+        endTime: clampClock(returnClock)
+      });
+      closeDayAt(
+        returnPlan,
+        returnClock - RETURN_DURATION_MINUTES,
+        toLocation(`rentcar-return-${index}`, rentcar.returnLocation, rentcar.returnLat, rentcar.returnLng)
+      );
+    }
+  });
+}
+
+// Flags driving days that start before any rental car is in hand. Only meaningful when the
+// trip's transport is driving and at least one rental car is booked.
+export function findRentcarWarnings(
+  transport: string | null | undefined,
+  rentcars: Array<Pick<RentcarInput, "pickupTime">>,
+  days: RentcarWarningDay[]
+): string[] {
+  if (!isDrivingTransport(transport) || rentcars.length === 0) {
+    return [];
+  }
+
+  const firstPickup = rentcars.reduce((earliest, rentcar) =>
+    rentcar.pickupTime.getTime() < earliest.pickupTime.getTime() ? rentcar : earliest
+  ).pickupTime;
+  const pickupKey = toKstDateKey(firstPickup);
+  const pickupMinutes = toKstMinutes(firstPickup);
+  const warnings: string[] = [];
+
+  for (const day of days) {
+    const dayKey = toDayKey(day.date);
+    if (dayKey < pickupKey) {
+      warnings.push(`Day ${day.dayNumber} is planned for driving before the rental car pickup on ${pickupKey}`);
+      continue;
+    }
+
+    if (dayKey !== pickupKey) continue;
+
+    const early = day.places.find((place) => {
+      const start = toClockMinutes(place.startTime);
+      return !ANCHOR_PLACE_CATEGORIES.has(place.category) && start !== null && start < pickupMinutes;
+    });
+    if (early) {
+      warnings.push(
+        `Day ${day.dayNumber} has "${early.name}" at ${early.startTime} before the rental car pickup at ${clampClock(pickupMinutes)}`
+      );
+    }
+  }
+
+  return warnings;
+}
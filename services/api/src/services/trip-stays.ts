@@ -0,0 +1,215 @@
+import type { TspLocation } from "@tripmate/planner";
+
+import { endDayAt, startDayFrom, toDayKey, type DayPlanAnchors } from "./day-anchors";
+
+export interface StayInput {
+  name: string;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  checkIn: Date;
+  checkOut: Date;
+  contentId?: string | null;
+  bookingReference?: string | null;
+  phone?: string | null;
+  cost?: number | null;
+  memo?: string | null;
+}
+
+export const stayFields = new Set([
+  "name",
+  "address",
+  "lat",
+  "lng",
+  "checkIn",
+  "checkOut",
+  "contentId",
+  "bookingReference",
+  "phone",
+  "cost",
+  "memo"
+]);
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseRequiredText(value: unknown, field: string, errors: string[]): string | null {
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} is required and must be a non-empty string`);
+    return null;
+  }
+
+  return value.trim();
+}
+
+function parseOptionalNullableText(
+  value: unknown,
+  field: string,
+  errors: string[]
+): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  if (value === null) {
+    return null;
+  }
+
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${field} must be a non-empty string or null`);
+    return undefined;
+  }
+
+  return value.trim();
+}
+
+function parseCoordinate(value: unknown, field: string, limit: number, errors: string[]): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || Math.abs(value) > limit) {
+    errors.push(`${field} is required and must be a number between -${limit} and ${limit}`);
+    return null;
+  }
+
+  return value;
+}
+
+// Check-in/check-out are calendar dates; a time of day would only shift them across timezones.
+function parseStayDate(value: unknown, field: string, errors: string[]): Date | null {
+  if (typeof value !== "string" || !DATE_ONLY_PATTERN.test(value)) {
+    errors.push(`${field} is required and must be a YYYY-MM-DD date string`);
+    return null;
+  }
+
+  const date = toStayDate(value);
+  if (Number.isNaN(date.getTime()) || toStayDateKey(date) !== value) {
+    errors.push(`${field} must be a valid calendar date`);
+    return null;
+  }
+
+  return date;
+}
+
+export function toStayDate(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+export function toStayDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Parses a stay body. With `partial`, only the given fields are validated (PATCH).
+export function parseStayInput(
+  value: unknown,
+  path: string,
+  errors: string[],
+  partial = false
+): Partial<StayInput> | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const body = value as Record<string, unknown>;
+  const prefix = path ? `${path}.` : "";
+  const unknownFields = Object.keys(body).filter((field) => !stayFields.has(field));
+  if (unknownFields.length > 0) {
+    errors.push(`${path || "Request body"} contains unknown fields: ${unknownFields.join(", ")}`);
+  }
+
+  const parsed: Partial<StayInput> = {};
+  const has = (field: string) => !partial || field in body;
+
+  if (has("name")) {
+    const name = parseRequiredText(body.name, `${prefix}name`, errors);
+    if (name) parsed.name = name;
+  }
+
+  if (has("lat")) {
+    const lat = parseCoordinate(body.lat, `${prefix}lat`, 90, errors);
+    if (lat !== null) parsed.lat = lat;
+  }
+
+  if (has("lng")) {
+    const lng = parseCoordinate(body.lng, `${prefix}lng`, 180, errors);
+    if (lng !== null) parsed.lng = lng;
+  }
+
+  for (const field of ["checkIn", "checkOut"] as const) {
+    if (!has(field)) continue;
+    const date = parseStayDate(body[field], `${prefix}${field}`, errors);
+    if (date) parsed[field] = date;
+  }
+
+  for (const field of ["address", "contentId", "bookingReference", "phone", "memo"] as const) {
+    const text = parseOptionalNullableText(body[field], `${prefix}${field}`, errors);
+    if (text !== undefined) parsed[field] = text;
+  }
+
+  if (body.cost !== undefined) {
+    if (body.cost === null) {
+      parsed.cost = null;
+    } else if (typeof body.cost !== "number" || !Number.isInteger(body.cost) || body.cost < 0) {
+      errors.push(`${prefix}cost must be a non-negative integer (KRW) or null`);
+    } else {
+      parsed.cost = body.cost;
+    }
+  }
+
+  return parsed;
+}
+
+export function validateStaySchedule(
+  stay: Pick<StayInput, "checkIn" | "checkOut">,
+  path: string,
+  errors: string[]
+) {
+  const prefix = path ? `${path}.` : "";
+  if (stay.checkOut.getTime() <= stay.checkIn.getTime()) {
+    errors.push(`${prefix}checkOut must be after checkIn`);
+  }
+}
+
+function findStayForNight(stays: StayInput[], nightKey: string): StayInput | undefined {
+  return stays.find(
+    (stay) => toStayDateKey(stay.checkIn) <= nightKey && nightKey < toStayDateKey(stay.checkOut)
+  );
+}
+
+function toLocation(stay: StayInput, index: number): TspLocation {
+  return { id: `stay-${index}`, name: stay.name, lat: stay.lat, lng: stay.lng, category: "lodging" };
+}
+
+// Each day starts at the previous night's stay and ends at tonight's. When stays overlap, the
+// one checked into first wins.
+export function applyStayAnchors(plans: DayPlanAnchors[], stays: StayInput[], dayDates: Date[]) {
+  const sorted = [...stays].sort((a, b) => a.checkIn.getTime() - b.checkIn.getTime());
+  if (sorted.length === 0) {
+    return;
+  }
+
+  dayDates.forEach((date, index) => {
+    const plan = plans[index];
+    if (!plan) return;
+
+    const dayKey = toDayKey(date);
+    const previousKey = toStayDateKey(new Date(toStayDate(dayKey).getTime() - 24 * 60 * 60 * 1000));
+    const lastNight = findStayForNight(sorted, previousKey);
+    const tonight = findStayForNight(sorted, dayKey);
+
+    if (lastNight) {
+      startDayFrom(plan, toLocation(lastNight, sorted.indexOf(lastNight)));
+    }
+
+    if (tonight) {
+      plan.trailing.push({
+        orderIndex: 0,
+        name: tonight.name,
+        category: "lodging",
+        address: tonight.address ?? null,
+        lat: tonight.lat,
+        lng: tonight.lng,
+        ...(tonight.bookingReference ? { memo: `예약번호 ${tonight.bookingReference}` } : {}),
+        ...(tonight.phone ? { phone: tonight.phone } : {})
+      });
+      endDayAt(plan, toLocation(tonight, sorted.indexOf(tonight)));
+    }
+  });
+}
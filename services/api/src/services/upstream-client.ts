@@ -0,0 +1,270 @@
+import axios from "axios";
+
+import { sanitizePublicText } from "../utils/response-safety";
+
+export type UpstreamProvider =
+  | "tourapi"
+  | "kma"
+  | "airkorea"
+  | "nemc"
+  | "naver"
+  | "kakao-local"
+  | "kakao-mobility"
+  | "kakao-auth"
+  | "naver-auth"
+  | "apple-auth"
+  | "odsay"
+  | "juso";
+
+export interface UpstreamPolicy {
+  timeoutMs: number;
+  // Extra attempts after the first; only used for GETs.
+  retries: number;
+}
+
+export interface UpstreamRequest {
+  method?: "GET" | "POST";
+  url: string;
+  params?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  data?: unknown;
+}
+
+export interface UpstreamResponse {
+  status: number;
+  data: unknown;
+}
+
+// Resolves with any HTTP status; rejects only when no response arrived (network error, timeout).
+export type UpstreamTransport = (request: UpstreamRequest & { timeoutMs: number }) => Promise<UpstreamResponse>;
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface ProviderHealth {
+  provider: UpstreamProvider;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  openUntil: string | null;
+}
+
+export interface UpstreamClientOptions {
+  transport: UpstreamTransport;
+  policies?: Partial<Record<UpstreamProvider, Partial<UpstreamPolicy>>>;
+  failureThreshold?: number;
+  cooldownMs?: number;
+  now?: () => number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface UpstreamClient {
+  request<T>(provider: UpstreamProvider, request: UpstreamRequest): Promise<T>;
+  get<T>(provider: UpstreamProvider, url: string, options?: Omit<UpstreamRequest, "method" | "url">): Promise<T>;
+  health(): ProviderHealth[];
+  reset(): void;
+}
+
+interface CircuitEntry {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  openUntil: number | null;
+  trialInFlight: boolean;
+}
+
+// data.go.kr endpoints are the slow ones; user-facing lookups get a shorter leash.
+export const UPSTREAM_POLICIES: Record<UpstreamProvider, UpstreamPolicy> = {
+  tourapi: { timeoutMs: 4000, retries: 2 },
+  kma: { timeoutMs: 4000, retries: 2 },
+  airkorea: { timeoutMs: 4000, retries: 2 },
+  nemc: { timeoutMs: 4000, retries: 2 },
+  naver: { timeoutMs: 3000, retries: 1 },
+  "kakao-local": { timeoutMs: 3000, retries: 1 },
+  "kakao-mobility": { timeoutMs: 4000, retries: 1 },
+  "kakao-auth": { timeoutMs: 5000, retries: 1 },
+  "naver-auth": { timeoutMs: 5000, retries: 1 },
+  "apple-auth": { timeoutMs: 5000, retries: 1 },
+  odsay: { timeoutMs: 4500, retries: 1 },
+  juso: { timeoutMs: 3000, retries: 1 }
+};
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30 * 1000;
+const BACKOFF_BASE_MS = 200;
+const BACKOFF_CAP_MS = 2000;
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+export interface UpstreamError extends Error {
+  provider: UpstreamProvider;
+}
+
+function upstreamError(provider: UpstreamProvider, message: string): UpstreamError {
+  return Object.assign(new Error(message), { name: "UpstreamError", provider });
+}
+
+// Lets route handlers tell a provider outage apart from a bug in this service.
+export function isUpstreamError(error: unknown): error is UpstreamError {
+  return error instanceof Error && error.name === "UpstreamError";
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? sanitizePublicText(error.message) || "unknown" : "unknown";
+}
+
+function toIso(time: number | null): string | null {
+  return time === null ? null : new Date(time).toISOString();
+}
+
+// Axios with a hard deadline: the timeout option alone only covers socket inactivity.
+export const axiosTransport: UpstreamTransport = async (request) => {
+  const response = await axios.request({
+    method: request.method ?? "GET",
+    url: request.url,
+    params: request.params,
+    headers: request.headers,
+    data: request.data,
+    timeout: request.timeoutMs,
+    signal: AbortSignal.timeout(request.timeoutMs),
+    validateStatus: () => true
+  });
+
+  return { status: response.status, data: response.data };
+};
+
+// Every outbound call to a public-data or map provider goes through here. Each provider has its
+// own timeout, GETs are retried with full-jitter backoff on network errors, 429 and 5xx, and a
+// provider that fails `failureThreshold` requests in a row is short-circuited for `cooldownMs`.
+// After the cooldown a single trial request decides whether the circuit closes again. Other 4xx
+// answers mean the provider is up, so they fail the request without counting against it.
+export function createUpstreamClient(options: UpstreamClientOptions): UpstreamClient {
+  const failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+  const cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  const now = options.now ?? Date.now;
+  const random = options.random ?? Math.random;
+  const sleep = options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const circuits = new Map<UpstreamProvider, CircuitEntry>();
+
+  function policyFor(provider: UpstreamProvider): UpstreamPolicy {
+    return { ...UPSTREAM_POLICIES[provider], ...options.policies?.[provider] };
+  }
+
+  function circuitFor(provider: UpstreamProvider): CircuitEntry {
+    const existing = circuits.get(provider);
+    if (existing) {
+      return existing;
+    }
+
+    const entry: CircuitEntry = {
+      state: "closed",
+      consecutiveFailures: 0,
+      lastFailureAt: null,
+      lastError: null,
+      openUntil: null,
+      trialInFlight: false
+    };
+    circuits.set(provider, entry);
+    return entry;
+  }
+
+  function admit(provider: UpstreamProvider, circuit: CircuitEntry): void {
+    if (circuit.state === "closed") {
+      return;
+    }
+
+    if (circuit.state === "open" && circuit.openUntil !== null && now() >= circuit.openUntil) {
+      circuit.state = "half_open";
+    }
+
+    if (circuit.state === "half_open" && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      return;
+    }
+
+    throw upstreamError(provider, `${provider} is unavailable (circuit open)`);
+  }
+
+  function recordSuccess(circuit: CircuitEntry): void {
+    circuit.state = "closed";
+    circuit.consecutiveFailures = 0;
+    circuit.openUntil = null;
+    circuit.trialInFlight = false;
+  }
+
+  function recordFailure(provider: UpstreamProvider, circuit: CircuitEntry, message: string): void {
+    circuit.consecutiveFailures += 1;
+    circuit.lastFailureAt = now();
+    circuit.lastError = message;
+    circuit.trialInFlight = false;
+
+    if (circuit.state === "half_open" || circuit.consecutiveFailures >= failureThreshold) {
+      if (circuit.state !== "open") {
+        console.error(`[upstream] ${provider} circuit opened after ${circuit.consecutiveFailures} failures: ${message}`);
+      }
+      circuit.state = "open";
+      circuit.openUntil = now() + cooldownMs;
+    }
+  }
+
+  async function request<T>(provider: UpstreamProvider, upstreamRequest: UpstreamRequest): Promise<T> {
+    const circuit = circuitFor(provider);
+    admit(provider, circuit);
+
+    const policy = policyFor(provider);
+    const attempts = (upstreamRequest.method ?? "GET") === "GET" ? policy.retries + 1 : 1;
+    let lastMessage = "unknown";
+
+    for (let attempt = 0; attempt < attempts; attempt += 1) {
+      if (attempt > 0) {
+        await sleep(random() * Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1)));
+      }
+
+      let response: UpstreamResponse;
+      try {
+        response = await options.transport({ ...upstreamRequest, timeoutMs: policy.timeoutMs });
+      } catch (error) {
+        lastMessage = `${provider} request failed: ${describeError(error)}`;
+        continue;
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        recordSuccess(circuit);
+        return response.data as T;
+      }
+
+      lastMessage = `${provider} responded with HTTP ${response.status}`;
+      if (!isRetryableStatus(response.status)) {
+        recordSuccess(circuit);
+        throw upstreamError(provider, lastMessage);
+      }
+    }
+
+    recordFailure(provider, circuit, lastMessage);
+    throw upstreamError(provider, lastMessage);
+  }
+
+  return {
+    request,
+    get: (provider, url, getOptions) => request(provider, { ...getOptions, method: "GET", url }),
+    health: () =>
+      (Object.keys(UPSTREAM_POLICIES) as UpstreamProvider[]).map((provider) => {
+        const circuit = circuitFor(provider);
+        return {
+          provider,
+          state: circuit.state,
+          consecutiveFailures: circuit.consecutiveFailures,
+          lastFailureAt: toIso(circuit.lastFailureAt),
+          lastError: circuit.lastError,
+          openUntil: toIso(circuit.openUntil)
+        };
+      }),
+    reset: () => circuits.clear()
+  };
+}
+
+export const upstream = createUpstreamClient({ transport: axiosTransport });
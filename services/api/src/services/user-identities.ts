@@ -0,0 +1,125 @@
+import type { User } from "@prisma/client";
+
+import { prisma } from "../config/database";
+import type { IdentityProvider, VerifiedIdentity } from "./identity-providers";
+
+export type IdentityChangeResult =
+  | { ok: true }
+  | { ok: false; code: "IDENTITY_LINKED_TO_OTHER_USER" | "IDENTITY_PROVIDER_ALREADY_LINKED" }
+  | { ok: false; code: "IDENTITY_NOT_LINKED" | "LAST_IDENTITY_REQUIRED" };
+
+export interface IdentityView {
+  provider: string;
+  email: string | null;
+  linkedAt: string;
+}
+
+const DEFAULT_NICKNAME = "여행자";
+
+// Returns the user behind a verified provider account, creating one on first sign-in. Accounts
+// are never matched by e-mail: an address that looks the same at two providers is not proof that
+// one person owns both, so joining them is left to explicit linking.
+export async function signInWithIdentity(identity: VerifiedIdentity, fallbackNickname: string | null): Promise<User> {
+  const where = { provider_subject: { provider: identity.provider, subject: identity.subject } };
+  const existing = await prisma.userIdentity.findUnique({ where, include: { user: true } });
+
+  if (existing) {
+    await prisma.userIdentity.update({ where, data: { email: identity.email } });
+    // Profile fields from a provider only fill gaps; they do not overwrite what another identity set.
+    return prisma.user.update({
+      where: { id: existing.userId },
+      data: {
+        email: existing.user.email ?? identity.email,
+        profileImage: existing.user.profileImage ?? identity.profileImage
+      }
+    });
+  }
+
+  if (identity.provider === "kakao") {
+    const legacyUser = await prisma.user.findUnique({ where: { kakaoId: identity.subject } });
+    if (legacyUser) {
+      // kakaoId is cleared so an unlinked Kakao account is not attached again on a later login.
+      const [user] = await prisma.$transaction([
+        prisma.user.update({ where: { id: legacyUser.id }, data: { kakaoId: null } }),
+        prisma.userIdentity.create({
+          data: { provider: "kakao", subject: identity.subject, email: identity.email, userId: legacyUser.id }
+        })
+      ]);
+      return user;
+    }
+  }
+
+  return prisma.user.create({
+    data: {
+      nickname: identity.nickname ?? fallbackNickname ?? DEFAULT_NICKNAME,
+      email: identity.email,
+      profileImage: identity.profileImage,
+      identities: {
+        create: { provider: identity.provider, subject: identity.subject, email: identity.email }
+      }
+    }
+  });
+}
+
+export async function listIdentities(userId: string): Promise<IdentityView[]> {
+  const identities = await prisma.userIdentity.findMany({
+    where: { userId },
+    orderBy: { createdAt: "asc" }
+  });
+
+  return identities.map((identity) => ({
+    provider: identity.provider,
+    email: identity.email,
+    linkedAt: identity.createdAt.toISOString()
+  }));
+}
+
+export async function linkIdentity(userId: string, identity: VerifiedIdentity): Promise<IdentityChangeResult> {
+  const owner = await prisma.userIdentity.findUnique({
+    where: { provider_subject: { provider: identity.provider, subject: identity.subject } }
+  });
+
+  if (owner) {
+    return owner.userId === userId
+      ? { ok: true }
+      : { ok: false, code: "IDENTITY_LINKED_TO_OTHER_USER" };
+  }
+
+  if (identity.provider === "kakao") {
+    const legacyUser = await prisma.user.findUnique({ where: { kakaoId: identity.subject }, select: { id: true } });
+    if (legacyUser && legacyUser.id !== userId) {
+      return { ok: false, code: "IDENTITY_LINKED_TO_OTHER_USER" };
+    }
+  }
+
+  const current = await prisma.userIdentity.findUnique({
+    where: { userId_provider: { userId, provider: identity.provider } }
+  });
+  if (current) {
+    return { ok: false, code: "IDENTITY_PROVIDER_ALREADY_LINKED" };
+  }
+
+  await prisma.userIdentity.create({
+    data: { provider: identity.provider, subject: identity.subject, email: identity.email, userId }
+  });
+  if (identity.provider === "kakao") {
+    await prisma.user.updateMany({ where: { id: userId, kakaoId: identity.subject }, data: { kakaoId: null } });
+  }
+  return { ok: true };
+}
+
+// The last identity cannot be removed, otherwise the account could never be signed into again.
+export async function unlinkIdentity(userId: string, provider: IdentityProvider): Promise<IdentityChangeResult> {
+  const identities = await prisma.userIdentity.findMany({ where: { userId }, select: { id: true, provider: true } });
+  const target = identities.find((identity) => identity.provider === provider);
+
+  if (!target) {
+    return { ok: false, code: "IDENTITY_NOT_LINKED" };
+  }
+  if (identities.length === 1) {
+    return { ok: false, code: "LAST_IDENTITY_REQUIRED" };
+  }
+
+  await prisma.userIdentity.delete({ where: { id: target.id } });
+  return { ok: true };
+}
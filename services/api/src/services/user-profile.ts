@@ -0,0 +1,76 @@
+import type { UserProfile } from "@prisma/client";
+import type { ChildAgeGroup, CompanionType, FoodPreference, TravelStyle, TripPurpose } from "@tripmate/planner";
+
+import type { UpdateUserProfileRequest } from "../contract/components";
+import { CHILD_AGE_GROUPS, FOOD_PREFERENCES } from "./planner-preferences";
+
+export type ProfileTransport = "car" | "transit" | "walk";
+
+export interface UserProfileInput {
+  companion: CompanionType;
+  purpose: TripPurpose;
+  travelStyle: TravelStyle;
+  transport: ProfileTransport;
+  foods: FoodPreference[];
+  childAgeGroups: ChildAgeGroup[];
+}
+
+export interface UserProfileView extends UserProfileInput {
+  updatedAt: Date;
+}
+
+export const PROFILE_TRANSPORTS: readonly ProfileTransport[] = ["car", "transit", "walk"];
+
+// Stored lists are written by this module only; anything unreadable or unknown is dropped.
+function readEnumList<T extends string>(raw: string, allowed: readonly T[]): T[] {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((entry): entry is T => allowed.includes(entry as T)) : [];
+  } catch {
+    return [];
+  }
+}
+
+// PUT replaces the whole profile. The contract checks each field; lists default to empty and
+// repeated entries are dropped.
+export function toUserProfileInput(body: UpdateUserProfileRequest): UserProfileInput {
+  return {
+    ...body,
+    foods: [...new Set(body.foods ?? [])],
+    childAgeGroups: [...new Set(body.childAgeGroups ?? [])]
+  };
+}
+
+// Age groups are asked only for trips with kids, and are then required.
+export function validateUserProfile(profile: UserProfileInput, errors: string[]) {
+  if (profile.companion === "family_kids" && profile.childAgeGroups.length === 0) {
+    errors.push("childAgeGroups must not be empty when companion is family_kids");
+  }
+
+  if (profile.companion !== "family_kids" && profile.childAgeGroups.length > 0) {
+    errors.push("childAgeGroups is only allowed when companion is family_kids");
+  }
+}
+
+export function toUserProfileData(input: UserProfileInput) {
+  return {
+    companion: input.companion,
+    purpose: input.purpose,
+    travelStyle: input.travelStyle,
+    transport: input.transport,
+    foods: JSON.stringify(input.foods),
+    childAgeGroups: JSON.stringify(input.childAgeGroups)
+  };
+}
+
+export function toUserProfileView(profile: UserProfile): UserProfileView {
+  return {
+    companion: profile.companion as CompanionType,
+    purpose: profile.purpose as TripPurpose,
+    travelStyle: profile.travelStyle as TravelStyle,
+    transport: profile.transport as ProfileTransport,
+    foods: readEnumList(profile.foods, FOOD_PREFERENCES),
+    childAgeGroups: readEnumList(profile.childAgeGroups, CHILD_AGE_GROUPS),
+    updatedAt: profile.updatedAt
+  };
+}
@@ -0,0 +1,149 @@
+import { haversineDistanceKm } from "@tripmate/planner";
+
+import { toDayKey } from "./day-anchors";
+import type { TourItem } from "./tourism.service";
+import { normalizeForecast, type PrecipitationType } from "./weather-summary";
+import type { WeatherItem } from "./weather.service";
+
+export interface DayWeather {
+  // Highest POP (probability of precipitation, %) during the day.
+  maxPop: number;
+  precipitation: PrecipitationType | null;
+  wet: boolean;
+}
+
+export interface WeatherCheckPlace {
+  id: string;
+  name: string;
+  category: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface WeatherCheckDay {
+  dayNumber: number;
+  date: Date;
+  places: WeatherCheckPlace[];
+}
+
+export interface IndoorReplacement {
+  contentId: string;
+  name: string;
+  category: "attraction";
+  address: string | null;
+  lat: number;
+  lng: number;
+  imageUrl: string | null;
+  distanceKm: number;
+}
+
+// A proposed change only; nothing is written until the client applies it through the places API.
+export interface WeatherSwap {
+  placeId: string;
+  placeName: string;
+  replacement: IndoorReplacement | null;
+}
+
+export interface DayWeatherCheck {
+  dayNumber: number;
+  date: string;
+  weather: DayWeather | null;
+  swaps: WeatherSwap[];
+}
+
+export const DEFAULT_POP_THRESHOLD = 60;
+// TourAPI 문화시설: museums, galleries, science halls, aquariums.
+export const INDOOR_CONTENT_TYPE_ID = "14";
+
+// Only the sightseeing part of the day matters for swapping stops.
+const DAYTIME_FROM = "09:00";
+const DAYTIME_TO = "21:00";
+const MAX_REPLACEMENT_DISTANCE_KM = 30;
+
+const OUTDOOR_PATTERN =
+  /해수욕장|해변|해안|공원|오름|폭포|계곡|숲|둘레길|올레|수목원|휴양림|정원|전망대|캠핑|목장|동물원|테마파크|유원지|호수|등산|트레킹|레포츠|서핑|산책로|산$|섬$|길$/;
+const INDOOR_PATTERN =
+  /박물관|미술관|갤러리|아쿠아리움|수족관|과학관|전시|기념관|도서관|공연장|극장|영화관|백화점|아울렛|쇼핑몰|실내|스파|체험관/;
+
+// Null when the forecast does not reach the date (short-term forecasts cover about three days).
+export function summarizeDayWeather(
+  items: WeatherItem[],
+  date: Date,
+  popThreshold = DEFAULT_POP_THRESHOLD
+): DayWeather | null {
+  const dateKey = toDayKey(date);
+  const daytime = (normalizeForecast(items).find((day) => day.date === dateKey)?.hourly ?? []).filter(
+    (hour) => hour.time >= DAYTIME_FROM && hour.time <= DAYTIME_TO
+  );
+  if (daytime.length === 0) {
+    return null;
+  }
+
+  const maxPop = Math.max(0, ...daytime.map((hour) => hour.precipitationProbability ?? 0));
+  const precipitation = daytime.find((hour) => hour.precipitationType)?.precipitationType ?? null;
+
+  return { maxPop, precipitation, wet: maxPop >= popThreshold || precipitation !== null };
+}
+
+// Only attractions are candidates; meals, lodging and transport anchors stay put. Names that
+// match neither pattern are left alone rather than guessed.
+export function isOutdoorPlace(place: Pick<WeatherCheckPlace, "name" | "category">): boolean {
+  return place.category === "attraction" && !INDOOR_PATTERN.test(place.name) && OUTDOOR_PATTERN.test(place.name);
+}
+
+function toIndoorReplacement(item: TourItem, from: { lat: number; lng: number }): IndoorReplacement | null {
+  const lat = Number(item.mapy);
+  const lng = Number(item.mapx);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || lat === 0 || lng === 0) {
+    return null;
+  }
+
+  const address = [item.addr1, item.addr2].filter(Boolean).join(" ").trim();
+  return {
+    contentId: item.contentid,
+    name: item.title.trim(),
+    category: "attraction",
+    address: address || null,
+    lat,
+    lng,
+    imageUrl: item.firstimage || item.firstimage2 || null,
+    distanceKm: Math.round(haversineDistanceKm(from, { lat, lng }) * 10) / 10
+  };
+}
+
+// Each outdoor stop on a wet day gets the nearest unused indoor candidate within reach; stops
+// without coordinates or without a nearby alternative are listed with a null replacement.
+export function proposeIndoorSwaps(
+  days: WeatherCheckDay[],
+  weatherByDay: Map<number, DayWeather | null>,
+  indoorItems: TourItem[]
+): DayWeatherCheck[] {
+  const scheduledNames = new Set(days.flatMap((day) => day.places.map((place) => place.name.trim())));
+  const usedContentIds = new Set<string>();
+
+  return days.map((day) => {
+    const weather = weatherByDay.get(day.dayNumber) ?? null;
+    const swaps: WeatherSwap[] = [];
+
+    if (weather?.wet) {
+      for (const place of day.places.filter((entry) => isOutdoorPlace(entry))) {
+        const from = place.lat !== null && place.lng !== null ? { lat: place.lat, lng: place.lng } : null;
+        const replacement = from
+          ? indoorItems
+              .filter((item) => !usedContentIds.has(item.contentid) && !scheduledNames.has(item.title.trim()))
+              .map((item) => toIndoorReplacement(item, from))
+              .filter(
+                (candidate): candidate is IndoorReplacement =>
+                  candidate !== null && candidate.distanceKm <= MAX_REPLACEMENT_DISTANCE_KM
+              )
+              .sort((a, b) => a.distanceKm - b.distanceKm)[0] ?? null
+          : null;
+
+        if (replacement) usedContentIds.add(replacement.contentId);
+        swaps.push({ placeId: place.id, placeName: place.name, replacement });
+      }
+    }
+
+    return { dayNumber: day.dayNumber, date: toDayKey(day.date), weather, swaps };
+  });
+}
@@ -0,0 +1,199 @@
+import type { WeatherItem } from "./weather.service";
+
+export type SkyCondition = "clear" | "partly_cloudy" | "cloudy";
+// KMA PTY codes: 1 rain, 2 rain/snow, 3 snow, 4 shower (0 is none).
+export type PrecipitationType = "rain" | "rain_snow" | "snow" | "shower";
+
+export interface ForecastBase {
+  baseDate: string;
+  baseTime: string;
+}
+
+export interface HourlyForecast {
+  // KST, "HH:MM".
+  time: string;
+  temperature: number | null;
+  sky: SkyCondition | null;
+  precipitationType: PrecipitationType | null;
+  // Percent.
+  precipitationProbability: number | null;
+  humidity: number | null;
+  // m/s and degrees (0 = from the north).
+  windSpeed: number | null;
+  windDirection: number | null;
+}
+
+export interface DailyForecast {
+  // KST, YYYY-MM-DD.
+  date: string;
+  minTemperature: number | null;
+  maxTemperature: number | null;
+  // Most frequent sky during the daytime hours.
+  sky: SkyCondition | null;
+  // First precipitation of the day, if any.
+  precipitationType: PrecipitationType | null;
+  maxPrecipitationProbability: number | null;
+  maxWindSpeed: number | null;
+  hourly: HourlyForecast[];
+}
+
+const KMA_BASE_HOURS = [2, 5, 8, 11, 14, 17, 20, 23];
+const KMA_PUBLISH_DELAY_MS = 10 * 60 * 1000;
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAYTIME_FROM = "09:00";
+const DAYTIME_TO = "21:00";
+// KMA marks missing values with sentinels such as -999 or 900+.
+const MISSING_VALUE_LIMIT = 900;
+
+const SKY_CONDITIONS: Record<string, SkyCondition> = {
+  "1": "clear",
+  "3": "partly_cloudy",
+  "4": "cloudy"
+};
+
+const PRECIPITATION_TYPES: Record<string, PrecipitationType> = {
+  "1": "rain",
+  "2": "rain_snow",
+  "3": "snow",
+  "4": "shower"
+};
+
+// Cloudier wins ties when picking the day's sky.
+const SKY_ORDER: SkyCondition[] = ["cloudy", "partly_cloudy", "clear"];
+
+function formatBaseDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+function toIsoDate(fcstDate: string): string {
+  return `${fcstDate.slice(0, 4)}-${fcstDate.slice(4, 6)}-${fcstDate.slice(6, 8)}`;
+}
+
+function toClock(fcstTime: string): string {
+  return `${fcstTime.slice(0, 2)}:${fcstTime.slice(2, 4)}`;
+}
+
+function parseValue(value: string): number | null {
+  const parsed = Number(value.trim());
+  return Number.isFinite(parsed) && Math.abs(parsed) < MISSING_VALUE_LIMIT ? parsed : null;
+}
+
+function maxOf(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? Math.max(...present) : null;
+}
+
+function minOf(values: (number | null)[]): number | null {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? Math.min(...present) : null;
+}
+
+function emptyHour(time: string): HourlyForecast {
+  return {
+    time,
+    temperature: null,
+    sky: null,
+    precipitationType: null,
+    precipitationProbability: null,
+    humidity: null,
+    windSpeed: null,
+    windDirection: null
+  };
+}
+
+function pickDaySky(hours: HourlyForecast[]): SkyCondition | null {
+  const daytime = hours.filter((hour) => hour.time >= DAYTIME_FROM && hour.time <= DAYTIME_TO);
+  const counts = new Map<SkyCondition, number>();
+  for (const hour of daytime.length > 0 ? daytime : hours) {
+    if (hour.sky) counts.set(hour.sky, (counts.get(hour.sky) ?? 0) + 1);
+  }
+
+  let best: SkyCondition | null = null;
+  for (const sky of SKY_ORDER) {
+    const count = counts.get(sky) ?? 0;
+    if (count > 0 && (!best || count > (counts.get(best) ?? 0))) best = sky;
+  }
+
+  return best;
+}
+
+// Short-term forecasts are issued every three hours from 02:00 KST and show up about ten
+// minutes later; before 02:10 the previous day's 23:00 run is the latest.
+export function latestForecastBase(now: Date): ForecastBase {
+  const kst = new Date(now.getTime() + KST_OFFSET_MS - KMA_PUBLISH_DELAY_MS);
+  const hour = kst.getUTCHours();
+  const baseHour = [...KMA_BASE_HOURS].reverse().find((candidate) => candidate <= hour);
+
+  if (baseHour === undefined) {
+    return { baseDate: formatBaseDate(new Date(kst.getTime() - 24 * 60 * 60 * 1000)), baseTime: "2300" };
+  }
+
+  return { baseDate: formatBaseDate(kst), baseTime: `${String(baseHour).padStart(2, "0")}00` };
+}
+
+// Turns raw getVilageFcst rows into one summary per forecast date. TMN/TMX are only present in
+// some runs; the hourly TMP range stands in when they are missing.
+export function normalizeForecast(items: WeatherItem[]): DailyForecast[] {
+  const days = new Map<string, { hours: Map<string, HourlyForecast>; tmn: number | null; tmx: number | null }>();
+
+  for (const item of items) {
+    const date = toIsoDate(item.fcstDate);
+    const day = days.get(date) ?? { hours: new Map(), tmn: null, tmx: null };
+    days.set(date, day);
+
+    const time = toClock(item.fcstTime);
+    const hour = day.hours.get(time) ?? emptyHour(time);
+    day.hours.set(time, hour);
+
+    const code = item.fcstValue.trim();
+    switch (item.category) {
+      case "TMP":
+        hour.temperature = parseValue(code);
+        break;
+      case "SKY":
+        hour.sky = SKY_CONDITIONS[code] ?? null;
+        break;
+      case "PTY":
+        hour.precipitationType = PRECIPITATION_TYPES[code] ?? null;
+        break;
+      case "POP":
+        hour.precipitationProbability = parseValue(code);
+        break;
+      case "REH":
+        hour.humidity = parseValue(code);
+        break;
+      case "WSD":
+        hour.windSpeed = parseValue(code);
+        break;
+      case "VEC":
+        hour.windDirection = parseValue(code);
+        break;
+      case "TMN":
+        day.tmn = parseValue(code);
+        break;
+      case "TMX":
+        day.tmx = parseValue(code);
+        break;
+      default:
+        break;
+    }
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => {
+      const hourly = [...day.hours.values()].sort((a, b) => a.time.localeCompare(b.time));
+      const temperatures = hourly.map((hour) => hour.temperature);
+
+      return {
+        date,
+        minTemperature: day.tmn ?? minOf(temperatures),
+        maxTemperature: day.tmx ?? maxOf(temperatures),
+        sky: pickDaySky(hourly),
+        precipitationType: hourly.find((hour) => hour.precipitationType)?.precipitationType ?? null,
+        maxPrecipitationProbability: maxOf(hourly.map((hour) => hour.precipitationProbability)),
+        maxWindSpeed: maxOf(hourly.map((hour) => hour.windSpeed)),
+        hourly
+      };
+    });
+}
@@ -1,5 +1,7 @@
-import axios from "axios";
 import { env } from "../config/env";
+import { responseCache } from "../config/response-cache";
+import { sanitizePublicText } from "../utils/response-safety";
+import { upstream } from "./upstream-client";
 
 const WEATHER_API_BASE = "https://apis.data.go.kr/1360000/VilageFcstInfoService_2.0";
 
@@ -19,6 +21,11 @@ interface WeatherItem {
   ny: number;
 }
 
+interface ForecastGrid {
+  nx: number;
+  ny: number;
+}
+
 interface WeatherApiResponse {
   response: {
     header: { resultCode: string; resultMsg: string };
@@ -35,19 +42,21 @@ export async function getShortTermForecast(params: {
   baseDate: string;
   baseTime: string;
 }) {
-  const response = await axios.get<WeatherApiResponse>(withServiceKey("getVilageFcst"), {
-    params: {
-      numOfRows: 300,
-      pageNo: 1,
-      dataType: "JSON",
-      base_date: params.baseDate,
-      base_time: params.baseTime,
-      nx: params.nx,
-      ny: params.ny
-    }
-  });
+  // 한 번의 발표가 시간당 12개 항목 × 최대 3일치라 300건이면 하루 남짓에서 잘린다
+  const query = {
+    numOfRows: 1000,
+    pageNo: 1,
+    dataType: "JSON",
+    base_date: params.baseDate,
+    base_time: params.baseTime,
+    nx: params.nx,
+    ny: params.ny
+  };
 
-  return response.data.response.body.items?.item ?? [];
+  return responseCache.fetch("kma.forecast", query, async () => {
+    const payload = await upstream.get<WeatherApiResponse>("kma", withServiceKey("getVilageFcst"), { params: query });
+    return payload.response.body.items?.item ?? [];
+  });
 }
 
 // 위도/경도 → 기상청 격자 좌표 변환
@@ -100,4 +109,51 @@ export const POPULAR_GRIDS: Record<string, { nx: number; ny: number }> = {
   속초: { nx: 87, ny: 141 }
 };
 
-export type { WeatherItem, WeatherApiResponse };
+// 일자별 예보 격자: 위치가 있는 첫 장소, 없으면 목적지의 대표 격자
+export function resolveForecastGrid(
+  places: { lat: number | null; lng: number | null }[],
+  fallback: ForecastGrid | undefined
+): ForecastGrid | undefined {
+  for (const place of places) {
+    if (place.lat !== null && place.lng !== null) {
+      return toGridCoord(place.lat, place.lng);
+    }
+  }
+
+  return fallback;
+}
+
+export function toGridKey(grid: ForecastGrid): string {
+  return `${grid.nx},${grid.ny}`;
+}
+
+// 격자별로 한 번씩 단기예보 조회 (실패한 격자는 null)
+export async function fetchGridForecasts(
+  grids: (ForecastGrid | undefined)[],
+  base: { baseDate: string; baseTime: string }
+): Promise<Map<string, WeatherItem[] | null>> {
+  const unique = new Map(grids.flatMap((grid) => (grid ? [[toGridKey(grid), grid] as const] : [])));
+  const keys = [...unique.keys()];
+  const results = await Promise.allSettled(
+    [...unique.values()].map((grid) => getShortTermForecast({ ...grid, ...base }))
+  );
+
+  const forecasts = new Map<string, WeatherItem[] | null>();
+  results.forEach((result, index) => {
+    const key = keys[index];
+    if (!key) return;
+
+    if (result.status === "rejected") {
+      const message = result.reason instanceof Error ? sanitizePublicText(result.reason.message) : "unknown";
+      console.error(`[weather] forecast ${key} lookup failed: ${message || "unknown"}`);
+      forecasts.set(key, null);
+      return;
+    }
+
+    forecasts.set(key, result.value);
+  });
+
+  return forecasts;
+}
+
+export type { ForecastGrid, WeatherItem, WeatherApiResponse };
@@ -1,23 +1,64 @@
+import { randomUUID } from "crypto";
 import jwt from "jsonwebtoken";
 import { env } from "../config/env";
 
 export interface TokenPayload {
   userId: string;
-  kakaoId: string;
+  // RefreshSession the token was issued for; missing on access tokens issued before sessions existed.
+  sessionId?: string;
 }
 
+export interface RefreshTokenPayload extends TokenPayload {
+  sessionId: string;
+}
+
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const ACCOUNT_DELETION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const ACCOUNT_DELETION_PURPOSE = "account_deletion";
+
 export function generateAccessToken(payload: TokenPayload): string {
   return jwt.sign(payload, env.jwtAccessSecret, { expiresIn: "1h" });
 }
 
-export function generateRefreshToken(payload: TokenPayload): string {
-  return jwt.sign(payload, env.jwtRefreshSecret, { expiresIn: "7d" });
+// jwtid keeps two tokens of the same session signed within one second distinct.
+export function generateRefreshToken(payload: RefreshTokenPayload): string {
+  return jwt.sign(payload, env.jwtRefreshSecret, {
+    expiresIn: Math.floor(REFRESH_TOKEN_TTL_MS / 1000),
+    jwtid: randomUUID()
+  });
+}
+
+// Confirms DELETE /auth/me. Signed with the access secret, so access tokens must reject `purpose`.
+export function generateAccountDeletionToken(userId: string): string {
+  return jwt.sign({ userId, purpose: ACCOUNT_DELETION_PURPOSE }, env.jwtAccessSecret, {
+    expiresIn: Math.floor(ACCOUNT_DELETION_TOKEN_TTL_MS / 1000)
+  });
+}
+
+export function verifyAccountDeletionToken(token: string): { userId: string } {
+  const payload = jwt.verify(token, env.jwtAccessSecret) as { userId?: unknown; purpose?: unknown };
+  if (payload.purpose !== ACCOUNT_DELETION_PURPOSE || typeof payload.userId !== "string") {
+    throw new Error("Not an account deletion token");
+  }
+
+  return { userId: payload.userId };
 }
 
 export function verifyAccessToken(token: string): TokenPayload {
-  return jwt.verify(token, env.jwtAccessSecret) as TokenPayload;
+  const payload = jwt.verify(token, env.jwtAccessSecret) as TokenPayload & { purpose?: unknown };
+  if (payload.purpose !== undefined) {
+    throw new Error("Not an access token");
+  }
+
+  return payload;
 }
 
-export function verifyRefreshToken(token: string): TokenPayload {
-  return jwt.verify(token, env.jwtRefreshSecret) as TokenPayload;
+export function verifyRefreshToken(token: string): RefreshTokenPayload {
+  const payload = jwt.verify(token, env.jwtRefreshSecret) as Partial<RefreshTokenPayload>;
+  if (typeof payload.sessionId !== "string") {
+    throw new Error("Refresh token has no session");
+  }
+
+  return payload as RefreshTokenPayload;
 }
@@ -2,10 +2,6 @@ const SENSITIVE_ENV_KEY_PATTERN = /(key|token|secret|password|passwd|private|aut
 const MAX_PUBLIC_MESSAGE_LENGTH = 180;
 const REDACTED = "[REDACTED]";
 
-const SAFE_ROUTE_ERROR_MESSAGES = new Set<string>([
-  "Route optimization requires at least two points."
-]);
-
 let cachedSensitiveEnvValues: string[] | null = null;
 
 function getSensitiveEnvValues(): string[] {
@@ -43,7 +39,7 @@ export function sanitizePublicText(raw: string): string {
       /\b(Bearer|Basic|KakaoAK)\s+[^\s]+/gi,
       (_matched: string, scheme: string) => `${scheme} ${REDACTED}`
     )
-    .replace(/([?&](api[_-]?key|key|token|secret|password)=)[^&\s]+/gi, `$1${REDACTED}`);
+    .replace(/([?&](api[_-]?key|service[_-]?key|confm[_-]?key|key|token|secret|password)=)[^&\s]+/gi, `$1${REDACTED}`);
 
   for (const sensitiveValue of getSensitiveEnvValues()) {
     if (redacted.includes(sensitiveValue)) {
@@ -58,18 +54,3 @@ export function normalizeRouteWarning(raw: string, fallback: string): string {
   const sanitized = sanitizePublicText(raw);
   return sanitized || fallback;
 }
-
-export function normalizeRouteErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    const sanitized = sanitizePublicText(error.message);
-    if (SAFE_ROUTE_ERROR_MESSAGES.has(sanitized)) {
-      return sanitized;
-    }
-  }
-
-  return "Failed to optimize route.";
-}
-
-export function normalizeInternalErrorMessage(): string {
-  return "Unexpected error.";
-}
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestApi, type TestApi } from "./support/test-api";
+
+const trip = {
+  title: "제주 가족여행",
+  destination: "제주",
+  startDate: "2026-10-20T00:00:00+09:00",
+  endDate: "2026-10-22T00:00:00+09:00"
+};
+
+describe("account export and deletion", () => {
+  let api: TestApi;
+  let owner: Awaited<ReturnType<TestApi["signIn"]>>;
+  let friend: Awaited<ReturnType<TestApi["signIn"]>>;
+  let ownerTripId = "";
+  let friendTripId = "";
+
+  before(async () => {
+    api = await startTestApi();
+    owner = await api.signIn("owner");
+    friend = await api.signIn("friend");
+
+    ownerTripId = (await api.expectStatus(201, "POST", "/trips", trip, owner.accessToken)).trip.id;
+    friendTripId = (await api.expectStatus(201, "POST", "/trips", { ...trip, title: "혼자 여행" }, friend.accessToken))
+      .trip.id;
+    const { invite } = await api.expectStatus(
+      201,
+      "POST",
+      `/trips/${ownerTripId}/invites`,
+      { role: "editor" },
+      owner.accessToken
+    );
+    await api.expectStatus(200, "POST", "/trips/invites/accept", { token: invite.token }, friend.accessToken);
+    const { day } = await api.expectStatus(
+      201,
+      "POST",
+      `/trips/${ownerTripId}/days`,
+      { dayNumber: 1, date: trip.startDate },
+      friend.accessToken
+    );
+    await api.expectStatus(
+      200,
+      "PATCH",
+      `/trips/${ownerTripId}/days/${day.id}`,
+      { date: "2026-10-20T09:00:00+09:00" },
+      friend.accessToken
+    );
+  });
+
+  after(() => api?.close());
+
+  it("exports owned trips in full and shared trips as memberships", async () => {
+    const response = await api.request("GET", "/auth/me/export", undefined, friend.accessToken);
+
+    assert.equal(response.status, 200);
+    assert.match(
+      response.headers.get("content-disposition") ?? "",
+      /^attachment; filename="tripmate-export-\d{8}\.json"$/
+    );
+    assert.equal(response.body.user.id, friend.userId);
+    assert.deepEqual(
+      response.body.trips.map((entry: { id: string }) => entry.id),
+      [friendTripId]
+    );
+    assert.deepEqual(
+      response.body.sharedTrips.map((entry: { id: string; role: string }) => [entry.id, entry.role]),
+      [[ownerTripId, "editor"]]
+    );
+    assert.deepEqual(
+      response.body.identities.map((identity: { provider: string }) => identity.provider),
+      ["fake"]
+    );
+    assert.equal(response.body.sessions.length, 1);
+    assert.equal("current" in response.body.sessions[0], false);
+  });
+
+  it("rejects malformed bodies and tokens issued to someone else", async () => {
+    const missing = await api.request("DELETE", "/auth/me", { unlinkKakao: "yes" }, friend.accessToken);
+    assert.equal(missing.status, 400);
+    assert.deepEqual(missing.body.details, [
+      { field: "confirmationToken", message: "confirmationToken is required and must be a string" },
+      { field: "unlinkKakao", message: "unlinkKakao must be a boolean" }
+    ]);
+
+    const { confirmationToken } = await api.expectStatus(
+      200,
+      "POST",
+      "/auth/me/deletion-token",
+      undefined,
+      owner.accessToken
+    );
+    const foreign = await api.request("DELETE", "/auth/me", { confirmationToken }, friend.accessToken);
+    assert.equal(foreign.status, 403);
+    assert.equal(foreign.body.code, "ACCOUNT_DELETION_UNCONFIRMED");
+    assert.equal(api.prisma.$rows("user").length, 2);
+  });
+
+  it("deletes owned trips, memberships and sessions but keeps shared trips and their history", async () => {
+    const { confirmationToken } = await api.expectStatus(
+      200,
+      "POST",
+      "/auth/me/deletion-token",
+      undefined,
+      friend.accessToken
+    );
+    const result = await api.expectStatus(
+      200,
+      "DELETE",
+      "/auth/me",
+      { confirmationToken, unlinkKakao: true },
+      friend.accessToken
+    );
+
+    assert.deepEqual(result, { deletedTrips: 1, kakaoUnlinked: false, warnings: [] });
+    assert.deepEqual(
+      api.prisma.$rows("user").map((user) => user.id),
+      [owner.userId]
+    );
+    assert.deepEqual(
+      api.prisma.$rows("trip").map((row) => row.id),
+      [ownerTripId]
+    );
+    assert.deepEqual(
+      api.prisma.$rows("tripMember").map((member) => member.userId),
+      [owner.userId]
+    );
+    assert.equal(api.prisma.$rows("refreshSession").filter((session) => session.userId === friend.userId).length, 0);
+    const signedOut = await api.request("GET", "/auth/me", undefined, friend.accessToken);
+    assert.equal(signedOut.status, 401);
+    assert.equal(signedOut.body.code, "SESSION_REVOKED");
+    assert.equal(api.prisma.$rows("tripDay").length, 1);
+    assert.deepEqual(
+      api.prisma.$rows("tripActivity").map((activity) => [activity.action, activity.userId]),
+      [["day.update", null]]
+    );
+    assert.deepEqual(
+      api.checked.filter((entry) => entry.mismatches.length > 0),
+      []
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import jwt from "jsonwebtoken";
+
+import { startTestApi, type TestApi } from "./support/test-api";
+
+describe("device sessions", () => {
+  let api: TestApi;
+
+  before(async () => {
+    api = await startTestApi();
+  });
+
+  after(() => api?.close());
+
+  it("rejects the access token of a device signed out from another one", async () => {
+    const phone = await api.signIn("traveler");
+    const tablet = await api.signIn("traveler");
+
+    await api.expectStatus(200, "GET", "/auth/me", undefined, tablet.accessToken);
+    await api.expectStatus(
+      204,
+      "DELETE",
+      `/auth/sessions/${sessionIdOf(tablet.accessToken)}`,
+      undefined,
+      phone.accessToken
+    );
+
+    const rejected = await api.request("GET", "/trips", undefined, tablet.accessToken);
+    assert.equal(rejected.status, 401);
+    assert.equal(rejected.body.code, "SESSION_REVOKED");
+    await api.expectStatus(200, "GET", "/trips", undefined, phone.accessToken);
+  });
+
+  it("rejects the access token of a device after it logs out", async () => {
+    const { accessToken } = await api.signIn("logout");
+
+    await api.expectStatus(200, "POST", "/auth/logout", undefined, accessToken);
+
+    const rejected = await api.request("GET", "/auth/me", undefined, accessToken);
+    assert.equal(rejected.status, 401);
+    assert.equal(rejected.body.code, "SESSION_REVOKED");
+  });
+});
+
+// Access tokens name the session they were issued for.
+function sessionIdOf(accessToken: string): string {
+  return (jwt.decode(accessToken) as { sessionId: string }).sessionId;
+}
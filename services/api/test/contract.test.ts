@@ -0,0 +1,295 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { after, before, describe, it } from "node:test";
+
+import { buildContractArtifacts } from "../src/contract/artifacts";
+import {
+  CreateTripRequest,
+  GenerateItineraryRequest,
+  OptimizeRouteRequest,
+  PlaceInput,
+  UpdateTripRequest
+} from "../src/contract/components";
+import { buildOpenApiDocument } from "../src/contract/openapi";
+import { findContractOperation } from "../src/contract/operations";
+import { checkContractResponse } from "../src/contract/response-check";
+import { findSchemaMismatches, parseBody, s } from "../src/contract/schema";
+import { startTestApi, type TestApi } from "./support/test-api";
+
+describe("parseBody", () => {
+  it("trims strings and keeps only provided optional fields", () => {
+    const result = parseBody(UpdateTripRequest, { title: "  제주 가족여행  ", companions: null });
+
+    assert.deepEqual(result, { ok: true, value: { title: "제주 가족여행", companions: null } });
+  });
+
+  it("reports missing, empty and malformed fields with their paths", () => {
+    const result = parseBody(CreateTripRequest, {
+      title: "   ",
+      startDate: "not-a-date",
+      endDate: "2026-10-20",
+      days: [{ dayNumber: 0, date: "2026-10-20", places: [{ orderIndex: 0, name: "성산일출봉" }] }]
+    });
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(!result.ok && result.errors, [
+      "title must not be empty",
+      "destination is required and must be a string",
+      "startDate is required and must be a valid date string",
+      "days[0].dayNumber must be greater than or equal to 1",
+      "days[0].places[0].category is required and must be a string"
+    ]);
+  });
+
+  it("accepts opening hours only as ordered clock windows", () => {
+    const place = { orderIndex: 0, name: "동문시장", category: "market" };
+
+    assert.equal(parseBody(PlaceInput, { ...place, openingHours: "08:00-12:00,13:00-24:00" }).ok, true);
+    for (const openingHours of ["09:00~18:00", "18:00-09:00", "9:00-18:00", "08:00-12:00,"]) {
+      const result = parseBody(PlaceInput, { ...place, openingHours });
+      assert.deepEqual(!result.ok && result.errors, ["openingHours must be opening hours like 09:00-18:00"]);
+    }
+  });
+
+  it("rejects unknown fields at every level", () => {
+    const result = parseBody(OptimizeRouteRequest, {
+      start: { lat: 33.5, lng: 126.5, address: "제주시" },
+      legacy: true
+    });
+
+    assert.deepEqual(!result.ok && result.errors, [
+      "Request body contains unknown fields: legacy",
+      "start contains unknown fields: address"
+    ]);
+  });
+
+  it("does not take inherited object keys for known fields", () => {
+    const result = parseBody(UpdateTripRequest, JSON.parse('{"constructor":1,"toString":"x","__proto__":{}}'));
+
+    assert.deepEqual(!result.ok && result.errors, [
+      "Request body contains unknown fields: constructor, toString, __proto__"
+    ]);
+  });
+
+  it("rejects bodies that are not JSON objects without field errors", () => {
+    assert.deepEqual(parseBody(CreateTripRequest, ["title"]), {
+      ok: false,
+      message: "Request body must be a JSON object",
+      errors: []
+    });
+  });
+});
+
+describe("GenerateItineraryRequest", () => {
+  it("validates nested bookings and planner enums with their paths", () => {
+    const result = parseBody(GenerateItineraryRequest, {
+      destination: "제주",
+      startDate: "2026-10-20",
+      endDate: "2026-10-22",
+      mealSlots: ["lunch", "brunch"],
+      stays: [{ name: "호텔", checkIn: "2026-10-20" }],
+      preferences: { budget: "luxury" }
+    });
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(!result.ok && result.errors, [
+      "mealSlots[1] is required and must be one of breakfast, lunch, cafe, dinner",
+      "stays[0].lat is required and must be a finite number",
+      "stays[0].lng is required and must be a finite number",
+      "stays[0].checkOut is required and must be a valid date string",
+      "preferences contains unknown fields: budget"
+    ]);
+  });
+});
+
+describe("response checks", () => {
+  const listMembers = findContractOperation("GET", "/trips/:tripId/members");
+  const member = {
+    id: "m1",
+    userId: "u1",
+    nickname: "여행자",
+    profileImage: null,
+    role: "editor",
+    joinedAt: new Date("2026-10-19T00:00:00.000Z")
+  };
+
+  it("finds operations by their Express route path", () => {
+    assert.equal(listMembers?.operationId, "listTripMembers");
+    assert.equal(findContractOperation("GET", "/trips/:tripId/flights")?.operationId, "listFlights");
+    assert.equal(findContractOperation("PUT", "/trips/:tripId/flights"), undefined);
+  });
+
+  it("accepts bodies that match once serialized, Dates included", () => {
+    assert.ok(listMembers);
+    assert.deepEqual(checkContractResponse(listMembers, 200, { role: "owner", members: [member] }), []);
+  });
+
+  it("reports drifted fields and undocumented success statuses", () => {
+    assert.ok(listMembers);
+    assert.deepEqual(checkContractResponse(listMembers, 200, { members: [{ ...member, role: "admin", email: "a@b.c" }] }), [
+      "members[0] contains unknown fields: email",
+      "members[0].role is required and must be one of owner, editor, viewer"
+    ]);
+    assert.deepEqual(checkContractResponse(listMembers, 201, { members: [] }), ["status 201 is not documented"]);
+  });
+
+  it("only requires undocumented errors to be ApiError bodies", () => {
+    assert.ok(listMembers);
+    assert.deepEqual(checkContractResponse(listMembers, 500, { code: "INTERNAL_ERROR", message: "서버 오류" }), []);
+    assert.deepEqual(checkContractResponse(listMembers, 500, { code: "INTERNAL_ERROR", message: "서버 오류", stack: "" }), [
+      "Response body contains unknown fields: stack"
+    ]);
+  });
+
+  it("checks every value of a record", () => {
+    assert.deepEqual(findSchemaMismatches(s.record(s.integer()), { attraction: 2, cafe: "3" }), [
+      "body.cafe is required and must be an integer"
+    ]);
+  });
+});
+
+// Runs the real routers over an in-memory database and checks every JSON response of a contract
+// operation with the same middleware the development server uses.
+describe("handler responses", () => {
+  let api: TestApi;
+  let accessToken = "";
+  const expectStatus = (status: number, method: string, path: string, body?: unknown) =>
+    api.expectStatus(status, method, path, body, accessToken);
+
+  before(async () => {
+    api = await startTestApi();
+    accessToken = (await api.signIn("contract-check")).accessToken;
+  });
+
+  after(() => api?.close());
+
+  it("match the contract for trips, days, places and bookings", async () => {
+    const from = api.checked.length;
+    const { trip } = await expectStatus(201, "POST", "/trips", {
+      title: "제주 가족여행",
+      destination: "제주",
+      startDate: "2026-10-20T00:00:00+09:00",
+      endDate: "2026-10-22T00:00:00+09:00",
+      days: [
+        {
+          dayNumber: 1,
+          date: "2026-10-20T00:00:00+09:00",
+          places: [{ orderIndex: 0, name: "성산일출봉", category: "attraction", lat: 33.458, lng: 126.942 }]
+        }
+      ]
+    });
+    const tripPath = `/trips/${trip.id}`;
+
+    await expectStatus(200, "GET", "/trips");
+    await expectStatus(200, "GET", tripPath);
+    await expectStatus(200, "PATCH", tripPath, { companions: "family" });
+
+    const { day } = await expectStatus(201, "POST", `${tripPath}/days`, {
+      dayNumber: 2,
+      date: "2026-10-21T00:00:00+09:00"
+    });
+    const dayPath = `${tripPath}/days/${day.id}`;
+    await expectStatus(200, "GET", `${tripPath}/days`);
+    await expectStatus(200, "GET", dayPath);
+    await expectStatus(200, "PATCH", dayPath, { date: "2026-10-21T09:00:00+09:00" });
+
+    const { place } = await expectStatus(201, "POST", `${dayPath}/places`, {
+      orderIndex: 0,
+      name: "동문시장",
+      category: "restaurant",
+      startTime: "12:00",
+      openingHours: "08:00-21:00"
+    });
+    await expectStatus(200, "GET", `${dayPath}/places`);
+    await expectStatus(200, "GET", `${dayPath}/places/${place.id}`);
+    await expectStatus(200, "PATCH", `${dayPath}/places/${place.id}`, { memo: "갈치조림" });
+
+    await expectStatus(201, "POST", `${tripPath}/flights`, {
+      carrier: "제주항공",
+      flightNumber: "7C101",
+      departureAirport: "GMP",
+      arrivalAirport: "CJU",
+      departureTime: "2026-10-20T08:00:00+09:00",
+      arrivalTime: "2026-10-20T09:10:00+09:00"
+    });
+    await expectStatus(200, "GET", `${tripPath}/flights`);
+    await expectStatus(201, "POST", `${tripPath}/rentcars`, {
+      company: "제주렌트",
+      pickupLocation: "제주공항",
+      pickupLat: 33.507,
+      pickupLng: 126.493,
+      pickupTime: "2026-10-20T10:00:00+09:00",
+      returnLocation: "제주공항",
+      returnLat: 33.507,
+      returnLng: 126.493,
+      returnTime: "2026-10-22T18:00:00+09:00",
+      cost: 120000
+    });
+    await expectStatus(200, "GET", `${tripPath}/rentcars`);
+    await expectStatus(201, "POST", `${tripPath}/stays`, {
+      name: "서귀포 호텔",
+      lat: 33.247,
+      lng: 126.56,
+      checkIn: "2026-10-20",
+      checkOut: "2026-10-22"
+    });
+    await expectStatus(200, "GET", `${tripPath}/stays`);
+
+    await expectStatus(200, "GET", `${tripPath}/members`);
+    await expectStatus(201, "POST", `${tripPath}/invites`, { role: "viewer" });
+    await expectStatus(200, "GET", `${tripPath}/invites`);
+    const history = await expectStatus(200, "GET", `${tripPath}/history`);
+    const placeUpdate = history.entries.find((entry: { action: string }) => entry.action === "place.update");
+    await expectStatus(200, "POST", `${tripPath}/history/${placeUpdate.id}/revert`);
+    await expectStatus(404, "GET", "/trips/missing-trip");
+
+    assert.deepEqual(
+      api.checked.slice(from).filter((entry) => entry.mismatches.length > 0),
+      []
+    );
+    assert.equal(api.checked.length - from, 24);
+  });
+
+  it("match the contract for the account routes", async () => {
+    const from = api.checked.length;
+
+    await expectStatus(200, "GET", "/auth/me");
+    await expectStatus(200, "GET", "/auth/me/profile");
+    await expectStatus(200, "GET", "/auth/me/identities");
+    await expectStatus(200, "GET", "/auth/sessions");
+    await expectStatus(200, "GET", "/auth/me/export");
+    await expectStatus(200, "POST", "/auth/me/deletion-token");
+    await expectStatus(400, "POST", "/auth/refresh", { refreshToken: "" });
+    await expectStatus(200, "POST", "/auth/logout");
+
+    assert.deepEqual(
+      api.checked.slice(from).filter((entry) => entry.mismatches.length > 0),
+      []
+    );
+    assert.equal(api.checked.length - from, 8);
+  });
+});
+
+describe("contract artifacts", () => {
+  it("match the committed openapi.json and mobile client", () => {
+    for (const artifact of buildContractArtifacts()) {
+      assert.equal(
+        readFileSync(artifact.path, "utf8"),
+        artifact.content,
+        `${artifact.path} is out of date; run \`npm run contract:generate\``
+      );
+    }
+  });
+
+  it("references named schemas instead of inlining them", () => {
+    const document = buildOpenApiDocument("/api/v1") as {
+      paths: Record<string, Record<string, { requestBody?: { content: Record<string, { schema: unknown }> } }>>;
+      components: { schemas: Record<string, unknown> };
+    };
+
+    assert.deepEqual(document.paths["/trips"].post.requestBody?.content["application/json"].schema, {
+      $ref: "#/components/schemas/CreateTripRequest"
+    });
+    assert.ok(document.components.schemas.RoutePoint);
+  });
+});
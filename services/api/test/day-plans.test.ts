@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import type { DayPlanAnchors } from "../src/services/day-anchors";
+import { buildDayPlans } from "../src/services/day-plans";
+import type { FlightInput } from "../src/services/trip-flights";
+import type { RentcarInput } from "../src/services/trip-rentcars";
+import { toStayDate, type StayInput } from "../src/services/trip-stays";
+
+// Trip days are local midnights, as buildTripDates stores them; flight times carry their KST offset.
+const days = (...dates: number[]) => dates.map((date) => new Date(2026, 9, date));
+
+function flight(from: string, to: string, departure: string, arrival: string): FlightInput {
+  return {
+    carrier: "대한항공",
+    flightNumber: "KE1201",
+    departureAirport: from,
+    arrivalAirport: to,
+    departureTime: new Date(`2026-10-${departure}+09:00`),
+    arrivalTime: new Date(`2026-10-${arrival}+09:00`)
+  };
+}
+
+function rentcar(pickup: string, dropoff: string): RentcarInput {
+  return {
+    company: "롯데렌터카",
+    pickupLocation: "롯데렌터카 제주오토하우스",
+    pickupLat: 33.4893,
+    pickupLng: 126.4967,
+    pickupTime: new Date(`2026-10-${pickup}+09:00`),
+    returnLocation: "롯데렌터카 제주오토하우스",
+    returnLat: 33.4893,
+    returnLng: 126.4967,
+    returnTime: new Date(`2026-10-${dropoff}+09:00`)
+  };
+}
+
+function stay(name: string, checkIn: string, checkOut: string, lat = 33.4996, lng = 126.5312): StayInput {
+  return { name, lat, lng, checkIn: toStayDate(`2026-10-${checkIn}`), checkOut: toStayDate(`2026-10-${checkOut}`) };
+}
+
+const outbound = flight("GMP", "CJU", "20T08:00", "20T09:10");
+const inbound = flight("CJU", "GMP", "22T19:00", "22T20:10");
+
+const describeEnds = (plan: DayPlanAnchors | undefined) => [plan?.start?.id ?? null, plan?.end?.id ?? null];
+const describeEntries = (entries: DayPlanAnchors["leading"]) =>
+  entries.map((entry) => `${entry.startTime ?? "-"}-${entry.endTime ?? "-"} ${entry.name}`);
+
+describe("buildDayPlans flights", () => {
+  it("opens the landing day after baggage claim and closes the departure day before check-in", () => {
+    const plans = buildDayPlans(days(20, 21, 22), [inbound, outbound], [], []);
+
+    assert.deepEqual(plans[0]?.window, {
+      startTime: "10:10",
+      startPoint: { lat: 33.5104, lng: 126.4914 }
+    });
+    assert.deepEqual(describeEntries(plans[0]?.leading ?? []), ["09:10-10:10 대한항공 KE1201 제주국제공항 도착"]);
+    assert.deepEqual(plans[1], { window: {}, leading: [], trailing: [] });
+    assert.deepEqual(plans[2]?.window, {
+      endTime: "18:00",
+      endPoint: { lat: 33.5104, lng: 126.4914 }
+    });
+    assert.deepEqual(describeEntries(plans[2]?.trailing ?? []), ["18:00-19:00 대한항공 KE1201 제주국제공항 출발"]);
+    assert.deepEqual(plans.map(describeEnds), [
+      ["arrival-airport", null],
+      [null, null],
+      [null, "departure-airport"]
+    ]);
+  });
+
+  it("opens the first day after the latest landing", () => {
+    const connection = flight("ICN", "CJU", "20T11:00", "20T12:05");
+    const plans = buildDayPlans(days(20, 21), [outbound, connection], [], []);
+
+    assert.equal(plans[0]?.window.startTime, "13:05");
+    assert.equal(plans[0]?.leading.length, 1);
+  });
+
+  it("matches flights to trip days by their KST date", () => {
+    // 23:30 KST on the 20th is still the 20th in UTC; 00:30 KST on the 21st is not.
+    const lateLanding = flight("GMP", "CJU", "20T22:20", "20T23:30");
+    const pastMidnight = flight("GMP", "CJU", "20T23:30", "21T00:30");
+
+    assert.equal(buildDayPlans(days(20, 21), [lateLanding], [], [])[0]?.window.startTime, "23:59");
+    assert.deepEqual(buildDayPlans(days(20, 21), [pastMidnight], [], []).map((plan) => plan.window), [{}, {}]);
+  });
+
+  it("fits a one-day trip between landing and the later departure", () => {
+    const plans = buildDayPlans(days(20), [flight("CJU", "GMP", "20T19:00", "20T20:10"), outbound], [], []);
+
+    assert.deepEqual(plans.map((plan) => [plan.window.startTime, plan.window.endTime]), [["10:10", "18:00"]]);
+    assert.deepEqual(plans.map(describeEnds), [["arrival-airport", "departure-airport"]]);
+  });
+
+  it("takes an earlier leg on the way in as a connection, not as the way home", () => {
+    const feeder = flight("PUS", "GMP", "20T06:30", "20T07:30");
+    const plans = buildDayPlans(days(20), [outbound, feeder], [], []);
+
+    assert.deepEqual(plans[0]?.window, {
+      startTime: "10:10",
+      startPoint: { lat: 33.5104, lng: 126.4914 }
+    });
+    assert.deepEqual(plans[0]?.trailing, []);
+  });
+});
+
+describe("buildDayPlans rental cars", () => {
+  it("starts driving at the pickup counter after landing and ends at the return counter before check-in", () => {
+    const plans = buildDayPlans(days(20, 21, 22), [outbound, inbound], [rentcar("20T11:00", "22T17:00")], []);
+
+    assert.deepEqual(plans.map((plan) => [plan.window.startTime, plan.window.endTime]), [
+      ["11:30", undefined],
+      [undefined, undefined],
+      [undefined, "16:30"]
+    ]);
+    assert.deepEqual(plans.map(describeEnds), [
+      ["rentcar-pickup-0", null],
+      [null, null],
+      [null, "rentcar-return-0"]
+    ]);
+    assert.deepEqual(describeEntries(plans[0]?.leading ?? []), [
+      "09:10-10:10 대한항공 KE1201 제주국제공항 도착",
+      "11:00-11:30 롯데렌터카 렌터카 픽업"
+    ]);
+    assert.deepEqual(describeEntries(plans[2]?.trailing ?? []), [
+      "18:00-19:00 대한항공 KE1201 제주국제공항 출발",
+      "16:30-17:00 롯데렌터카 렌터카 반납"
+    ]);
+  });
+
+  it("keeps the flight's window when the car is picked up before landing or returned after check-in", () => {
+    const plans = buildDayPlans(days(20, 21, 22), [outbound, inbound], [rentcar("20T09:30", "22T19:00")], []);
+
+    assert.deepEqual(plans.map((plan) => [plan.window.startTime, plan.window.endTime]), [
+      ["10:10", undefined],
+      [undefined, undefined],
+      [undefined, "18:00"]
+    ]);
+    assert.deepEqual(plans.map(describeEnds), [
+      ["arrival-airport", null],
+      [null, null],
+      [null, "departure-airport"]
+    ]);
+    assert.equal(plans[0]?.leading.length, 2);
+    assert.equal(plans[2]?.trailing.length, 2);
+  });
+
+  it("anchors pickup and return on the KST day they happen, even mid-trip", () => {
+    // 08:00 KST on the 21st is still the 20th in UTC.
+    const plans = buildDayPlans(days(20, 21, 22), [], [rentcar("21T08:00", "21T20:00")], []);
+
+    assert.deepEqual(plans[1]?.window, {
+      startTime: "08:30",
+      startPoint: { lat: 33.4893, lng: 126.4967 },
+      endTime: "19:30",
+      endPoint: { lat: 33.4893, lng: 126.4967 }
+    });
+    assert.deepEqual(plans.map(describeEnds), [
+      [null, null],
+      ["rentcar-pickup-0", "rentcar-return-0"],
+      [null, null]
+    ]);
+  });
+});
+
+describe("buildDayPlans stays", () => {
+  const hotel = stay("제주 오션호텔", "20", "22");
+
+  it("fills only the start and end points the flights leave open", () => {
+    const plans = buildDayPlans(days(20, 21, 22), [outbound, inbound], [], [hotel]);
+
+    assert.deepEqual(plans.map(describeEnds), [
+      ["arrival-airport", "stay-0"],
+      ["stay-0", "stay-0"],
+      ["stay-0", "departure-airport"]
+    ]);
+    assert.deepEqual(plans[1]?.window, {
+      startPoint: { lat: 33.4996, lng: 126.5312 },
+      endPoint: { lat: 33.4996, lng: 126.5312 }
+    });
+    assert.deepEqual(plans[2]?.window, {
+      startPoint: { lat: 33.4996, lng: 126.5312 },
+      endTime: "18:00",
+      endPoint: { lat: 33.5104, lng: 126.4914 }
+    });
+    assert.deepEqual(
+      plans.map((plan) => plan.trailing.map((entry) => entry.name)),
+      [["제주 오션호텔"], ["제주 오션호텔"], ["대한항공 KE1201 제주국제공항 출발"]]
+    );
+  });
+
+  it("moves between hotels on the changeover day and keeps the first check-in when stays overlap", () => {
+    const second = stay("서귀포 리조트", "21", "22", 33.2464, 126.5627);
+
+    const changeover = buildDayPlans(days(20, 21, 22), [], [], [second, stay("제주 오션호텔", "20", "21")]);
+    assert.deepEqual(changeover.map(describeEnds), [
+      [null, "stay-0"],
+      ["stay-0", "stay-1"],
+      ["stay-1", null]
+    ]);
+    assert.equal(changeover[1]?.end?.name, "서귀포 리조트");
+
+    const overlapping = buildDayPlans(days(20, 21, 22), [], [], [second, hotel]);
+    assert.deepEqual(
+      overlapping.map((plan) => [plan.start?.name ?? null, plan.end?.name ?? null]),
+      [
+        [null, "제주 오션호텔"],
+        ["제주 오션호텔", "제주 오션호텔"],
+        ["제주 오션호텔", null]
+      ]
+    );
+  });
+
+  it("leaves a rental car's pickup and return in place", () => {
+    const plans = buildDayPlans(days(20, 21, 22), [], [rentcar("20T11:00", "22T17:00")], [hotel]);
+
+    assert.deepEqual(plans.map(describeEnds), [
+      ["rentcar-pickup-0", "stay-0"],
+      ["stay-0", "stay-0"],
+      ["stay-0", "rentcar-return-0"]
+    ]);
+  });
+});
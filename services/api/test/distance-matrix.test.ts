@@ -0,0 +1,199 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { beforeEach, describe, it } from "node:test";
+
+import {
+  clearDistanceMatrixCache,
+  createDistanceMatrixClient,
+  createFixtureDistanceMatrixProvider,
+  loadDistanceMatrixFixture,
+  type DistanceMatrixProvider
+} from "../src/services/distance-matrix";
+import type { RoutePoint } from "../src/services/route-optimizer";
+
+const fixture = loadDistanceMatrixFixture(
+  path.join(__dirname, "..", "fixtures", "distance-matrix", "seoul-center-driving.json")
+);
+
+const point = (name: string, lat: number, lng: number): RoutePoint => ({ id: name, name, lat, lng });
+
+const seoulStation = point("서울역", 37.55595, 126.97231);
+const cityHall = point("서울시청", 37.56629, 126.97795);
+const gyeongbokgung = point("경복궁", 37.57961, 126.97704);
+const myeongdong = point("명동", 37.56365, 126.98262);
+const namsanTower = point("N서울타워", 37.55117, 126.98823);
+const gangneung = point("강릉역", 37.76414, 128.89992);
+
+// Wraps the recorded fixture and logs every batch the client sends to it.
+function recordingProvider(overrides: Partial<DistanceMatrixProvider> = {}) {
+  const recorded = createFixtureDistanceMatrixProvider(fixture);
+  const batches: Array<{ origin: string; destinations: string[] }> = [];
+  const provider: DistanceMatrixProvider = {
+    ...recorded,
+    name: "recording",
+    estimateBatch: async (origin, destinations, mode) => {
+      batches.push({ origin: origin.name, destinations: destinations.map((destination) => destination.name) });
+      return recorded.estimateBatch(origin, destinations, mode);
+    },
+    ...overrides
+  };
+  return { provider, batches };
+}
+
+beforeEach(() => {
+  clearDistanceMatrixCache();
+});
+
+describe("createDistanceMatrixClient", () => {
+  it("serves recorded estimates and zero for a stop to itself", async () => {
+    const client = createDistanceMatrixClient({ providers: [createFixtureDistanceMatrixProvider(fixture)] });
+
+    const matrix = await client.estimateMatrix([seoulStation, cityHall], [seoulStation, gyeongbokgung], "driving");
+
+    assert.deepEqual(matrix, [
+      [
+        { distanceKm: 0, durationMin: 0, provider: "fallback" },
+        { distanceKm: 4.16, durationMin: 17.7, provider: "kakao" }
+      ],
+      [
+        { distanceKm: 2.12, durationMin: 10.5, provider: "kakao" },
+        { distanceKm: 2.75, durationMin: 14.7, provider: "kakao" }
+      ]
+    ]);
+  });
+
+  it("answers repeated pairs from the cache for cacheable providers", async () => {
+    const { provider, batches } = recordingProvider({ cacheable: true });
+    const client = createDistanceMatrixClient({ providers: [provider] });
+    const pairs = [
+      { from: seoulStation, to: cityHall },
+      { from: cityHall, to: myeongdong }
+    ];
+
+    const first = await client.estimatePairs(pairs, "driving");
+    const second = await client.estimatePairs(pairs, "driving");
+    const otherClient = await createDistanceMatrixClient({ providers: [provider] }).estimatePairs(pairs, "driving");
+
+    assert.equal(batches.length, 2);
+    assert.deepEqual(second, first);
+    assert.deepEqual(otherClient, first);
+
+    // The cache is keyed by mode as well as by the pair.
+    await client.estimatePairs(pairs, "walking");
+    assert.equal(batches.length, 4);
+  });
+
+  it("asks a non-cacheable provider again on every call", async () => {
+    const { provider, batches } = recordingProvider({ cacheable: false });
+    const client = createDistanceMatrixClient({ providers: [provider] });
+    const pairs = [{ from: seoulStation, to: cityHall }];
+
+    await client.estimatePairs(pairs, "driving");
+    await client.estimatePairs(pairs, "driving");
+
+    assert.equal(batches.length, 2);
+  });
+
+  it("batches destinations per origin up to the provider's batch size", async () => {
+    const { provider, batches } = recordingProvider({ maxBatchSize: 2 });
+    const client = createDistanceMatrixClient({ providers: [provider] });
+
+    await client.estimatePairs(
+      [
+        { from: seoulStation, to: cityHall },
+        { from: cityHall, to: gyeongbokgung },
+        { from: seoulStation, to: gyeongbokgung },
+        { from: seoulStation, to: myeongdong },
+        { from: seoulStation, to: namsanTower }
+      ],
+      "driving"
+    );
+
+    assert.deepEqual(batches, [
+      { origin: "서울역", destinations: ["서울시청", "경복궁"] },
+      { origin: "서울역", destinations: ["명동", "N서울타워"] },
+      { origin: "서울시청", destinations: ["경복궁"] }
+    ]);
+  });
+
+  it("leaves batches beyond a provider's request budget to the next provider", async () => {
+    const limited = recordingProvider({ maxBatchSize: 1, maxRequests: 1 });
+    const next = recordingProvider({ name: "next" });
+    const client = createDistanceMatrixClient({ providers: [limited.provider, next.provider] });
+
+    const estimates = await client.estimatePairs(
+      [
+        { from: seoulStation, to: cityHall },
+        { from: seoulStation, to: myeongdong }
+      ],
+      "driving"
+    );
+
+    assert.deepEqual(limited.batches, [{ origin: "서울역", destinations: ["서울시청"] }]);
+    assert.deepEqual(next.batches, [{ origin: "서울역", destinations: ["명동"] }]);
+    assert.deepEqual(
+      estimates.map((estimate) => estimate.durationMin),
+      [11.5, 9.4]
+    );
+  });
+
+  it("sends destinations beyond the batch radius one per request after the shared batches", async () => {
+    const limited = recordingProvider({ maxBatchRadiusKm: 1.4, maxRequests: 2 });
+    const next = recordingProvider({ name: "next" });
+    const client = createDistanceMatrixClient({ providers: [limited.provider, next.provider] });
+
+    await client.estimatePairs(
+      [
+        { from: seoulStation, to: namsanTower },
+        { from: seoulStation, to: gyeongbokgung },
+        { from: seoulStation, to: cityHall },
+        { from: seoulStation, to: myeongdong }
+      ],
+      "driving"
+    );
+
+    assert.deepEqual(limited.batches, [
+      { origin: "서울역", destinations: ["서울시청", "명동"] },
+      { origin: "서울역", destinations: ["N서울타워"] }
+    ]);
+    assert.deepEqual(next.batches, [{ origin: "서울역", destinations: ["경복궁"] }]);
+  });
+
+  it("skips a provider that fails for the rest of the client's lifetime", async () => {
+    let failingCalls = 0;
+    const failing: DistanceMatrixProvider = {
+      ...createFixtureDistanceMatrixProvider(fixture),
+      name: "failing",
+      estimateBatch: async () => {
+        failingCalls += 1;
+        throw new Error("quota exceeded");
+      }
+    };
+    const { provider, batches } = recordingProvider();
+    const errors: string[] = [];
+    const client = createDistanceMatrixClient({
+      providers: [failing, provider],
+      onProviderError: (failed, error) => errors.push(`${failed.name}: ${(error as Error).message}`)
+    });
+
+    const first = await client.estimatePairs([{ from: seoulStation, to: namsanTower }], "driving");
+    const second = await client.estimatePairs([{ from: namsanTower, to: seoulStation }], "driving");
+
+    assert.equal(failingCalls, 1);
+    assert.deepEqual(errors, ["failing: quota exceeded"]);
+    assert.equal(batches.length, 2);
+    assert.equal(first[0]?.durationMin, 12.8);
+    assert.equal(second[0]?.provider, "kakao");
+  });
+
+  it("falls back to a straight-line estimate for pairs no provider knows", async () => {
+    const client = createDistanceMatrixClient({ providers: [createFixtureDistanceMatrixProvider(fixture)] });
+
+    const [estimate] = await client.estimatePairs([{ from: seoulStation, to: gangneung }], "driving");
+
+    assert.equal(estimate?.provider, "fallback");
+    assert.ok(estimate && estimate.distanceKm > 200 && estimate.distanceKm < 250);
+    // Road distance is taken as 1.25x the straight line, driven at 35 km/h.
+    assert.ok(estimate && Math.abs(estimate.durationMin - (estimate.distanceKm / 35) * 60) < 0.1);
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { ERROR_CATALOG, ERROR_LOCALES, buildErrorBody, toFieldErrors } from "../src/errors/catalog";
+
+describe("error catalog", () => {
+  it("has a status and a message in every locale for each code", () => {
+    for (const [code, { status, messages }] of Object.entries(ERROR_CATALOG)) {
+      assert.match(code, /^[A-Z][A-Z_]+$/);
+      assert.ok(status >= 400 && status < 600, `${code} status`);
+      for (const locale of ERROR_LOCALES) {
+        assert.ok(messages[locale].trim().length > 0, `${code} ${locale} message`);
+      }
+    }
+  });
+
+  it("builds localized bodies and omits empty details", () => {
+    assert.deepEqual(buildErrorBody("TRIP_NOT_FOUND", "en"), { code: "TRIP_NOT_FOUND", message: "Trip not found." });
+    assert.deepEqual(buildErrorBody("TRIP_NOT_FOUND", "ko"), {
+      code: "TRIP_NOT_FOUND",
+      message: "여행을 찾을 수 없습니다."
+    });
+  });
+});
+
+describe("toFieldErrors", () => {
+  it("reads the field path that validation messages start with", () => {
+    assert.deepEqual(
+      toFieldErrors([
+        "title must not be empty",
+        "days[0].places[1].category is required and must be a string",
+        "At least one updatable field is required",
+        "Request body contains unknown fields: legacy"
+      ]),
+      [
+        { field: "title", message: "title must not be empty" },
+        {
+          field: "days[0].places[1].category",
+          message: "days[0].places[1].category is required and must be a string"
+        },
+        { message: "At least one updatable field is required" },
+        { message: "Request body contains unknown fields: legacy" }
+      ]
+    );
+  });
+});
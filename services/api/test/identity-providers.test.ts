@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { generateKeyPairSync } from "node:crypto";
+import { describe, it } from "node:test";
+import jwt from "jsonwebtoken";
+
+import {
+  createFakeCredential,
+  createIdentityVerifier,
+  type IdentityVerifierOptions
+} from "../src/services/identity-providers";
+import type { AppleSigningKey } from "../src/services/apple-auth.service";
+
+const APPLE_CLIENT_ID = "kr.tripmate.app";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const appleKey = { ...publicKey.export({ format: "jwk" }), kid: "test-key", alg: "RS256" } as AppleSigningKey;
+
+function signAppleToken(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+  return jwt.sign(claims, privateKey, {
+    algorithm: "RS256",
+    keyid: "test-key",
+    issuer: "https://appleid.apple.com",
+    audience: APPLE_CLIENT_ID,
+    expiresIn: 600,
+    ...options
+  });
+}
+
+function verifierWith(overrides: Partial<IdentityVerifierOptions> = {}) {
+  return createIdentityVerifier({
+    fetchKakaoUser: async () => {
+      throw new Error("kakao-auth responded with HTTP 401");
+    },
+    fetchNaverUser: async () => ({
+      resultcode: "00",
+      message: "success",
+      response: { id: "naver-123", email: "mom@naver.com", name: "김엄마" }
+    }),
+    fetchAppleKeys: async () => [appleKey],
+    appleClientIds: [APPLE_CLIENT_ID],
+    fakeEnabled: true,
+    ...overrides
+  });
+}
+
+describe("fake provider", () => {
+  it("round-trips the subject, e-mail and nickname", async () => {
+    const credential = createFakeCredential({ subject: "parent 01", email: "mom@example.com", nickname: "엄마" });
+    const result = await verifierWith().verify("fake", credential);
+
+    assert.deepEqual(result, {
+      ok: true,
+      identity: { provider: "fake", subject: "parent 01", email: "mom@example.com", nickname: "엄마", profileImage: null }
+    });
+  });
+
+  it("rejects malformed credentials and is off unless enabled", async () => {
+    assert.equal((await verifierWith().verify("fake", "fake:")).ok, false);
+    assert.equal((await verifierWith().verify("fake", "parent-01")).ok, false);
+
+    const disabled = verifierWith({ fakeEnabled: false });
+    assert.equal(disabled.isEnabled("fake"), false);
+    await assert.rejects(disabled.verify("fake", createFakeCredential({ subject: "parent-01" })));
+  });
+});
+
+describe("provider profiles", () => {
+  it("falls back to the Naver real name when there is no nickname", async () => {
+    const result = await verifierWith().verify("naver", "naver-access-token");
+    assert.ok(result.ok);
+    assert.equal(result.identity.subject, "naver-123");
+    assert.equal(result.identity.nickname, "김엄마");
+  });
+
+  it("turns a 401 from the provider into a rejected login", async () => {
+    assert.deepEqual(await verifierWith().verify("kakao", "expired"), { ok: false, code: "IDENTITY_TOKEN_INVALID" });
+  });
+
+  it("lets outages surface as errors", async () => {
+    const verifier = verifierWith({
+      fetchNaverUser: async () => {
+        throw new Error("naver-auth responded with HTTP 503");
+      }
+    });
+    await assert.rejects(verifier.verify("naver", "token"), /HTTP 503/);
+  });
+});
+
+describe("Apple identity tokens", () => {
+  it("accepts a token signed by a published key for our client id", async () => {
+    const token = signAppleToken({ sub: "001234.abcd", email: "x@privaterelay.appleid.com" });
+    const result = await verifierWith().verify("apple", token);
+    assert.ok(result.ok);
+    assert.equal(result.identity.subject, "001234.abcd");
+    assert.equal(result.identity.email, "x@privaterelay.appleid.com");
+  });
+
+  it("rejects other audiences and expired tokens", async () => {
+    const verifier = verifierWith();
+    assert.equal((await verifier.verify("apple", signAppleToken({ sub: "1" }, { audience: "com.other.app" }))).ok, false);
+    assert.equal((await verifier.verify("apple", signAppleToken({ sub: "1" }, { expiresIn: -10 }))).ok, false);
+  });
+
+  it("fetches the key list again once for an unknown kid", async () => {
+    const refreshes: boolean[] = [];
+    const verifier = verifierWith({
+      fetchAppleKeys: async (refresh = false) => {
+        refreshes.push(refresh);
+        return refresh ? [appleKey] : [];
+      }
+    });
+
+    assert.equal((await verifier.verify("apple", signAppleToken({ sub: "1" }))).ok, true);
+    assert.deepEqual(refreshes, [false, true]);
+  });
+
+  it("is disabled without a client id", () => {
+    assert.equal(verifierWith({ appleClientIds: [] }).isEnabled("apple"), false);
+  });
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  countUncoveredMealSlots,
+  insertMealSlots,
+  toMealRestaurant,
+  type DayStopInput,
+  type DayTimeline,
+  type MealRestaurant,
+  type MealSlotKind
+} from "../src/services/meal-slots";
+
+// Stops and restaurants without coordinates take no travel time, which keeps the clock exact.
+interface Stop extends DayStopInput {
+  name: string;
+}
+
+const stop = (name: string, overrides: Partial<Stop> = {}): Stop => ({ name, ...overrides });
+
+function restaurant(title: string, slot: MealSlotKind, category = "한식"): MealRestaurant {
+  return toMealRestaurant(
+    {
+      title,
+      link: "",
+      category,
+      description: "",
+      telephone: "",
+      address: "",
+      roadAddress: `제주시 ${title}로 1`,
+      mapx: "",
+      mapy: ""
+    },
+    slot
+  );
+}
+
+function describeTimeline(timeline: DayTimeline<Stop>): string[] {
+  return timeline.entries.map((entry) =>
+    entry.type === "stop"
+      ? `${entry.startTime}-${entry.endTime} ${entry.stop.name}`
+      : `${entry.startTime}-${entry.endTime} ${entry.label} ${entry.restaurant.item.title}`
+  );
+}
+
+const lunchAndDinner = [restaurant("자매국수", "lunch"), restaurant("돈사돈", "dinner")];
+
+describe("insertMealSlots", () => {
+  it("keeps stops in route order and pins meals to their slot times", () => {
+    const timeline = insertMealSlots(
+      [stop("용두암"), stop("동문시장"), stop("사라봉"), stop("별도봉")],
+      ["lunch", "dinner"],
+      lunchAndDinner,
+      new Set()
+    );
+
+    assert.deepEqual(describeTimeline(timeline), [
+      "09:00-10:30 용두암",
+      "10:30-12:00 동문시장",
+      "12:00-13:00 점심 자매국수",
+      "13:00-14:30 사라봉",
+      "14:30-16:00 별도봉",
+      "18:00-19:30 저녁 돈사돈"
+    ]);
+    assert.deepEqual(timeline.unplaced, []);
+  });
+
+  it("lets a stop that runs a little past meal time finish first", () => {
+    const timeline = insertMealSlots([stop("한라수목원")], ["lunch"], lunchAndDinner, new Set(), {
+      startTime: "10:45"
+    });
+
+    assert.deepEqual(describeTimeline(timeline), ["10:45-12:15 한라수목원", "12:15-13:15 점심 자매국수"]);
+  });
+
+  it("moves a stop after the meal when it would delay the meal too long", () => {
+    const timeline = insertMealSlots([stop("한라수목원")], ["lunch"], lunchAndDinner, new Set(), {
+      startTime: "11:15"
+    });
+
+    assert.deepEqual(describeTimeline(timeline), ["12:00-13:00 점심 자매국수", "13:00-14:30 한라수목원"]);
+  });
+
+  it("skips meals that are over before the day starts", () => {
+    const timeline = insertMealSlots([stop("성산일출봉")], ["lunch", "dinner"], lunchAndDinner, new Set(), {
+      startTime: "14:00"
+    });
+
+    assert.deepEqual(describeTimeline(timeline), ["14:00-15:30 성산일출봉", "18:00-19:30 저녁 돈사돈"]);
+  });
+
+  it("returns the stops that do not fit before the window ends instead of dropping them", () => {
+    const timeline = insertMealSlots([stop("용두암"), stop("동문시장"), stop("사라봉")], [], [], new Set(), {
+      endTime: "12:00"
+    });
+
+    assert.deepEqual(describeTimeline(timeline), ["09:00-10:30 용두암", "10:30-12:00 동문시장"]);
+    assert.deepEqual(timeline.unplaced.map((item) => item.name), ["사라봉"]);
+  });
+
+  it("keeps scheduling later stops after one that is closed", () => {
+    const timeline = insertMealSlots(
+      [stop("야시장", { openingHours: "19:00-22:00" }), stop("용두암"), stop("동문시장")],
+      [],
+      [],
+      new Set(),
+      { endTime: "18:00" }
+    );
+
+    assert.deepEqual(describeTimeline(timeline), ["09:00-10:30 용두암", "10:30-12:00 동문시장"]);
+    assert.deepEqual(timeline.unplaced.map((item) => item.name), ["야시장"]);
+  });
+
+  it("visits a stop inside its opening hours", () => {
+    const museum = stop("미술관", { openingHours: "10:00-18:00" });
+    const timeline = insertMealSlots([museum], [], [], new Set());
+
+    assert.deepEqual(describeTimeline(timeline), ["10:00-11:30 미술관"]);
+  });
+
+  it("reports every stop when the window closes before it opens", () => {
+    const timeline = insertMealSlots([stop("용두암")], ["lunch"], lunchAndDinner, new Set(), {
+      startTime: "20:00",
+      endTime: "19:00"
+    });
+
+    assert.deepEqual(timeline.entries, []);
+    assert.deepEqual(timeline.unplaced.map((item) => item.name), ["용두암"]);
+  });
+
+  it("does not serve the same restaurant twice across days", () => {
+    const usedKeys = new Set<string>();
+    const restaurants = [restaurant("자매국수", "lunch")];
+
+    const first = insertMealSlots([stop("용두암")], ["lunch"], restaurants, usedKeys);
+    const second = insertMealSlots([stop("사라봉")], ["lunch"], restaurants, usedKeys);
+
+    assert.equal(first.entries.filter((entry) => entry.type === "meal").length, 1);
+    assert.equal(second.entries.filter((entry) => entry.type === "meal").length, 0);
+  });
+
+  it("prefers the user's pick over searched restaurants", () => {
+    const pick = { ...restaurant("올래국수", "lunch"), selected: true };
+    const timeline = insertMealSlots([stop("용두암")], ["lunch"], [restaurant("자매국수", "lunch"), pick], new Set());
+
+    assert.deepEqual(describeTimeline(timeline), ["09:00-10:30 용두암", "12:00-13:00 점심 올래국수"]);
+  });
+});
+
+describe("countUncoveredMealSlots", () => {
+  it("counts the slots no restaurant can fill by category", () => {
+    const restaurants = [restaurant("자매국수", "lunch"), restaurant("카페 델문도", "cafe", "카페,디저트")];
+
+    assert.equal(countUncoveredMealSlots(2, ["lunch", "cafe"], restaurants), 2);
+    assert.equal(countUncoveredMealSlots(1, ["lunch", "cafe"], restaurants), 0);
+  });
+});
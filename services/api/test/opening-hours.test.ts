@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import { parseTourOpeningHours, readTourOpeningHours } from "../src/services/opening-hours";
+
+describe("parseTourOpeningHours", () => {
+  it("reads a single range and ignores last-entry notes", () => {
+    assert.deepEqual(parseTourOpeningHours("09:00~18:00<br>(입장마감 17:00)"), [{ open: "09:00", close: "18:00" }]);
+    assert.deepEqual(parseTourOpeningHours("10시 30분 - 22시"), [{ open: "10:30", close: "22:00" }]);
+  });
+
+  it("keeps only the hours every season shares", () => {
+    assert.deepEqual(
+      parseTourOpeningHours("하절기(3~10월) 09:00~19:00<br>동절기(11~2월) 09:30~17:30"),
+      [{ open: "09:30", close: "17:30" }]
+    );
+  });
+
+  it("keeps separate ranges apart and cuts breaks out", () => {
+    assert.deepEqual(parseTourOpeningHours("11:00~15:00 / 17:00~21:00"), [
+      { open: "11:00", close: "15:00" },
+      { open: "17:00", close: "21:00" }
+    ]);
+    assert.deepEqual(parseTourOpeningHours("10:00~22:00 (브레이크타임 15:00~17:00)"), [
+      { open: "10:00", close: "15:00" },
+      { open: "17:00", close: "22:00" }
+    ]);
+  });
+
+  it("runs late-night hours to the end of the day", () => {
+    assert.deepEqual(parseTourOpeningHours("18:00~02:00"), [{ open: "18:00", close: "24:00" }]);
+  });
+
+  it("resolves null when the text names no range or the place never closes", () => {
+    assert.equal(parseTourOpeningHours("상시 개방"), null);
+    assert.equal(parseTourOpeningHours("24시간 운영 (연중무휴)"), null);
+    assert.equal(parseTourOpeningHours("문의 064-710-7000"), null);
+    assert.equal(parseTourOpeningHours(undefined), null);
+  });
+});
+
+describe("readTourOpeningHours", () => {
+  it("reads the hours field of the content type in stored form", () => {
+    assert.equal(readTourOpeningHours("12", { usetime: "09:00~18:00" }), "09:00-18:00");
+    assert.equal(readTourOpeningHours("39", { opentimefood: "11:00~15:00, 17:00~21:00" }), "11:00-15:00,17:00-21:00");
+    assert.equal(readTourOpeningHours("32", { checkintime: "15:00" }), null);
+    assert.equal(readTourOpeningHours("12", null), null);
+  });
+});
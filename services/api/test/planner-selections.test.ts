@@ -0,0 +1,202 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  parseAttractionSelections,
+  parseLodgingSelection,
+  parseRestaurantSelections,
+  resolveAttractionSelections,
+  resolveLodging,
+  toLodgingStay,
+  type ContentDetailLookup
+} from "../src/services/planner-selections";
+import type { TourItem } from "../src/services/tourism.service";
+
+const seongsan: TourItem = {
+  contentid: "126452",
+  contenttypeid: "12",
+  title: "성산일출봉",
+  addr1: "제주특별자치도 서귀포시 성산읍 일출로 284-12",
+  mapx: "126.9423",
+  mapy: "33.4586"
+};
+
+// Trip days are local midnights, as the planner route builds them.
+const tripDays = [new Date(2026, 9, 20), new Date(2026, 9, 21), new Date(2026, 9, 22)];
+
+function lookupFrom(items: Record<string, TourItem>): ContentDetailLookup {
+  return async (contentId) => {
+    if (contentId === "broken") throw new Error("TourAPI timeout");
+    return items[contentId] ?? null;
+  };
+}
+
+describe("parseAttractionSelections", () => {
+  it("accepts content IDs and TourAPI items, keeping the first of each ID", () => {
+    const errors: string[] = [];
+    const selections = parseAttractionSelections(
+      [" 126452 ", { ...seongsan, contentid: 126452 }, { contentId: "264550", title: "만장굴" }],
+      "attractions",
+      errors
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(selections, [{ contentId: "126452" }, { contentId: "264550" }]);
+  });
+
+  it("keeps a complete item so it needs no lookup", () => {
+    const selections = parseAttractionSelections([seongsan], "attractions", []);
+
+    assert.equal(selections[0]?.item?.title, "성산일출봉");
+    assert.equal(selections[0]?.item?.mapy, "33.4586");
+  });
+
+  it("reports each malformed entry with its path", () => {
+    const errors: string[] = [];
+    parseAttractionSelections(["", 42, { title: "이름만" }], "attractions", errors);
+
+    assert.deepEqual(errors, [
+      "attractions[0] must be a non-empty content ID",
+      "attractions[1] must be a content ID string or a TourAPI item",
+      "attractions[2].contentid is required"
+    ]);
+  });
+
+  it("rejects a non-array and too many picks", () => {
+    const errors: string[] = [];
+    parseAttractionSelections("126452", "attractions", errors);
+    parseAttractionSelections(Array.from({ length: 31 }, (_, index) => String(index)), "attractions", errors);
+
+    assert.deepEqual(errors, ["attractions must be an array", "attractions must contain at most 30 items"]);
+  });
+});
+
+describe("parseRestaurantSelections", () => {
+  it("turns Naver items into picked meal restaurants, once per place", () => {
+    const errors: string[] = [];
+    const item = { title: "자매국수", category: "국수", roadAddress: "제주시 항골남길 46", mapx: "1265298000", mapy: "335107000" };
+    const restaurants = parseRestaurantSelections([item, { ...item }, { title: "  " }], "restaurants", errors);
+
+    assert.deepEqual(errors, ["restaurants[2].title is required and must be a non-empty string"]);
+    assert.equal(restaurants.length, 1);
+    assert.equal(restaurants[0]?.selected, true);
+    assert.equal(restaurants[0]?.sourceSlot, "lunch");
+    assert.equal(restaurants[0]?.lat, 33.5107);
+  });
+
+  it("files a picked cafe under the cafe slot", () => {
+    const restaurants = parseRestaurantSelections([{ title: "카페 델문도", category: "카페,디저트" }], "restaurants", []);
+
+    assert.equal(restaurants[0]?.sourceSlot, "cafe");
+  });
+});
+
+describe("parseLodgingSelection", () => {
+  it("accepts a typed lodging with coordinates", () => {
+    const errors: string[] = [];
+    const lodging = parseLodgingSelection(
+      { type: "resort", name: " 해비치 ", lat: 33.3248, lng: 126.8433 },
+      "lodging",
+      errors
+    );
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(lodging, { type: "resort", name: "해비치", lat: 33.3248, lng: 126.8433 });
+  });
+
+  it("rejects inherited object keys as a lodging type", () => {
+    for (const type of ["constructor", "toString", "__proto__", "hasOwnProperty"]) {
+      const errors: string[] = [];
+      const lodging = parseLodgingSelection({ type, name: "숙소" }, "lodging", errors);
+
+      assert.deepEqual(errors, ["lodging.type must be one of hotel, resort, pension, guesthouse, pool_villa"]);
+      assert.equal(lodging?.type, undefined);
+    }
+  });
+
+  it("reports unknown fields, empty text and half a coordinate", () => {
+    const errors: string[] = [];
+    parseLodgingSelection({ name: "", lat: 33.3, nights: 2 }, "lodging", errors);
+
+    assert.deepEqual(errors, [
+      "lodging contains unknown fields: nights",
+      "lodging.name must be a non-empty string",
+      "lodging.lat and lodging.lng must be given together as valid coordinates"
+    ]);
+  });
+
+  it("treats null as no lodging and a non-object as an error", () => {
+    const errors: string[] = [];
+
+    assert.equal(parseLodgingSelection(null, "lodging", errors), undefined);
+    assert.equal(parseLodgingSelection("호텔", "lodging", errors), undefined);
+    assert.deepEqual(errors, ["lodging must be an object"]);
+  });
+});
+
+describe("toLodgingStay", () => {
+  it("covers every night of the trip with the picked lodging", () => {
+    const stay = toLodgingStay(
+      { type: "pool_villa", contentId: "2755012", name: "제주 풀빌라", address: "제주시 애월읍", lat: 33.46, lng: 126.33 },
+      tripDays
+    );
+
+    assert.deepEqual(stay, {
+      name: "제주 풀빌라",
+      lat: 33.46,
+      lng: 126.33,
+      checkIn: new Date("2026-10-20T00:00:00.000Z"),
+      checkOut: new Date("2026-10-22T00:00:00.000Z"),
+      address: "제주시 애월읍",
+      contentId: "2755012",
+      memo: "풀빌라"
+    });
+  });
+
+  it("stores nothing without coordinates or without a night to stay", () => {
+    assert.equal(toLodgingStay({ name: "위치 모름 호텔" }, tripDays), null);
+    assert.equal(toLodgingStay({ name: "당일치기", lat: 33.46, lng: 126.33 }, tripDays.slice(0, 1)), null);
+    assert.equal(toLodgingStay(null, tripDays), null);
+  });
+});
+
+describe("resolveAttractionSelections", () => {
+  it("looks up bare IDs and reports the ones TourAPI cannot return", async () => {
+    const resolved = await resolveAttractionSelections(
+      [{ contentId: "126452" }, { contentId: "missing" }, { contentId: "broken" }],
+      lookupFrom({ "126452": seongsan })
+    );
+
+    assert.deepEqual(
+      resolved.attractions.map((item) => item.title),
+      ["성산일출봉"]
+    );
+    assert.deepEqual(resolved.missingContentIds, ["missing", "broken"]);
+  });
+});
+
+describe("resolveLodging", () => {
+  it("locates a TourAPI stay by content ID", async () => {
+    const hotel: TourItem = { ...seongsan, contentid: "2755012", contenttypeid: "32", title: "성산 호텔" };
+    const lodging = await resolveLodging({ type: "hotel", contentId: "2755012" }, lookupFrom({ "2755012": hotel }));
+
+    assert.deepEqual(lodging, {
+      type: "hotel",
+      contentId: "2755012",
+      name: "성산 호텔",
+      address: "제주특별자치도 서귀포시 성산읍 일출로 284-12",
+      lat: 33.4586,
+      lng: 126.9423
+    });
+  });
+
+  it("keeps a named lodging that cannot be located, and drops a bare type", async () => {
+    const lookup = lookupFrom({});
+
+    assert.deepEqual(await resolveLodging({ name: "친구 집", contentId: "broken" }, lookup), {
+      contentId: "broken",
+      name: "친구 집"
+    });
+    assert.equal(await resolveLodging({ type: "hotel" }, lookup), null);
+  });
+});
@@ -0,0 +1,208 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { describe, it } from "node:test";
+import jwt from "jsonwebtoken";
+
+import {
+  createRefreshSessions,
+  type RefreshSessionRecord,
+  type RefreshSessionStore,
+  type SessionTokenSigner
+} from "../src/services/refresh-sessions";
+import type { RefreshTokenPayload } from "../src/utils/jwt";
+
+const REFRESH_SECRET = "refresh-secret-for-tests-only-0123456789";
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const signer: SessionTokenSigner = {
+  generateAccessToken: (payload) => jwt.sign(payload, "access-secret-for-tests-only-01234567", { expiresIn: "1h" }),
+  generateRefreshToken: (payload) => jwt.sign(payload, REFRESH_SECRET, { expiresIn: "7d", jwtid: randomUUID() }),
+  verifyRefreshToken: (token) => jwt.verify(token, REFRESH_SECRET) as RefreshTokenPayload
+};
+
+// Mirrors the conditional updates of the Prisma store.
+function createMemoryStore() {
+  const records = new Map<string, RefreshSessionRecord>();
+  const store: RefreshSessionStore = {
+    async create(record) {
+      records.set(record.id, { ...record });
+    },
+    async find(sessionId) {
+      const record = records.get(sessionId);
+      return record ? { ...record } : null;
+    },
+    async listActive(userId, now) {
+      return [...records.values()]
+        .filter((record) => record.userId === userId && !record.revokedAt && record.expiresAt > now)
+        .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+    },
+    async rotate(sessionId, tokenHash, update) {
+      const record = records.get(sessionId);
+      if (!record || record.revokedAt || record.currentTokenHash !== tokenHash) {
+        return false;
+      }
+      Object.assign(record, update);
+      return true;
+    },
+    async revoke(sessionId, reason, revokedAt) {
+      const record = records.get(sessionId);
+      if (!record || record.revokedAt) {
+        return false;
+      }
+      Object.assign(record, { revokedAt, revokedReason: reason });
+      return true;
+    }
+  };
+  return { store, records };
+}
+
+function setup() {
+  let clock = Date.parse("2026-10-20T09:00:00Z");
+  const { store, records } = createMemoryStore();
+  const sessions = createRefreshSessions({ store, signer, ttlMs: TTL_MS, now: () => clock });
+  return {
+    sessions,
+    records,
+    advance(ms: number) {
+      clock += ms;
+    }
+  };
+}
+
+const phone = { deviceName: "민지의 iPhone", userAgent: "TripMate/1.4 iOS" };
+
+function silenceWarnings() {
+  const originalWarn = console.warn;
+  console.warn = () => undefined;
+  return () => {
+    console.warn = originalWarn;
+  };
+}
+
+describe("createRefreshSessions", () => {
+  it("rotates a refresh token into a new pair for the same session", async () => {
+    const { sessions, advance } = setup();
+    const issued = await sessions.start("user-1", phone);
+    advance(60_000);
+
+    const rotated = await sessions.rotate(issued.refreshToken);
+
+    assert.ok(rotated.ok);
+    assert.equal(rotated.tokens.sessionId, issued.sessionId);
+    assert.notEqual(rotated.tokens.refreshToken, issued.refreshToken);
+
+    const next = await sessions.rotate(rotated.tokens.refreshToken);
+    assert.equal(next.ok, true);
+  });
+
+  it("revokes the whole session when a rotated token is presented again", async () => {
+    const { sessions, records } = setup();
+    const issued = await sessions.start("user-1", phone);
+    const rotated = await sessions.rotate(issued.refreshToken);
+    assert.ok(rotated.ok);
+
+    const restore = silenceWarnings();
+    try {
+      assert.deepEqual(await sessions.rotate(issued.refreshToken), { ok: false, reason: "reused" });
+    } finally {
+      restore();
+    }
+
+    assert.equal(records.get(issued.sessionId)?.revokedReason, "reused");
+    // The legitimate holder's newer token dies with the session.
+    assert.deepEqual(await sessions.rotate(rotated.tokens.refreshToken), { ok: false, reason: "revoked" });
+  });
+
+  it("reports a signed-out session as revoked and keeps the first reason", async () => {
+    const { sessions, records } = setup();
+    const issued = await sessions.start("user-1", phone);
+
+    assert.equal(await sessions.revokeUserSession("user-1", issued.sessionId, "signed_out"), true);
+    assert.equal(await sessions.revokeUserSession("user-1", issued.sessionId, "logout"), false);
+
+    assert.deepEqual(await sessions.rotate(issued.refreshToken), { ok: false, reason: "revoked" });
+    assert.equal(records.get(issued.sessionId)?.revokedReason, "signed_out");
+  });
+
+  it("rejects expired sessions and tokens it did not sign", async () => {
+    const { sessions, advance } = setup();
+    const issued = await sessions.start("user-1", phone);
+
+    assert.deepEqual(await sessions.rotate("not-a-token"), { ok: false, reason: "invalid" });
+    const forged = jwt.sign({ userId: "user-1", sessionId: issued.sessionId }, "someone-elses-secret");
+    assert.deepEqual(await sessions.rotate(forged), { ok: false, reason: "invalid" });
+    const unknown = signer.generateRefreshToken({ userId: "user-1", sessionId: "missing" });
+    assert.deepEqual(await sessions.rotate(unknown), { ok: false, reason: "invalid" });
+
+    advance(TTL_MS);
+    assert.deepEqual(await sessions.rotate(issued.refreshToken), { ok: false, reason: "expired" });
+  });
+
+  it("refuses to sign out another user's session", async () => {
+    const { sessions } = setup();
+    const mine = await sessions.start("user-1", phone);
+
+    assert.equal(await sessions.revokeUserSession("user-2", mine.sessionId, "signed_out"), false);
+    assert.equal(await sessions.revokeUserSession("user-2", "missing", "signed_out"), false);
+
+    const rotated = await sessions.rotate(mine.refreshToken);
+    assert.equal(rotated.ok, true);
+  });
+
+  it("lists the user's active sessions, most recently used first", async () => {
+    const { sessions, advance } = setup();
+    const tablet = await sessions.start("user-1", { deviceName: "iPad", userAgent: null });
+    advance(60_000);
+    const current = await sessions.start("user-1", phone);
+    const signedOut = await sessions.start("user-1", { deviceName: "분실폰", userAgent: null });
+    await sessions.start("user-2", phone);
+    await sessions.revokeUserSession("user-1", signedOut.sessionId, "signed_out");
+    advance(60_000);
+    await sessions.rotate(tablet.refreshToken);
+
+    const listed = await sessions.list("user-1", current.sessionId);
+
+    assert.deepEqual(
+      listed.map((session) => [session.deviceName, session.current]),
+      [
+        ["iPad", false],
+        ["민지의 iPhone", true]
+      ]
+    );
+    assert.equal(listed[0]?.lastUsedAt, "2026-10-20T09:02:00.000Z");
+  });
+
+  it("answers isActive from a short cache that its own revocations bypass", async () => {
+    const { sessions, records, advance } = setup();
+    const phoneSession = await sessions.start("user-1", phone);
+    const tablet = await sessions.start("user-1", { deviceName: "iPad", userAgent: null });
+
+    assert.equal(await sessions.isActive("user-1", phoneSession.sessionId), true);
+    assert.equal(await sessions.isActive("user-2", phoneSession.sessionId), false);
+    assert.equal(await sessions.isActive("user-1", "missing"), false);
+
+    await sessions.revokeUserSession("user-1", phoneSession.sessionId, "signed_out");
+    assert.equal(await sessions.isActive("user-1", phoneSession.sessionId), false);
+
+    // Revoked elsewhere: the cached answer stands until it is 30 seconds old.
+    assert.equal(await sessions.isActive("user-1", tablet.sessionId), true);
+    Object.assign(records.get(tablet.sessionId)!, { revokedAt: new Date(), revokedReason: "signed_out" });
+    assert.equal(await sessions.isActive("user-1", tablet.sessionId), true);
+    advance(30_000);
+    assert.equal(await sessions.isActive("user-1", tablet.sessionId), false);
+  });
+
+  it("stops answering from the cache once the user's sessions are forgotten or expire", async () => {
+    const { sessions, records, advance } = setup();
+    const issued = await sessions.start("user-1", phone);
+    assert.equal(await sessions.isActive("user-1", issued.sessionId), true);
+
+    records.delete(issued.sessionId);
+    sessions.forgetUser("user-1");
+    assert.equal(await sessions.isActive("user-1", issued.sessionId), false);
+
+    const next = await sessions.start("user-1", phone);
+    advance(TTL_MS);
+    assert.equal(await sessions.isActive("user-1", next.sessionId), false);
+  });
+});
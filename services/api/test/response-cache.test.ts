@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  createMemoryCacheStore,
+  createResponseCache,
+  summarizeCacheLookups,
+  toCacheKey,
+  trackCacheLookups,
+  type CacheLookup,
+  type CacheRecord,
+  type CacheStore
+} from "../src/services/response-cache";
+
+function counter<T>(value: T) {
+  const calls = { count: 0 };
+  const load = async () => {
+    calls.count += 1;
+    return value;
+  };
+  return { calls, load };
+}
+
+function brokenStore(): CacheStore {
+  const fail = async () => {
+    throw new Error("disk I/O error");
+  };
+  return { name: "broken", get: fail, set: fail, clear: fail };
+}
+
+describe("toCacheKey", () => {
+  it("ignores key order and undefined params", () => {
+    assert.equal(
+      toCacheKey("tour.keyword", { keyword: "해운대", pageNo: 1, areaCode: undefined }),
+      toCacheKey("tour.keyword", { pageNo: 1, keyword: "해운대" })
+    );
+    assert.notEqual(toCacheKey("tour.keyword", { pageNo: 1 }), toCacheKey("tour.festivals", { pageNo: 1 }));
+  });
+});
+
+describe("createResponseCache", () => {
+  it("serves repeat calls from memory until the source TTL runs out", async () => {
+    let now = 0;
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(10)], now: () => now });
+    const { calls, load } = counter([{ contentid: "1" }]);
+
+    await cache.fetch("kma.forecast", { nx: 52, ny: 38 }, load);
+    now = 59 * 60 * 1000;
+    const cached = await cache.fetch("kma.forecast", { nx: 52, ny: 38 }, load);
+    assert.deepEqual(cached, [{ contentid: "1" }]);
+    assert.equal(calls.count, 1);
+
+    now = 61 * 60 * 1000;
+    await cache.fetch("kma.forecast", { nx: 52, ny: 38 }, load);
+    assert.equal(calls.count, 2);
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(2)] });
+    const { calls, load } = counter(["item"]);
+
+    await cache.fetch("tour.keyword", { keyword: "a" }, load);
+    await cache.fetch("tour.keyword", { keyword: "b" }, load);
+    await cache.fetch("tour.keyword", { keyword: "a" }, load);
+    await cache.fetch("tour.keyword", { keyword: "c" }, load);
+    assert.equal(calls.count, 3);
+
+    await cache.fetch("tour.keyword", { keyword: "a" }, load);
+    assert.equal(calls.count, 3);
+    await cache.fetch("tour.keyword", { keyword: "b" }, load);
+    assert.equal(calls.count, 4);
+  });
+
+  it("shares one upstream call between concurrent identical lookups", async () => {
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(10)] });
+    let release: (value: string[]) => void = () => undefined;
+    const upstream = new Promise<string[]>((resolve) => {
+      release = resolve;
+    });
+    let calls = 0;
+    const load = () => {
+      calls += 1;
+      return upstream;
+    };
+
+    const lookups: CacheLookup[] = [];
+    const results = trackCacheLookups(lookups, () =>
+      Promise.all([
+        cache.fetch("naver.local", { query: "제주 흑돼지" }, load),
+        cache.fetch("naver.local", { query: "제주 흑돼지" }, load),
+        cache.fetch("naver.local", { query: "제주 흑돼지" }, load)
+      ])
+    );
+    release(["돈사돈"]);
+
+    assert.deepEqual(await results, [["돈사돈"], ["돈사돈"], ["돈사돈"]]);
+    assert.equal(calls, 1);
+    assert.deepEqual(
+      lookups.map((lookup) => lookup.status).sort(),
+      ["coalesced", "coalesced", "miss"]
+    );
+  });
+
+  it("hands out copies so callers cannot change the cached value", async () => {
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(10)] });
+    const first = await cache.fetch("tour.detail", { contentId: "1" }, async () => ({ title: "성산일출봉" }));
+    first.title = "changed";
+
+    const second = await cache.fetch("tour.detail", { contentId: "1" }, async () => ({ title: "unused" }));
+    assert.equal(second.title, "성산일출봉");
+  });
+
+  it("does not cache failures or empty results", async () => {
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(10)] });
+
+    await assert.rejects(
+      cache.fetch("medical.hospitals", { pageNo: 1 }, async () => {
+        throw new Error("timeout");
+      })
+    );
+    const empty = counter<string[]>([]);
+    await cache.fetch("medical.hospitals", { pageNo: 1 }, empty.load);
+    await cache.fetch("medical.hospitals", { pageNo: 1 }, empty.load);
+    assert.equal(empty.calls.count, 2);
+  });
+
+  it("copies hits from a slower store into memory", async () => {
+    const persisted = new Map<string, CacheRecord>();
+    const slow: CacheStore = {
+      name: "slow",
+      get: async (key) => persisted.get(key) ?? null,
+      set: async (key, record) => {
+        persisted.set(key, record);
+      },
+      clear: async () => persisted.clear()
+    };
+    const key = toCacheKey("tour.attractions", { areaCode: "39" });
+    persisted.set(key, { source: "tour.attractions", value: '["persisted"]', expiresAt: Date.now() + 60_000 });
+
+    const memory = createMemoryCacheStore(10);
+    const cache = createResponseCache({ stores: [memory, slow] });
+    const { calls, load } = counter(["fresh"]);
+
+    assert.deepEqual(await cache.fetch("tour.attractions", { areaCode: "39" }, load), ["persisted"]);
+    assert.equal(calls.count, 0);
+    assert.equal((await memory.get(key, Date.now()))?.value, '["persisted"]');
+  });
+
+  it("falls through to the upstream call when a store fails", async () => {
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+      const cache = createResponseCache({ stores: [brokenStore()] });
+      const { calls, load } = counter(["live"]);
+
+      assert.deepEqual(await cache.fetch("kakao.address", { query: "제주시" }, load), ["live"]);
+      assert.equal(calls.count, 1);
+    } finally {
+      console.error = originalError;
+    }
+  });
+
+  it("clears a single source", async () => {
+    const cache = createResponseCache({ stores: [createMemoryCacheStore(10)] });
+    const forecast = counter(["forecast"]);
+    const attractions = counter(["attraction"]);
+
+    await cache.fetch("kma.forecast", {}, forecast.load);
+    await cache.fetch("tour.attractions", {}, attractions.load);
+    await cache.clear("kma.forecast");
+    await cache.fetch("kma.forecast", {}, forecast.load);
+    await cache.fetch("tour.attractions", {}, attractions.load);
+
+    assert.equal(forecast.calls.count, 2);
+    assert.equal(attractions.calls.count, 1);
+  });
+});
+
+describe("summarizeCacheLookups", () => {
+  it("reports HIT, MISS or PARTIAL", () => {
+    assert.equal(summarizeCacheLookups([]), null);
+    assert.equal(
+      summarizeCacheLookups([
+        { source: "kma.forecast", status: "hit" },
+        { source: "kma.forecast", status: "coalesced" }
+      ]),
+      "HIT"
+    );
+    assert.equal(summarizeCacheLookups([{ source: "kma.forecast", status: "miss" }]), "MISS");
+    assert.equal(
+      summarizeCacheLookups([
+        { source: "kma.forecast", status: "miss" },
+        { source: "tour.detail", status: "hit" }
+      ]),
+      "PARTIAL"
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { describe, it } from "node:test";
+
+import {
+  createDistanceMatrixClient,
+  createFixtureDistanceMatrixProvider,
+  loadDistanceMatrixFixture
+} from "../src/services/distance-matrix";
+import { solveWaypointOrder, type OptimizeRouteInput, type RoutePoint } from "../src/services/route-optimizer";
+
+const fixture = loadDistanceMatrixFixture(
+  path.join(__dirname, "..", "fixtures", "distance-matrix", "seoul-center-driving.json")
+);
+
+const point = (name: string, lat: number, lng: number): RoutePoint => ({ id: name, name, lat, lng });
+
+const seoulStation = point("서울역", 37.55595, 126.97231);
+const cityHall = point("서울시청", 37.56629, 126.97795);
+const gyeongbokgung = point("경복궁", 37.57961, 126.97704);
+const myeongdong = point("명동", 37.56365, 126.98262);
+const namsanTower = point("N서울타워", 37.55117, 126.98823);
+
+function solve(input: Omit<OptimizeRouteInput, "mode">) {
+  const client = createDistanceMatrixClient({ providers: [createFixtureDistanceMatrixProvider(fixture)] });
+  return solveWaypointOrder({ ...input, mode: "driving" }, client);
+}
+
+describe("solveWaypointOrder", () => {
+  it("orders the waypoints so a fixed end is reached last", async () => {
+    const solved = await solve({
+      start: seoulStation,
+      waypoints: [gyeongbokgung, cityHall, myeongdong],
+      end: namsanTower,
+      roundTrip: false
+    });
+
+    // 서울역 → 명동 → 경복궁 → 서울시청 → N서울타워 is 51.3 minutes; nearest-neighbour takes 55.8.
+    assert.deepEqual(
+      solved.orderedWaypoints.map((waypoint) => waypoint.name),
+      ["명동", "경복궁", "서울시청"]
+    );
+    assert.equal(solved.improvement.greedyDurationMin, 55.8);
+    assert.equal(solved.improvement.durationSavedMin, 4.5);
+  });
+
+  it("counts the ride back to the start on a round trip", async () => {
+    const waypoints = [gyeongbokgung, cityHall, myeongdong, namsanTower];
+
+    const roundTrip = await solve({ start: seoulStation, waypoints, roundTrip: true });
+    const oneWay = await solve({ start: seoulStation, waypoints, roundTrip: false });
+
+    // Ending at 경복궁 is quickest one way, but it is the slowest place to head back to 서울역 from.
+    assert.deepEqual(
+      roundTrip.orderedWaypoints.map((waypoint) => waypoint.name),
+      ["명동", "경복궁", "서울시청", "N서울타워"]
+    );
+    assert.deepEqual(
+      oneWay.orderedWaypoints.map((waypoint) => waypoint.name),
+      ["명동", "N서울타워", "서울시청", "경복궁"]
+    );
+  });
+
+  it("returns copies of the waypoints rather than the caller's objects", async () => {
+    const solved = await solve({ start: seoulStation, waypoints: [cityHall], roundTrip: false });
+
+    assert.deepEqual(solved.orderedWaypoints, [cityHall]);
+    assert.notEqual(solved.orderedWaypoints[0], cityHall);
+  });
+});
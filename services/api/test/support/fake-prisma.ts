@@ -0,0 +1,364 @@
+// In-memory stand-in for the parts of PrismaClient the routes use, for handler tests that cannot
+// start the query engine. It follows prisma/schema.prisma: ids, timestamps and defaults are filled
+// in, relations resolve through their foreign keys, and deletes cascade (or set null) as declared.
+// Only the query features the services use are supported; anything else throws.
+
+type Row = Record<string, unknown>;
+type Args = Record<string, any>;
+
+interface Relation {
+  model: string;
+  // Rows of `model` whose `foreign` field equals this row's `local` field.
+  local: string;
+  foreign: string;
+  many: boolean;
+}
+
+const many = (model: string, foreign: string): Relation => ({ model, local: "id", foreign, many: true });
+const one = (model: string, local: string): Relation => ({ model, local, foreign: "id", many: false });
+
+const RELATIONS: Record<string, Record<string, Relation>> = {
+  user: {
+    trips: many("trip", "userId"),
+    memberships: many("tripMember", "userId"),
+    tripInvites: many("tripInvite", "createdById"),
+    activities: many("tripActivity", "userId"),
+    profile: { model: "userProfile", local: "id", foreign: "userId", many: false },
+    sessions: many("refreshSession", "userId"),
+    identities: many("userIdentity", "userId")
+  },
+  userIdentity: { user: one("user", "userId") },
+  refreshSession: { user: one("user", "userId") },
+  userProfile: { user: one("user", "userId") },
+  trip: {
+    user: one("user", "userId"),
+    days: many("tripDay", "tripId"),
+    members: many("tripMember", "tripId"),
+    invites: many("tripInvite", "tripId"),
+    activities: many("tripActivity", "tripId"),
+    flights: many("tripFlight", "tripId"),
+    rentcars: many("tripRentcar", "tripId"),
+    stays: many("tripStay", "tripId")
+  },
+  tripMember: { trip: one("trip", "tripId"), user: one("user", "userId") },
+  tripInvite: { trip: one("trip", "tripId"), createdBy: one("user", "createdById") },
+  tripActivity: { trip: one("trip", "tripId"), user: one("user", "userId") },
+  tripDay: { trip: one("trip", "tripId"), places: many("tripPlace", "tripDayId") },
+  tripPlace: { tripDay: one("tripDay", "tripDayId") },
+  tripFlight: { trip: one("trip", "tripId") },
+  tripRentcar: { trip: one("trip", "tripId") },
+  tripStay: { trip: one("trip", "tripId") },
+  responseCacheEntry: {}
+};
+
+const DEFAULTS: Record<string, () => Row> = {
+  trip: () => ({ transport: null, companions: null, status: "draft" }),
+  user: () => ({ kakaoId: null, email: null, profileImage: null }),
+  userIdentity: () => ({ email: null }),
+  refreshSession: () => ({ deviceName: null, userAgent: null, lastUsedAt: new Date(), revokedAt: null, revokedReason: null }),
+  userProfile: () => ({ foods: "[]", childAgeGroups: "[]" }),
+  tripInvite: () => ({ revokedAt: null }),
+  tripActivity: () => ({ before: null, after: null, revertOfId: null, userId: null }),
+  tripPlace: () => ({ address: null, lat: null, lng: null, imageUrl: null, phone: null, memo: null, startTime: null, endTime: null, openingHours: null }),
+  tripFlight: () => ({ bookingReference: null, seat: null, memo: null }),
+  tripRentcar: () => ({ vehicleClass: null, insurance: null, cost: null, memo: null }),
+  tripStay: () => ({ address: null, contentId: null, bookingReference: null, phone: null, cost: null, memo: null })
+};
+
+// Models without createdAt/updatedAt columns.
+const UNTIMED = new Set(["tripDay", "tripPlace"]);
+const WITHOUT_UPDATED_AT = new Set(["refreshSession", "tripInvite", "tripActivity"]);
+// onDelete: SetNull instead of Cascade.
+const SET_NULL_ON_DELETE = new Set(["tripActivity.userId"]);
+
+function copy<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(copy) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, copy(entry)])) as T;
+  }
+  return value;
+}
+
+function comparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function isOperatorObject(value: unknown): value is Args {
+  return typeof value === "object" && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
+
+export function createFakePrisma() {
+  const tables = new Map<string, Row[]>(Object.keys(RELATIONS).map((model) => [model, []]));
+  let nextId = 1;
+
+  const table = (model: string): Row[] => {
+    const rows = tables.get(model);
+    if (!rows) throw new Error(`fake prisma: unknown model ${model}`);
+    return rows;
+  };
+
+  const related = (model: string, row: Row, relation: Relation): Row[] =>
+    table(relation.model).filter((candidate) => candidate[relation.foreign] === row[relation.local]);
+
+  function matchesScalar(actual: unknown, condition: unknown): boolean {
+    if (!isOperatorObject(condition)) {
+      return comparable(actual ?? null) === comparable(condition);
+    }
+
+    return Object.entries(condition).every(([operator, operand]) => {
+      const left = comparable(actual) as number;
+      const right = comparable(operand) as number;
+      switch (operator) {
+        case "equals":
+          return comparable(actual ?? null) === comparable(operand);
+        case "not":
+          return !matchesScalar(actual, operand);
+        case "in":
+          return (operand as unknown[]).some((item) => comparable(item) === comparable(actual));
+        case "notIn":
+          return !(operand as unknown[]).some((item) => comparable(item) === comparable(actual));
+        case "lt":
+          return actual != null && left < right;
+        case "lte":
+          return actual != null && left <= right;
+        case "gt":
+          return actual != null && left > right;
+        case "gte":
+          return actual != null && left >= right;
+        default:
+          throw new Error(`fake prisma: unsupported filter ${operator}`);
+      }
+    });
+  }
+
+  function matches(model: string, row: Row, where: Args | undefined): boolean {
+    if (!where) return true;
+
+    return Object.entries(where).every(([key, condition]) => {
+      if (condition === undefined) return true;
+      if (key === "OR") return (condition as Args[]).some((part) => matches(model, row, part));
+      if (key === "AND") return (condition as Args[]).every((part) => matches(model, row, part));
+      if (key === "NOT") return !matches(model, row, condition);
+
+      const relation = RELATIONS[model][key];
+      if (relation) {
+        const rows = related(model, row, relation);
+        if (!relation.many) return rows.length > 0 && matches(relation.model, rows[0], condition);
+        if (condition.some) return rows.some((child) => matches(relation.model, child, condition.some));
+        if (condition.none) return !rows.some((child) => matches(relation.model, child, condition.none));
+        if (condition.every) return rows.every((child) => matches(relation.model, child, condition.every));
+        throw new Error(`fake prisma: unsupported relation filter on ${model}.${key}`);
+      }
+
+      // Compound unique keys such as provider_subject: { provider, subject }.
+      if (!(key in row) && key.includes("_") && isOperatorObject(condition)) {
+        return matches(model, row, condition);
+      }
+
+      return matchesScalar(row[key], condition);
+    });
+  }
+
+  function sortRows(rows: Row[], orderBy: Args | Args[] | undefined): Row[] {
+    const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+    return [...rows].sort((a, b) => {
+      for (const order of orders) {
+        const [field, direction] = Object.entries(order)[0] as [string, "asc" | "desc"];
+        const left = comparable(a[field]) as number;
+        const right = comparable(b[field]) as number;
+        if (left !== right) {
+          const result = left == null ? -1 : right == null ? 1 : left < right ? -1 : 1;
+          return direction === "desc" ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  function query(model: string, args: Args = {}): Row[] {
+    let rows = sortRows(
+      table(model).filter((row) => matches(model, row, args.where)),
+      args.orderBy
+    );
+    if (args.cursor) {
+      const start = rows.findIndex((row) => matches(model, row, args.cursor));
+      rows = start === -1 ? [] : rows.slice(start);
+    }
+    if (args.skip) rows = rows.slice(args.skip);
+    if (args.take !== undefined) rows = rows.slice(0, args.take);
+    return rows;
+  }
+
+  function project(model: string, row: Row, args: Args = {}): Row {
+    const relations = RELATIONS[model];
+    const result: Row = {};
+
+    if (args.select) {
+      for (const [field, option] of Object.entries(args.select as Args)) {
+        if (!option) continue;
+        if (relations[field]) {
+          result[field] = projectRelation(model, row, field, option === true ? {} : option);
+        } else {
+          result[field] = copy(row[field]);
+        }
+      }
+      return result;
+    }
+
+    Object.assign(result, copy(row));
+    for (const [field, option] of Object.entries((args.include ?? {}) as Args)) {
+      if (!option) continue;
+      if (!relations[field]) throw new Error(`fake prisma: unknown relation ${model}.${field}`);
+      result[field] = projectRelation(model, row, field, option === true ? {} : option);
+    }
+    return result;
+  }
+
+  function projectRelation(model: string, row: Row, field: string, args: Args): unknown {
+    const relation = RELATIONS[model][field];
+    const rows = query(relation.model, {
+      ...args,
+      where: { ...args.where, [relation.foreign]: row[relation.local] }
+    });
+    if (relation.many) return rows.map((child) => project(relation.model, child, args));
+    return rows[0] ? project(relation.model, rows[0], args) : null;
+  }
+
+  function insert(model: string, data: Args, parent?: { field: string; value: unknown }): Row {
+    const now = new Date();
+    const row: Row = {
+      id: `${model}-${nextId++}`,
+      ...(DEFAULTS[model]?.() ?? {}),
+      ...(UNTIMED.has(model) ? {} : { createdAt: now }),
+      ...(UNTIMED.has(model) || WITHOUT_UPDATED_AT.has(model) ? {} : { updatedAt: now })
+    };
+    if (parent) row[parent.field] = parent.value;
+
+    const nested: Array<[Relation, Args]> = [];
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      const relation = RELATIONS[model][field];
+      if (relation) {
+        if (!relation.many || !isOperatorObject(value) || !("create" in value)) {
+          throw new Error(`fake prisma: unsupported nested write on ${model}.${field}`);
+        }
+        nested.push([relation, value]);
+      } else {
+        row[field] = copy(value);
+      }
+    }
+
+    table(model).push(row);
+    for (const [relation, write] of nested) {
+      const children = Array.isArray(write.create) ? write.create : [write.create];
+      for (const child of children) {
+        insert(relation.model, child, { field: relation.foreign, value: row[relation.local] });
+      }
+    }
+    return row;
+  }
+
+  function assign(model: string, row: Row, data: Args) {
+    for (const [field, value] of Object.entries(data)) {
+      if (value === undefined) continue;
+      if (RELATIONS[model][field] || isOperatorObject(value)) {
+        throw new Error(`fake prisma: unsupported update of ${model}.${field}`);
+      }
+      row[field] = copy(value);
+    }
+    if (!UNTIMED.has(model) && !WITHOUT_UPDATED_AT.has(model)) row.updatedAt = new Date();
+  }
+
+  function remove(model: string, row: Row) {
+    const rows = table(model);
+    rows.splice(rows.indexOf(row), 1);
+
+    for (const [childModel, relations] of Object.entries(RELATIONS)) {
+      for (const relation of Object.values(relations)) {
+        if (relation.many || relation.model !== model) continue;
+        for (const child of table(childModel).filter((candidate) => candidate[relation.local] === row.id)) {
+          if (SET_NULL_ON_DELETE.has(`${childModel}.${relation.local}`)) {
+            child[relation.local] = null;
+          } else {
+            remove(childModel, child);
+          }
+        }
+      }
+    }
+  }
+
+  function findOrThrow(model: string, where: Args): Row {
+    const row = query(model, { where })[0];
+    if (!row) throw Object.assign(new Error(`fake prisma: ${model} not found`), { code: "P2025" });
+    return row;
+  }
+
+  function delegate(model: string) {
+    return {
+      async findMany(args: Args = {}) {
+        return query(model, args).map((row) => project(model, row, args));
+      },
+      async findFirst(args: Args = {}) {
+        const row = query(model, args)[0];
+        return row ? project(model, row, args) : null;
+      },
+      async findUnique(args: Args) {
+        const row = query(model, { where: args.where })[0];
+        return row ? project(model, row, args) : null;
+      },
+      async count(args: Args = {}) {
+        return query(model, args).length;
+      },
+      async create(args: Args) {
+        return project(model, insert(model, args.data), args);
+      },
+      async update(args: Args) {
+        const row = findOrThrow(model, args.where);
+        assign(model, row, args.data);
+        return project(model, row, args);
+      },
+      async updateMany(args: Args) {
+        const rows = query(model, { where: args.where });
+        rows.forEach((row) => assign(model, row, args.data));
+        return { count: rows.length };
+      },
+      async upsert(args: Args) {
+        const existing = query(model, { where: args.where })[0];
+        if (existing) {
+          assign(model, existing, args.update);
+          return project(model, existing, args);
+        }
+        return project(model, insert(model, args.create), args);
+      },
+      async delete(args: Args) {
+        const row = findOrThrow(model, args.where);
+        const deleted = project(model, row, args);
+        remove(model, row);
+        return deleted;
+      },
+      async deleteMany(args: Args = {}) {
+        const rows = query(model, { where: args.where });
+        rows.forEach((row) => remove(model, row));
+        return { count: rows.length };
+      }
+    };
+  }
+
+  const client: Record<string, unknown> = {
+    // Writes apply immediately, so a failed callback is not rolled back.
+    async $transaction(work: unknown) {
+      if (typeof work === "function") return work(client);
+      return Promise.all(work as Promise<unknown>[]);
+    },
+    async $disconnect() {}
+  };
+  for (const model of Object.keys(RELATIONS)) {
+    client[model] = delegate(model);
+  }
+
+  return Object.assign(client, {
+    // For assertions: copies of every stored row of a model.
+    $rows: (model: string): Row[] => table(model).map(copy)
+  });
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+
+import { createFakePrisma } from "./fake-prisma";
+
+export interface CheckedResponse {
+  operationId: string;
+  status: number;
+  mismatches: string[];
+}
+
+export interface TestResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+// Starts the API routers on a random port over the in-memory database, with the contract response
+// check recording into `checked`. Config is read from process.env on import, so everything that
+// touches it is imported here, after the test values are set.
+export async function startTestApi() {
+  Object.assign(process.env, {
+    NODE_ENV: "test",
+    DATABASE_URL: "file:./unused.db",
+    JWT_ACCESS_SECRET: "access-secret-for-tests-only-01234567",
+    JWT_REFRESH_SECRET: "refresh-secret-for-tests-only-0123456789",
+    DATA_GO_KR_API_KEY: "unused",
+    RESPONSE_CACHE_STORE: "off",
+    AUTH_FAKE_PROVIDER: "true"
+  });
+  const prisma = createFakePrisma();
+  // config/database reuses a client already on globalThis.
+  (globalThis as { prisma?: unknown }).prisma = prisma;
+
+  const { default: express } = await import("express");
+  const { apiRouter } = await import("../../src/routes");
+  const { contractResponseCheck } = await import("../../src/middleware/contract-check");
+  const { errorHandler } = await import("../../src/middleware/error-handler");
+
+  const checked: CheckedResponse[] = [];
+  const app = express();
+  app.use(express.json());
+  app.use(
+    contractResponseCheck("/api/v1", (operation, status, mismatches) => {
+      checked.push({ operationId: operation.operationId, status, mismatches });
+    })
+  );
+  app.use("/api/v1", apiRouter);
+  app.use(errorHandler);
+
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+
+  async function request(method: string, path: string, body?: unknown, token?: string): Promise<TestResponse> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const text = await response.text();
+    return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : undefined };
+  }
+
+  // Returns the body after asserting the status; the failure message carries the body.
+  async function expectStatus(status: number, method: string, path: string, body?: unknown, token?: string) {
+    const response = await request(method, path, body, token);
+    assert.equal(response.status, status, `${method} ${path}: ${JSON.stringify(response.body)}`);
+    return response.body;
+  }
+
+  // Signs in with the fake provider; the same subject always maps to the same user.
+  async function signIn(subject: string): Promise<{ accessToken: string; refreshToken: string; userId: string }> {
+    const body = await expectStatus(200, "POST", "/auth/login/fake", {
+      credential: `fake:${subject}`,
+      deviceName: "test runner"
+    });
+    return { accessToken: body.accessToken, refreshToken: body.refreshToken, userId: body.user.id };
+  }
+
+  return {
+    prisma,
+    checked,
+    request,
+    expectStatus,
+    signIn,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve()))
+  };
+}
+
+export type TestApi = Awaited<ReturnType<typeof startTestApi>>;
@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+
+import { findOverlappingEvents, planEventOffers, type EventDay } from "../src/services/trip-events";
+import type { TourItem } from "../src/services/tourism.service";
+
+function loadFestivals(): TourItem[] {
+  const raw = readFileSync(path.join(__dirname, "..", "fixtures", "tourapi", "jeju-festivals-202610.json"), "utf8");
+  const fixture = JSON.parse(raw) as { response: { body: { items: { item: TourItem[] } } } };
+  return fixture.response.body.items.item;
+}
+
+function place(id: string, name: string, startTime: string | null, endTime: string | null, category = "attraction") {
+  return { id, name, category, lat: 33.51, lng: 126.52, startTime, endTime };
+}
+
+const tripDays: EventDay[] = [
+  {
+    dayNumber: 1,
+    date: new Date(2026, 9, 20),
+    // Landing at 13:30 leaves the afternoon only.
+    window: { startTime: "14:30" },
+    places: [
+      place("flight", "KE1201 제주국제공항 도착", "13:30", "14:30", "flight"),
+      place("market", "동문시장", "15:00", "16:30"),
+      place("dinner", "돈사돈", "18:00", "19:30", "restaurant")
+    ]
+  },
+  {
+    dayNumber: 2,
+    date: new Date(2026, 9, 21),
+    places: [place("arboretum", "한라수목원", "10:00", "11:30"), place("lunch", "자매국수", "12:00", "13:00")]
+  },
+  {
+    dayNumber: 3,
+    date: new Date(2026, 9, 22),
+    places: [place("festival", "탐라 문화제", "10:00", "12:00"), place("lodging", "제주 호텔", null, null, "lodging")]
+  }
+];
+
+describe("findOverlappingEvents", () => {
+  it("keeps festivals running during the trip, once each", () => {
+    const events = findOverlappingEvents(loadFestivals(), "2026-10-20", "2026-10-22");
+
+    assert.deepEqual(
+      events.map((event) => [event.name, event.startDate, event.endDate]),
+      [
+        ["탐라문화제", "2026-10-08", "2026-10-22"],
+        ["성산일출축제", "2026-10-21", "2026-10-21"],
+        ["제주올레걷기축제", "2026-10-22", "2026-11-05"]
+      ]
+    );
+    assert.equal(events[0]?.address, "제주특별자치도 제주시 관덕로 19 (삼도이동)");
+    assert.equal(events[1]?.phone, null);
+  });
+});
+
+describe("planEventOffers", () => {
+  const events = findOverlappingEvents(loadFestivals(), "2026-10-20", "2026-10-22");
+  const [arrival, middle, last] = planEventOffers(events, tripDays);
+
+  it("offers each festival on the days it runs", () => {
+    assert.deepEqual(
+      [arrival, middle, last].map((day) => [day?.date, day?.offers.map((offer) => offer.event.name)]),
+      [
+        ["2026-10-20", ["탐라문화제"]],
+        ["2026-10-21", ["탐라문화제", "성산일출축제"]],
+        ["2026-10-22", ["탐라문화제", "제주올레걷기축제"]]
+      ]
+    );
+  });
+
+  it("suggests the first free two hours within the usable part of the day", () => {
+    assert.deepEqual(middle?.offers[0]?.suggestedSlot, { startTime: "13:00", endTime: "15:00" });
+    assert.deepEqual(middle?.offers[0]?.conflicts, []);
+    assert.deepEqual(last?.offers[0]?.suggestedSlot, { startTime: "12:00", endTime: "14:00" });
+  });
+
+  it("flags days without room for a visit", () => {
+    const offer = arrival?.offers[0];
+    assert.equal(offer?.suggestedSlot, null);
+    assert.deepEqual(offer?.conflicts.map((conflict) => conflict.type), ["no_free_time"]);
+    assert.deepEqual(offer?.conflicts[0]?.placeIds, ["flight", "market", "dinner"]);
+  });
+
+  it("flags festivals far from the day's stops and ones already scheduled", () => {
+    const seongsan = middle?.offers.find((offer) => offer.event.name === "성산일출축제");
+    assert.deepEqual(seongsan?.conflicts.map((conflict) => conflict.type), ["far_from_day"]);
+    assert.ok((seongsan?.distanceKm ?? 0) > 20);
+
+    const tamna = last?.offers.find((offer) => offer.event.name === "탐라문화제");
+    assert.deepEqual(tamna?.conflicts.map((conflict) => conflict.type), ["already_scheduled"]);
+    assert.deepEqual(tamna?.conflicts[0]?.placeIds, ["festival"]);
+  });
+});
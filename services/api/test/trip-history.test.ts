@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { startTestApi, type TestApi } from "./support/test-api";
+
+const trip = {
+  title: "부산 먹방",
+  destination: "부산",
+  startDate: "2026-11-06T00:00:00+09:00",
+  endDate: "2026-11-08T00:00:00+09:00"
+};
+
+const market = { orderIndex: 0, name: "자갈치시장", category: "restaurant" };
+
+describe("trip history revert", () => {
+  let api: TestApi;
+  let accessToken = "";
+  let tripId = "";
+
+  const call = (method: string, path: string, body?: unknown) =>
+    api.request(method, `/trips/${tripId}${path}`, body, accessToken);
+  const expectCall = (status: number, method: string, path: string, body?: unknown) =>
+    api.expectStatus(status, method, `/trips/${tripId}${path}`, body, accessToken);
+  const addDay = async (dayNumber: number, places?: unknown[]) =>
+    (await expectCall(201, "POST", "/days", { dayNumber, date: "2026-11-06T00:00:00+09:00", places })).day;
+  // The newest entry with the action; entries are listed newest first.
+  const latestEntry = async (action: string) => {
+    const { entries } = await expectCall(200, "GET", "/history?limit=50");
+    return entries.find((entry: { action: string }) => entry.action === action);
+  };
+  const dayNumbers = () =>
+    api.prisma
+      .$rows("tripDay")
+      .filter((day) => day.tripId === tripId)
+      .map((day) => day.dayNumber)
+      .sort();
+
+  before(async () => {
+    api = await startTestApi();
+    accessToken = (await api.signIn("planner")).accessToken;
+  });
+
+  after(() => api?.close());
+
+  it("records a day update and restores its fields on revert", async () => {
+    tripId = (await api.expectStatus(201, "POST", "/trips", trip, accessToken)).trip.id;
+    const day = await addDay(1, [market]);
+    await expectCall(200, "PATCH", `/days/${day.id}`, { dayNumber: 2 });
+
+    const entry = await latestEntry("day.update");
+    assert.deepEqual([entry.entityId, entry.before.dayNumber, entry.after.dayNumber], [day.id, 1, 2]);
+
+    const reverted = await expectCall(200, "POST", `/history/${entry.id}/revert`);
+
+    assert.equal(reverted.revertedEntryId, entry.id);
+    assert.deepEqual(
+      reverted.trip.days.map((restored: { dayNumber: number; places: unknown[] }) => [
+        restored.dayNumber,
+        restored.places.length
+      ]),
+      [[1, 1]]
+    );
+    const revert = await latestEntry("activity.revert");
+    assert.deepEqual([revert.revertOfId, revert.before.dayNumber, revert.after.dayNumber], [entry.id, 2, 1]);
+  });
+
+  it("recreates a deleted day with its places", async () => {
+    tripId = (await api.expectStatus(201, "POST", "/trips", trip, accessToken)).trip.id;
+    const day = await addDay(1, [market, { ...market, orderIndex: 1, name: "해운대" }]);
+    await expectCall(204, "DELETE", `/days/${day.id}`);
+
+    const entry = await latestEntry("day.delete");
+    const reverted = await expectCall(200, "POST", `/history/${entry.id}/revert`);
+
+    assert.equal(reverted.trip.days[0].id, day.id);
+    assert.deepEqual(
+      reverted.trip.days[0].places.map((place: { name: string }) => place.name),
+      ["자갈치시장", "해운대"]
+    );
+  });
+
+  it("refuses to revert a day update onto a day number another day has taken", async () => {
+    tripId = (await api.expectStatus(201, "POST", "/trips", trip, accessToken)).trip.id;
+    const day = await addDay(1);
+    await expectCall(200, "PATCH", `/days/${day.id}`, { dayNumber: 3 });
+    await addDay(1);
+
+    const entry = await latestEntry("day.update");
+    const response = await call("POST", `/history/${entry.id}/revert`);
+
+    assert.equal(response.status, 409);
+    assert.equal(response.body.code, "HISTORY_DAY_NUMBER_TAKEN");
+    assert.deepEqual(dayNumbers(), [1, 3]);
+  });
+
+  it("refuses to bring back a deleted day whose number is in use again", async () => {
+    tripId = (await api.expectStatus(201, "POST", "/trips", trip, accessToken)).trip.id;
+    const day = await addDay(2, [market]);
+    await expectCall(204, "DELETE", `/days/${day.id}`);
+    await addDay(2);
+
+    const entry = await latestEntry("day.delete");
+    const response = await call("POST", `/history/${entry.id}/revert`);
+
+    assert.equal(response.status, 409);
+    assert.equal(response.body.code, "HISTORY_DAY_NUMBER_TAKEN");
+    assert.deepEqual(dayNumbers(), [2]);
+    assert.equal(await latestEntry("activity.revert"), undefined);
+  });
+
+  it("matches the contract in every response", () => {
+    assert.deepEqual(
+      api.checked.filter((entry) => entry.mismatches.length > 0),
+      []
+    );
+    assert.ok(api.checked.some((entry) => entry.operationId === "revertTripHistory" && entry.status === 409));
+  });
+});
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+
+import {
+  createUpstreamClient,
+  type UpstreamClientOptions,
+  type UpstreamResponse,
+  type UpstreamTransport
+} from "../src/services/upstream-client";
+
+// Replays the given outcomes in order; an Error stands for a request that got no response.
+function scriptedTransport(outcomes: (UpstreamResponse | Error)[]) {
+  const calls: { method: string; timeoutMs: number }[] = [];
+  const transport: UpstreamTransport = async (request) => {
+    calls.push({ method: request.method ?? "GET", timeoutMs: request.timeoutMs });
+    const outcome = outcomes[Math.min(calls.length - 1, outcomes.length - 1)];
+    if (!outcome || outcome instanceof Error) {
+      throw outcome ?? new Error("no outcome");
+    }
+    return outcome;
+  };
+  return { calls, transport };
+}
+
+function createClient(transport: UpstreamTransport, overrides: Partial<UpstreamClientOptions> = {}) {
+  const originalError = console.error;
+  return {
+    client: createUpstreamClient({ transport, sleep: async () => undefined, random: () => 0.5, ...overrides }),
+    silence() {
+      console.error = () => undefined;
+      return () => {
+        console.error = originalError;
+      };
+    }
+  };
+}
+
+const ok = (data: unknown): UpstreamResponse => ({ status: 200, data });
+
+describe("createUpstreamClient", () => {
+  it("retries idempotent GETs on timeouts and 5xx with the provider timeout", async () => {
+    const { calls, transport } = scriptedTransport([
+      new Error("timeout of 4000ms exceeded"),
+      { status: 503, data: "" },
+      ok({ items: [1] })
+    ]);
+    const { client } = createClient(transport);
+
+    assert.deepEqual(await client.get("tourapi", "https://example.test/areaBasedList2"), { items: [1] });
+    assert.equal(calls.length, 3);
+    assert.ok(calls.every((call) => call.timeoutMs === 4000));
+  });
+
+  it("backs off with jitter between attempts", async () => {
+    const delays: number[] = [];
+    const { transport } = scriptedTransport([{ status: 500, data: "" }]);
+    const { client } = createClient(transport, {
+      sleep: async (ms) => {
+        delays.push(ms);
+      }
+    });
+
+    await assert.rejects(client.get("kma", "https://example.test/getVilageFcst"), /kma responded with HTTP 500/);
+    assert.deepEqual(delays, [100, 200]);
+  });
+
+  it("does not retry POSTs or client errors", async () => {
+    const post = scriptedTransport([new Error("socket hang up")]);
+    const { client: postClient } = createClient(post.transport);
+    await assert.rejects(
+      postClient.request("kakao-mobility", { method: "POST", url: "https://example.test/destinations" }),
+      /kakao-mobility request failed: socket hang up/
+    );
+    assert.equal(post.calls.length, 1);
+
+    const unauthorized = scriptedTransport([{ status: 401, data: {} }]);
+    const { client } = createClient(unauthorized.transport);
+    await assert.rejects(client.get("kakao-auth", "https://example.test/user/me"), /HTTP 401/);
+    assert.equal(unauthorized.calls.length, 1);
+    assert.equal(client.health().find((entry) => entry.provider === "kakao-auth")?.consecutiveFailures, 0);
+  });
+
+  it("opens the circuit per provider and lets one trial through after the cooldown", async () => {
+    let now = 0;
+    const failing = scriptedTransport([new Error("ECONNRESET")]);
+    const { client, silence } = createClient(failing.transport, {
+      failureThreshold: 2,
+      cooldownMs: 1000,
+      now: () => now,
+      policies: { nemc: { retries: 0 } }
+    });
+    const restore = silence();
+
+    try {
+      await assert.rejects(client.get("nemc", "https://example.test/hospitals"));
+      await assert.rejects(client.get("nemc", "https://example.test/hospitals"));
+      await assert.rejects(client.get("nemc", "https://example.test/hospitals"), /circuit open/);
+      assert.equal(failing.calls.length, 2);
+
+      const health = client.health();
+      assert.equal(health.find((entry) => entry.provider === "nemc")?.state, "open");
+      assert.equal(health.find((entry) => entry.provider === "tourapi")?.state, "closed");
+
+      now = 1000;
+      await assert.rejects(client.get("nemc", "https://example.test/hospitals"), /ECONNRESET/);
+      assert.equal(failing.calls.length, 3);
+      assert.equal(client.health().find((entry) => entry.provider === "nemc")?.state, "open");
+    } finally {
+      restore();
+    }
+  });
+
+  it("closes the circuit when the trial request succeeds", async () => {
+    let now = 0;
+    const { transport } = scriptedTransport([new Error("ETIMEDOUT"), ok({ ok: true })]);
+    const { client, silence } = createClient(transport, {
+      failureThreshold: 1,
+      cooldownMs: 1000,
+      now: () => now,
+      policies: { juso: { retries: 0 } }
+    });
+    const restore = silence();
+
+    try {
+      await assert.rejects(client.get("juso", "https://example.test/addrLinkApi.do"));
+      now = 1500;
+      assert.deepEqual(await client.get("juso", "https://example.test/addrLinkApi.do"), { ok: true });
+
+      const juso = client.health().find((entry) => entry.provider === "juso");
+      assert.equal(juso?.state, "closed");
+      assert.equal(juso?.lastError, "juso request failed: ETIMEDOUT");
+    } finally {
+      restore();
+    }
+  });
+
+  it("redacts credentials from recorded errors", async () => {
+    const { transport } = scriptedTransport([new Error("connect failed for https://example.test?serviceKey=abc123&x=1")]);
+    const { client, silence } = createClient(transport, { policies: { airkorea: { retries: 0 } } });
+    const restore = silence();
+
+    try {
+      await assert.rejects(client.get("airkorea", "https://example.test"), (error: Error) => !error.message.includes("abc123"));
+      assert.match(client.health().find((entry) => entry.provider === "airkorea")?.lastError ?? "", /\[REDACTED\]/);
+    } finally {
+      restore();
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+
+import { COMPANION_TYPES, FOOD_PREFERENCES } from "../src/services/planner-preferences";
+import { startTestApi, type TestApi } from "./support/test-api";
+
+const profile = {
+  companion: "family_kids",
+  purpose: "relaxation",
+  travelStyle: "J",
+  transport: "car",
+  foods: ["korean", "seafood", "korean"],
+  childAgeGroups: ["3_5", "3_5", "8_10"]
+};
+
+describe("PUT /auth/me/profile", () => {
+  let api: TestApi;
+  let accessToken = "";
+  const save = (body: unknown) => api.request("PUT", "/auth/me/profile", body, accessToken);
+  const messages = (body: { details?: Array<{ message: string }> }) => body.details?.map((detail) => detail.message);
+
+  before(async () => {
+    api = await startTestApi();
+    accessToken = (await api.signIn("traveler")).accessToken;
+  });
+
+  after(() => api?.close());
+
+  it("saves the profile with repeated list entries dropped", async () => {
+    const response = await save(profile);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      { ...response.body.profile, updatedAt: undefined },
+      { ...profile, foods: ["korean", "seafood"], childAgeGroups: ["3_5", "8_10"], updatedAt: undefined }
+    );
+    const saved = await api.expectStatus(200, "GET", "/auth/me/profile", undefined, accessToken);
+    assert.deepEqual(saved.profile, response.body.profile);
+  });
+
+  it("requires every single-choice field and known enum values", async () => {
+    const response = await save({ companion: "pets", purpose: "sightseeing", foods: ["pizza"], mood: "calm" });
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(messages(response.body), [
+      "Request body contains unknown fields: mood",
+      `companion is required and must be one of ${COMPANION_TYPES.join(", ")}`,
+      "travelStyle is required and must be one of J, P",
+      "transport is required and must be one of car, transit, walk",
+      `foods[0] is required and must be one of ${FOOD_PREFERENCES.join(", ")}`
+    ]);
+  });
+
+  it("requires child age groups for trips with kids and rejects them otherwise", async () => {
+    const withoutAges = await save({ ...profile, childAgeGroups: [] });
+    assert.equal(withoutAges.status, 400);
+    assert.deepEqual(messages(withoutAges.body), ["childAgeGroups must not be empty when companion is family_kids"]);
+
+    const { childAgeGroups: _omitted, ...withoutField } = profile;
+    assert.deepEqual(messages((await save(withoutField)).body), [
+      "childAgeGroups must not be empty when companion is family_kids"
+    ]);
+
+    const couple = await save({ ...profile, companion: "couple" });
+    assert.equal(couple.status, 400);
+    assert.deepEqual(messages(couple.body), ["childAgeGroups is only allowed when companion is family_kids"]);
+
+    const coupleWithoutAges = await save({ ...profile, companion: "couple", childAgeGroups: [] });
+    assert.equal(coupleWithoutAges.status, 200);
+    assert.deepEqual(coupleWithoutAges.body.profile.childAgeGroups, []);
+  });
+
+  it("matches the contract in every response", () => {
+    assert.deepEqual(
+      api.checked.filter((entry) => entry.mismatches.length > 0),
+      []
+    );
+    assert.ok(api.checked.some((entry) => entry.operationId === "saveProfile" && entry.status === 400));
+  });
+});
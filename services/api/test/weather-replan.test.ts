@@ -0,0 +1,164 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+
+import {
+  isOutdoorPlace,
+  proposeIndoorSwaps,
+  summarizeDayWeather,
+  type DayWeather,
+  type WeatherCheckDay,
+  type WeatherCheckPlace
+} from "../src/services/weather-replan";
+import type { TourItem } from "../src/services/tourism.service";
+import type { WeatherApiResponse, WeatherItem } from "../src/services/weather.service";
+
+function loadFixture(name: string): WeatherItem[] {
+  const raw = readFileSync(path.join(__dirname, "..", "fixtures", "kma", name), "utf8");
+  const fixture = JSON.parse(raw) as WeatherApiResponse;
+  return fixture.response.body.items?.item ?? [];
+}
+
+const attraction = (name: string) => ({ name, category: "attraction" });
+
+function place(id: string, name: string, lat: number | null, lng: number | null): WeatherCheckPlace {
+  return { id, name, category: "attraction", lat, lng };
+}
+
+function indoor(contentid: string, title: string, lat: number, lng: number): TourItem {
+  return { contentid, contenttypeid: "14", title, addr1: "제주특별자치도", mapx: String(lng), mapy: String(lat) };
+}
+
+const wet: DayWeather = { maxPop: 80, precipitation: "rain", wet: true };
+const dry: DayWeather = { maxPop: 0, precipitation: null, wet: false };
+
+describe("isOutdoorPlace", () => {
+  it("flags attractions whose names point outdoors", () => {
+    for (const name of ["협재해수욕장", "사려니숲길", "천지연폭포", "한라산", "새별오름", "에코랜드 테마파크", "송악산 둘레길"]) {
+      assert.equal(isOutdoorPlace(attraction(name)), true, name);
+    }
+  });
+
+  it("keeps indoor names indoors even when they also match an outdoor word", () => {
+    for (const name of ["제주도립미술관", "아쿠아플라넷 제주", "한라수목원 전시관", "공원 실내 놀이터"]) {
+      assert.equal(isOutdoorPlace(attraction(name)), false, name);
+    }
+  });
+
+  it("leaves names it cannot classify and anything that is not an attraction", () => {
+    assert.equal(isOutdoorPlace(attraction("성산일출봉")), false);
+    assert.equal(isOutdoorPlace(attraction("우도")), false);
+    assert.equal(isOutdoorPlace({ name: "협재해변 카페", category: "cafe" }), false);
+    assert.equal(isOutdoorPlace({ name: "해안 횟집", category: "restaurant" }), false);
+  });
+});
+
+describe("summarizeDayWeather", () => {
+  const jeju = loadFixture("jeju-20261020-0500.json");
+
+  it("marks a rainy day as wet and a dry one as not", () => {
+    assert.deepEqual(summarizeDayWeather(jeju, new Date(2026, 9, 21)), wet);
+    assert.deepEqual(summarizeDayWeather(jeju, new Date(2026, 9, 20)), dry);
+  });
+
+  it("returns null past the end of the forecast", () => {
+    assert.equal(summarizeDayWeather(jeju, new Date(2026, 9, 22)), null);
+  });
+
+  it("treats a day as wet once the chance of rain reaches the threshold", () => {
+    const seoul = loadFixture("seoul-20261020-1400.json");
+
+    assert.equal(summarizeDayWeather(seoul, new Date(2026, 9, 21))?.wet, false);
+    assert.equal(summarizeDayWeather(seoul, new Date(2026, 9, 21), 10)?.wet, true);
+  });
+});
+
+describe("proposeIndoorSwaps", () => {
+  const museum = indoor("2001", "제주도립미술관", 33.4526, 126.4893);
+  const aquarium = indoor("2002", "아쿠아플라넷 제주", 33.433, 126.9276);
+
+  it("swaps outdoor stops on wet days only, using the KMA forecast", () => {
+    const jeju = loadFixture("jeju-20261020-0500.json");
+    const days: WeatherCheckDay[] = [20, 21, 22].map((date, index) => ({
+      dayNumber: index + 1,
+      date: new Date(2026, 9, date),
+      places: [place(`p${index + 1}`, "새별오름", 33.3662, 126.3577)]
+    }));
+    const weatherByDay = new Map(days.map((day) => [day.dayNumber, summarizeDayWeather(jeju, day.date)]));
+
+    const checks = proposeIndoorSwaps(days, weatherByDay, [museum, aquarium]);
+
+    assert.deepEqual(
+      checks.map((check) => [check.date, check.weather?.wet ?? null, check.swaps.length]),
+      [
+        ["2026-10-20", false, 0],
+        ["2026-10-21", true, 1],
+        ["2026-10-22", null, 0]
+      ]
+    );
+    assert.deepEqual(checks[1]?.swaps[0], {
+      placeId: "p2",
+      placeName: "새별오름",
+      replacement: {
+        contentId: "2001",
+        name: "제주도립미술관",
+        category: "attraction",
+        address: "제주특별자치도",
+        lat: 33.4526,
+        lng: 126.4893,
+        imageUrl: null,
+        distanceKm: 15.5
+      }
+    });
+  });
+
+  it("only offers replacements within 30 km", () => {
+    const near = indoor("3001", "가까운 박물관", 33.76, 126.5);
+    const far = indoor("3002", "먼 박물관", 33.78, 126.5);
+    const days: WeatherCheckDay[] = [
+      { dayNumber: 1, date: new Date(2026, 9, 21), places: [place("p1", "해안 산책로", 33.5, 126.5)] }
+    ];
+
+    const withNear = proposeIndoorSwaps(days, new Map([[1, wet]]), [far, near]);
+    const farOnly = proposeIndoorSwaps(days, new Map([[1, wet]]), [far]);
+
+    assert.equal(withNear[0]?.swaps[0]?.replacement?.contentId, "3001");
+    assert.equal(withNear[0]?.swaps[0]?.replacement?.distanceKm, 28.9);
+    assert.deepEqual(farOnly[0]?.swaps, [{ placeId: "p1", placeName: "해안 산책로", replacement: null }]);
+  });
+
+  it("uses each replacement once across all days", () => {
+    const days: WeatherCheckDay[] = [
+      { dayNumber: 1, date: new Date(2026, 9, 21), places: [place("p1", "용두암 해안", 33.5163, 126.5119)] },
+      { dayNumber: 2, date: new Date(2026, 9, 22), places: [place("p2", "사라봉 공원", 33.5176, 126.5412)] },
+      { dayNumber: 3, date: new Date(2026, 9, 23), places: [place("p3", "별도봉 산책로", 33.5205, 126.5525)] }
+    ];
+    const weatherByDay = new Map(days.map((day) => [day.dayNumber, wet]));
+
+    const checks = proposeIndoorSwaps(days, weatherByDay, [museum, indoor("2003", "국립제주박물관", 33.5131, 126.549)]);
+
+    assert.deepEqual(
+      checks.map((check) => check.swaps[0]?.replacement?.name ?? null),
+      ["국립제주박물관", "제주도립미술관", null]
+    );
+  });
+
+  it("skips candidates already on the itinerary and stops without coordinates", () => {
+    const days: WeatherCheckDay[] = [
+      {
+        dayNumber: 1,
+        date: new Date(2026, 9, 21),
+        places: [place("p1", "한라수목원", 33.4699, 126.4932), place("p2", "이름만 있는 해변", null, null)]
+      },
+      { dayNumber: 2, date: new Date(2026, 9, 22), places: [place("p3", "제주도립미술관", 33.4526, 126.4893)] }
+    ];
+
+    const checks = proposeIndoorSwaps(days, new Map([[1, wet]]), [museum]);
+
+    assert.deepEqual(checks[0]?.swaps, [
+      { placeId: "p1", placeName: "한라수목원", replacement: null },
+      { placeId: "p2", placeName: "이름만 있는 해변", replacement: null }
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+
+import { latestForecastBase, normalizeForecast } from "../src/services/weather-summary";
+import type { WeatherApiResponse, WeatherItem } from "../src/services/weather.service";
+
+function loadFixture(name: string): WeatherItem[] {
+  const raw = readFileSync(path.join(__dirname, "..", "fixtures", "kma", name), "utf8");
+  const fixture = JSON.parse(raw) as WeatherApiResponse;
+  return fixture.response.body.items?.item ?? [];
+}
+
+describe("latestForecastBase", () => {
+  it("picks the most recent run that has been published", () => {
+    assert.deepEqual(latestForecastBase(new Date("2026-10-20T05:30:00Z")), {
+      baseDate: "20261020",
+      baseTime: "1400"
+    });
+    // 14:05 KST: the 14:00 run is not out yet.
+    assert.deepEqual(latestForecastBase(new Date("2026-10-20T05:05:00Z")), {
+      baseDate: "20261020",
+      baseTime: "1100"
+    });
+  });
+
+  it("falls back to the previous day's 23:00 run after midnight KST", () => {
+    assert.deepEqual(latestForecastBase(new Date("2026-10-20T16:30:00Z")), {
+      baseDate: "20261020",
+      baseTime: "2300"
+    });
+    assert.deepEqual(latestForecastBase(new Date("2026-10-20T17:15:00Z")), {
+      baseDate: "20261021",
+      baseTime: "0200"
+    });
+  });
+});
+
+describe("normalizeForecast", () => {
+  it("summarizes each forecast date from the 05:00 run", () => {
+    const days = normalizeForecast(loadFixture("jeju-20261020-0500.json"));
+
+    assert.deepEqual(
+      days.map((day) => day.date),
+      ["2026-10-20", "2026-10-21"]
+    );
+
+    const [today, tomorrow] = days;
+    assert.equal(today?.hourly.length, 18);
+    assert.equal(today?.hourly[0]?.time, "06:00");
+    assert.equal(today?.minTemperature, 13);
+    assert.equal(today?.maxTemperature, 22);
+    assert.equal(today?.precipitationType, null);
+    assert.equal(today?.maxPrecipitationProbability, 0);
+
+    assert.equal(tomorrow?.hourly.length, 24);
+    assert.equal(tomorrow?.sky, "cloudy");
+    assert.equal(tomorrow?.precipitationType, "rain");
+    assert.equal(tomorrow?.maxPrecipitationProbability, 80);
+    assert.equal(tomorrow?.minTemperature, 14);
+    assert.equal(tomorrow?.maxTemperature, 18);
+  });
+
+  it("parses hourly categories into typed values", () => {
+    const tomorrow = normalizeForecast(loadFixture("jeju-20261020-0500.json"))[1];
+    const noon = tomorrow?.hourly.find((hour) => hour.time === "12:00");
+
+    assert.deepEqual(noon, {
+      time: "12:00",
+      temperature: 18,
+      sky: "cloudy",
+      precipitationType: "rain",
+      precipitationProbability: 80,
+      humidity: 90,
+      windSpeed: 6.2,
+      windDirection: 160
+    });
+    assert.equal(tomorrow?.maxWindSpeed, 6.5);
+  });
+
+  it("derives the temperature range from TMP when TMN/TMX are missing", () => {
+    const [today, tomorrow] = normalizeForecast(loadFixture("seoul-20261020-1400.json"));
+
+    // The 14:00 run no longer carries today's minimum.
+    assert.equal(today?.hourly[0]?.time, "15:00");
+    assert.equal(today?.minTemperature, 9);
+    assert.equal(today?.maxTemperature, 18);
+
+    // -999 is KMA's missing value, not a temperature.
+    assert.equal(tomorrow?.minTemperature, 6);
+    assert.equal(tomorrow?.sky, "clear");
+    assert.equal(tomorrow?.precipitationType, "snow");
+    assert.equal(tomorrow?.maxPrecipitationProbability, 60);
+  });
+
+  it("returns no days for an empty response", () => {
+    assert.deepEqual(normalizeForecast([]), []);
+  });
+});